@@ -3,12 +3,18 @@ import { Home } from "./pages/Home";
 import { Leaderboard } from "./pages/Leaderboard";
 import { Profile } from "./pages/Profile";
 import { SnippetPage } from "./pages/SnippetPage";
+import { CollectionPage } from "./pages/CollectionPage";
 import { BackupManagement } from "./pages/BackupManagement";
+import { CategoryManagement } from "./pages/CategoryManagement";
+import { UserManagement } from "./pages/UserManagement";
 import { SitemapPage } from "./pages/SitemapPage";
 import { NewSnippetModal } from "./components/NewSnippetModal";
+import { NotificationBell } from "./components/NotificationBell";
 import { AuthPage } from "./pages/AuthPage";
 import { ResetPasswordPage } from "./pages/ResetPasswordPage";
+import { UnsubscribePage } from "./pages/UnsubscribePage";
 import { useUser } from "./hooks/use-user";
+import { hasRole } from "./lib/roles";
 import { Loader2 } from "lucide-react";
 import { Button } from "./components/ui/button";
 import "./styles/topbar.css";
@@ -56,6 +62,7 @@ function App() {
             <div className="flex items-center gap-2">
               {user ? (
                 <>
+                  <NotificationBell />
                   <Button 
                     variant="ghost" 
                     size="sm"
@@ -82,11 +89,15 @@ function App() {
         <Route path="/" component={Home} />
         <Route path="/auth" component={AuthPage} />
         <Route path="/reset-password" component={ResetPasswordPage} />
+        <Route path="/unsubscribe" component={UnsubscribePage} />
         <Route path="/leaderboard" component={Leaderboard} />
         <Route path="/profile/:name" component={Profile} />
         <Route path="/snippet/:id" component={SnippetPage} />
+        <Route path="/collection/:id" component={CollectionPage} />
         <Route path="/sitemap" component={SitemapPage} />
-        {user?.isAdmin && <Route path="/backups" component={BackupManagement} />}
+        {hasRole(user, "admin") && <Route path="/backups" component={BackupManagement} />}
+        {hasRole(user, "admin") && <Route path="/admin/categories" component={CategoryManagement} />}
+        {hasRole(user, "admin") && <Route path="/admin/users" component={UserManagement} />}
       </Switch>
       
       <footer className="border-t mt-12 py-4 text-sm text-center text-muted-foreground">
@@ -0,0 +1,149 @@
+/**
+ * ActiveSessions Component
+ *
+ * The list of devices and browsers the user is logged in on, shown on their
+ * own profile with when each session started and was last used. "Sign out
+ * of all devices" ends every session, this one included.
+ */
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { formatDistanceToNow } from "date-fns";
+import { LogOut, Monitor } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { toast } from "@/hooks/use-toast";
+import { readApiError } from "@/lib/api-error";
+import type { UserSession } from "@/lib/types";
+
+/**
+ * A short "Browser on OS" description of a user agent string
+ */
+function describeUserAgent(userAgent: string | null): string {
+  if (!userAgent) return "Unknown device";
+
+  const browser =
+    /Edg\//.test(userAgent) ? "Edge" :
+    /OPR\/|Opera/.test(userAgent) ? "Opera" :
+    /Firefox\//.test(userAgent) ? "Firefox" :
+    /Chrome\//.test(userAgent) ? "Chrome" :
+    /Safari\//.test(userAgent) ? "Safari" :
+    null;
+  const os =
+    /iPhone|iPad/.test(userAgent) ? "iOS" :
+    /Android/.test(userAgent) ? "Android" :
+    /Windows/.test(userAgent) ? "Windows" :
+    /Mac OS X|Macintosh/.test(userAgent) ? "macOS" :
+    /Linux/.test(userAgent) ? "Linux" :
+    null;
+
+  if (browser && os) return `${browser} on ${os}`;
+  return browser ?? os ?? userAgent.slice(0, 60);
+}
+
+export function ActiveSessions() {
+  const queryClient = useQueryClient();
+  const [, setLocation] = useLocation();
+  const [confirming, setConfirming] = useState(false);
+
+  const { data: sessions = [] } = useQuery<UserSession[]>({
+    queryKey: ["/api/sessions"],
+  });
+
+  const signOutAllMutation = useMutation({
+    mutationFn: async () => {
+      const res = await fetch("/api/sessions", {
+        method: "DELETE",
+        credentials: "include",
+      });
+      if (!res.ok) throw await readApiError(res, "Failed to sign out of all devices");
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.setQueryData(["user"], null);
+      queryClient.removeQueries({ queryKey: ["/api/sessions"] });
+      toast({
+        title: "Signed out",
+        description: "You've been signed out of all devices.",
+      });
+      setLocation("/auth");
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card className="mb-8">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-xl">
+          <Monitor className="h-5 w-5" />
+          Active sessions
+        </CardTitle>
+        <CardDescription>The devices and browsers you're logged in on.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <ul className="space-y-2">
+          {sessions.map((session) => (
+            <li
+              key={`${session.createdAt}-${session.userAgent}`}
+              className="flex items-center justify-between gap-4 rounded-md border px-3 py-2"
+            >
+              <div className="min-w-0">
+                <p className="text-sm font-medium truncate" title={session.userAgent ?? undefined}>
+                  {describeUserAgent(session.userAgent)}
+                  {session.current && <span className="ml-2 text-xs text-primary">This device</span>}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  Signed in {formatDistanceToNow(new Date(session.createdAt), { addSuffix: true })}
+                  {" · "}
+                  Last active {formatDistanceToNow(new Date(session.lastSeenAt), { addSuffix: true })}
+                </p>
+              </div>
+            </li>
+          ))}
+        </ul>
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={signOutAllMutation.isPending}
+          onClick={() => setConfirming(true)}
+        >
+          <LogOut className="h-4 w-4 mr-2" />
+          Sign out of all devices
+        </Button>
+      </CardContent>
+
+      <AlertDialog open={confirming} onOpenChange={setConfirming}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Sign out of all devices?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Every session will end, including this one. You'll need to log in again everywhere.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={() => signOutAllMutation.mutate()}>
+              Sign out everywhere
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
@@ -0,0 +1,127 @@
+/**
+ * AddToCollectionMenu Component
+ *
+ * The "Add to collection" action on SnippetCard: a menu of the user's
+ * collections with a check against those that already contain the snippet.
+ * Picking a collection adds the snippet to the end of it, or removes it if
+ * it's already there; "New collection" creates one with the snippet in it.
+ */
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { FolderPlus, Plus, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { toast } from "@/hooks/use-toast";
+import { readApiError } from "@/lib/api-error";
+import { CollectionDialog } from "./CollectionDialog";
+import type { Collection } from "@/lib/types";
+
+interface AddToCollectionMenuProps {
+  snippetId: number;
+}
+
+export function AddToCollectionMenu({ snippetId }: AddToCollectionMenuProps) {
+  const queryClient = useQueryClient();
+  const [menuOpen, setMenuOpen] = useState(false);
+  const [dialogOpen, setDialogOpen] = useState(false);
+
+  // Only loaded once the menu is opened
+  const { data: collections, isLoading } = useQuery<Collection[]>({
+    queryKey: ["/api/collections", snippetId],
+    queryFn: async () => {
+      const res = await fetch(`/api/collections?snippetId=${snippetId}`, { credentials: "include" });
+      if (!res.ok) throw await readApiError(res, "Failed to load collections");
+      return res.json();
+    },
+    enabled: menuOpen,
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: async ({ collection, add }: { collection: Collection; add: boolean }) => {
+      const res = add
+        ? await fetch(`/api/collections/${collection.id}/snippets`, {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            credentials: "include",
+            body: JSON.stringify({ snippetId }),
+          })
+        : await fetch(`/api/collections/${collection.id}/snippets/${snippetId}`, {
+            method: "DELETE",
+            credentials: "include",
+          });
+      if (!res.ok) throw await readApiError(res, "Failed to update collection");
+      return res.json();
+    },
+    onSuccess: (_data, { collection, add }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/collections"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/collections/${collection.id}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/authors/${collection.ownerUsername}/collections`] });
+      toast({
+        title: add ? "Added to collection" : "Removed from collection",
+        description: collection.name,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <>
+      <DropdownMenu open={menuOpen} onOpenChange={setMenuOpen}>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="icon" className="h-8 w-8" aria-label="Add to collection">
+            <FolderPlus className="h-3 w-3" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-56">
+          <DropdownMenuLabel className="text-xs">Add to collection</DropdownMenuLabel>
+          <DropdownMenuSeparator />
+          {isLoading && (
+            <div className="flex justify-center py-2">
+              <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+            </div>
+          )}
+          {collections?.map(collection => (
+            <DropdownMenuCheckboxItem
+              key={collection.id}
+              checked={!!collection.containsSnippet}
+              disabled={toggleMutation.isPending}
+              // Keep the menu open so several collections can be picked
+              onSelect={(event) => event.preventDefault()}
+              onCheckedChange={(checked) => toggleMutation.mutate({ collection, add: checked })}
+              className="text-sm"
+            >
+              <span className="truncate">{collection.name}</span>
+            </DropdownMenuCheckboxItem>
+          ))}
+          {collections?.length === 0 && (
+            <p className="px-2 py-1.5 text-xs text-muted-foreground">You have no collections yet</p>
+          )}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onSelect={() => setDialogOpen(true)} className="text-sm">
+            <Plus className="h-3 w-3 mr-2" />
+            New collection
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+      <CollectionDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        onSaved={(collection) => toggleMutation.mutate({ collection, add: true })}
+      />
+    </>
+  );
+}
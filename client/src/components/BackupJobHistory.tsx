@@ -0,0 +1,144 @@
+/**
+ * BackupJobHistory Component
+ *
+ * Shown on BackupManagement below the list of backups. Describes the
+ * backup schedule (or what's wrong with its configuration) and lists the
+ * recent backup runs, scheduled or manual, with what happened at each
+ * storage target: whether the backup was stored, how many old backups
+ * retention removed, and why a run failed. Refreshes itself while a run is
+ * in progress.
+ */
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { AlertCircle, RefreshCw } from "lucide-react";
+import type { BackupJob, BackupJobs } from "@/lib/types";
+
+// How often to check on a run in progress
+const RUNNING_REFRESH_INTERVAL = 5000;
+
+const STATUS_VARIANTS: Record<BackupJob["status"], "default" | "secondary" | "destructive"> = {
+  succeeded: "default",
+  running: "secondary",
+  failed: "destructive",
+};
+
+function TargetResults({ job }: { job: BackupJob }) {
+  if (job.targets.length === 0) return <span className="text-muted-foreground">—</span>;
+  return (
+    <ul className="space-y-1">
+      {job.targets.map(result => (
+        <li key={result.target}>
+          <span className="font-medium">{result.target}</span>
+          {": "}
+          {result.error ? (
+            <span className="text-destructive">{result.error}</span>
+          ) : (
+            <>
+              {result.stored ? "stored" : "not stored"}
+              {result.removed.length > 0 && `, removed ${result.removed.length} old`}
+            </>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+export function BackupJobHistory() {
+  const { data, isLoading } = useQuery<BackupJobs>({
+    queryKey: ["/api/backups/jobs"],
+    refetchInterval: (query) =>
+      query.state.data?.jobs.some(job => job.status === "running") ? RUNNING_REFRESH_INTERVAL : false,
+  });
+
+  const schedule = data?.schedule;
+
+  return (
+    <Card className="mt-6">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-xl font-bold">Backup Jobs</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {schedule && (
+          schedule.error ? (
+            <p className="text-sm text-destructive mb-4">
+              The backup schedule isn't configured correctly: {schedule.error}
+            </p>
+          ) : (
+            <p className="text-sm text-muted-foreground mb-4">
+              Scheduled backups run on <code>{schedule.expression}</code>
+              {schedule.nextRunAt && <> (next at {new Date(schedule.nextRunAt).toLocaleString()})</>}
+              {" "}and are stored at {schedule.targets.join(", ")}.
+              {schedule.retention && (
+                <> Keeping the latest {schedule.retention.hourly} hourly, {schedule.retention.daily} daily
+                and {schedule.retention.weekly} weekly scheduled backups.</>
+              )}
+            </p>
+          )
+        )}
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <RefreshCw className="h-8 w-8 animate-spin" />
+          </div>
+        ) : data?.jobs.length ? (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Started</TableHead>
+                <TableHead>Trigger</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Backup</TableHead>
+                <TableHead>Targets</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {data.jobs.map(job => (
+                <TableRow key={job.id}>
+                  <TableCell className="text-xs">{new Date(job.startedAt).toLocaleString()}</TableCell>
+                  <TableCell className="capitalize">{job.trigger}</TableCell>
+                  <TableCell>
+                    <Badge variant={STATUS_VARIANTS[job.status]} className="capitalize">{job.status}</Badge>
+                  </TableCell>
+                  <TableCell className="text-xs">
+                    {job.filename ? (
+                      <>
+                        {job.filename}
+                        {job.size !== null && (
+                          <span className="text-muted-foreground"> ({(job.size / 1024).toFixed(2)} KB)</span>
+                        )}
+                      </>
+                    ) : (
+                      <span className="text-muted-foreground">—</span>
+                    )}
+                    {job.error && job.targets.length === 0 && (
+                      <p className="text-destructive">{job.error}</p>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-xs">
+                    <TargetResults job={job} />
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        ) : (
+          <div className="flex flex-col items-center justify-center py-8 text-center">
+            <AlertCircle className="h-8 w-8 text-muted-foreground" />
+            <p className="mt-2 text-sm text-muted-foreground">
+              No backup jobs have run yet.
+            </p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,388 @@
+/**
+ * BackupRestoreDialog Component
+ *
+ * Opened from BackupManagement to restore a backup. Nothing is changed
+ * until the admin confirms: restoring the whole backup first shows a dry
+ * run of what would be added, changed and removed in each table, and
+ * restoring individual snippets or users shows how many rows would be
+ * written before asking again. A backup with rows that can't be restored,
+ * because they refer to rows it doesn't have, can't be restored as a whole.
+ *
+ * A whole-backup restore replaces all current data and signs everyone out,
+ * so it ends on the login page. Restoring individual snippets or users
+ * puts back them and what belongs to them (comments, votes, categories...)
+ * and leaves everything else alone.
+ */
+import { useMemo, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { AlertCircle, RefreshCw } from "lucide-react";
+import { toast } from "@/hooks/use-toast";
+import { readApiError } from "@/lib/api-error";
+import { cn } from "@/lib/utils";
+import type {
+  BackupItems,
+  BackupRestoreResult,
+  BackupRowStatus,
+  BackupTableDiff,
+} from "@/lib/types";
+
+type RestoreTab = "all" | "snippets" | "users";
+
+interface RestoreRequest {
+  dryRun: boolean;
+  snippetIds?: number[];
+  userIds?: number[];
+}
+
+const statusLabels: Record<BackupRowStatus, string> = {
+  added: "Deleted since backup",
+  changed: "Changed since backup",
+  unchanged: "Unchanged",
+};
+
+async function requestRestore(filename: string, body: RestoreRequest): Promise<BackupRestoreResult> {
+  const res = await fetch(`/api/backups/restore/${encodeURIComponent(filename)}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    credentials: "include",
+    body: JSON.stringify(body),
+  });
+  if (!res.ok) throw await readApiError(res, "Failed to restore backup");
+  return res.json();
+}
+
+function isTableDiff(table: BackupRestoreResult["tables"][number]): table is BackupTableDiff {
+  return "added" in table;
+}
+
+function RestoreSummary({ result }: { result: BackupRestoreResult }) {
+  const diffs = result.tables.filter(isTableDiff);
+  if (diffs.length === 0) {
+    const restored = result.tables.filter(table => !isTableDiff(table)) as { name: string; restored: number }[];
+    return (
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Table</TableHead>
+            <TableHead className="text-right">Rows restored</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {restored.map(table => (
+            <TableRow key={table.name}>
+              <TableCell className="font-mono text-xs">{table.name}</TableCell>
+              <TableCell className="text-right">{table.restored}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    );
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Table</TableHead>
+          <TableHead className="text-right">Added</TableHead>
+          <TableHead className="text-right">Changed</TableHead>
+          <TableHead className="text-right">Removed</TableHead>
+          <TableHead className="text-right">Unchanged</TableHead>
+          <TableHead className="text-right">Can't restore</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {diffs.map(table => (
+          <TableRow key={table.name}>
+            <TableCell className="font-mono text-xs">{table.name}</TableCell>
+            <TableCell className={cn("text-right", table.added > 0 && "text-green-500")}>{table.added}</TableCell>
+            <TableCell className={cn("text-right", table.changed > 0 && "text-yellow-500")}>{table.changed}</TableCell>
+            <TableCell className={cn("text-right", table.removed > 0 && "text-destructive")}>{table.removed}</TableCell>
+            <TableCell className="text-right text-muted-foreground">{table.unchanged}</TableCell>
+            <TableCell className={cn("text-right", table.skipped > 0 && "text-destructive")}>{table.skipped}</TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
+
+function ItemPicker<T extends { id: number; status: BackupRowStatus }>({
+  items,
+  selected,
+  onSelectedChange,
+  label,
+  detail,
+}: {
+  items: T[];
+  selected: number[];
+  onSelectedChange: (ids: number[]) => void;
+  label: (item: T) => string;
+  detail?: (item: T) => string | null;
+}) {
+  const [filter, setFilter] = useState("");
+  const [changedOnly, setChangedOnly] = useState(true);
+
+  const visible = items.filter(item =>
+    (!changedOnly || item.status !== "unchanged") &&
+    label(item).toLowerCase().includes(filter.trim().toLowerCase())
+  );
+
+  const toggle = (id: number, checked: boolean) => {
+    onSelectedChange(checked ? [...selected, id] : selected.filter(other => other !== id));
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-4">
+        <Input placeholder="Filter..." value={filter} onChange={(e) => setFilter(e.target.value)} />
+        <div className="flex items-center gap-2 shrink-0">
+          <Switch id="changed-only" checked={changedOnly} onCheckedChange={setChangedOnly} />
+          <Label htmlFor="changed-only" className="font-normal">Deleted or changed only</Label>
+        </div>
+      </div>
+      <ScrollArea className="h-[260px] rounded border">
+        {visible.length === 0 ? (
+          <p className="p-4 text-sm text-center text-muted-foreground">Nothing to restore.</p>
+        ) : (
+          visible.map(item => (
+            <div key={item.id} className="flex items-center gap-3 px-3 py-2 border-b last:border-b-0">
+              <Checkbox
+                id={`restore-item-${item.id}`}
+                checked={selected.includes(item.id)}
+                onCheckedChange={(checked) => toggle(item.id, checked === true)}
+              />
+              <Label htmlFor={`restore-item-${item.id}`} className="flex-1 font-normal">
+                {label(item)}
+                {detail?.(item) && (
+                  <span className="ml-2 text-xs text-muted-foreground">{detail(item)}</span>
+                )}
+              </Label>
+              <span
+                className={cn(
+                  "text-xs",
+                  item.status === "added" && "text-green-500",
+                  item.status === "changed" && "text-yellow-500",
+                  item.status === "unchanged" && "text-muted-foreground"
+                )}
+              >
+                {statusLabels[item.status]}
+              </span>
+            </div>
+          ))
+        )}
+      </ScrollArea>
+    </div>
+  );
+}
+
+export function BackupRestoreDialog({
+  filename,
+  onOpenChange,
+}: {
+  filename: string | null;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const queryClient = useQueryClient();
+  const [tab, setTab] = useState<RestoreTab>("all");
+  const [snippetIds, setSnippetIds] = useState<number[]>([]);
+  const [userIds, setUserIds] = useState<number[]>([]);
+  // The dry run for the current selection of snippets and users
+  const [selectionPreview, setSelectionPreview] = useState<BackupRestoreResult | null>(null);
+
+  const open = filename !== null;
+
+  const { data: fullPreview, error: fullPreviewError, isLoading: isLoadingFullPreview } = useQuery({
+    queryKey: ["/api/backups/restore", filename, "dry-run"],
+    queryFn: () => requestRestore(filename!, { dryRun: true }),
+    enabled: open && tab === "all",
+    gcTime: 0,
+  });
+
+  // Rows that can't be restored make a full restore fail, so don't offer it
+  const fullPreviewBlocked = fullPreview?.tables.some(table => isTableDiff(table) && table.skipped > 0) ?? false;
+
+  const { data: items, isLoading: isLoadingItems } = useQuery<BackupItems>({
+    queryKey: [`/api/backups/contents/${encodeURIComponent(filename ?? "")}`],
+    enabled: open && tab !== "all",
+    gcTime: 0,
+  });
+
+  const selection = useMemo(() => ({ snippetIds, userIds }), [snippetIds, userIds]);
+  const selectionCount = snippetIds.length + userIds.length;
+
+  const close = () => {
+    setTab("all");
+    setSnippetIds([]);
+    setUserIds([]);
+    setSelectionPreview(null);
+    onOpenChange(false);
+  };
+
+  const restoreMutation = useMutation({
+    mutationFn: (body: RestoreRequest) => requestRestore(filename!, body),
+    onSuccess: (result, body) => {
+      if (result.dryRun) {
+        setSelectionPreview(result);
+        return;
+      }
+      if (!body.snippetIds && !body.userIds) {
+        // Every session was cleared along with the rest of the data
+        window.location.href = "/auth";
+        return;
+      }
+      queryClient.invalidateQueries();
+      toast({
+        title: "Success",
+        description: `Restored ${selectionCount} item(s) from ${filename}`,
+      });
+      close();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateSelection = (update: () => void) => {
+    update();
+    setSelectionPreview(null);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !next && close()}>
+      <DialogContent className="sm:max-w-[700px]">
+        <DialogHeader>
+          <DialogTitle>Restore {filename}</DialogTitle>
+          <DialogDescription>
+            Nothing is changed until you confirm.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs value={tab} onValueChange={(value) => setTab(value as RestoreTab)}>
+          <TabsList>
+            <TabsTrigger value="all">Whole backup</TabsTrigger>
+            <TabsTrigger value="snippets">Snippets</TabsTrigger>
+            <TabsTrigger value="users">Users</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="all" className="space-y-4">
+            {isLoadingFullPreview ? (
+              <div className="flex items-center justify-center py-8">
+                <RefreshCw className="h-8 w-8 animate-spin" />
+              </div>
+            ) : fullPreviewError ? (
+              <div className="flex items-center gap-2 text-sm text-destructive">
+                <AlertCircle className="h-4 w-4" />
+                {fullPreviewError.message}
+              </div>
+            ) : fullPreview && (
+              <>
+                <p className="text-sm text-muted-foreground">
+                  Backup format {fullPreview.backup.formatVersion}
+                  {fullPreview.backup.schemaVersion && `, schema ${fullPreview.backup.schemaVersion}`}.
+                  Restoring replaces all current data with the backup's and signs everyone out, including you.
+                </p>
+                <ScrollArea className="h-[300px]">
+                  <RestoreSummary result={fullPreview} />
+                </ScrollArea>
+                {fullPreviewBlocked && (
+                  <div className="flex items-center gap-2 text-sm text-destructive">
+                    <AlertCircle className="h-4 w-4" />
+                    Some rows refer to rows this backup doesn't have, so it can't be restored as a whole.
+                  </div>
+                )}
+                <div className="flex justify-end gap-2">
+                  <Button variant="outline" onClick={close}>Cancel</Button>
+                  <Button
+                    variant="destructive"
+                    disabled={restoreMutation.isPending || fullPreviewBlocked}
+                    onClick={() => restoreMutation.mutate({ dryRun: false })}
+                  >
+                    {restoreMutation.isPending && <RefreshCw className="mr-2 h-4 w-4 animate-spin" />}
+                    Restore everything
+                  </Button>
+                </div>
+              </>
+            )}
+          </TabsContent>
+
+          {(["snippets", "users"] as const).map(itemTab => (
+            <TabsContent key={itemTab} value={itemTab} className="space-y-4">
+              {isLoadingItems || !items ? (
+                <div className="flex items-center justify-center py-8">
+                  <RefreshCw className="h-8 w-8 animate-spin" />
+                </div>
+              ) : itemTab === "snippets" ? (
+                <ItemPicker
+                  items={items.snippets}
+                  selected={snippetIds}
+                  onSelectedChange={(ids) => updateSelection(() => setSnippetIds(ids))}
+                  label={(snippet) => snippet.title}
+                  detail={(snippet) => snippet.authorUsername && `by ${snippet.authorUsername}`}
+                />
+              ) : (
+                <ItemPicker
+                  items={items.users}
+                  selected={userIds}
+                  onSelectedChange={(ids) => updateSelection(() => setUserIds(ids))}
+                  label={(user) => user.username}
+                />
+              )}
+
+              {selectionPreview && (
+                <ScrollArea className="h-[160px]">
+                  <RestoreSummary result={selectionPreview} />
+                </ScrollArea>
+              )}
+
+              <div className="flex items-center justify-between gap-2">
+                <p className="text-xs text-muted-foreground">
+                  {snippetIds.length} snippet(s) and {userIds.length} user(s) selected. Their comments,
+                  votes and other data in the backup are restored with them.
+                </p>
+                {selectionPreview ? (
+                  <Button
+                    disabled={restoreMutation.isPending}
+                    onClick={() => restoreMutation.mutate({ dryRun: false, ...selection })}
+                  >
+                    {restoreMutation.isPending && <RefreshCw className="mr-2 h-4 w-4 animate-spin" />}
+                    Restore selected
+                  </Button>
+                ) : (
+                  <Button
+                    variant="outline"
+                    disabled={selectionCount === 0 || restoreMutation.isPending}
+                    onClick={() => restoreMutation.mutate({ dryRun: true, ...selection })}
+                  >
+                    {restoreMutation.isPending && <RefreshCw className="mr-2 h-4 w-4 animate-spin" />}
+                    Preview
+                  </Button>
+                )}
+              </div>
+            </TabsContent>
+          ))}
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,36 @@
+/**
+ * CategoryLabel Component
+ *
+ * Renders a category's icon and display name from the category registry,
+ * tinting the icon with the category colour. Used wherever a category is
+ * shown so that admin changes apply everywhere at once.
+ */
+import { useCategories } from "@/hooks/use-categories";
+import { CATEGORY_ICONS } from "@/lib/category-icons";
+import { cn } from "@/lib/utils";
+
+interface CategoryLabelProps {
+  name: string;
+  className?: string;
+}
+
+export function CategoryLabel({ name, className }: CategoryLabelProps) {
+  const { find } = useCategories();
+  const category = find(name);
+  const Icon = category?.icon ? CATEGORY_ICONS[category.icon] : undefined;
+
+  return (
+    <span
+      className={cn("inline-flex items-center gap-1", className)}
+      title={category?.description ?? undefined}
+    >
+      {Icon && (
+        <Icon
+          className="h-3 w-3 shrink-0"
+          style={category?.color ? { color: category.color } : undefined}
+        />
+      )}
+      {category?.displayName ?? name}
+    </span>
+  );
+}
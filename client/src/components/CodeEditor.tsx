@@ -1,40 +1,59 @@
 /**
  * CodeEditor Component
  * 
- * A streamlined code editor component that provides consistent styling for code snippets
- * throughout the application. This component serves as a foundation for code input and display,
- * optimized for both editing and viewing experiences.
+ * A code editor component that provides consistent styling for code snippets
+ * throughout the application, used for both editing and viewing.
  * 
  * Architecture Notes:
  * ------------------
- * This is an intentionally lightweight component that wraps the base Textarea element
- * from shadcn/ui. It focuses on presentation rather than advanced editing features,
- * prioritizing consistency and simplicity.
+ * This component wraps a CodeMirror 6 editor. The editor view is created once
+ * on mount and kept in sync with the `value`, `language` and `readOnly` props
+ * through compartments, so React re-renders never recreate it (which would
+ * lose the cursor, undo history and scroll position).
  * 
  * Key Features:
- * - Monospace font styling for proper code presentation
- * - Dark theme optimized for code readability
- * - Responsive height based on mode (edit vs. read-only)
- * - Consistent styling across the application
+ * - Syntax highlighting picked from the snippet's category language mode,
+ *   including custom grammars for DAX, Power Query M, TMDL and KQL
+ *   (see lib/codemirror)
+ * - Line numbers and code folding in both modes
+ * - Editing mode adds bracket matching, auto-indentation, Tab indentation,
+ *   undo history and search/replace (Ctrl/Cmd+F)
+ * - A Format button for languages with a server-side formatter (DAX and M)
+ * - Lint warnings and errors passed in as `diagnostics` are underlined inline
+ * - Dark theme matching the snippet cards
  * 
  * Usage Contexts:
  * - NewSnippetModal: For creating new code snippets
- * - SnippetCard: For displaying and editing existing snippets
- * - Comments: For code snippets within comment replies
+ * - SnippetCard: For displaying and editing existing snippets (including on SnippetPage)
+ * - Comments: For fenced code blocks in comments, read-only
  * 
  * Height Behavior:
- * - When in read-only mode: Uses flexible height (min-h-0, flex-1) with smaller text
- * - When in edit mode: Uses full height (h-full) of parent container with regular text size
+ * - When in read-only mode: Grows with its content; the parent ScrollArea limits the height
+ * - When in edit mode: Uses full height (h-full) of parent container
  *   Note: The parent container in SnippetCard.tsx sets a fixed height of 160px
- * 
- * For Future Consideration:
- * - Integration with a full-featured code editor like Monaco or CodeMirror
- * - Syntax highlighting based on selected language/category
- * - Line numbering for improved readability
- * - Code folding for longer snippets
  */
+import { useEffect, useRef, useState } from "react";
+import { EditorState, Compartment, type Extension, type Text } from "@codemirror/state";
+import {
+  EditorView,
+  keymap,
+  lineNumbers,
+  highlightActiveLine,
+  highlightActiveLineGutter,
+  drawSelection,
+  placeholder,
+} from "@codemirror/view";
+import { defaultKeymap, history, historyKeymap, indentWithTab } from "@codemirror/commands";
+import { bracketMatching, foldGutter, foldKeymap, indentOnInput } from "@codemirror/language";
+import { searchKeymap, highlightSelectionMatches } from "@codemirror/search";
+import { setDiagnostics, lintGutter, type Diagnostic } from "@codemirror/lint";
+import { Wand2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { toast } from "@/hooks/use-toast";
 import { cn } from "@/lib/utils";
-import { Textarea } from "@/components/ui/textarea";
+import type { CodeDiagnostic } from "@/lib/types";
+import { languageExtension } from "@/lib/codemirror/languages";
+import { codeEditorTheme } from "@/lib/codemirror/theme";
 
 /**
  * Interface for the CodeEditor component props
@@ -42,47 +61,215 @@ import { Textarea } from "@/components/ui/textarea";
  * @property value - The code content to display or edit
  * @property onChange - Callback function when code content changes
  * @property readOnly - Whether the editor is in read-only mode
+ * @property language - Language mode used for highlighting (a category's languageMode)
+ * @property diagnostics - Problems to underline in the code
  * @property className - Additional CSS classes to apply
  */
 interface CodeEditorProps {
   value: string;
   onChange: (value: string) => void;
   readOnly?: boolean;
+  language?: string;
+  diagnostics?: CodeDiagnostic[];
   className?: string;
 }
 
+// Languages with a formatter endpoint
+const FORMAT_ENDPOINTS: Record<string, string> = {
+  dax: "/api/format/dax",
+  powerquery: "/api/format/powerquery",
+};
+
+/**
+ * Convert 1-based line/column diagnostics to CodeMirror document offsets,
+ * clamped so stale diagnostics can't point past the end of the document
+ */
+function toEditorDiagnostics(doc: Text, diagnostics: CodeDiagnostic[]): Diagnostic[] {
+  const offset = (line: number, column: number) => {
+    const docLine = doc.line(Math.min(Math.max(line, 1), doc.lines));
+    return Math.min(docLine.from + Math.max(column - 1, 0), docLine.to);
+  };
+  return diagnostics.map(diagnostic => {
+    const from = offset(diagnostic.line, diagnostic.column);
+    return {
+      from,
+      to: Math.max(from, offset(diagnostic.endLine, diagnostic.endColumn)),
+      severity: diagnostic.severity ?? "warning",
+      message: diagnostic.message,
+    };
+  });
+}
+
+const editingExtensions: Extension = [
+  history(),
+  drawSelection(),
+  indentOnInput(),
+  bracketMatching(),
+  highlightActiveLine(),
+  highlightActiveLineGutter(),
+  highlightSelectionMatches(),
+  placeholder("Paste your code here..."),
+  keymap.of([...defaultKeymap, ...historyKeymap, ...searchKeymap, ...foldKeymap, indentWithTab]),
+];
+
+const readOnlyExtensions: Extension = [
+  EditorState.readOnly.of(true),
+  EditorView.editable.of(false),
+];
+
 /**
  * CodeEditor component implementation
  * 
- * This component renders a styled textarea for code input and display.
- * It adapts its styling based on whether it's in edit or read-only mode.
+ * This component mounts a CodeMirror editor into a div.
+ * It adapts its extensions and styling based on whether it's in edit or read-only mode.
  */
 export function CodeEditor({
   value,
   onChange,
   readOnly = false,
+  language,
+  diagnostics,
   className
 }: CodeEditorProps) {
-  return (
-    <Textarea
-      value={value}
-      onChange={(e) => onChange(e.target.value)}
-      readOnly={readOnly}
+  const containerRef = useRef<HTMLDivElement>(null);
+  const viewRef = useRef<EditorView | null>(null);
+  const languageCompartment = useRef(new Compartment());
+  const modeCompartment = useRef(new Compartment());
+  const lintCompartment = useRef(new Compartment());
+  const [isFormatting, setIsFormatting] = useState(false);
+
+  // Keep the latest callback without recreating the editor
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+
+  // Create the editor once
+  useEffect(() => {
+    if (!containerRef.current) return;
+
+    const view = new EditorView({
+      parent: containerRef.current,
+      state: EditorState.create({
+        doc: value,
+        extensions: [
+          lineNumbers(),
+          foldGutter(),
+          EditorView.lineWrapping,
+          codeEditorTheme,
+          languageCompartment.current.of(languageExtension(language)),
+          modeCompartment.current.of(readOnly ? readOnlyExtensions : editingExtensions),
+          lintCompartment.current.of([]),
+          EditorView.updateListener.of((update) => {
+            if (update.docChanged) {
+              onChangeRef.current(update.state.doc.toString());
+            }
+          }),
+        ],
+      }),
+    });
+    viewRef.current = view;
+
+    return () => {
+      view.destroy();
+      viewRef.current = null;
+    };
+    // Later prop changes are applied by the effects below
+  }, []);
+
+  // Sync external value changes (form resets, revision restores)
+  useEffect(() => {
+    const view = viewRef.current;
+    if (view && view.state.doc.toString() !== value) {
+      view.dispatch({
+        changes: { from: 0, to: view.state.doc.length, insert: value },
+      });
+    }
+  }, [value]);
+
+  useEffect(() => {
+    viewRef.current?.dispatch({
+      effects: languageCompartment.current.reconfigure(languageExtension(language)),
+    });
+  }, [language]);
+
+  useEffect(() => {
+    viewRef.current?.dispatch({
+      effects: modeCompartment.current.reconfigure(readOnly ? readOnlyExtensions : editingExtensions),
+    });
+  }, [readOnly]);
+
+  useEffect(() => {
+    const view = viewRef.current;
+    if (!view) return;
+    const items = diagnostics ?? [];
+    view.dispatch({
+      effects: lintCompartment.current.reconfigure(items.length > 0 ? lintGutter() : []),
+    });
+    view.dispatch(setDiagnostics(view.state, toEditorDiagnostics(view.state.doc, items)));
+  }, [diagnostics, value]);
+
+  const formatEndpoint = !readOnly && language ? FORMAT_ENDPOINTS[language] : undefined;
+
+  const handleFormat = async () => {
+    if (!formatEndpoint) return;
+    setIsFormatting(true);
+    try {
+      const res = await fetch(formatEndpoint, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ code: value }),
+        credentials: "include",
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.errors?.code ?? data.message ?? "Failed to format code");
+      }
+      onChange(data.code);
+    } catch (error) {
+      toast({
+        title: "Couldn't format code",
+        description: error instanceof Error ? error.message : "Failed to format code",
+        variant: "destructive",
+      });
+    } finally {
+      setIsFormatting(false);
+    }
+  };
+
+  const editor = (
+    <div
+      ref={containerRef}
       className={cn(
         // Base styling for all modes
-        "font-mono leading-relaxed resize-none focus:ring-1 focus:ring-primary",
-        "font-['JetBrains_Mono',Menlo,Monaco,Consolas,monospace]",
-        "border-0 bg-[#1A1A1B]", // Darker background color and no border
-        
+        "overflow-hidden rounded-md focus-within:ring-1 focus-within:ring-primary",
+        "bg-[#1A1A1B]", // Darker background color and no border
+
         // Conditional styling based on mode:
         // - For read-only mode: Use flexible height with smaller text
         // - For edit mode: Use full height of parent container with regular text size
         readOnly ? "min-h-0 flex-1 text-[14px]" : "h-full text-base",
-        
+
         // Apply any custom classes passed from parent
         className
       )}
-      placeholder="Paste your code here..."
     />
   );
-}
\ No newline at end of file
+
+  if (!formatEndpoint) return editor;
+
+  return (
+    <div className="relative h-full">
+      {editor}
+      <Button
+        type="button"
+        variant="ghost"
+        size="sm"
+        onClick={handleFormat}
+        disabled={isFormatting || !value.trim()}
+        className="absolute top-1 right-1 z-10 h-7 px-2 text-xs bg-background/70 hover:bg-background"
+      >
+        <Wand2 className="h-3 w-3 mr-1" />
+        {isFormatting ? "Formatting..." : "Format"}
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,154 @@
+/**
+ * CollectionDialog Component
+ *
+ * Creates a collection, or edits the name, description and visibility of
+ * an existing one. Used from the profile page, the collection page and the
+ * "Add to collection" menu on SnippetCard.
+ */
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import * as z from "zod";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { toast } from "@/hooks/use-toast";
+import { ApiError, readApiError } from "@/lib/api-error";
+import type { Collection } from "@/lib/types";
+
+const formSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100),
+  description: z.string().max(1000),
+  isPublic: z.boolean(),
+});
+
+type FormValues = z.infer<typeof formSchema>;
+
+interface CollectionDialogProps {
+  // The collection to edit; a new one is created when left out
+  collection?: Collection;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSaved?: (collection: Collection) => void;
+}
+
+export function CollectionDialog({ collection, open, onOpenChange, onSaved }: CollectionDialogProps) {
+  const queryClient = useQueryClient();
+
+  const form = useForm<FormValues>({
+    resolver: zodResolver(formSchema),
+    values: {
+      name: collection?.name ?? "",
+      description: collection?.description ?? "",
+      isPublic: collection?.isPublic ?? false,
+    },
+  });
+
+  const mutation = useMutation({
+    mutationFn: async (values: FormValues): Promise<Collection> => {
+      const res = await fetch(collection ? `/api/collections/${collection.id}` : "/api/collections", {
+        method: collection ? "PATCH" : "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({ ...values, description: values.description || null }),
+      });
+      if (!res.ok) throw await readApiError(res, "Failed to save collection");
+      return res.json();
+    },
+    onSuccess: (saved) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/collections"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/collections/${saved.id}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/authors/${saved.ownerUsername}/collections`] });
+      toast({
+        title: "Success",
+        description: collection ? "Collection updated" : "Collection created",
+      });
+      onOpenChange(false);
+      if (!collection) form.reset();
+      onSaved?.(saved);
+    },
+    onError: (error: Error) => {
+      const fields = error instanceof ApiError ? Object.entries(error.errors) : [];
+      for (const [field, message] of fields) {
+        if (field in formSchema.shape) {
+          form.setError(field as keyof FormValues, { message });
+        }
+      }
+      if (fields.length === 0) {
+        toast({
+          title: "Error",
+          description: error.message,
+          variant: "destructive",
+        });
+      }
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>{collection ? "Edit collection" : "New collection"}</DialogTitle>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit((values) => mutation.mutate(values))} className="space-y-3">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Name</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Finance model starter kit" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="description"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Description</FormLabel>
+                  <FormControl>
+                    <Textarea rows={3} placeholder="What these snippets are for" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="isPublic"
+              render={({ field }) => (
+                <FormItem className="flex items-center justify-between gap-4 space-y-0">
+                  <div>
+                    <FormLabel>Public</FormLabel>
+                    <FormDescription className="text-xs">
+                      Anyone with the link can see a public collection
+                    </FormDescription>
+                  </div>
+                  <FormControl>
+                    <Switch checked={field.value} onCheckedChange={field.onChange} />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={mutation.isPending}>
+                {mutation.isPending ? "Saving..." : "Save"}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,72 +1,401 @@
-import { useState } from "react";
+/**
+ * Comments Component
+ *
+ * The discussion under a snippet. Comments are threaded: each can be
+ * replied to, and replies are nested under the comment they answer with a
+ * toggle to collapse the thread. Authors can edit and delete their own
+ * comments and moderators can delete any. A deleted comment that has replies
+ * stays as a placeholder so the thread still reads in order.
+ *
+ * Comments are written in a small Markdown subset that the server renders
+ * and sanitises (see server/markdown.ts). Fenced code blocks come back as
+ * plain text and are shown in a read-only CodeEditor, highlighted in the
+ * fence's language.
+ */
+import { useEffect, useMemo, useState } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useUser } from "@/hooks/use-user";
+import { hasRole } from "@/lib/roles";
 import { Card, CardHeader, CardContent, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
+import { CodeEditor } from "@/components/CodeEditor";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
 import { useToast } from "@/hooks/use-toast";
+import { ApiError, readApiError } from "@/lib/api-error";
 import { formatDistanceToNow } from "date-fns";
+import { ChevronDown, ChevronRight } from "lucide-react";
 import { Link } from "wouter";
 
+// A rendered piece of a comment: sanitised HTML prose, or a code block
+type CommentBlock =
+  | { type: "html"; html: string }
+  | { type: "code"; language: string; code: string };
+
 interface Comment {
   id: number;
+  // The Markdown as written, for editing
   content: string;
+  blocks: CommentBlock[];
+  parentId: number | null;
   createdAt: string;
+  editedAt: string | null;
+  deletedAt: string | null;
   authorId: number;
-  authorUsername: string;
-  authorWebsite?: string;
+  // Null once the comment is deleted
+  authorUsername: string | null;
+  authorWebsite?: string | null;
+}
+
+interface CommentNode extends Comment {
+  replies: CommentNode[];
 }
 
 interface CommentsProps {
   snippetId: number;
 }
 
+// Deeper replies are no longer indented so threads stay readable on narrow screens
+const MAX_INDENT_DEPTH = 5;
+
+/**
+ * Arrange the flat, oldest-first comment list into threads: top-level
+ * comments newest first, replies oldest first. Deleted comments without
+ * any remaining replies are left out.
+ */
+function buildThreads(comments: Comment[]): CommentNode[] {
+  const nodes = new Map<number, CommentNode>();
+  comments.forEach(comment => nodes.set(comment.id, { ...comment, replies: [] }));
+
+  const roots: CommentNode[] = [];
+  nodes.forEach(node => {
+    const parent = node.parentId !== null ? nodes.get(node.parentId) : undefined;
+    if (parent) {
+      parent.replies.push(node);
+    } else {
+      roots.push(node);
+    }
+  });
+
+  const prune = (list: CommentNode[]): CommentNode[] =>
+    list
+      .map(node => ({ ...node, replies: prune(node.replies) }))
+      .filter(node => !node.deletedAt || node.replies.length > 0);
+
+  return prune(roots).reverse();
+}
+
+function countReplies(node: CommentNode): number {
+  return node.replies.reduce((total, reply) => total + 1 + countReplies(reply), 0);
+}
+
+function CommentBody({ blocks }: { blocks: CommentBlock[] }) {
+  return (
+    <div className="text-xs leading-relaxed space-y-1 break-words [&_p+p]:mt-1 [&_a]:underline [&_a:hover]:text-primary [&_code]:bg-[#1A1A1B] [&_code]:px-1 [&_code]:rounded">
+      {blocks.map((block, index) =>
+        block.type === "code" ? (
+          <div key={index} className="max-h-[300px] overflow-auto rounded">
+            <CodeEditor value={block.code} onChange={() => { }} readOnly language={block.language} />
+          </div>
+        ) : (
+          // Rendered and sanitised by the server
+          <div key={index} dangerouslySetInnerHTML={{ __html: block.html }} />
+        )
+      )}
+    </div>
+  );
+}
+
+interface CommentFormProps {
+  initialValue?: string;
+  placeholder: string;
+  submitLabel: string;
+  isPending: boolean;
+  onSubmit: (content: string) => void;
+  onCancel?: () => void;
+}
+
+function CommentForm({ initialValue = "", placeholder, submitLabel, isPending, onSubmit, onCancel }: CommentFormProps) {
+  const [content, setContent] = useState(initialValue);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (content.trim()) {
+      onSubmit(content.trim());
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="mb-2">
+      <Textarea
+        value={content}
+        onChange={(e) => setContent(e.target.value)}
+        placeholder={placeholder}
+        className="mb-1 text-xs min-h-[60px] resize-y"
+        autoFocus={!!onCancel}
+      />
+      <p className="text-[10px] text-muted-foreground mb-2">
+        Supports **bold**, *italic*, `code`, [links](https://…) and ```dax fenced code blocks
+      </p>
+      <div className="flex gap-2">
+        <Button
+          type="submit"
+          disabled={isPending || !content.trim()}
+          size="sm"
+          className="text-xs"
+        >
+          {isPending ? "Saving..." : submitLabel}
+        </Button>
+        {onCancel && (
+          <Button type="button" variant="ghost" size="sm" className="text-xs" onClick={onCancel}>
+            Cancel
+          </Button>
+        )}
+      </div>
+    </form>
+  );
+}
+
 export function Comments({ snippetId }: CommentsProps) {
   const { user } = useUser();
   const { toast } = useToast();
   const queryClient = useQueryClient();
-  const [newComment, setNewComment] = useState("");
+  // Bumped after posting so the new-comment form starts empty again
+  const [formKey, setFormKey] = useState(0);
+  const [replyingTo, setReplyingTo] = useState<number | null>(null);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [collapsed, setCollapsed] = useState<Set<number>>(new Set());
+  const [deleteTarget, setDeleteTarget] = useState<number | null>(null);
 
-  const { data: comments = [] } = useQuery<Comment[]>({
-    queryKey: [`/api/snippets/${snippetId}/comments`],
-  });
+  const queryKey = [`/api/snippets/${snippetId}/comments`];
+  const { data: comments = [] } = useQuery<Comment[]>({ queryKey });
+  const threads = useMemo(() => buildThreads(comments), [comments]);
+
+  // Scroll to the comment a notification linked to once comments have loaded
+  const hasComments = comments.length > 0;
+  useEffect(() => {
+    if (!hasComments || !window.location.hash.startsWith("#comment-")) return;
+    document.getElementById(window.location.hash.slice(1))?.scrollIntoView({ block: "center" });
+  }, [hasComments]);
+
+  const onError = (error: Error) => {
+    const fieldErrors = error instanceof ApiError ? Object.values(error.errors) : [];
+    toast({
+      variant: "destructive",
+      title: "Error",
+      description: fieldErrors[0] ?? error.message,
+    });
+  };
 
   const addCommentMutation = useMutation({
-    mutationFn: async (content: string) => {
+    mutationFn: async ({ content, parentId }: { content: string; parentId: number | null }) => {
       const response = await fetch(`/api/snippets/${snippetId}/comments`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ content }),
+        credentials: "include",
+        body: JSON.stringify({ content, parentId }),
       });
-
-      if (!response.ok) {
-        throw new Error(await response.text());
+      if (!response.ok) throw await readApiError(response, "Failed to post comment");
+      return response.json();
+    },
+    onSuccess: (_data, { parentId }) => {
+      queryClient.invalidateQueries({ queryKey });
+      queryClient.invalidateQueries({ queryKey: ["/api/snippets"] });
+      if (parentId === null) {
+        setFormKey(key => key + 1);
+      } else {
+        setReplyingTo(null);
+        // Make sure the new reply is visible
+        setCollapsed(current => {
+          const next = new Set(current);
+          next.delete(parentId);
+          return next;
+        });
       }
+      toast({
+        title: parentId === null ? "Comment added" : "Reply added",
+        description: "Your comment has been posted successfully.",
+      });
+    },
+    onError,
+  });
 
+  const editCommentMutation = useMutation({
+    mutationFn: async ({ id, content }: { id: number; content: string }) => {
+      const response = await fetch(`/api/comments/${id}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({ content }),
+      });
+      if (!response.ok) throw await readApiError(response, "Failed to edit comment");
       return response.json();
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: [`/api/snippets/${snippetId}/comments`] });
-      setNewComment("");
-      toast({
-        title: "Comment added",
-        description: "Your comment has been posted successfully.",
+      queryClient.invalidateQueries({ queryKey });
+      setEditingId(null);
+    },
+    onError,
+  });
+
+  const deleteCommentMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await fetch(`/api/comments/${id}`, {
+        method: "DELETE",
+        credentials: "include",
       });
+      if (!response.ok) throw await readApiError(response, "Failed to delete comment");
+      return response.json();
     },
-    onError: (error) => {
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+      queryClient.invalidateQueries({ queryKey: ["/api/snippets"] });
       toast({
-        variant: "destructive",
-        title: "Error",
-        description: error instanceof Error ? error.message : "Failed to post comment",
+        title: "Comment deleted",
       });
     },
+    onError,
   });
 
-  const handleSubmit = (e: React.FormEvent) => {
-    e.preventDefault();
-    if (newComment.trim()) {
-      addCommentMutation.mutate(newComment.trim());
-    }
+  const toggleCollapsed = (id: number) => {
+    setCollapsed(current => {
+      const next = new Set(current);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const renderComment = (comment: CommentNode, depth: number) => {
+    const isDeleted = !!comment.deletedAt;
+    const isAuthor = user?.id === comment.authorId;
+    const isCollapsed = collapsed.has(comment.id);
+    const replyCount = countReplies(comment);
+
+    return (
+      <div
+        key={comment.id}
+        id={`comment-${comment.id}`}
+        className={depth === 0 ? "border-b pb-2 last:border-b-0 last:pb-0" : "pt-2"}
+      >
+        <div className="flex justify-between items-start mb-1">
+          <div className="flex items-center gap-1">
+            {comment.replies.length > 0 && (
+              <button
+                type="button"
+                onClick={() => toggleCollapsed(comment.id)}
+                className="text-muted-foreground hover:text-primary"
+                aria-label={isCollapsed ? "Expand thread" : "Collapse thread"}
+                aria-expanded={!isCollapsed}
+              >
+                {isCollapsed ? <ChevronRight className="h-3 w-3" /> : <ChevronDown className="h-3 w-3" />}
+              </button>
+            )}
+            {isDeleted ? (
+              <span className="text-xs text-muted-foreground italic">[deleted]</span>
+            ) : (
+              <Link
+                href={`/profile/${comment.authorUsername}`}
+                className="font-medium text-xs underline hover:text-primary transition-colors"
+              >
+                {comment.authorUsername}
+              </Link>
+            )}
+          </div>
+          <span className="text-xs text-muted-foreground">
+            {formatDistanceToNow(new Date(comment.createdAt), { addSuffix: true })}
+            {comment.editedAt && !isDeleted && (
+              <span title={`Edited ${new Date(comment.editedAt).toLocaleString()}`}> · edited</span>
+            )}
+          </span>
+        </div>
+
+        {editingId === comment.id ? (
+          <CommentForm
+            initialValue={comment.content}
+            placeholder="Edit your comment..."
+            submitLabel="Save"
+            isPending={editCommentMutation.isPending}
+            onSubmit={(content) => editCommentMutation.mutate({ id: comment.id, content })}
+            onCancel={() => setEditingId(null)}
+          />
+        ) : isDeleted ? (
+          <p className="text-xs text-muted-foreground italic">This comment was deleted.</p>
+        ) : (
+          <CommentBody blocks={comment.blocks} />
+        )}
+
+        {!isDeleted && user && editingId !== comment.id && (
+          <div className="flex gap-2 mt-1">
+            <button
+              type="button"
+              className="text-[11px] text-muted-foreground hover:text-primary"
+              onClick={() => setReplyingTo(replyingTo === comment.id ? null : comment.id)}
+            >
+              Reply
+            </button>
+            {isAuthor && (
+              <button
+                type="button"
+                className="text-[11px] text-muted-foreground hover:text-primary"
+                onClick={() => setEditingId(comment.id)}
+              >
+                Edit
+              </button>
+            )}
+            {(isAuthor || hasRole(user, "moderator")) && (
+              <button
+                type="button"
+                className="text-[11px] text-muted-foreground hover:text-destructive"
+                onClick={() => setDeleteTarget(comment.id)}
+              >
+                Delete
+              </button>
+            )}
+          </div>
+        )}
+
+        {replyingTo === comment.id && (
+          <div className="mt-2">
+            <CommentForm
+              placeholder={`Reply to ${comment.authorUsername}...`}
+              submitLabel="Post Reply"
+              isPending={addCommentMutation.isPending}
+              onSubmit={(content) => addCommentMutation.mutate({ content, parentId: comment.id })}
+              onCancel={() => setReplyingTo(null)}
+            />
+          </div>
+        )}
+
+        {comment.replies.length > 0 && (
+          isCollapsed ? (
+            <button
+              type="button"
+              onClick={() => toggleCollapsed(comment.id)}
+              className="text-[11px] text-muted-foreground hover:text-primary mt-1"
+            >
+              Show {replyCount} {replyCount === 1 ? "reply" : "replies"}
+            </button>
+          ) : (
+            <div className={depth < MAX_INDENT_DEPTH ? "ml-2 pl-3 border-l" : undefined}>
+              {comment.replies.map(reply => renderComment(reply, depth + 1))}
+            </div>
+          )
+        )}
+      </div>
+    );
   };
 
   return (
@@ -76,47 +405,45 @@ export function Comments({ snippetId }: CommentsProps) {
       </CardHeader>
       <CardContent className="px-4 py-2">
         {user && (
-          <form onSubmit={handleSubmit} className="mb-3">
-            <Textarea
-              value={newComment}
-              onChange={(e) => setNewComment(e.target.value)}
+          <div className="mb-3">
+            <CommentForm
+              key={formKey}
               placeholder="Write your comment..."
-              className="mb-2 text-xs min-h-[60px] resize-none"
+              submitLabel="Post Comment"
+              isPending={addCommentMutation.isPending && addCommentMutation.variables?.parentId === null}
+              onSubmit={(content) => addCommentMutation.mutate({ content, parentId: null })}
             />
-            <Button 
-              type="submit" 
-              disabled={addCommentMutation.isPending || !newComment.trim()}
-              size="sm"
-              className="text-xs"
-            >
-              {addCommentMutation.isPending ? "Posting..." : "Post Comment"}
-            </Button>
-          </form>
+          </div>
         )}
 
         <div className="space-y-2">
-          {comments.length === 0 ? (
+          {threads.length === 0 ? (
             <p className="text-muted-foreground text-xs">No comments yet.</p>
           ) : (
-            comments.map((comment) => (
-              <div key={comment.id} className="border-b pb-2 last:border-b-0 last:pb-0">
-                <div className="flex justify-between items-start mb-1">
-                  <Link 
-                    href={`/profile/${comment.authorUsername}`}
-                    className="font-medium text-xs underline hover:text-primary transition-colors"
-                  >
-                    {comment.authorUsername}
-                  </Link>
-                  <span className="text-xs text-muted-foreground">
-                    {formatDistanceToNow(new Date(comment.createdAt), { addSuffix: true })}
-                  </span>
-                </div>
-                <p className="text-xs whitespace-pre-wrap leading-relaxed">{comment.content}</p>
-              </div>
-            ))
+            threads.map(thread => renderComment(thread, 0))
           )}
         </div>
       </CardContent>
+
+      <AlertDialog open={deleteTarget !== null} onOpenChange={(open) => !open && setDeleteTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle className="text-sm">Delete this comment?</AlertDialogTitle>
+            <AlertDialogDescription className="text-sm">
+              Its text will be removed. Replies to it stay in the thread.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel className="h-9 text-sm">Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => deleteTarget !== null && deleteCommentMutation.mutate(deleteTarget)}
+              className="bg-destructive hover:bg-destructive/90 h-9 text-sm"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </Card>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,160 @@
+/**
+ * EmailPreferences Component
+ *
+ * The digest email settings on the user's own profile: how often to get a
+ * digest (never, daily or weekly), which parts to include, and the
+ * categories whose new snippets it should list. Each change is saved as
+ * soon as it's made.
+ */
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Mail } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { toast } from "@/hooks/use-toast";
+import { useCategories } from "@/hooks/use-categories";
+import { readApiError } from "@/lib/api-error";
+import type { CodeCategory, DigestFrequency, EmailPreferences as Preferences } from "@/lib/types";
+
+type PreferencesUpdate = Partial<Pick<Preferences,
+  'digestFrequency' | 'includeComments' | 'includeVotes' | 'includeFollowedCategories' | 'followedCategories'
+>>;
+
+const frequencies: { value: DigestFrequency; label: string }[] = [
+  { value: "off", label: "Never" },
+  { value: "daily", label: "Daily" },
+  { value: "weekly", label: "Weekly" },
+];
+
+const sections: { field: 'includeComments' | 'includeVotes' | 'includeFollowedCategories'; label: string }[] = [
+  { field: "includeComments", label: "New comments on my snippets" },
+  { field: "includeVotes", label: "Likes on my snippets" },
+  { field: "includeFollowedCategories", label: "New snippets in categories I follow" },
+];
+
+export function EmailPreferences() {
+  const queryClient = useQueryClient();
+  const { categories, displayName } = useCategories();
+
+  const { data: preferences } = useQuery<Preferences>({
+    queryKey: ["/api/email/preferences"],
+  });
+
+  const mutation = useMutation({
+    mutationFn: async (update: PreferencesUpdate) => {
+      const res = await fetch("/api/email/preferences", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify(update),
+      });
+      if (!res.ok) throw await readApiError(res, "Failed to save email preferences");
+      return res.json() as Promise<Preferences>;
+    },
+    onSuccess: (saved) => {
+      queryClient.setQueryData(["/api/email/preferences"], saved);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!preferences) return null;
+
+  const enabled = preferences.digestFrequency !== "off";
+  const disabled = mutation.isPending || !preferences.hasEmail;
+
+  const toggleCategory = (name: CodeCategory, followed: boolean) => {
+    const current = preferences.followedCategories;
+    mutation.mutate({
+      followedCategories: followed ? [...current, name] : current.filter(other => other !== name),
+    });
+  };
+
+  return (
+    <Card className="mb-8">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-xl">
+          <Mail className="h-5 w-5" />
+          Email digest
+        </CardTitle>
+        <CardDescription>
+          {preferences.hasEmail
+            ? "A summary of activity on your snippets and in the categories you follow."
+            : "Add an email address to your account to receive digest emails."}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex items-center justify-between gap-4">
+          <Label htmlFor="digest-frequency">Send me a digest</Label>
+          <Select
+            value={preferences.digestFrequency}
+            onValueChange={(value) => mutation.mutate({ digestFrequency: value as DigestFrequency })}
+            disabled={disabled}
+          >
+            <SelectTrigger id="digest-frequency" className="w-[140px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {frequencies.map(({ value, label }) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {enabled && (
+          <>
+            <div className="space-y-3">
+              <p className="text-sm font-medium">Include</p>
+              {sections.map(({ field, label }) => (
+                <div key={field} className="flex items-center justify-between gap-4">
+                  <Label htmlFor={`digest-${field}`} className="font-normal">{label}</Label>
+                  <Switch
+                    id={`digest-${field}`}
+                    checked={preferences[field]}
+                    onCheckedChange={(checked) => mutation.mutate({ [field]: checked })}
+                    disabled={disabled}
+                  />
+                </div>
+              ))}
+            </div>
+
+            {preferences.includeFollowedCategories && (
+              <div className="space-y-3">
+                <p className="text-sm font-medium">Categories I follow</p>
+                <div className="grid grid-cols-2 gap-2 sm:grid-cols-3">
+                  {categories.map(category => (
+                    <div key={category.id} className="flex items-center gap-2">
+                      <Checkbox
+                        id={`follow-${category.name}`}
+                        checked={preferences.followedCategories.includes(category.name)}
+                        onCheckedChange={(checked) => toggleCategory(category.name, checked === true)}
+                        disabled={disabled}
+                      />
+                      <Label htmlFor={`follow-${category.name}`} className="font-normal">
+                        {displayName(category.name)}
+                      </Label>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,73 @@
+/**
+ * FollowAuthorButton Component
+ *
+ * The follower count on an author's profile, with a Follow / Following
+ * toggle for logged-in visitors other than the author. Followed authors'
+ * snippets show up in the Following tab on Home.
+ */
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { UserCheck, UserPlus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { toast } from "@/hooks/use-toast";
+import { readApiError } from "@/lib/api-error";
+import type { AuthorFollowStatus } from "@/lib/types";
+
+interface FollowAuthorButtonProps {
+  authorName: string;
+  // Whether the visitor can follow: logged in and not the author
+  canFollow: boolean;
+}
+
+export function FollowAuthorButton({ authorName, canFollow }: FollowAuthorButtonProps) {
+  const queryClient = useQueryClient();
+  const statusKey = [`/api/authors/${encodeURIComponent(authorName)}/follow`];
+
+  const { data: status } = useQuery<AuthorFollowStatus>({ queryKey: statusKey });
+
+  const mutation = useMutation({
+    mutationFn: async (follow: boolean) => {
+      const res = await fetch(statusKey[0], {
+        method: follow ? "POST" : "DELETE",
+        credentials: "include",
+      });
+      if (!res.ok) throw await readApiError(res, "Failed to update follow");
+      return res.json() as Promise<AuthorFollowStatus>;
+    },
+    onSuccess: (updated) => {
+      queryClient.setQueryData(statusKey, updated);
+      queryClient.invalidateQueries({ queryKey: ["/api/follows"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/feed"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!status) return null;
+
+  return (
+    <div className="flex items-center gap-3 mt-2">
+      <span className="text-sm text-muted-foreground">
+        {status.followers} {status.followers === 1 ? "follower" : "followers"}
+      </span>
+      {canFollow && (
+        <Button
+          variant={status.following ? "outline" : "default"}
+          size="sm"
+          disabled={mutation.isPending}
+          onClick={() => mutation.mutate(!status.following)}
+        >
+          {status.following ? (
+            <><UserCheck className="h-4 w-4 mr-2" />Following</>
+          ) : (
+            <><UserPlus className="h-4 w-4 mr-2" />Follow</>
+          )}
+        </Button>
+      )}
+    </div>
+  );
+}
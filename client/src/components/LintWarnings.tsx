@@ -0,0 +1,58 @@
+/**
+ * LintWarnings Component
+ *
+ * Lists the problems the server found in a snippet's code on SnippetPage:
+ * lint warnings, and syntax errors for snippets saved before their language
+ * was validated. The same problems are underlined inline in the snippet's
+ * code editor; this panel gives the full message and the rule that raised it.
+ */
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { AlertTriangle, XCircle } from "lucide-react";
+import type { LintWarning } from "@/lib/types";
+
+function countLabel(count: number, noun: string) {
+  return `${count} ${noun}${count === 1 ? "" : "s"}`;
+}
+
+interface LintWarningsProps {
+  warnings: LintWarning[];
+}
+
+export function LintWarnings({ warnings }: LintWarningsProps) {
+  if (warnings.length === 0) return null;
+
+  const errorCount = warnings.filter(warning => warning.severity === "error").length;
+  const warningCount = warnings.length - errorCount;
+  const title = [
+    errorCount > 0 && countLabel(errorCount, "error"),
+    warningCount > 0 && countLabel(warningCount, "warning"),
+  ].filter(Boolean).join(", ");
+
+  return (
+    <Card>
+      <CardHeader className="px-4 py-3">
+        <CardTitle className="text-base flex items-center gap-2">
+          {errorCount > 0
+            ? <XCircle className="h-4 w-4 text-red-500" />
+            : <AlertTriangle className="h-4 w-4 text-yellow-500" />}
+          {title}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="px-4 py-2">
+        <ul className="space-y-2">
+          {warnings.map((warning, index) => (
+            <li key={index} className="flex gap-3 text-sm">
+              <span className="w-14 shrink-0 font-mono text-xs text-muted-foreground pt-0.5">
+                {warning.line}:{warning.column}
+              </span>
+              <span className="flex-1">{warning.message}</span>
+              <span className="shrink-0 font-mono text-xs text-muted-foreground pt-0.5">
+                {warning.rule}
+              </span>
+            </li>
+          ))}
+        </ul>
+      </CardContent>
+    </Card>
+  );
+}
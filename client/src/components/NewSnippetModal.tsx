@@ -17,7 +17,8 @@
  * 
  * 3. UI Components:
  *    - Uses shadcn/ui components for consistent styling and accessibility
- *    - Custom CodeEditor component for syntax highlighting and code input
+ *    - Custom CodeEditor component for syntax highlighting and code input,
+ *      highlighting in the language of the first selected category that has one
  *    - Multi-select category system with badges for visual feedback
  * 
  * 4. API Integration:
@@ -36,7 +37,9 @@
  *    - The form is reset
  *    - A success toast is displayed
  * 5. On error:
- *    - An error toast is displayed with the error message
+ *    - Field errors from the server are shown under their fields, and code
+ *      that doesn't parse (e.g. invalid TMDL) is marked line by line in the editor
+ *    - Other errors are displayed in a toast
  *    - The form remains open for correction
  * 
  * Future Enhancement Considerations:
@@ -48,7 +51,7 @@
 
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
-import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
 import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem } from "@/components/ui/command";
@@ -59,29 +62,24 @@ import { useForm } from "react-hook-form";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { toast } from "@/hooks/use-toast";
 import { useState } from "react";
-import type { CodeCategory } from "@/lib/types";
+import { useCategories } from "@/hooks/use-categories";
 import * as z from "zod";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { cn, getCategoryDisplayName } from "@/lib/utils";
-
-/**
- * Available code categories for snippet classification
- * When adding a new category:
- * 1. Add it to this array
- * 2. Update the CodeCategory type in lib/types.ts
- * 3. Update the validation schema below
- * 4. Add display name mapping in utils.ts getCategoryDisplayName function
- */
-const categories: CodeCategory[] = ['Prompt', 'TMDL', 'DAX', 'SQL', 'Python', 'PowerQuery', 'C#'];
+import { cn } from "@/lib/utils";
+import { CategoryLabel } from "@/components/CategoryLabel";
+import { ApiError, readApiError } from "@/lib/api-error";
+import type { CodeDiagnostic } from "@/lib/types";
 
 /**
  * Form validation schema using Zod
- * Defines validation rules and error messages for the snippet creation form
+ * Defines validation rules and error messages for the snippet creation form.
+ * The available categories are loaded from /api/categories and checked
+ * again by the server, so any name is accepted here.
  */
 const formSchema = z.object({
   title: z.string().min(1, "Title is required"),
   code: z.string().min(1, "Code is required"),
-  categories: z.array(z.enum(['Prompt', 'TMDL', 'DAX', 'SQL', 'Python', 'PowerQuery', 'C#']))
+  categories: z.array(z.string())
     .min(1, "Select at least one category")
 });
 
@@ -94,6 +92,8 @@ export function NewSnippetModal() {
   // Local state for modal and category selector visibility
   const [open, setOpen] = useState(false);
   const [openCategories, setOpenCategories] = useState(false);
+  const [codeDiagnostics, setCodeDiagnostics] = useState<CodeDiagnostic[]>([]);
+  const { names: categories, languageFor } = useCategories();
   
   // React Query client for cache management
   const queryClient = useQueryClient();
@@ -133,8 +133,7 @@ export function NewSnippetModal() {
       
       // Handle non-OK responses
       if (!res.ok) {
-        const errorData = await res.json();
-        throw new Error(errorData.message || 'Failed to create snippet');
+        throw await readApiError(res, 'Failed to create snippet');
       }
       
       return res.json();
@@ -148,6 +147,7 @@ export function NewSnippetModal() {
       // Reset UI state
       setOpen(false);
       form.reset();
+      setCodeDiagnostics([]);
       
       // Notify user
       toast({
@@ -158,6 +158,16 @@ export function NewSnippetModal() {
     
     // Error handler
     onError: (error: Error) => {
+      // Show validation errors on the form rather than in a toast
+      if (error instanceof ApiError && Object.keys(error.errors).length > 0) {
+        for (const [field, message] of Object.entries(error.errors)) {
+          if (field === 'title' || field === 'code' || field === 'categories') {
+            form.setError(field, { message });
+          }
+        }
+        setCodeDiagnostics(error.diagnostics);
+        return;
+      }
       toast({
         title: "Error",
         description: error.message,
@@ -246,7 +256,7 @@ export function NewSnippetModal() {
                                   field.value?.includes(category) ? "opacity-100" : "opacity-0"
                                 )}
                               />
-                              {getCategoryDisplayName(category)}
+                              <CategoryLabel name={category} />
                             </CommandItem>
                           ))}
                         </CommandGroup>
@@ -265,7 +275,7 @@ export function NewSnippetModal() {
                           field.onChange(field.value.filter((val) => val !== category));
                         }}
                       >
-                        {getCategoryDisplayName(category)} ×
+                        <CategoryLabel name={category} /> ×
                       </Badge>
                     ))}
                   </div>
@@ -282,8 +292,20 @@ export function NewSnippetModal() {
                 <FormItem>
                   <FormLabel>Code</FormLabel>
                   <FormControl>
-                    <CodeEditor {...field} className="min-h-[200px]" />
+                    <CodeEditor
+                      {...field}
+                      onChange={(value) => {
+                        field.onChange(value);
+                        setCodeDiagnostics([]);
+                      }}
+                      language={languageFor(form.watch("categories"))}
+                      diagnostics={codeDiagnostics}
+                      className="h-[240px]"
+                    />
                   </FormControl>
+                  <FormDescription className="text-xs">
+                    Mark values to fill in when copying as <code>{"{{Name}}"}</code>, <code>{"{{Name:default}}"}</code> or <code>{"{{Name:default|description}}"}</code>.
+                  </FormDescription>
                   <FormMessage />
                 </FormItem>
               )}
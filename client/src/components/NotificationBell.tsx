@@ -0,0 +1,158 @@
+/**
+ * NotificationBell Component
+ *
+ * The bell in the nav bar for logged-in users. Its badge shows how many
+ * unread notifications there are (mentions, comments and likes on the
+ * user's snippets, replies to their comments), polled every minute. Opening
+ * it lists the most recent ones; picking one marks it as read and goes to
+ * the snippet or comment it's about.
+ */
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { formatDistanceToNow } from "date-fns";
+import { Bell } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { toast } from "@/hooks/use-toast";
+import { readApiError } from "@/lib/api-error";
+import { cn } from "@/lib/utils";
+import type { Notification, NotificationList } from "@/lib/types";
+
+const POLL_INTERVAL = 60 * 1000;
+
+/**
+ * One-line description of a notification
+ */
+function describe(notification: Notification): string {
+  const actor = notification.actorUsername ?? "Someone";
+  const title = `"${notification.snippetTitle}"`;
+  switch (notification.type) {
+    case "mention":
+      return `${actor} mentioned you on ${title}`;
+    case "comment":
+      return `${actor} commented on ${title}`;
+    case "reply":
+      return `${actor} replied to your comment on ${title}`;
+    case "vote":
+      return notification.count > 1
+        ? `${notification.count} people liked ${title}`
+        : `${actor} liked ${title}`;
+  }
+}
+
+export function NotificationBell() {
+  const queryClient = useQueryClient();
+  const [, setLocation] = useLocation();
+
+  const { data } = useQuery<NotificationList>({
+    queryKey: ["/api/notifications"],
+    refetchInterval: POLL_INTERVAL,
+  });
+  const notifications = data?.items ?? [];
+  const unreadCount = data?.unreadCount ?? 0;
+
+  const markReadMutation = useMutation({
+    mutationFn: async (ids?: number[]) => {
+      const res = await fetch("/api/notifications/read", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify(ids ? { ids } : {}),
+      });
+      if (!res.ok) throw await readApiError(res, "Failed to update notifications");
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/notifications"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const open = (notification: Notification) => {
+    if (!notification.readAt) {
+      markReadMutation.mutate([notification.id]);
+    }
+    setLocation(
+      notification.commentId
+        ? `/snippet/${notification.snippetId}#comment-${notification.commentId}`
+        : `/snippet/${notification.snippetId}`
+    );
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="relative h-8 w-8 text-white hover:text-primary/90"
+          aria-label={unreadCount > 0 ? `Notifications (${unreadCount} unread)` : "Notifications"}
+        >
+          <Bell className="h-4 w-4" />
+          {unreadCount > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 min-w-[16px] h-4 px-1 rounded-full bg-destructive text-[10px] leading-4 text-white text-center">
+              {unreadCount > 99 ? "99+" : unreadCount}
+            </span>
+          )}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-80">
+        <div className="flex items-center justify-between">
+          <DropdownMenuLabel className="text-xs">Notifications</DropdownMenuLabel>
+          {unreadCount > 0 && (
+            <Button
+              variant="link"
+              size="sm"
+              className="h-auto px-2 text-xs"
+              disabled={markReadMutation.isPending}
+              onClick={() => markReadMutation.mutate(undefined)}
+            >
+              Mark all as read
+            </Button>
+          )}
+        </div>
+        <DropdownMenuSeparator />
+        {notifications.length === 0 ? (
+          <p className="px-2 py-4 text-xs text-center text-muted-foreground">No notifications yet</p>
+        ) : (
+          <div className="max-h-[360px] overflow-y-auto">
+            {notifications.map(notification => (
+              <DropdownMenuItem
+                key={notification.id}
+                onSelect={() => open(notification)}
+                className="flex items-start gap-2 text-xs cursor-pointer"
+              >
+                <span
+                  className={cn(
+                    "mt-1 h-2 w-2 flex-shrink-0 rounded-full",
+                    notification.readAt ? "bg-transparent" : "bg-primary"
+                  )}
+                  aria-label={notification.readAt ? undefined : "Unread"}
+                />
+                <span className="flex flex-col gap-0.5">
+                  <span className={cn(!notification.readAt && "font-medium")}>{describe(notification)}</span>
+                  <span className="text-[10px] text-muted-foreground">
+                    {formatDistanceToNow(new Date(notification.createdAt), { addSuffix: true })}
+                  </span>
+                </span>
+              </DropdownMenuItem>
+            ))}
+          </div>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
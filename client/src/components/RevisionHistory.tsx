@@ -0,0 +1,197 @@
+/**
+ * RevisionHistory Component
+ *
+ * Shows the edit history of a snippet on SnippetPage. Every save through
+ * PUT /api/snippets/:id is stored as a revision on the server; this panel
+ * lets readers compare any two revisions side by side and lets the author
+ * roll the snippet back to an earlier one.
+ */
+import { useState, useEffect, useMemo } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { History, RotateCcw } from "lucide-react";
+import { toast } from "@/hooks/use-toast";
+import { useUser } from "@/hooks/use-user";
+import { cn } from "@/lib/utils";
+import { sideBySideDiff, type DiffRow } from "@/lib/diff";
+import type { Snippet, SnippetRevision } from "@/lib/types";
+
+interface RevisionHistoryProps {
+  snippet: Snippet;
+}
+
+/**
+ * Formats a revision for the revision pickers
+ */
+function revisionLabel(revision: SnippetRevision, index: number, total: number) {
+  const date = new Date(revision.createdAt).toLocaleString();
+  const latest = index === 0 ? " (current)" : "";
+  return `#${total - index} · ${date}${latest}`;
+}
+
+function DiffLine({ side, type }: { side?: DiffRow['left']; type: DiffRow['type'] }) {
+  return (
+    <div
+      className={cn(
+        "flex min-h-[1.25rem] font-mono text-xs whitespace-pre",
+        !side && "bg-[#1A1A1B]",
+        side && type === "removed" && "bg-red-900/40",
+        side && type === "added" && "bg-green-900/40",
+        side && type === "changed" && "bg-yellow-900/30"
+      )}
+    >
+      <span className="w-8 shrink-0 pr-2 text-right text-muted-foreground select-none">
+        {side?.number ?? ""}
+      </span>
+      <span>{side?.text ?? ""}</span>
+    </div>
+  );
+}
+
+export function RevisionHistory({ snippet }: RevisionHistoryProps) {
+  const queryClient = useQueryClient();
+  const { user } = useUser();
+  const [fromId, setFromId] = useState<string>("");
+  const [toId, setToId] = useState<string>("");
+
+  const { data: revisions = [], isLoading } = useQuery<SnippetRevision[]>({
+    queryKey: [`/api/snippets/${snippet.id}/revisions`],
+  });
+
+  // Default to comparing the previous revision with the current one
+  useEffect(() => {
+    if (revisions.length > 0) {
+      setToId(String(revisions[0].id));
+      setFromId(String(revisions[Math.min(1, revisions.length - 1)].id));
+    }
+  }, [revisions]);
+
+  const from = revisions.find(revision => String(revision.id) === fromId);
+  const to = revisions.find(revision => String(revision.id) === toId);
+
+  const rows = useMemo(
+    () => (from && to ? sideBySideDiff(from.code, to.code) : []),
+    [from, to]
+  );
+
+  const restoreMutation = useMutation({
+    mutationFn: async (revisionId: number) => {
+      const res = await fetch(`/api/snippets/${snippet.id}/revisions/${revisionId}/restore`, {
+        method: "POST",
+        credentials: "include",
+      });
+      if (!res.ok) throw new Error(await res.text());
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/snippets/${snippet.id}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/snippets/${snippet.id}/revisions`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/snippets"] });
+      toast({
+        title: "Snippet restored",
+        description: "The selected revision is now the current version.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const isAuthor = user?.id === snippet.authorId;
+  const canRestore = isAuthor && from && revisions[0] && from.id !== revisions[0].id;
+
+  return (
+    <Card className="text-sm bg-[#252728]">
+      <CardHeader className="px-4 py-3">
+        <CardTitle className="text-base flex items-center gap-2">
+          <History className="h-4 w-4" />
+          History
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="px-4 py-2 space-y-3">
+        {isLoading ? (
+          <p className="text-muted-foreground text-xs">Loading history...</p>
+        ) : revisions.length < 2 ? (
+          <p className="text-muted-foreground text-xs">This snippet hasn't been edited yet.</p>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 gap-2">
+              <Select value={fromId} onValueChange={setFromId}>
+                <SelectTrigger className="h-8 text-xs">
+                  <SelectValue placeholder="Compare from..." />
+                </SelectTrigger>
+                <SelectContent>
+                  {revisions.map((revision, index) => (
+                    <SelectItem key={revision.id} value={String(revision.id)} className="text-xs">
+                      {revisionLabel(revision, index, revisions.length)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={toId} onValueChange={setToId}>
+                <SelectTrigger className="h-8 text-xs">
+                  <SelectValue placeholder="Compare to..." />
+                </SelectTrigger>
+                <SelectContent>
+                  {revisions.map((revision, index) => (
+                    <SelectItem key={revision.id} value={String(revision.id)} className="text-xs">
+                      {revisionLabel(revision, index, revisions.length)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {from && to && (
+              <div className="grid grid-cols-2 gap-2 text-xs text-muted-foreground">
+                <span>
+                  {from.title} · edited by {from.editorUsername ?? "unknown"}
+                </span>
+                <span>
+                  {to.title} · edited by {to.editorUsername ?? "unknown"}
+                </span>
+              </div>
+            )}
+
+            <ScrollArea className="h-[300px] rounded bg-[#1A1A1B]">
+              <div className="grid grid-cols-2 gap-x-2 p-1">
+                {rows.map((row, index) => (
+                  <div key={index} className="contents">
+                    <DiffLine side={row.left} type={row.type} />
+                    <DiffLine side={row.right} type={row.type} />
+                  </div>
+                ))}
+              </div>
+            </ScrollArea>
+
+            {canRestore && (
+              <Button
+                size="sm"
+                variant="outline"
+                className="text-xs"
+                disabled={restoreMutation.isPending}
+                onClick={() => restoreMutation.mutate(from.id)}
+              >
+                <RotateCcw className="h-3 w-3 mr-1" />
+                {restoreMutation.isPending ? "Restoring..." : "Restore left revision"}
+              </Button>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,44 @@
+/**
+ * SearchHighlight Component
+ *
+ * Renders a ts_headline fragment returned by the snippet search API.
+ * Matches are delimited with control characters rather than HTML, so the
+ * text is split here and rendered as React nodes without any innerHTML.
+ */
+// Must match HIGHLIGHT_START / HIGHLIGHT_STOP in server/search.ts
+const HIGHLIGHT_START = '\u0002';
+const HIGHLIGHT_STOP = '\u0003';
+
+/**
+ * Whether a fragment contains at least one highlighted match
+ */
+export function hasHighlight(text?: string): text is string {
+  return !!text && text.includes(HIGHLIGHT_START);
+}
+
+interface SearchHighlightProps {
+  text: string;
+  className?: string;
+}
+
+export function SearchHighlight({ text, className }: SearchHighlightProps) {
+  const parts = text.split(HIGHLIGHT_START).flatMap((chunk, index) => {
+    if (index === 0) return [{ text: chunk, match: false }];
+    const [match, ...rest] = chunk.split(HIGHLIGHT_STOP);
+    return [{ text: match, match: true }, { text: rest.join(''), match: false }];
+  });
+
+  return (
+    <span className={className}>
+      {parts.map((part, index) =>
+        part.match ? (
+          <mark key={index} className="rounded-sm bg-yellow-400/30 px-0.5 text-inherit">
+            {part.text}
+          </mark>
+        ) : (
+          part.text
+        )
+      )}
+    </span>
+  );
+}
@@ -9,21 +9,27 @@
  * - Display snippet title, author, code, and metadata
  * - Edit snippet content (for snippet authors only)
  * - Vote on snippets
- * - Delete snippets (for snippet authors only)
- * - Copy code to clipboard
+ * - Delete snippets (for snippet authors and moderators)
+ * - Copy code to clipboard, filling in template placeholders first
+ * - Add to the user's collections
+ * - Bookmark privately to find again later
+ * - Highlight matched terms when rendered as a search result
  */
 
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { CodeEditor } from "./CodeEditor";
-import { Copy, ThumbsUp, CheckCircle2, Edit2, Trash2, MessageSquare } from "lucide-react";
+import { SearchHighlight, hasHighlight } from "./SearchHighlight";
+import { Copy, ThumbsUp, ThumbsDown, CheckCircle2, Edit2, Trash2, MessageSquare, Bookmark } from "lucide-react";
 import { Link } from "wouter";
 import { ScrollArea } from "@/components/ui/scroll-area";
-import type { Snippet, CodeCategory } from "@/lib/types";
+import type { Snippet, CodeCategory, CodeDiagnostic } from "@/lib/types";
 import { useMutation, useQueryClient, useQuery } from "@tanstack/react-query";
 import { toast } from "@/hooks/use-toast";
-import { useState, useEffect } from "react";
-import { getCategoryDisplayName } from "@/lib/utils";
+import { useState } from "react";
+import { CategoryLabel } from "@/components/CategoryLabel";
+import { TemplateCopyDialog } from "./TemplateCopyDialog";
+import { AddToCollectionMenu } from "./AddToCollectionMenu";
 import {
   Dialog,
   DialogContent,
@@ -38,6 +44,7 @@ import {
   FormField,
   FormItem,
   FormLabel,
+  FormMessage,
 } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
 import { useForm } from "react-hook-form";
@@ -49,6 +56,7 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { useUser } from "@/hooks/use-user";
+import { useCategories } from "@/hooks/use-categories";
 import {
   AlertDialog,
   AlertDialogContent,
@@ -60,89 +68,70 @@ import {
   AlertDialogAction,
 } from "@/components/ui/alert-dialog";
 import { cn } from "@/lib/utils";
+import { hasRole } from "@/lib/roles";
+import { ApiError, readApiError } from "@/lib/api-error";
 
 interface SnippetCardProps {
   snippet: Snippet;
+  // Problems to underline in the read-only code view
+  diagnostics?: CodeDiagnostic[];
 }
 
-/**
- * Parses categories from a snippet object
- * 
- * This utility function handles different formats of category data
- * that may be present in a snippet object, including legacy formats.
- * 
- * @param snippet - The snippet object to extract categories from
- * @returns An array of CodeCategory types
- */
-const parsedCategories = (snippet: Snippet): CodeCategory[] => {
-  try {
-    // If categories property exists and is an array, return it
-    if (snippet.categories && Array.isArray(snippet.categories)) {
-      return snippet.categories;
-    }
-    
-    // Handle legacy format where categories might be a string
-    const categoriesValue = (snippet as any).categories;
-    if (typeof categoriesValue === 'string' && categoriesValue.trim()) {
-      try {
-        const parsed = JSON.parse(categoriesValue);
-        return Array.isArray(parsed) ? parsed : [];
-      } catch {
-        // If parsing fails, return empty array
-        return [];
-      }
-    }
-    
-    // Handle legacy format where there might be a single category
-    if ((snippet as any).category) {
-      return [(snippet as any).category as CodeCategory];
-    }
-    
-    // Default to empty array if no categories found
-    return [];
-  } catch (e) {
-    console.error('Error parsing categories:', e);
-    return [];
-  }
-};
-
-export function SnippetCard({ snippet }: SnippetCardProps) {
+export function SnippetCard({ snippet, diagnostics }: SnippetCardProps) {
   const queryClient = useQueryClient();
   const [isCopied, setIsCopied] = useState(false);
   const [isEditing, setIsEditing] = useState(false);
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
+  const [showTemplateDialog, setShowTemplateDialog] = useState(false);
+  // Problems the server found in the code on the last save
+  const [codeDiagnostics, setCodeDiagnostics] = useState<CodeDiagnostic[]>([]);
   const { user } = useUser();
-  const [hasLiked, setHasLiked] = useState(false);
-
-  // Add vote status check query
-  const { data: voteStatus } = useQuery({
+  const { names: activeCategoryNames, languageFor } = useCategories();
+  // Archived categories can't be added, but the snippet may keep the ones it has
+  const categoryNames = [
+    ...activeCategoryNames,
+    ...snippet.categories.filter(category => !activeCategoryNames.includes(category)),
+  ];
+  // The visitor's vote on this snippet: 1 for a like, -1 for a downvote
+  const { data: voteStatus } = useQuery<{ hasVoted: boolean; value: 1 | -1 | null }>({
     queryKey: [`/api/snippets/${snippet.id}/vote-status`],
     queryFn: async () => {
       try {
         const res = await fetch(`/api/snippets/${snippet.id}/vote-status`, {
           credentials: "include",
         });
-        if (!res.ok) return { hasVoted: false };
+        if (!res.ok) return { hasVoted: false, value: null };
         return res.json();
       } catch (e) {
-        return { hasVoted: false };
+        return { hasVoted: false, value: null };
       }
     },
-    enabled: !!user, // Only run if user is logged in
   });
+  const myVote = voteStatus?.value ?? null;
 
-  // Update hasLiked when vote status changes
-  useEffect(() => {
-    if (voteStatus?.hasVoted) {
-      setHasLiked(true);
-    }
-  }, [voteStatus]);
+  // Whether the user has bookmarked this snippet
+  const { data: bookmarkStatus } = useQuery<{ bookmarked: boolean }>({
+    queryKey: [`/api/snippets/${snippet.id}/bookmark`],
+    queryFn: async () => {
+      try {
+        const res = await fetch(`/api/snippets/${snippet.id}/bookmark`, {
+          credentials: "include",
+        });
+        if (!res.ok) return { bookmarked: false };
+        return res.json();
+      } catch (e) {
+        return { bookmarked: false };
+      }
+    },
+    enabled: !!user,
+  });
+  const isBookmarked = !!bookmarkStatus?.bookmarked;
 
   const form = useForm({
     defaultValues: {
       title: snippet.title,
       code: snippet.code,
-      categories: parsedCategories(snippet)
+      categories: (snippet.categories ?? [])
     }
   });
 
@@ -152,7 +141,8 @@ export function SnippetCard({ snippet }: SnippetCardProps) {
    * This mutation handles the API call to update a snippet.
    * 
    * Key features:
-   * - Handles errors with toast notifications
+   * - Marks code that doesn't parse in the editor, and shows other errors
+   *   as toast notifications
    * - Updates query cache on success
    * - Exits edit mode on successful update
    */
@@ -164,57 +154,85 @@ export function SnippetCard({ snippet }: SnippetCardProps) {
         credentials: "include",
         body: JSON.stringify(data)
       });
-      if (!res.ok) throw new Error(await res.text());
+      if (!res.ok) throw await readApiError(res, "Failed to update snippet");
       return res.json();
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/snippets"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/feed"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/snippets/${snippet.id}/revisions`] });
       setIsEditing(false);
+      setCodeDiagnostics([]);
       toast({
         title: "Snippet updated",
         description: "Your changes have been saved."
       });
     },
     onError: (error: Error) => {
+      if (error instanceof ApiError && error.diagnostics.length > 0) {
+        form.setError("code", { message: error.errors.code });
+        setCodeDiagnostics(error.diagnostics);
+        return;
+      }
+      const fieldErrors = error instanceof ApiError ? Object.values(error.errors) : [];
       toast({
         title: "Error",
-        description: error.message,
+        description: fieldErrors.length > 0 ? fieldErrors.join(". ") : error.message,
         variant: "destructive"
       });
     }
   });
 
+  // Casting the vote the visitor already has takes it back instead
   const voteMutation = useMutation({
-    mutationFn: async () => {
+    mutationFn: async (value: 1 | -1) => {
+      const retract = myVote === value;
       const res = await fetch(`/api/snippets/${snippet.id}/vote`, {
-        method: "POST",
+        method: retract ? "DELETE" : "POST",
+        headers: retract ? undefined : { "Content-Type": "application/json" },
         credentials: "include",
+        body: retract ? undefined : JSON.stringify({ value }),
       });
-      if (!res.ok) {
-        const error = await res.text();
-        try {
-          const errorData = JSON.parse(error);
-          throw new Error(errorData.message);
-        } catch {
-          throw new Error('Failed to record vote');
-        }
-      }
+      if (!res.ok) throw await readApiError(res, "Failed to record vote");
       return res.json();
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/snippets"] });
-      setHasLiked(true);
+      queryClient.invalidateQueries({ queryKey: ["/api/feed"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/snippets/${snippet.id}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/snippets/${snippet.id}/vote-status`] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Couldn't vote",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const bookmarkMutation = useMutation({
+    mutationFn: async (bookmark: boolean) => {
+      const res = await fetch(`/api/snippets/${snippet.id}/bookmark`, {
+        method: bookmark ? "POST" : "DELETE",
+        credentials: "include",
+      });
+      if (!res.ok) throw await readApiError(res, "Failed to update bookmark");
+      return res.json() as Promise<{ bookmarked: boolean }>;
+    },
+    onSuccess: (status) => {
+      queryClient.setQueryData([`/api/snippets/${snippet.id}/bookmark`], status);
+      queryClient.invalidateQueries({ queryKey: ["/api/bookmarks"] });
       toast({
-        title: "Vote recorded",
-        description: "Thanks for voting!",
+        title: status.bookmarked ? "Bookmarked" : "Bookmark removed",
+        description: status.bookmarked
+          ? "Find it again under My bookmarks on your profile."
+          : "The snippet has been removed from your bookmarks.",
       });
     },
     onError: (error: Error) => {
-      if (error.message.includes("already voted")) {
-        setHasLiked(true);
-      }
       toast({
-        title: error.message.includes("already voted") ? "Already voted" : "Couldn't vote",
+        title: "Error",
         description: error.message,
         variant: "destructive",
       });
@@ -232,6 +250,7 @@ export function SnippetCard({ snippet }: SnippetCardProps) {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/snippets"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/feed"] });
       queryClient.invalidateQueries({ queryKey: [`/api/authors/${snippet.authorUsername}`] });
       toast({
         title: "Snippet deleted",
@@ -247,15 +266,24 @@ export function SnippetCard({ snippet }: SnippetCardProps) {
     },
   });
 
+  const markCopied = () => {
+    setIsCopied(true);
+    setTimeout(() => setIsCopied(false), 2000);
+  };
+
+  // Templates are filled in before copying
   const handleCopy = async () => {
+    if (snippet.placeholders?.length) {
+      setShowTemplateDialog(true);
+      return;
+    }
     try {
       await navigator.clipboard.writeText(snippet.code);
-      setIsCopied(true);
+      markCopied();
       toast({
         title: "Copied!",
         description: "Code snippet copied to clipboard",
       });
-      setTimeout(() => setIsCopied(false), 2000);
     } catch (err) {
       toast({
         title: "Error",
@@ -273,6 +301,7 @@ export function SnippetCard({ snippet }: SnippetCardProps) {
    */
   const handleCancelEdit = () => {
     setIsEditing(false);
+    setCodeDiagnostics([]);
   };
 
   /**
@@ -289,6 +318,7 @@ export function SnippetCard({ snippet }: SnippetCardProps) {
   };
 
   const isAuthor = user?.id === snippet.authorId;
+  const canDelete = isAuthor || hasRole(user, "moderator");
 
   return (
     <>
@@ -297,7 +327,9 @@ export function SnippetCard({ snippet }: SnippetCardProps) {
           <div className="flex items-center justify-between gap-1 mb-0.5">
             <div className="flex flex-col gap-0.5">
               <Link href={`/snippet/${snippet.id}`} className="hover:text-primary hover:underline">
-                <h2 className="text-sm font-semibold">{snippet.title}</h2>
+                <h2 className="text-sm font-semibold">
+                  {snippet.titleHighlight ? <SearchHighlight text={snippet.titleHighlight} /> : snippet.title}
+                </h2>
               </Link>
               <div className="flex items-center gap-0.5 text-xs text-muted-foreground">
                 <span>Submitted by</span>
@@ -309,36 +341,52 @@ export function SnippetCard({ snippet }: SnippetCardProps) {
             </div>
             <div className="flex items-center gap-1">
               <div className="flex gap-1 flex-wrap">
-                {parsedCategories(snippet).map((category, index) => (
+                {(snippet.categories ?? []).map((category, index) => (
                   <span
                     key={`${category}-${index}`}
                     className="inline-block px-1.5 py-0.5 text-xs font-semibold rounded bg-primary/10"
                   >
-                    {getCategoryDisplayName(category)}
+                    <CategoryLabel name={category} />
                   </span>
                 ))}
               </div>
               <div className="flex gap-1 flex-shrink-0">
-                {isAuthor && (
+                {user && (
                   <>
-                    <Button 
-                      variant="outline" 
-                      size="icon" 
-                      onClick={() => setIsEditing(true)}
-                      className="h-8 w-8"
-                    >
-                      <Edit2 className="h-3 w-3" />
-                    </Button>
                     <Button
                       variant="outline"
                       size="icon"
-                      onClick={() => setShowDeleteDialog(true)}
-                      className="text-destructive hover:text-destructive h-8 w-8"
+                      onClick={() => bookmarkMutation.mutate(!isBookmarked)}
+                      disabled={bookmarkMutation.isPending}
+                      className={cn("h-8 w-8", isBookmarked && "text-primary")}
+                      aria-label={isBookmarked ? "Remove bookmark" : "Bookmark"}
+                      aria-pressed={isBookmarked}
                     >
-                      <Trash2 className="h-3 w-3" />
+                      <Bookmark className={cn("h-3 w-3", isBookmarked && "fill-current")} />
                     </Button>
+                    <AddToCollectionMenu snippetId={snippet.id} />
                   </>
                 )}
+                {isAuthor && (
+                  <Button 
+                    variant="outline" 
+                    size="icon" 
+                    onClick={() => setIsEditing(true)}
+                    className="h-8 w-8"
+                  >
+                    <Edit2 className="h-3 w-3" />
+                  </Button>
+                )}
+                {canDelete && (
+                  <Button
+                    variant="outline"
+                    size="icon"
+                    onClick={() => setShowDeleteDialog(true)}
+                    className="text-destructive hover:text-destructive h-8 w-8"
+                  >
+                    <Trash2 className="h-3 w-3" />
+                  </Button>
+                )}
               </div>
             </div>
           </div>
@@ -365,23 +413,23 @@ export function SnippetCard({ snippet }: SnippetCardProps) {
                     <FormItem>
                       <FormLabel className="text-sm">Categories</FormLabel>
                       <div className="flex flex-wrap gap-1">
-                        {['Prompt', 'TMDL', 'DAX', 'SQL', 'Python', 'PowerQuery'].map((category) => (
+                        {categoryNames.map((category) => (
                           <Button
                             key={category}
                             type="button"
                             size="sm"
-                            variant={field.value.includes(category as CodeCategory) ? "default" : "outline"}
+                            variant={field.value.includes(category) ? "default" : "outline"}
                             className="h-7 text-sm"
                             onClick={() => {
                               const currentCategories = [...field.value];
-                              if (currentCategories.includes(category as CodeCategory)) {
+                              if (currentCategories.includes(category)) {
                                 field.onChange(currentCategories.filter(c => c !== category));
                               } else {
-                                field.onChange([...currentCategories, category as CodeCategory]);
+                                field.onChange([...currentCategories, category]);
                               }
                             }}
                           >
-                            {getCategoryDisplayName(category as CodeCategory)}
+                            <CategoryLabel name={category} />
                           </Button>
                         ))}
                       </div>
@@ -406,9 +454,19 @@ export function SnippetCard({ snippet }: SnippetCardProps) {
                       <FormControl>
                         {/* Fixed height container (160px) for the code editor */}
                         <div style={{ height: "160px" }} className="code-editor-container">
-                          <CodeEditor {...field} className="code-snippet-editor h-full" />
+                          <CodeEditor
+                            {...field}
+                            onChange={(value) => {
+                              field.onChange(value);
+                              setCodeDiagnostics([]);
+                            }}
+                            language={languageFor(form.watch("categories"))}
+                            diagnostics={codeDiagnostics}
+                            className="code-snippet-editor h-full"
+                          />
                         </div>
                       </FormControl>
+                      <FormMessage />
                     </FormItem>
                   )}
                 />
@@ -425,6 +483,12 @@ export function SnippetCard({ snippet }: SnippetCardProps) {
             </Form>
           ) : (
             <>
+              {/* Matching code fragments when the card is shown as a search result */}
+              {hasHighlight(snippet.codeHighlight) && (
+                <div className="rounded bg-[#1A1A1B] px-2 py-1 font-mono text-xs text-muted-foreground whitespace-pre-wrap">
+                  <SearchHighlight text={snippet.codeHighlight} />
+                </div>
+              )}
               {/* 
                 Read-only Code Display
                 
@@ -439,6 +503,8 @@ export function SnippetCard({ snippet }: SnippetCardProps) {
                     value={snippet.code}
                     onChange={() => { }}
                     readOnly
+                    language={languageFor(snippet.categories)}
+                    diagnostics={diagnostics}
                     className="code-snippet-editor"
                   />
                   <Button
@@ -460,7 +526,7 @@ export function SnippetCard({ snippet }: SnippetCardProps) {
           
           <div className="flex flex-wrap items-center w-full gap-1 pt-0.5">
             <div className="w-full flex justify-between text-muted-foreground text-sm mb-1 pb-1 border-b border-[#65686C]" style={{ borderBottomWidth: '1px', borderBottomStyle: 'solid' }}>
-              <span>{snippet.votes} {snippet.votes === 1 ? 'like' : 'likes'}</span>
+              <span>{snippet.votes} {Math.abs(snippet.votes) === 1 ? 'vote' : 'votes'}</span>
               {!window.location.pathname.includes('/snippet/') ? (
                 <Link href={`/snippet/${snippet.id}`} className="hover:text-primary hover:underline cursor-pointer">
                   {snippet.commentCount || 0} {(snippet.commentCount || 0) === 1 ? 'comment' : 'comments'}
@@ -470,18 +536,34 @@ export function SnippetCard({ snippet }: SnippetCardProps) {
               )}
             </div>
             <div className="grid w-full gap-1 grid-cols-2">
-              <Button
-                variant="ghost"
-                onClick={() => voteMutation.mutate()}
-                disabled={voteMutation.isPending}
-                className={cn(
-                  "h-9 px-2 flex items-center justify-center gap-1 text-sm",
-                  hasLiked && "font-bold text-primary"
-                )}
-              >
-                <ThumbsUp className={cn("h-3 w-3", hasLiked && "fill-current")} />
-                <span>Like</span>
-              </Button>
+              <div className="flex gap-1">
+                <Button
+                  variant="ghost"
+                  onClick={() => voteMutation.mutate(1)}
+                  disabled={voteMutation.isPending}
+                  aria-pressed={myVote === 1}
+                  className={cn(
+                    "h-9 px-2 flex-1 flex items-center justify-center gap-1 text-sm",
+                    myVote === 1 && "font-bold text-primary"
+                  )}
+                >
+                  <ThumbsUp className={cn("h-3 w-3", myVote === 1 && "fill-current")} />
+                  <span>Like</span>
+                </Button>
+                <Button
+                  variant="ghost"
+                  onClick={() => voteMutation.mutate(-1)}
+                  disabled={voteMutation.isPending}
+                  aria-pressed={myVote === -1}
+                  aria-label="Downvote"
+                  className={cn(
+                    "h-9 px-2 flex items-center justify-center text-sm",
+                    myVote === -1 && "text-destructive"
+                  )}
+                >
+                  <ThumbsDown className={cn("h-3 w-3", myVote === -1 && "fill-current")} />
+                </Button>
+              </div>
               {!window.location.pathname.includes('/snippet/') && (
                 <Button
                   variant="ghost"
@@ -497,6 +579,15 @@ export function SnippetCard({ snippet }: SnippetCardProps) {
           </div>
         </CardContent>
       </Card>
+      {snippet.placeholders && snippet.placeholders.length > 0 && (
+        <TemplateCopyDialog
+          snippetId={snippet.id}
+          placeholders={snippet.placeholders}
+          open={showTemplateDialog}
+          onOpenChange={setShowTemplateDialog}
+          onCopied={markCopied}
+        />
+      )}
       <AlertDialog open={showDeleteDialog} onOpenChange={setShowDeleteDialog}>
         <AlertDialogContent>
           <AlertDialogHeader>
@@ -0,0 +1,124 @@
+/**
+ * TemplateCopyDialog Component
+ *
+ * Opened by SnippetCard's copy button when the snippet is a template, i.e.
+ * its code marks values to fill in as {{Name:default|description}}. Shows
+ * one field per placeholder, pre-filled with its default, and copies the
+ * code the server renders from them. Fields left empty use their default;
+ * placeholders without one are required, and the server's field errors are
+ * shown under the fields they belong to.
+ */
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useForm } from "react-hook-form";
+import { useMutation } from "@tanstack/react-query";
+import { useEffect } from "react";
+import { toast } from "@/hooks/use-toast";
+import { ApiError, readApiError } from "@/lib/api-error";
+import type { SnippetPlaceholder } from "@/lib/types";
+
+interface TemplateCopyDialogProps {
+  snippetId: number;
+  placeholders: SnippetPlaceholder[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Called once the rendered code is on the clipboard
+  onCopied: () => void;
+}
+
+const defaultValues = (placeholders: SnippetPlaceholder[]) =>
+  Object.fromEntries(placeholders.map(placeholder => [placeholder.name, placeholder.defaultValue ?? ""]));
+
+export function TemplateCopyDialog({ snippetId, placeholders, open, onOpenChange, onCopied }: TemplateCopyDialogProps) {
+  const form = useForm<Record<string, string>>({ defaultValues: defaultValues(placeholders) });
+
+  // Start from the defaults each time the dialog opens
+  useEffect(() => {
+    if (open) form.reset(defaultValues(placeholders));
+  }, [open]);
+
+  const renderMutation = useMutation({
+    mutationFn: async (values: Record<string, string>) => {
+      const res = await fetch(`/api/snippets/${snippetId}/render`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({ values })
+      });
+      if (!res.ok) throw await readApiError(res, "Failed to fill in the template");
+      const { code } = await res.json();
+      await navigator.clipboard.writeText(code);
+    },
+    onSuccess: () => {
+      onOpenChange(false);
+      onCopied();
+      toast({
+        title: "Copied!",
+        description: "Filled-in code copied to clipboard",
+      });
+    },
+    onError: (error: Error) => {
+      const fieldErrors = error instanceof ApiError ? Object.entries(error.errors) : [];
+      const known = fieldErrors.filter(([name]) => placeholders.some(placeholder => placeholder.name === name));
+      if (known.length > 0) {
+        known.forEach(([name, message]) => form.setError(name, { message }));
+        return;
+      }
+      toast({
+        title: "Error",
+        description: fieldErrors.length > 0 ? fieldErrors.map(([, message]) => message).join(". ") : error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>Fill in the template</DialogTitle>
+          <DialogDescription>
+            Fields left empty use their default value.
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(values => renderMutation.mutate(values))} className="space-y-3">
+            {placeholders.map(placeholder => (
+              <FormField
+                key={placeholder.name}
+                control={form.control}
+                name={placeholder.name}
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="font-mono text-sm">{placeholder.name}</FormLabel>
+                    <FormControl>
+                      <Input
+                        {...field}
+                        placeholder={placeholder.defaultValue ?? "Required"}
+                        className="font-mono text-sm h-8"
+                      />
+                    </FormControl>
+                    {placeholder.description && (
+                      <FormDescription className="text-xs">{placeholder.description}</FormDescription>
+                    )}
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            ))}
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)} className="h-9 text-sm">
+                Cancel
+              </Button>
+              <Button type="submit" disabled={renderMutation.isPending} className="h-9 text-sm">
+                {renderMutation.isPending ? "Copying..." : "Copy code"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
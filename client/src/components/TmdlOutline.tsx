@@ -0,0 +1,72 @@
+/**
+ * TmdlOutline Component
+ *
+ * Shows the tables, columns, measures and relationships a TMDL snippet
+ * defines, as parsed by the server, so readers can see what a long model
+ * definition contains without reading it line by line.
+ */
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table2, Columns3, Sigma, Link2, ListTree } from "lucide-react";
+import type { TmdlOutlineNode, TmdlOutlineType } from "@/lib/types";
+
+interface TmdlOutlineProps {
+  outline: TmdlOutlineNode[];
+}
+
+const OUTLINE_ICONS: Record<TmdlOutlineType, typeof Table2> = {
+  table: Table2,
+  column: Columns3,
+  measure: Sigma,
+  relationship: Link2,
+};
+
+function OutlineItem({ node }: { node: TmdlOutlineNode }) {
+  const Icon = OUTLINE_ICONS[node.type];
+
+  return (
+    <li>
+      <div className="flex items-center gap-2 text-sm">
+        <Icon className="h-3.5 w-3.5 shrink-0 text-muted-foreground" />
+        <span className={node.type === "table" ? "font-semibold" : undefined}>{node.name}</span>
+        {node.calculated && (
+          <span className="text-[10px] px-1 rounded bg-primary/10">calculated</span>
+        )}
+        {node.detail && (
+          <span className="font-mono text-xs text-muted-foreground truncate">{node.detail}</span>
+        )}
+        <span className="ml-auto shrink-0 font-mono text-xs text-muted-foreground">
+          line {node.line}
+        </span>
+      </div>
+      {node.children.length > 0 && (
+        <ul className="ml-5 mt-1 space-y-1">
+          {node.children.map((child, index) => (
+            <OutlineItem key={`${child.type}-${child.name}-${index}`} node={child} />
+          ))}
+        </ul>
+      )}
+    </li>
+  );
+}
+
+export function TmdlOutline({ outline }: TmdlOutlineProps) {
+  if (outline.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader className="px-4 py-3">
+        <CardTitle className="text-base flex items-center gap-2">
+          <ListTree className="h-4 w-4" />
+          Outline
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="px-4 py-2">
+        <ul className="space-y-2">
+          {outline.map((node, index) => (
+            <OutlineItem key={`${node.type}-${node.name}-${index}`} node={node} />
+          ))}
+        </ul>
+      </CardContent>
+    </Card>
+  );
+}
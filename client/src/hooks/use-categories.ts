@@ -0,0 +1,45 @@
+import { useCallback, useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import type { Category, CodeCategory } from "@/lib/types";
+
+/**
+ * Loads the category registry from /api/categories. `categories` and `names`
+ * only include categories that can still be picked; `find` and `displayName`
+ * also resolve archived ones so existing snippets keep their labels.
+ */
+export function useCategories() {
+  const { data: allCategories = [], isLoading } = useQuery<Category[]>({
+    queryKey: ['/api/categories'],
+  });
+
+  const categories = useMemo(
+    () => allCategories.filter(category => !category.archivedAt),
+    [allCategories]
+  );
+  const names: CodeCategory[] = useMemo(() => categories.map(category => category.name), [categories]);
+
+  // Category names in URLs (e.g. ?category=dax) may differ in case
+  const byName = useMemo(
+    () => new Map(allCategories.map(category => [category.name.toLowerCase(), category])),
+    [allCategories]
+  );
+
+  const find = useCallback(
+    (name: CodeCategory): Category | undefined => byName.get(name.toLowerCase()),
+    [byName]
+  );
+
+  const displayName = useCallback(
+    (name: CodeCategory) => find(name)?.displayName ?? name,
+    [find]
+  );
+
+  // The syntax mode for a snippet: the first of its categories that has one
+  const languageFor = useCallback(
+    (names: CodeCategory[]) =>
+      names.map(name => find(name)?.languageMode).find(mode => mode && mode !== 'plaintext'),
+    [find]
+  );
+
+  return { categories, allCategories, names, find, displayName, languageFor, isLoading };
+}
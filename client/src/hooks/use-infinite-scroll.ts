@@ -0,0 +1,36 @@
+import { useEffect, useRef } from "react";
+
+/**
+ * Calls `onLoadMore` whenever the returned sentinel element scrolls into
+ * view. Attach the ref to an element rendered after the last list item.
+ * @param onLoadMore Loads the next page
+ * @param enabled Whether there is another page and none is being fetched
+ */
+export function useInfiniteScroll<T extends HTMLElement = HTMLDivElement>(
+  onLoadMore: () => void,
+  enabled: boolean
+) {
+  const sentinelRef = useRef<T | null>(null);
+  const callbackRef = useRef(onLoadMore);
+  callbackRef.current = onLoadMore;
+
+  useEffect(() => {
+    const node = sentinelRef.current;
+    if (!node || !enabled) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries[0]?.isIntersecting) {
+          callbackRef.current();
+        }
+      },
+      // Start loading a little before the user reaches the end of the list
+      { rootMargin: "400px" }
+    );
+
+    observer.observe(node);
+    return () => observer.disconnect();
+  }, [enabled]);
+
+  return sentinelRef;
+}
@@ -0,0 +1,33 @@
+import type { CodeDiagnostic } from "./types";
+
+/**
+ * An error response from the API. Validation failures carry field-keyed
+ * `errors`, and code that doesn't parse also carries line-level
+ * `diagnostics` for the code editor.
+ */
+export class ApiError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+    public errors: Record<string, string> = {},
+    public diagnostics: CodeDiagnostic[] = []
+  ) {
+    super(message);
+    this.name = "ApiError";
+  }
+}
+
+/**
+ * Read an error response into an ApiError
+ * @param res The failed response
+ * @param fallback Message to use when the body has none
+ */
+export async function readApiError(res: Response, fallback: string): Promise<ApiError> {
+  const text = await res.text();
+  try {
+    const data = JSON.parse(text);
+    return new ApiError(data.message || fallback, res.status, data.errors, data.diagnostics);
+  } catch {
+    return new ApiError(text || fallback, res.status);
+  }
+}
@@ -0,0 +1,38 @@
+import {
+  Binary,
+  Braces,
+  ChartBar,
+  Code,
+  Database,
+  FileCode,
+  Flame,
+  MessageSquare,
+  NotebookPen,
+  Search,
+  Sigma,
+  Table,
+  Terminal,
+  Workflow,
+  type LucideIcon,
+} from "lucide-react";
+
+/**
+ * Icons admins can pick for a category. Categories store the key, so only
+ * icons listed here are bundled.
+ */
+export const CATEGORY_ICONS: Record<string, LucideIcon> = {
+  code: Code,
+  braces: Braces,
+  binary: Binary,
+  terminal: Terminal,
+  database: Database,
+  table: Table,
+  sigma: Sigma,
+  chart: ChartBar,
+  workflow: Workflow,
+  search: Search,
+  flame: Flame,
+  notebook: NotebookPen,
+  file: FileCode,
+  message: MessageSquare,
+};
@@ -0,0 +1,99 @@
+import type { StreamParser, StringStream } from "@codemirror/language";
+
+/**
+ * DAX syntax for CodeMirror
+ *
+ * A stream tokenizer rather than a full grammar: DAX is small enough that
+ * recognising comments, strings, table and column references, keywords and
+ * function calls gives readable highlighting without a Lezer build step.
+ */
+
+export interface DaxState {
+  inBlockComment: boolean;
+}
+
+const KEYWORDS = new Set([
+  "VAR", "RETURN", "DEFINE", "EVALUATE", "MEASURE", "COLUMN", "TABLE",
+  "ORDER", "BY", "ASC", "DESC", "START", "AT", "IN", "NOT", "AND", "OR",
+]);
+
+const ATOMS = new Set(["TRUE", "FALSE", "BLANK"]);
+
+/**
+ * Read one DAX token. Exported so other grammars (TMDL) can embed DAX
+ * expressions.
+ */
+export function daxToken(stream: StringStream, state: DaxState): string | null {
+  if (state.inBlockComment) {
+    if (stream.skipTo("*/")) {
+      stream.match("*/");
+      state.inBlockComment = false;
+    } else {
+      stream.skipToEnd();
+    }
+    return "blockComment";
+  }
+
+  if (stream.eatSpace()) return null;
+
+  if (stream.match("//") || stream.match("--")) {
+    stream.skipToEnd();
+    return "lineComment";
+  }
+  if (stream.match("/*")) {
+    state.inBlockComment = true;
+    return daxToken(stream, state) ?? "blockComment";
+  }
+
+  // Strings escape quotes by doubling them
+  if (stream.match('"')) {
+    while (!stream.eol()) {
+      if (stream.next() === '"' && !stream.eat('"')) break;
+    }
+    return "string";
+  }
+
+  // 'Table Name' references, same doubling rule
+  if (stream.match("'")) {
+    while (!stream.eol()) {
+      if (stream.next() === "'" && !stream.eat("'")) break;
+    }
+    return "typeName";
+  }
+
+  // [Column] and [Measure] references
+  if (stream.match("[")) {
+    if (stream.skipTo("]")) {
+      stream.next();
+    } else {
+      stream.skipToEnd();
+    }
+    return "propertyName";
+  }
+
+  if (stream.match(/^(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/)) return "number";
+
+  if (stream.match(/^[A-Za-z_][\w.]*/)) {
+    const word = stream.current();
+    const upper = word.toUpperCase();
+    if (stream.match(/^\s*\(/, false)) return "variableName.function";
+    if (KEYWORDS.has(upper)) return "keyword";
+    if (ATOMS.has(upper)) return "bool";
+    return "variableName";
+  }
+
+  if (stream.match(/^(?:&&|\|\||<>|<=|>=|==|[-+*\/^&=<>])/)) return "operator";
+  if (stream.match(/^[(),{}]/)) return "bracket";
+
+  stream.next();
+  return null;
+}
+
+export const dax: StreamParser<DaxState> = {
+  name: "dax",
+  startState: () => ({ inBlockComment: false }),
+  token: daxToken,
+  languageData: {
+    commentTokens: { line: "//", block: { open: "/*", close: "*/" } },
+  },
+};
@@ -0,0 +1,86 @@
+import type { StreamParser, StringStream } from "@codemirror/language";
+
+/**
+ * KQL (Kusto) syntax for CodeMirror, for Real-Time Intelligence and
+ * Eventhouse queries
+ */
+
+export interface KqlState {
+  inBlockComment: boolean;
+}
+
+const KEYWORDS = new Set([
+  "where", "project", "extend", "summarize", "by",
+  "join", "kind", "on", "union", "take", "limit", "top", "sort", "order", "asc", "desc",
+  "let", "as", "count", "distinct", "render", "parse", "evaluate",
+  "datatable", "print", "range", "from", "to", "step", "materialize", "invoke",
+  "and", "or", "not", "in", "between", "has", "has_any", "contains", "startswith",
+  "endswith", "matches", "regex", "with", "nulls", "first", "last",
+]);
+
+const ATOMS = new Set(["true", "false", "null"]);
+
+function kqlToken(stream: StringStream, state: KqlState): string | null {
+  if (state.inBlockComment) {
+    if (stream.skipTo("*/")) {
+      stream.match("*/");
+      state.inBlockComment = false;
+    } else {
+      stream.skipToEnd();
+    }
+    return "blockComment";
+  }
+
+  if (stream.eatSpace()) return null;
+
+  if (stream.match("//")) {
+    stream.skipToEnd();
+    return "lineComment";
+  }
+  if (stream.match("/*")) {
+    state.inBlockComment = true;
+    return kqlToken(stream, state) ?? "blockComment";
+  }
+
+  const quote = stream.peek();
+  if (quote === '"' || quote === "'") {
+    stream.next();
+    let escaped = false;
+    while (!stream.eol()) {
+      const ch = stream.next();
+      if (ch === quote && !escaped) break;
+      escaped = !escaped && ch === "\\";
+    }
+    return "string";
+  }
+
+  // Timespans (1d, 30m) and plain numbers
+  if (stream.match(/^\d+(?:\.\d+)?(?:d|h|m|s|ms|microsecond|tick)?\b/)) return "number";
+
+  // Hyphenated operators, matched whole so `a-b` still reads as subtraction
+  if (stream.match(/^(?:project-(?:away|rename|keep|reorder)|mv-(?:expand|apply))\b/)) return "keyword";
+
+  if (stream.match(/^[A-Za-z_]\w*/)) {
+    const word = stream.current();
+    if (KEYWORDS.has(word.toLowerCase())) return "keyword";
+    if (ATOMS.has(word)) return "bool";
+    if (stream.match(/^\s*\(/, false)) return "variableName.function";
+    return "variableName";
+  }
+
+  if (stream.eat("|")) return "operator.special";
+  if (stream.match(/^(?:==|!=|<>|<=|>=|=~|!~|[-+*\/%=<>!])/)) return "operator";
+  if (stream.match(/^[()\[\],{}]/)) return "bracket";
+
+  stream.next();
+  return null;
+}
+
+export const kql: StreamParser<KqlState> = {
+  name: "kql",
+  startState: () => ({ inBlockComment: false }),
+  token: kqlToken,
+  languageData: {
+    commentTokens: { line: "//" },
+  },
+};
@@ -0,0 +1,42 @@
+import { StreamLanguage } from "@codemirror/language";
+import type { Extension } from "@codemirror/state";
+import { sql, MSSQL } from "@codemirror/lang-sql";
+import { python } from "@codemirror/lang-python";
+import { json } from "@codemirror/lang-json";
+import { markdown } from "@codemirror/lang-markdown";
+import { csharp } from "@codemirror/legacy-modes/mode/clike";
+import { dax } from "./dax";
+import { powerQuery } from "./powerquery";
+import { tmdl } from "./tmdl";
+import { kql } from "./kql";
+
+/**
+ * Maps a category's language mode (see lib/language-modes.ts) to the
+ * CodeMirror language support that highlights it
+ */
+const LANGUAGES: Record<string, () => Extension> = {
+  dax: () => StreamLanguage.define(dax),
+  powerquery: () => StreamLanguage.define(powerQuery),
+  tmdl: () => StreamLanguage.define(tmdl),
+  kql: () => StreamLanguage.define(kql),
+  // Fabric warehouses and SQL endpoints speak T-SQL
+  sql: () => sql({ dialect: MSSQL }),
+  python: () => python(),
+  csharp: () => StreamLanguage.define(csharp),
+  markdown: () => markdown(),
+  json: () => json(),
+};
+
+const cache = new Map<string, Extension>();
+
+/**
+ * Get the language extension for a language mode, or none for plain text
+ * and unknown modes
+ */
+export function languageExtension(mode: string | undefined): Extension {
+  if (!mode || !LANGUAGES[mode]) return [];
+  if (!cache.has(mode)) {
+    cache.set(mode, LANGUAGES[mode]());
+  }
+  return cache.get(mode)!;
+}
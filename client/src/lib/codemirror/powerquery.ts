@@ -0,0 +1,95 @@
+import type { StreamParser, StringStream } from "@codemirror/language";
+
+/**
+ * Power Query M syntax for CodeMirror
+ *
+ * Highlights keywords, #"quoted identifiers", #intrinsics (#date, #table),
+ * library functions (Table.AddColumn), [field] access, strings and comments.
+ */
+
+export interface PowerQueryState {
+  inBlockComment: boolean;
+}
+
+const KEYWORDS = new Set([
+  "let", "in", "if", "then", "else", "each", "try", "otherwise", "error",
+  "and", "or", "not", "as", "is", "meta", "type", "section", "shared",
+]);
+
+const ATOMS = new Set(["true", "false", "null"]);
+
+/**
+ * Read one M token. Exported so other grammars (TMDL partitions) can embed
+ * M expressions.
+ */
+export function powerQueryToken(stream: StringStream, state: PowerQueryState): string | null {
+  if (state.inBlockComment) {
+    if (stream.skipTo("*/")) {
+      stream.match("*/");
+      state.inBlockComment = false;
+    } else {
+      stream.skipToEnd();
+    }
+    return "blockComment";
+  }
+
+  if (stream.eatSpace()) return null;
+
+  if (stream.match("//")) {
+    stream.skipToEnd();
+    return "lineComment";
+  }
+  if (stream.match("/*")) {
+    state.inBlockComment = true;
+    return powerQueryToken(stream, state) ?? "blockComment";
+  }
+
+  // #"Step name" identifiers and "text" literals both escape quotes by doubling
+  const quotedIdentifier = stream.match('#"');
+  if (quotedIdentifier || stream.match('"')) {
+    while (!stream.eol()) {
+      if (stream.next() === '"' && !stream.eat('"')) break;
+    }
+    return quotedIdentifier ? "variableName.special" : "string";
+  }
+
+  // Intrinsics such as #date, #table, #duration
+  if (stream.match(/^#[A-Za-z]+/)) return "variableName.standard";
+
+  if (stream.match("[")) {
+    if (stream.skipTo("]")) {
+      stream.next();
+    } else {
+      stream.skipToEnd();
+    }
+    return "propertyName";
+  }
+
+  if (stream.match(/^0x[0-9a-fA-F]+/) || stream.match(/^(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/)) {
+    return "number";
+  }
+
+  if (stream.match(/^[A-Za-z_][\w.]*/)) {
+    const word = stream.current();
+    if (KEYWORDS.has(word)) return "keyword";
+    if (ATOMS.has(word)) return "bool";
+    // Library functions are namespaced: Table.SelectRows, Text.Upper, ...
+    if (word.includes(".") || stream.match(/^\s*\(/, false)) return "variableName.function";
+    return "variableName";
+  }
+
+  if (stream.match(/^(?:=>|<>|<=|>=|\.\.\.|\?\?|[-+*\/&=<>?@])/)) return "operator";
+  if (stream.match(/^[(),{}]/)) return "bracket";
+
+  stream.next();
+  return null;
+}
+
+export const powerQuery: StreamParser<PowerQueryState> = {
+  name: "powerquery",
+  startState: () => ({ inBlockComment: false }),
+  token: powerQueryToken,
+  languageData: {
+    commentTokens: { line: "//", block: { open: "/*", close: "*/" } },
+  },
+};
@@ -0,0 +1,67 @@
+import { EditorView } from "@codemirror/view";
+import { HighlightStyle, syntaxHighlighting } from "@codemirror/language";
+import { tags } from "@lezer/highlight";
+
+/**
+ * Dark editor theme matching the snippet cards (#1A1A1B code background)
+ */
+const editorTheme = EditorView.theme(
+  {
+    "&": {
+      backgroundColor: "#1A1A1B",
+      color: "#E4E6EB",
+      height: "100%",
+    },
+    ".cm-scroller": {
+      fontFamily: "'JetBrains Mono', Menlo, Monaco, Consolas, monospace",
+      lineHeight: "1.625",
+    },
+    ".cm-content": {
+      caretColor: "#E4E6EB",
+    },
+    ".cm-gutters": {
+      backgroundColor: "#1A1A1B",
+      color: "#65686C",
+      border: "none",
+    },
+    ".cm-activeLine, .cm-activeLineGutter": {
+      backgroundColor: "#252728",
+    },
+    "&.cm-focused": {
+      outline: "none",
+    },
+    "&.cm-focused .cm-matchingBracket": {
+      backgroundColor: "#3A3B3C",
+      outline: "1px solid #65686C",
+    },
+    ".cm-selectionBackground, &.cm-focused .cm-selectionBackground, ::selection": {
+      backgroundColor: "#264F78",
+    },
+    ".cm-panels": {
+      backgroundColor: "#252728",
+      color: "#E4E6EB",
+    },
+    ".cm-searchMatch": {
+      backgroundColor: "#613214",
+    },
+  },
+  { dark: true }
+);
+
+const highlightStyle = HighlightStyle.define([
+  { tag: [tags.keyword, tags.modifier], color: "#569CD6" },
+  { tag: [tags.comment, tags.lineComment, tags.blockComment], color: "#6A9955", fontStyle: "italic" },
+  { tag: tags.docComment, color: "#6A9955" },
+  { tag: [tags.string, tags.special(tags.string)], color: "#CE9178" },
+  { tag: [tags.number, tags.bool, tags.null], color: "#B5CEA8" },
+  { tag: tags.function(tags.variableName), color: "#DCDCAA" },
+  { tag: [tags.standard(tags.variableName), tags.special(tags.variableName)], color: "#4FC1FF" },
+  { tag: tags.definition(tags.variableName), color: "#4EC9B0" },
+  { tag: [tags.propertyName, tags.attributeName], color: "#9CDCFE" },
+  { tag: [tags.typeName, tags.className], color: "#4EC9B0" },
+  { tag: [tags.operator, tags.special(tags.operator)], color: "#D4D4D4" },
+  { tag: tags.heading, color: "#569CD6", fontWeight: "bold" },
+  { tag: tags.invalid, color: "#F44747" },
+]);
+
+export const codeEditorTheme = [editorTheme, syntaxHighlighting(highlightStyle)];
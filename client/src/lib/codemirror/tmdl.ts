@@ -0,0 +1,173 @@
+import type { StreamParser, StringStream } from "@codemirror/language";
+import { daxToken, type DaxState } from "./dax";
+import { powerQueryToken, type PowerQueryState } from "./powerquery";
+
+/**
+ * TMDL syntax for CodeMirror
+ *
+ * TMDL is indentation based: each line declares an object (`table Sales`,
+ * `measure 'Total Sales' = ...`) or sets a property (`dataType: int64`).
+ * Expressions after `=` are highlighted as DAX, or as M for partition
+ * sources and shared expressions. An expression either fits on the rest of
+ * the line, or starts on the next line and continues for as long as lines
+ * stay at least as indented as its first line.
+ */
+
+type Position = "start" | "name" | "afterName" | "property" | "value" | "expression";
+
+export interface TmdlState {
+  position: Position;
+  lineIndent: number;
+  keyword: string | null;
+  property: string | null;
+  partitionType: string | null;
+  expression: "dax" | "m" | null;
+  // Indent of the line with the `=`, and of the expression's first line
+  // (null until it's seen, -1 for single-line expressions)
+  declarationIndent: number;
+  expressionIndent: number | null;
+  dax: DaxState;
+  m: PowerQueryState;
+}
+
+const OBJECT_KEYWORDS = new Set([
+  "model", "database", "table", "column", "measure", "partition", "relationship",
+  "hierarchy", "level", "role", "member", "tablePermission", "columnPermission",
+  "perspective", "perspectiveTable", "perspectiveColumn", "perspectiveMeasure",
+  "perspectiveHierarchy", "culture", "linguisticMetadata", "expression", "annotation",
+  "extendedProperty", "calculationGroup", "calculationItem", "dataSource", "queryGroup",
+  "formatStringDefinition", "detailRowsDefinition", "variation", "function",
+]);
+
+const MODIFIERS = new Set(["ref", "createOrReplace", "createOrAlter", "delete"]);
+
+// Objects whose `= value` is a literal rather than an expression
+const VALUE_OBJECTS = new Set(["partition", "annotation", "extendedProperty"]);
+
+function expressionLanguage(state: TmdlState): "dax" | "m" {
+  if (state.keyword === "expression") return "m";
+  if (state.property === "source") {
+    return state.partitionType === "calculated" ? "dax" : "m";
+  }
+  return "dax";
+}
+
+function readName(stream: StringStream) {
+  if (stream.match("'")) {
+    while (!stream.eol()) {
+      if (stream.next() === "'" && !stream.eat("'")) break;
+    }
+    return;
+  }
+  stream.match(/^[^\s=:]+/);
+}
+
+function tmdlToken(stream: StringStream, state: TmdlState): string | null {
+  if (stream.sol()) {
+    state.lineIndent = stream.indentation();
+    if (state.expression && state.expressionIndent === null && state.lineIndent > state.declarationIndent) {
+      state.expressionIndent = state.lineIndent;
+    }
+    if (state.expression && state.expressionIndent !== null && state.expressionIndent >= 0 &&
+        state.lineIndent >= state.expressionIndent) {
+      state.position = "expression";
+    } else {
+      state.expression = null;
+      state.position = "start";
+      state.property = null;
+    }
+  }
+
+  if (state.position === "expression") {
+    return state.expression === "m"
+      ? powerQueryToken(stream, state.m)
+      : daxToken(stream, state.dax);
+  }
+
+  if (stream.eatSpace()) return null;
+
+  switch (state.position) {
+    case "start": {
+      if (stream.match("///")) {
+        stream.skipToEnd();
+        return "docComment";
+      }
+      if (!stream.match(/^[A-Za-z_][\w]*/)) {
+        stream.skipToEnd();
+        return null;
+      }
+      const word = stream.current();
+      if (MODIFIERS.has(word)) return "modifier";
+      if (OBJECT_KEYWORDS.has(word)) {
+        state.keyword = word;
+        state.position = "name";
+        return "keyword";
+      }
+      state.property = word;
+      state.position = "property";
+      return "propertyName";
+    }
+
+    case "name":
+      readName(stream);
+      state.position = "afterName";
+      return "variableName.definition";
+
+    case "afterName":
+    case "property":
+      if (stream.eat(":")) {
+        state.position = "value";
+        return "punctuation";
+      }
+      if (stream.eat("=")) {
+        if (state.position === "afterName" && state.keyword && VALUE_OBJECTS.has(state.keyword)) {
+          state.position = "value";
+        } else {
+          state.expression = expressionLanguage(state);
+          state.declarationIndent = state.lineIndent;
+          state.expressionIndent = stream.match(/^\s*$/, false) ? null : -1;
+          state.position = "expression";
+          state.dax = { inBlockComment: false };
+          state.m = { inBlockComment: false };
+        }
+        return "operator";
+      }
+      // Names can be written in several parts, e.g. `column Sales.Amount`
+      readName(stream);
+      return state.position === "afterName" ? "variableName.definition" : "propertyName";
+
+    case "value":
+    default: {
+      if (stream.match(/^-?\d+(?:\.\d+)?\b/)) return "number";
+      if (stream.match(/^(?:true|false)\b/)) return "bool";
+      const word = stream.match(/^[^\s]+/);
+      if (word && state.keyword === "partition" && state.property === null) {
+        state.partitionType = stream.current();
+        return "typeName";
+      }
+      stream.skipToEnd();
+      return "string";
+    }
+  }
+}
+
+export const tmdl: StreamParser<TmdlState> = {
+  name: "tmdl",
+  startState: () => ({
+    position: "start",
+    lineIndent: 0,
+    keyword: null,
+    property: null,
+    partitionType: null,
+    expression: null,
+    declarationIndent: 0,
+    expressionIndent: null,
+    dax: { inBlockComment: false },
+    m: { inBlockComment: false },
+  }),
+  copyState: (state) => ({ ...state, dax: { ...state.dax }, m: { ...state.m } }),
+  token: tmdlToken,
+  languageData: {
+    commentTokens: { line: "///" },
+  },
+};
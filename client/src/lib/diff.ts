@@ -0,0 +1,99 @@
+/**
+ * A single row of a side-by-side diff. Either side may be empty when a line
+ * was only added or only removed.
+ */
+export interface DiffRow {
+  type: 'unchanged' | 'added' | 'removed' | 'changed';
+  left?: { number: number; text: string };
+  right?: { number: number; text: string };
+}
+
+type Operation = { type: 'equal' | 'insert' | 'delete'; text: string };
+
+/**
+ * Computes a line-based diff using the longest common subsequence
+ * @param before The original text
+ * @param after The changed text
+ * @returns The sequence of equal/insert/delete operations
+ */
+function diffLines(before: string[], after: string[]): Operation[] {
+  const rows = before.length;
+  const cols = after.length;
+
+  // lcs[i][j] holds the LCS length of before[i..] and after[j..]
+  const lcs: number[][] = Array.from({ length: rows + 1 }, () => new Array(cols + 1).fill(0));
+  for (let i = rows - 1; i >= 0; i--) {
+    for (let j = cols - 1; j >= 0; j--) {
+      lcs[i][j] = before[i] === after[j]
+        ? lcs[i + 1][j + 1] + 1
+        : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const operations: Operation[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < rows && j < cols) {
+    if (before[i] === after[j]) {
+      operations.push({ type: 'equal', text: before[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      operations.push({ type: 'delete', text: before[i++] });
+    } else {
+      operations.push({ type: 'insert', text: after[j++] });
+    }
+  }
+  while (i < rows) operations.push({ type: 'delete', text: before[i++] });
+  while (j < cols) operations.push({ type: 'insert', text: after[j++] });
+
+  return operations;
+}
+
+/**
+ * Builds the rows of a side-by-side diff between two versions of some code.
+ * Runs of removed lines followed by added lines are paired up as changes so
+ * they line up next to each other.
+ * @param before The older version
+ * @param after The newer version
+ */
+export function sideBySideDiff(before: string, after: string): DiffRow[] {
+  const operations = diffLines(before.split('\n'), after.split('\n'));
+  const rows: DiffRow[] = [];
+  let leftNumber = 1;
+  let rightNumber = 1;
+  let index = 0;
+
+  while (index < operations.length) {
+    const operation = operations[index];
+    if (operation.type === 'equal') {
+      rows.push({
+        type: 'unchanged',
+        left: { number: leftNumber++, text: operation.text },
+        right: { number: rightNumber++, text: operation.text },
+      });
+      index++;
+      continue;
+    }
+
+    // Collect the full block of deletions and insertions before pairing them
+    const removed: string[] = [];
+    const added: string[] = [];
+    while (index < operations.length && operations[index].type !== 'equal') {
+      const { type, text } = operations[index++];
+      (type === 'delete' ? removed : added).push(text);
+    }
+
+    for (let k = 0; k < Math.max(removed.length, added.length); k++) {
+      const left = k < removed.length ? { number: leftNumber++, text: removed[k] } : undefined;
+      const right = k < added.length ? { number: rightNumber++, text: added[k] } : undefined;
+      rows.push({
+        type: left && right ? 'changed' : left ? 'removed' : 'added',
+        left,
+        right,
+      });
+    }
+  }
+
+  return rows;
+}
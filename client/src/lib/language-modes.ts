@@ -0,0 +1,20 @@
+/**
+ * Syntax modes a category can use, mirroring LANGUAGE_MODES in
+ * server/categories.ts
+ */
+export const LANGUAGE_MODES: { value: string; label: string }[] = [
+  { value: 'plaintext', label: 'Plain text' },
+  { value: 'dax', label: 'DAX' },
+  { value: 'powerquery', label: 'Power Query M' },
+  { value: 'tmdl', label: 'TMDL' },
+  { value: 'sql', label: 'SQL' },
+  { value: 'kql', label: 'KQL' },
+  { value: 'python', label: 'Python' },
+  { value: 'csharp', label: 'C#' },
+  { value: 'markdown', label: 'Markdown' },
+  { value: 'json', label: 'JSON' },
+];
+
+export function getLanguageModeLabel(mode: string): string {
+  return LANGUAGE_MODES.find(language => language.value === mode)?.label ?? mode;
+}
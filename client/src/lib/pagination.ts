@@ -0,0 +1,54 @@
+import type { InfiniteData } from "@tanstack/react-query";
+import type { Page } from "./types";
+
+/**
+ * Fetches one page from a cursor-paginated endpoint whose response wraps the
+ * page in a custom shape (e.g. /api/authors/:name)
+ * @param url The endpoint URL without a query string
+ * @param params Query parameters; empty values are left out
+ * @param cursor The cursor returned with the previous page
+ */
+export async function fetchWithCursor<TResponse>(
+  url: string,
+  params: Record<string, string | undefined>,
+  cursor?: string | null
+): Promise<TResponse> {
+  const search = new URLSearchParams();
+  for (const [key, value] of Object.entries(params)) {
+    if (value) search.set(key, value);
+  }
+  if (cursor) search.set('cursor', cursor);
+
+  const query = search.toString();
+  const res = await fetch(query ? `${url}?${query}` : url, {
+    credentials: "include",
+  });
+
+  if (!res.ok) {
+    if (res.status >= 500) {
+      throw new Error(`${res.status}: ${res.statusText}`);
+    }
+
+    throw new Error(`${res.status}: ${await res.text()}`);
+  }
+
+  return res.json();
+}
+
+/**
+ * Fetches one `{ items, nextCursor }` page from a cursor-paginated endpoint
+ */
+export function fetchPage<T>(
+  url: string,
+  params: Record<string, string | undefined>,
+  cursor?: string | null
+): Promise<Page<T>> {
+  return fetchWithCursor<Page<T>>(url, params, cursor);
+}
+
+/**
+ * Flattens the pages loaded by useInfiniteQuery into a single list
+ */
+export function flattenPages<T>(data?: InfiniteData<Page<T>>): T[] {
+  return data?.pages.flatMap(page => page.items) ?? [];
+}
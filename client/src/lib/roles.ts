@@ -0,0 +1,14 @@
+import type { Role } from "./types";
+
+// Lowest to highest; each role can do everything the ones before it can
+export const ROLES: Role[] = ["member", "moderator", "admin"];
+
+/**
+ * Whether a user has a role or one above it. Only decides what the UI
+ * shows; the server checks roles again on every request.
+ * @param user The logged-in user, if any
+ * @param role The least role required
+ */
+export function hasRole(user: { role: string } | null | undefined, role: Role): boolean {
+  return !!user && ROLES.indexOf(user.role as Role) >= ROLES.indexOf(role);
+}
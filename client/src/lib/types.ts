@@ -1,4 +1,18 @@
-export type CodeCategory = 'Prompt' | 'TMDL' | 'DAX' | 'SQL' | 'Python' | 'PowerQuery' | 'C#';
+// Category names are managed server-side; see useCategories()
+export type CodeCategory = string;
+
+export interface Category {
+  id: number;
+  name: CodeCategory;
+  displayName: string;
+  color: string | null;
+  icon: string | null;
+  description: string | null;
+  // Syntax highlighting mode for snippets in this category
+  languageMode: string;
+  position: number;
+  archivedAt: string | null;
+}
 
 export interface Snippet {
   id: number;
@@ -12,13 +26,239 @@ export interface Snippet {
   createdAt: string;
   votes: number;
   commentCount: number;
+  // Template values marked in the code as {{Name:default|description}}
+  placeholders?: SnippetPlaceholder[];
+  // Present only in the user's bookmarks
+  bookmarkedAt?: string;
+  // Present only on the leaderboard: net votes cast in the chosen window
+  windowVotes?: number;
+  // Present only on full-text search results
+  rank?: number;
+  titleHighlight?: string;
+  codeHighlight?: string;
+}
+
+export interface SnippetPlaceholder {
+  name: string;
+  defaultValue: string | null;
+  description: string | null;
+}
+
+export interface Collection {
+  id: number;
+  name: string;
+  description: string | null;
+  // Private collections are only visible to their owner
+  isPublic: boolean;
+  ownerId: number;
+  ownerUsername: string;
+  createdAt: string;
+  updatedAt: string;
+  snippetCount: number;
+  // Only when listing the user's collections for a given snippet
+  containsSnippet?: boolean;
 }
 
+export interface CollectionWithSnippets extends Collection {
+  snippets: Snippet[];
+}
+
+export type Role = 'member' | 'moderator' | 'admin';
+
 export interface User {
   id: number;
   username: string;
   email?: string;
   website?: string;
   createdAt: string;
-  isAdmin: boolean;
-}
\ No newline at end of file
+  role: Role;
+}
+
+// A row on the admin user management page
+export interface UserWithRole {
+  id: number;
+  username: string;
+  email: string | null;
+  role: Role;
+  createdAt: string;
+}
+
+export interface SnippetRevision {
+  id: number;
+  snippetId: number;
+  title: string;
+  code: string;
+  categories: CodeCategory[];
+  editorId: number | null;
+  editorUsername: string | null;
+  createdAt: string;
+}
+
+export type NotificationType = 'mention' | 'comment' | 'reply' | 'vote';
+
+export interface Notification {
+  id: number;
+  type: NotificationType;
+  // Number of likes merged into a vote notification
+  count: number;
+  createdAt: string;
+  readAt: string | null;
+  // Null for anonymous voters and deleted users
+  actorUsername: string | null;
+  snippetId: number;
+  snippetTitle: string;
+  commentId: number | null;
+}
+
+export interface NotificationList {
+  items: Notification[];
+  unreadCount: number;
+}
+
+export interface UserSession {
+  userAgent: string | null;
+  createdAt: string;
+  lastSeenAt: string;
+  expiresAt: string;
+  // The session this browser is using
+  current: boolean;
+}
+
+export interface FollowList {
+  authors: { id: number; username: string }[];
+  categories: CodeCategory[];
+}
+
+export interface AuthorFollowStatus {
+  followers: number;
+  following: boolean;
+}
+
+export type DigestFrequency = 'off' | 'daily' | 'weekly';
+
+export interface EmailPreferences {
+  digestFrequency: DigestFrequency;
+  includeComments: boolean;
+  includeVotes: boolean;
+  includeFollowedCategories: boolean;
+  lastDigestAt: string | null;
+  followedCategories: CodeCategory[];
+  // Digests can only be sent once the account has an email address
+  hasEmail: boolean;
+}
+
+export type SortMode = 'newest' | 'votes' | 'comments' | 'trending' | 'hot' | 'relevance';
+
+export type LeaderboardWindow = 'week' | 'month' | 'all';
+
+/**
+ * A page of results from a cursor-paginated endpoint
+ */
+export interface Page<T> {
+  items: T[];
+  nextCursor: string | null;
+}
+
+/**
+ * A problem to mark in the code editor. Positions are 1-based and the
+ * range covers the offending code.
+ */
+export interface CodeDiagnostic {
+  message: string;
+  line: number;
+  column: number;
+  endLine: number;
+  endColumn: number;
+  severity?: 'error' | 'warning';
+}
+
+export interface LintWarning extends CodeDiagnostic {
+  rule: string;
+}
+
+export interface SnippetLint {
+  language: string | null;
+  warnings: LintWarning[];
+}
+
+export type TmdlOutlineType = 'table' | 'column' | 'measure' | 'relationship';
+
+/**
+ * An object in the outline of a TMDL snippet
+ */
+export interface TmdlOutlineNode {
+  type: TmdlOutlineType;
+  name: string;
+  line: number;
+  // Data type of a column, or `from → to` for a relationship
+  detail: string | null;
+  calculated: boolean;
+  children: TmdlOutlineNode[];
+}
+
+export interface SnippetOutline {
+  language: string | null;
+  // Only TMDL snippets have an outline
+  outline: TmdlOutlineNode[] | null;
+}
+
+// The format and schema of a backup archive (see scripts/dbBackup.ts)
+export interface BackupSummary {
+  formatVersion: number;
+  schemaVersion: string | null;
+  createdAt: string;
+}
+
+// How a full restore changes one table. `skipped` rows can't be restored
+// (they refer to rows the backup doesn't have), which stops the restore
+export interface BackupTableDiff {
+  name: string;
+  added: number;
+  changed: number;
+  unchanged: number;
+  removed: number;
+  skipped: number;
+}
+
+export type BackupRestoreResult =
+  | { dryRun: boolean; message: string; backup: BackupSummary; tables: BackupTableDiff[] }
+  | { dryRun: boolean; message: string; backup: BackupSummary; tables: { name: string; restored: number }[] };
+
+// Whether restoring a row would add it back, change it, or leave it as it is
+export type BackupRowStatus = 'added' | 'changed' | 'unchanged';
+
+export interface BackupItems {
+  users: { id: number; username: string; status: BackupRowStatus }[];
+  snippets: { id: number; title: string; authorUsername: string | null; status: BackupRowStatus }[];
+}
+
+// What a backup run did at one storage target (see scripts/backupSchedule.ts)
+export interface BackupTargetResult {
+  target: string;
+  stored: boolean;
+  removed: string[];
+  error?: string;
+}
+
+export interface BackupJob {
+  id: number;
+  trigger: 'scheduled' | 'manual';
+  status: 'running' | 'succeeded' | 'failed';
+  filename: string | null;
+  size: number | null;
+  targets: BackupTargetResult[];
+  error: string | null;
+  startedAt: string;
+  finishedAt: string | null;
+}
+
+export interface BackupJobs {
+  schedule: {
+    expression: string;
+    nextRunAt: string | null;
+    retention: { hourly: number; daily: number; weekly: number } | null;
+    targets: string[];
+    error: string | null;
+  };
+  jobs: BackupJob[];
+}
@@ -1,9 +1,12 @@
-import { useState } from "react";
-import { useQuery, useMutation } from "@tanstack/react-query";
+import { useRef, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { AlertCircle, RefreshCw, Download } from "lucide-react";
+import { AlertCircle, RefreshCw, Download, Upload } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { readApiError } from "@/lib/api-error";
+import { BackupRestoreDialog } from "@/components/BackupRestoreDialog";
+import { BackupJobHistory } from "@/components/BackupJobHistory";
 import {
   Table,
   TableBody,
@@ -19,9 +22,15 @@ interface Backup {
   size: number;
 }
 
+// The server's default upload limit (BACKUP_MAX_SIZE_MB); it rejects
+// anything over its configured limit either way
+const MAX_UPLOAD_MB = 100;
+
 export function BackupManagement() {
   const { toast } = useToast();
-  const [isRestoring, setIsRestoring] = useState(false);
+  const queryClient = useQueryClient();
+  const [restoring, setRestoring] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
 
   const { data: backups, isLoading: isLoadingBackups } = useQuery<Backup[]>({
     queryKey: ["/api/backups"],
@@ -34,16 +43,22 @@ export function BackupManagement() {
         credentials: "include",
       });
       if (!response.ok) {
-        throw new Error(await response.text());
+        throw await readApiError(response, "Failed to create backup");
       }
       return response.json();
     },
     onSuccess: () => {
       toast({
         title: "Success",
-        description: "Backup created successfully (CSV files zipped)",
+        description: "Backup created successfully",
       });
     },
+    // A run that failed at a storage target may still have made the backup,
+    // and is in the job history with what went wrong where
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/backups"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/backups/jobs"] });
+    },
     onError: (error) => {
       toast({
         title: "Error",
@@ -53,35 +68,50 @@ export function BackupManagement() {
     },
   });
 
-  const restoreBackupMutation = useMutation({
-    mutationFn: async (filename: string) => {
-      setIsRestoring(true);
-      const response = await fetch(`/api/backups/restore/${filename}`, {
+  const uploadBackupMutation = useMutation({
+    mutationFn: async (file: File) => {
+      const formData = new FormData();
+      formData.append("backup", file);
+      const res = await fetch("/api/backups/upload", {
         method: "POST",
         credentials: "include",
+        body: formData,
       });
-      if (!response.ok) {
-        throw new Error(await response.text());
-      }
-      return response.json();
+      if (!res.ok) throw await readApiError(res, "Failed to upload backup");
+      return res.json() as Promise<{ message: string; filename: string }>;
     },
-    onSuccess: () => {
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/backups"] });
       toast({
         title: "Success",
-        description: "Database restored successfully from CSV backup",
+        description: `Uploaded as ${result.filename}`,
       });
-      setIsRestoring(false);
     },
-    onError: (error) => {
+    onError: (error: Error) => {
       toast({
         title: "Error",
         description: error.message,
         variant: "destructive",
       });
-      setIsRestoring(false);
     },
   });
 
+  const handleUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // Clear the input so choosing the same file again still uploads it
+    event.target.value = "";
+    if (!file) return;
+    if (file.size > MAX_UPLOAD_MB * 1024 * 1024) {
+      toast({
+        title: "Error",
+        description: `Backups can be at most ${MAX_UPLOAD_MB} MB`,
+        variant: "destructive",
+      });
+      return;
+    }
+    uploadBackupMutation.mutate(file);
+  };
+
   const handleDownload = (filename: string) => {
     window.location.href = `/api/backups/download/${filename}`;
   };
@@ -91,21 +121,42 @@ export function BackupManagement() {
       <Card>
         <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
           <CardTitle className="text-2xl font-bold">Backup Management</CardTitle>
-          <Button
-            onClick={() => createBackupMutation.mutate()}
-            disabled={createBackupMutation.isPending}
-          >
-            {createBackupMutation.isPending ? (
-              <RefreshCw className="mr-2 h-4 w-4 animate-spin" />
-            ) : (
-              <Download className="mr-2 h-4 w-4" />
-            )}
-            Create CSV Backup
-          </Button>
+          <div className="flex gap-2">
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".zip,application/zip"
+              className="hidden"
+              onChange={handleUpload}
+            />
+            <Button
+              variant="outline"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={uploadBackupMutation.isPending}
+            >
+              {uploadBackupMutation.isPending ? (
+                <RefreshCw className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Upload className="mr-2 h-4 w-4" />
+              )}
+              Upload Backup
+            </Button>
+            <Button
+              onClick={() => createBackupMutation.mutate()}
+              disabled={createBackupMutation.isPending}
+            >
+              {createBackupMutation.isPending ? (
+                <RefreshCw className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Download className="mr-2 h-4 w-4" />
+              )}
+              Create Backup
+            </Button>
+          </div>
         </CardHeader>
         <CardContent>
           <p className="text-sm text-muted-foreground mb-4">
-            Backups are created as ZIP files containing CSV exports of all database tables.
+            Backups are ZIP files holding every database table, with a manifest and checksums. Restoring shows what would change before anything is replaced, and can restore individual snippets or users. Backups downloaded from another instance can be uploaded here (up to {MAX_UPLOAD_MB} MB); they are checked before they are saved.
           </p>
           {isLoadingBackups ? (
             <div className="flex items-center justify-center py-8">
@@ -140,14 +191,9 @@ export function BackupManagement() {
                       <Button
                         variant="outline"
                         size="sm"
-                        onClick={() => restoreBackupMutation.mutate(backup.filename)}
-                        disabled={isRestoring}
+                        onClick={() => setRestoring(backup.filename)}
                       >
-                        {isRestoring ? (
-                          <RefreshCw className="mr-2 h-4 w-4 animate-spin" />
-                        ) : (
-                          "Restore"
-                        )}
+                        Restore
                       </Button>
                     </TableCell>
                   </TableRow>
@@ -164,6 +210,10 @@ export function BackupManagement() {
           )}
         </CardContent>
       </Card>
+
+      <BackupJobHistory />
+
+      <BackupRestoreDialog filename={restoring} onOpenChange={(open) => !open && setRestoring(null)} />
     </div>
   );
 }
\ No newline at end of file
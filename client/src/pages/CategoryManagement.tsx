@@ -0,0 +1,420 @@
+/**
+ * CategoryManagement Page
+ *
+ * Admin page for the category registry. Admins can add categories, change
+ * how they're shown (display name, colour, icon, description), pick the
+ * syntax mode used for their snippets, archive them and change their order.
+ * Changes are picked up by every client through /api/categories, so new
+ * languages don't need a deploy.
+ */
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import * as z from "zod";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ArrowDown, ArrowUp, Pencil, Plus, RefreshCw } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useCategories } from "@/hooks/use-categories";
+import { CategoryLabel } from "@/components/CategoryLabel";
+import { CATEGORY_ICONS } from "@/lib/category-icons";
+import { LANGUAGE_MODES, getLanguageModeLabel } from "@/lib/language-modes";
+import { cn } from "@/lib/utils";
+import type { Category } from "@/lib/types";
+
+const NO_ICON = "none";
+
+const formSchema = z.object({
+  name: z.string()
+    .min(1, "Name is required")
+    .max(50)
+    .regex(/^[A-Za-z0-9#+._ -]+$/, "Use letters, numbers, spaces and # + . _ -"),
+  displayName: z.string().min(1, "Display name is required").max(50),
+  color: z.string().regex(/^(#[0-9a-fA-F]{6})?$/, "Use a hex colour like #1f6feb"),
+  icon: z.string(),
+  description: z.string().max(500),
+  languageMode: z.string(),
+});
+
+type FormValues = z.infer<typeof formSchema>;
+
+function toFormValues(category?: Category): FormValues {
+  return {
+    name: category?.name ?? "",
+    displayName: category?.displayName ?? "",
+    color: category?.color ?? "",
+    icon: category?.icon ?? NO_ICON,
+    description: category?.description ?? "",
+    languageMode: category?.languageMode ?? "plaintext",
+  };
+}
+
+/**
+ * Sends a category request, turning field-keyed validation errors from the
+ * server into an error that carries them
+ */
+async function sendCategoryRequest(url: string, method: string, body: unknown) {
+  const res = await fetch(url, {
+    method,
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+    credentials: "include",
+  });
+  if (!res.ok) {
+    const data = await res.json().catch(() => ({}));
+    throw Object.assign(new Error(data.message || "Request failed"), { fields: data.errors });
+  }
+  return res.json();
+}
+
+function CategoryDialog({
+  category,
+  open,
+  onOpenChange,
+}: {
+  category?: Category;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const form = useForm<FormValues>({
+    resolver: zodResolver(formSchema),
+    values: toFormValues(category),
+  });
+
+  const mutation = useMutation({
+    mutationFn: (values: FormValues) => {
+      const body = {
+        ...values,
+        color: values.color || null,
+        icon: values.icon === NO_ICON ? null : values.icon,
+        description: values.description || null,
+      };
+      return category
+        ? sendCategoryRequest(`/api/categories/${category.id}`, "PATCH", body)
+        : sendCategoryRequest("/api/categories", "POST", body);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/categories"] });
+      // Renames change the category names shown on snippets
+      queryClient.invalidateQueries({ queryKey: ["/api/snippets"] });
+      toast({
+        title: "Success",
+        description: category ? "Category updated" : "Category created",
+      });
+      onOpenChange(false);
+    },
+    onError: (error: Error & { fields?: Record<string, string> }) => {
+      for (const [field, message] of Object.entries(error.fields ?? {})) {
+        if (field in formSchema.shape) {
+          form.setError(field as keyof FormValues, { message });
+        }
+      }
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle>{category ? `Edit ${category.displayName}` : "New category"}</DialogTitle>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit((values) => mutation.mutate(values))} className="space-y-3">
+            <div className="grid grid-cols-2 gap-3">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Name</FormLabel>
+                    <FormControl>
+                      <Input placeholder="SparkSQL" {...field} />
+                    </FormControl>
+                    <FormDescription className="text-xs">
+                      Used in links and filters
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="displayName"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Display name</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Spark SQL" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <div className="grid grid-cols-3 gap-3">
+              <FormField
+                control={form.control}
+                name="color"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Colour</FormLabel>
+                    <div className="flex gap-1">
+                      <input
+                        type="color"
+                        aria-label="Pick colour"
+                        className="h-9 w-9 shrink-0 cursor-pointer rounded border bg-transparent"
+                        value={field.value || "#000000"}
+                        onChange={(e) => field.onChange(e.target.value)}
+                      />
+                      <FormControl>
+                        <Input placeholder="#1f6feb" {...field} />
+                      </FormControl>
+                    </div>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="icon"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Icon</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value={NO_ICON}>None</SelectItem>
+                        {Object.entries(CATEGORY_ICONS).map(([key, Icon]) => (
+                          <SelectItem key={key} value={key}>
+                            <span className="inline-flex items-center gap-2">
+                              <Icon className="h-4 w-4" />
+                              {key}
+                            </span>
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="languageMode"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Syntax</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {LANGUAGE_MODES.map((language) => (
+                          <SelectItem key={language.value} value={language.value}>
+                            {language.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <FormField
+              control={form.control}
+              name="description"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Description</FormLabel>
+                  <FormControl>
+                    <Textarea rows={2} placeholder="Shown when hovering the category" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={mutation.isPending}>
+                {mutation.isPending ? "Saving..." : "Save"}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export function CategoryManagement() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { allCategories, isLoading } = useCategories();
+  const [editing, setEditing] = useState<Category | undefined>();
+  const [dialogOpen, setDialogOpen] = useState(false);
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const archiveMutation = useMutation({
+    mutationFn: (category: Category) =>
+      sendCategoryRequest(`/api/categories/${category.id}`, "PATCH", { archived: !category.archivedAt }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/categories"] });
+    },
+    onError,
+  });
+
+  const reorderMutation = useMutation({
+    mutationFn: (ids: number[]) => sendCategoryRequest("/api/categories/order", "PUT", { ids }),
+    onSuccess: (categories: Category[]) => {
+      queryClient.setQueryData(["/api/categories"], categories);
+    },
+    onError,
+  });
+
+  const move = (index: number, offset: number) => {
+    const ids = allCategories.map(category => category.id);
+    const [moved] = ids.splice(index, 1);
+    ids.splice(index + offset, 0, moved);
+    reorderMutation.mutate(ids);
+  };
+
+  const openDialog = (category?: Category) => {
+    setEditing(category);
+    setDialogOpen(true);
+  };
+
+  return (
+    <div className="container mx-auto py-10">
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+          <CardTitle className="text-2xl font-bold">Categories</CardTitle>
+          <Button onClick={() => openDialog()}>
+            <Plus className="mr-2 h-4 w-4" />
+            New category
+          </Button>
+        </CardHeader>
+        <CardContent>
+          <p className="text-sm text-muted-foreground mb-4">
+            Archived categories can't be picked for new snippets but stay on the snippets that already use them.
+          </p>
+          {isLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <RefreshCw className="h-8 w-8 animate-spin" />
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-20">Order</TableHead>
+                  <TableHead>Category</TableHead>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Syntax</TableHead>
+                  <TableHead>Description</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {allCategories.map((category, index) => (
+                  <TableRow key={category.id} className={cn(category.archivedAt && "opacity-60")}>
+                    <TableCell className="space-x-1">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-7 w-7 p-0"
+                        aria-label="Move up"
+                        disabled={index === 0 || reorderMutation.isPending}
+                        onClick={() => move(index, -1)}
+                      >
+                        <ArrowUp className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-7 w-7 p-0"
+                        aria-label="Move down"
+                        disabled={index === allCategories.length - 1 || reorderMutation.isPending}
+                        onClick={() => move(index, 1)}
+                      >
+                        <ArrowDown className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                    <TableCell>
+                      <CategoryLabel name={category.name} className="text-sm font-semibold" />
+                      {category.archivedAt && (
+                        <span className="ml-2 text-xs text-muted-foreground">archived</span>
+                      )}
+                    </TableCell>
+                    <TableCell className="font-mono text-xs">{category.name}</TableCell>
+                    <TableCell className="text-xs">{getLanguageModeLabel(category.languageMode)}</TableCell>
+                    <TableCell className="text-xs text-muted-foreground max-w-[240px] truncate">
+                      {category.description}
+                    </TableCell>
+                    <TableCell className="text-right space-x-2">
+                      <Button variant="outline" size="sm" onClick={() => openDialog(category)}>
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={archiveMutation.isPending}
+                        onClick={() => archiveMutation.mutate(category)}
+                      >
+                        {category.archivedAt ? "Unarchive" : "Archive"}
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <CategoryDialog category={editing} open={dialogOpen} onOpenChange={setDialogOpen} />
+    </div>
+  );
+}
@@ -0,0 +1,301 @@
+/**
+ * CollectionPage
+ *
+ * Shows a collection's snippets in the order its owner gave them, at
+ * /collection/:id. The link can be shared for public collections; private
+ * ones are only visible to their owner. The owner can edit the collection,
+ * reorder and remove its snippets, or delete it.
+ */
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useRoute, useLocation, Link } from "wouter";
+import { SnippetCard } from "@/components/SnippetCard";
+import { CollectionDialog } from "@/components/CollectionDialog";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { AlertCircle, ArrowDown, ArrowUp, ChevronLeft, Globe, Link2, Lock, Pencil, Trash2, X } from "lucide-react";
+import { toast } from "@/hooks/use-toast";
+import { useUser } from "@/hooks/use-user";
+import { readApiError } from "@/lib/api-error";
+import type { CollectionWithSnippets } from "@/lib/types";
+
+export function CollectionPage() {
+  const [, params] = useRoute<{ id: string }>("/collection/:id");
+  const collectionId = parseInt(params?.id || "0");
+  const [, setLocation] = useLocation();
+  const queryClient = useQueryClient();
+  const { user } = useUser();
+  const [isEditing, setIsEditing] = useState(false);
+  const [showDeleteDialog, setShowDeleteDialog] = useState(false);
+
+  const queryKey = [`/api/collections/${collectionId}`];
+  const { data: collection, isLoading, isError, error } = useQuery<CollectionWithSnippets>({
+    queryKey,
+    queryFn: async () => {
+      const res = await fetch(`/api/collections/${collectionId}`, { credentials: "include" });
+      if (!res.ok) throw await readApiError(res, "Failed to load collection");
+      return res.json();
+    },
+    retry: 1,
+  });
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey });
+    queryClient.invalidateQueries({ queryKey: ["/api/collections"] });
+  };
+
+  const reorderMutation = useMutation({
+    mutationFn: async (snippetIds: number[]) => {
+      const res = await fetch(`/api/collections/${collectionId}/order`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({ snippetIds }),
+      });
+      if (!res.ok) throw await readApiError(res, "Failed to reorder collection");
+      return res.json();
+    },
+    onSuccess: refresh,
+    onError,
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async (snippetId: number) => {
+      const res = await fetch(`/api/collections/${collectionId}/snippets/${snippetId}`, {
+        method: "DELETE",
+        credentials: "include",
+      });
+      if (!res.ok) throw await readApiError(res, "Failed to remove snippet");
+      return res.json();
+    },
+    onSuccess: refresh,
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async () => {
+      const res = await fetch(`/api/collections/${collectionId}`, {
+        method: "DELETE",
+        credentials: "include",
+      });
+      if (!res.ok) throw await readApiError(res, "Failed to delete collection");
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/collections"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/authors/${collection?.ownerUsername}/collections`] });
+      toast({
+        title: "Collection deleted",
+        description: "The snippets in it haven't been deleted.",
+      });
+      setLocation(user ? `/profile/${user.username}` : "/");
+    },
+    onError,
+  });
+
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      toast({
+        title: "Link copied",
+        description: collection?.isPublic
+          ? "Anyone with the link can see this collection"
+          : "This collection is private; make it public to share it",
+      });
+    } catch {
+      onError(new Error("Failed to copy link to clipboard"));
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="container mx-auto py-8 px-4 max-w-[800px] space-y-8">
+        <Skeleton className="w-full h-[120px] rounded-lg" />
+        <Skeleton className="w-full h-[300px] rounded-lg" />
+      </div>
+    );
+  }
+
+  if (isError || !collection) {
+    return (
+      <div className="container mx-auto py-8 px-4 max-w-[800px]">
+        <Button variant="ghost" size="sm" className="mb-4" asChild>
+          <Link href="/">
+            <ChevronLeft className="h-4 w-4 mr-1" />
+            Back to Home
+          </Link>
+        </Button>
+        <Card>
+          <CardHeader>
+            <CardTitle>Collection Not Found</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>
+                {error instanceof Error
+                  ? error.message
+                  : "This collection could not be found, or it's private."}
+              </AlertDescription>
+            </Alert>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const isOwner = user?.id === collection.ownerId;
+  const snippetIds = collection.snippets.map(snippet => snippet.id);
+
+  const move = (index: number, offset: number) => {
+    const ids = [...snippetIds];
+    const [moved] = ids.splice(index, 1);
+    ids.splice(index + offset, 0, moved);
+    reorderMutation.mutate(ids);
+  };
+
+  return (
+    <div className="container mx-auto py-8 px-4 max-w-[800px]">
+      <Card className="mb-8">
+        <CardHeader>
+          <div className="flex justify-between items-start gap-4">
+            <div className="space-y-1">
+              <CardTitle className="text-2xl flex items-center gap-2">
+                {collection.isPublic
+                  ? <Globe className="h-5 w-5 text-muted-foreground" aria-label="Public" />
+                  : <Lock className="h-5 w-5 text-muted-foreground" aria-label="Private" />}
+                {collection.name}
+              </CardTitle>
+              <p className="text-sm text-muted-foreground">
+                {collection.snippetCount} {collection.snippetCount === 1 ? "snippet" : "snippets"} collected by{" "}
+                <Link href={`/profile/${collection.ownerUsername}`} className="underline">
+                  {collection.ownerUsername}
+                </Link>
+              </p>
+            </div>
+            <div className="flex gap-1 flex-shrink-0">
+              <Button variant="outline" size="sm" onClick={copyLink}>
+                <Link2 className="h-4 w-4 mr-1" />
+                Copy link
+              </Button>
+              {isOwner && (
+                <>
+                  <Button variant="outline" size="sm" onClick={() => setIsEditing(true)} aria-label="Edit collection">
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setShowDeleteDialog(true)}
+                    className="text-destructive hover:text-destructive"
+                    aria-label="Delete collection"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </>
+              )}
+            </div>
+          </div>
+        </CardHeader>
+        {collection.description && (
+          <CardContent>
+            <p className="text-sm whitespace-pre-wrap">{collection.description}</p>
+          </CardContent>
+        )}
+      </Card>
+
+      {collection.snippets.length === 0 && (
+        <p className="text-center text-muted-foreground py-8">
+          {isOwner
+            ? "This collection is empty. Use the folder button on a snippet to add it here."
+            : "This collection is empty."}
+        </p>
+      )}
+
+      <div className="space-y-4">
+        {collection.snippets.map((snippet, index) => (
+          <div key={snippet.id}>
+            {isOwner && (
+              <div className="flex justify-end gap-1 mb-1">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 w-7 p-0"
+                  aria-label="Move up"
+                  disabled={index === 0 || reorderMutation.isPending}
+                  onClick={() => move(index, -1)}
+                >
+                  <ArrowUp className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 w-7 p-0"
+                  aria-label="Move down"
+                  disabled={index === collection.snippets.length - 1 || reorderMutation.isPending}
+                  onClick={() => move(index, 1)}
+                >
+                  <ArrowDown className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 px-2 text-xs"
+                  disabled={removeMutation.isPending}
+                  onClick={() => removeMutation.mutate(snippet.id)}
+                >
+                  <X className="h-3 w-3 mr-1" />
+                  Remove
+                </Button>
+              </div>
+            )}
+            <SnippetCard snippet={snippet} />
+          </div>
+        ))}
+      </div>
+
+      {isOwner && (
+        <CollectionDialog collection={collection} open={isEditing} onOpenChange={setIsEditing} />
+      )}
+      <AlertDialog open={showDeleteDialog} onOpenChange={setShowDeleteDialog}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle className="text-sm">Delete this collection?</AlertDialogTitle>
+            <AlertDialogDescription className="text-sm">
+              The collection will be deleted for everyone it's been shared with. The snippets in it are kept.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel className="h-9 text-sm">Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => deleteMutation.mutate()}
+              className="bg-destructive hover:bg-destructive/90 h-9 text-sm"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
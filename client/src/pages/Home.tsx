@@ -1,20 +1,84 @@
-import { useQuery } from "@tanstack/react-query";
+import { useInfiniteQuery, useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { SnippetCard } from "@/components/SnippetCard";
-import type { Snippet, CodeCategory } from "@/lib/types";
+import type { Snippet, CodeCategory, SortMode, FollowList } from "@/lib/types";
 import { useState, useEffect, useCallback } from "react";
 import { Button } from "@/components/ui/button";
-import { Search } from "lucide-react";
-import { cn, getCategoryDisplayName } from "@/lib/utils";
+import { Search, Loader2, Star } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { CategoryLabel } from "@/components/CategoryLabel";
 import { useToast } from "@/hooks/use-toast";
 import { Card, CardContent } from "@/components/ui/card";
+import { fetchPage, flattenPages } from "@/lib/pagination";
+import { useInfiniteScroll } from "@/hooks/use-infinite-scroll";
+import { useCategories } from "@/hooks/use-categories";
+import { useUser } from "@/hooks/use-user";
+import { readApiError } from "@/lib/api-error";
 
-const categories: CodeCategory[] = ['Prompt', 'TMDL', 'DAX', 'SQL', 'Python', 'PowerQuery', 'C#'];
+type FeedTab = 'all' | 'following';
+
+const sortOptions: { value: SortMode; label: string }[] = [
+  { value: 'newest', label: 'Newest' },
+  { value: 'votes', label: 'Most liked' },
+  { value: 'comments', label: 'Most discussed' },
+  { value: 'trending', label: 'Trending' },
+];
+
+// The Following tab ranks by recency and likes together by default
+const followingSortOptions: { value: SortMode; label: string }[] = [
+  { value: 'hot', label: 'Hot' },
+  ...sortOptions,
+];
 
 export function Home() {
   const [selectedCategories, setSelectedCategories] = useState<Set<CodeCategory>>(new Set());
   const [searchTerm, setSearchTerm] = useState('');
   const [debouncedSearch, setDebouncedSearch] = useState('');
+  const [sortMode, setSortMode] = useState<SortMode>('newest');
+  const [feedTab, setFeedTab] = useState<FeedTab>('all');
   const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { user } = useUser();
+  const { names: categories, displayName } = useCategories();
+  const categoryParam = Array.from(selectedCategories).sort().join(',');
+  const isFollowingTab = feedTab === 'following' && !!user;
+
+  const { data: follows } = useQuery<FollowList>({
+    queryKey: ['/api/follows'],
+    enabled: !!user,
+  });
+  const followedCategories = new Set(follows?.categories ?? []);
+  const selectionFollowed = selectedCategories.size > 0 &&
+    Array.from(selectedCategories).every(category => followedCategories.has(category));
+
+  // Follow every selected category, or unfollow them all if they're all followed
+  const followMutation = useMutation({
+    mutationFn: async ({ names, follow }: { names: CodeCategory[]; follow: boolean }) => {
+      for (const name of names) {
+        const res = await fetch(`/api/categories/${encodeURIComponent(name)}/follow`, {
+          method: follow ? "POST" : "DELETE",
+          credentials: "include",
+        });
+        if (!res.ok) throw await readApiError(res, "Failed to update followed categories");
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/follows'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/feed'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/email/preferences'] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const switchTab = (tab: FeedTab) => {
+    setFeedTab(tab);
+    setSortMode(tab === 'following' ? 'hot' : 'newest');
+  };
 
   // Debounce search term
   useEffect(() => {
@@ -25,27 +89,26 @@ export function Home() {
     return () => clearTimeout(timeoutId);
   }, [searchTerm]);
 
-  const { data: snippets, isLoading, error } = useQuery<Snippet[]>({
-    queryKey: ['/api/snippets', debouncedSearch],
-    queryFn: async () => {
+  const sort: SortMode = !isFollowingTab && debouncedSearch && sortMode === 'newest' ? 'relevance' : sortMode;
+  const endpoint = isFollowingTab ? '/api/feed' : '/api/snippets';
+  const search = isFollowingTab ? '' : debouncedSearch;
+
+  const {
+    data,
+    isLoading,
+    error,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteQuery({
+    queryKey: [endpoint, search, sort, categoryParam],
+    queryFn: async ({ pageParam }) => {
       try {
-        const response = await fetch(`/api/snippets${debouncedSearch ? `?search=${encodeURIComponent(debouncedSearch)}` : ''}`);
-        if (!response.ok) {
-          throw new Error('Failed to fetch snippets');
-        }
-        const data = await response.json();
-        if (!Array.isArray(data)) {
-          throw new Error('Invalid response format');
-        }
-        // Ensure categories are properly parsed for each snippet
-        return data.map(snippet => ({
-          ...snippet,
-          categories: Array.isArray(snippet.categories) 
-            ? snippet.categories 
-            : typeof snippet.categories === 'string'
-              ? JSON.parse(snippet.categories)
-              : []
-        }));
+        return await fetchPage<Snippet>(
+          endpoint,
+          { search, sort, category: categoryParam },
+          pageParam
+        );
       } catch (error) {
         console.error('Search error:', error);
         toast({
@@ -53,12 +116,20 @@ export function Home() {
           description: "Failed to fetch search results. Please try again.",
           variant: "destructive",
         });
-        return [];
+        throw error;
       }
     },
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
     refetchOnWindowFocus: false,
   });
 
+  const snippets = flattenPages(data);
+  const sentinelRef = useInfiniteScroll(
+    () => fetchNextPage(),
+    !!hasNextPage && !isFetchingNextPage
+  );
+
   const toggleCategory = useCallback((category: CodeCategory) => {
     setSelectedCategories(prev => {
       const newSet = new Set(prev);
@@ -75,44 +146,50 @@ export function Home() {
     setSelectedCategories(new Set());
   }, []);
 
-  const filteredSnippets = snippets?.filter(snippet => {
-    if (selectedCategories.size === 0) return true;
-
-    // Parse categories if it's a string
-    let snippetCategories: string[] = [];
-    try {
-      if (typeof snippet.categories === 'string') {
-        snippetCategories = JSON.parse(snippet.categories);
-      } else if (Array.isArray(snippet.categories)) {
-        snippetCategories = snippet.categories;
-      }
-    } catch (e) {
-      console.error('Error parsing categories:', e);
-      return false;
-    }
-
-    // Check if any selected category exists in the snippet's categories
-    return Array.from(selectedCategories).some(selectedCategory => 
-      snippetCategories.includes(selectedCategory)
-    );
-  }) ?? [];
-
   return (
     <div className="container mx-auto py-6 px-4 max-w-[700px]">
       <Card className="w-full shadow-md rounded-xl comments-card bg-[#252728] border-0 mb-4">
         <CardContent className="p-3 space-y-2">
-          <div className="relative w-full">
-            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
-            <input
-              type="text"
-              placeholder="Search snippet titles and code, contributors, or categories..."
-              className="w-full pl-9 pr-4 py-2 rounded-full border bg-[#333334] text-sm"
-              value={searchTerm}
-              onChange={(e) => setSearchTerm(e.target.value)}
-            />
-          </div>
-          
-          <div className="w-full h-[1px] bg-[#65686C] my-1"></div>
+          {user && (
+            <>
+              {/* Everyone's snippets, or only those from followed authors and categories */}
+              <div className="flex gap-1">
+                {([['all', 'All snippets'], ['following', 'Following']] as const).map(([tab, label]) => (
+                  <Button
+                    key={tab}
+                    variant="ghost"
+                    onClick={() => switchTab(tab)}
+                    className={cn(
+                      "whitespace-nowrap text-xs py-1 px-3 h-auto rounded-full",
+                      feedTab === tab && "bg-black text-white font-semibold"
+                    )}
+                  >
+                    {label}
+                  </Button>
+                ))}
+              </div>
+
+              <div className="w-full h-[1px] bg-[#65686C] my-1"></div>
+            </>
+          )}
+
+          {/* Search only covers everyone's snippets */}
+          {!isFollowingTab && (
+            <>
+              <div className="relative w-full">
+                <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                <input
+                  type="text"
+                  placeholder='Search titles, code, categories or contributors — "exact phrase", prefix*, -exclude'
+                  className="w-full pl-9 pr-4 py-2 rounded-full border bg-[#333334] text-sm"
+                  value={searchTerm}
+                  onChange={(e) => setSearchTerm(e.target.value)}
+                />
+              </div>
+
+              <div className="w-full h-[1px] bg-[#65686C] my-1"></div>
+            </>
+          )}
 
           {/* Categories with "All" button in flex-wrap container */}
           <div className="flex flex-wrap gap-1 pb-1">
@@ -136,7 +213,43 @@ export function Home() {
                   selectedCategories.has(category) && "border border-primary font-semibold"
                 )}
               >
-                {getCategoryDisplayName(category)}
+                <CategoryLabel name={category} />
+                {followedCategories.has(category) && (
+                  <Star className="h-3 w-3 ml-1 fill-current text-yellow-500" aria-label="Followed" />
+                )}
+              </Button>
+            ))}
+            {user && selectedCategories.size > 0 && (
+              <Button
+                variant="link"
+                disabled={followMutation.isPending}
+                onClick={() => followMutation.mutate({
+                  names: Array.from(selectedCategories),
+                  follow: !selectionFollowed,
+                })}
+                className="whitespace-nowrap text-xs py-1 px-2 h-auto"
+              >
+                {selectionFollowed ? 'Unfollow' : 'Follow'}{' '}
+                {Array.from(selectedCategories).map(displayName).join(', ')}
+              </Button>
+            )}
+          </div>
+
+          <div className="w-full h-[1px] bg-[#65686C] my-1"></div>
+
+          {/* Sort order; "Newest" becomes relevance order while searching */}
+          <div className="flex flex-wrap gap-1">
+            {(isFollowingTab ? followingSortOptions : sortOptions).map((option) => (
+              <Button
+                key={option.value}
+                variant="ghost"
+                onClick={() => setSortMode(option.value)}
+                className={cn(
+                  "whitespace-nowrap text-xs py-1 px-2 h-auto rounded-full",
+                  sortMode === option.value && "bg-black text-white font-semibold"
+                )}
+              >
+                {option.value === 'newest' && search ? 'Best match' : option.label}
               </Button>
             ))}
           </div>
@@ -153,17 +266,28 @@ export function Home() {
             <div key={i} className="w-full h-[400px] animate-pulse bg-secondary rounded-lg" />
           ))}
         </div>
-      ) : filteredSnippets.length === 0 ? (
+      ) : snippets.length === 0 && isFollowingTab ? (
+        <div className="text-center py-8 text-muted-foreground">
+          {follows && follows.authors.length === 0 && follows.categories.length === 0
+            ? "You aren't following anyone yet. Follow authors from their profiles, or pick categories above and follow them."
+            : "No snippets from the authors and categories you follow yet."}
+        </div>
+      ) : snippets.length === 0 ? (
         <div className="text-center py-8 text-muted-foreground">
           No snippets found{searchTerm ? ` for "${searchTerm}"` : ''}.
         </div>
       ) : (
         <div className="space-y-4">
-          {filteredSnippets.map((snippet) => (
+          {snippets.map((snippet) => (
             <SnippetCard key={snippet.id} snippet={snippet} />
           ))}
         </div>
       )}
+
+      {/* Loads the next page when scrolled into view */}
+      <div ref={sentinelRef} className="flex justify-center py-4">
+        {isFetchingNextPage && <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />}
+      </div>
     </div>
   );
 }
\ No newline at end of file
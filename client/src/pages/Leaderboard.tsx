@@ -1,10 +1,35 @@
-import { useQuery } from "@tanstack/react-query";
+import { useState } from "react";
+import { useQuery, useInfiniteQuery } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { Link } from "wouter";
-import type { Snippet, CodeCategory } from "@/lib/types";
-import { getCategoryDisplayName } from "@/lib/utils";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Link, useSearch } from "wouter";
+import { Loader2 } from "lucide-react";
+import type { Snippet, SortMode, LeaderboardWindow } from "@/lib/types";
+import { CategoryLabel } from "@/components/CategoryLabel";
+import { fetchPage, flattenPages } from "@/lib/pagination";
+import { useInfiniteScroll } from "@/hooks/use-infinite-scroll";
 
-function ContributorCard({ contributors }: { contributors: [string, number][] }) {
+interface Contributor {
+  username: string;
+  snippetCount: number;
+}
+
+type LeaderboardSort = Extract<SortMode, 'votes' | 'comments' | 'trending' | 'newest'>;
+
+const leaderboardTabs: { value: LeaderboardSort; title: string }[] = [
+  { value: 'votes', title: 'Most liked snippets' },
+  { value: 'comments', title: 'Most discussed snippets' },
+  { value: 'trending', title: 'Trending snippets' },
+  { value: 'newest', title: 'Newest snippets' },
+];
+
+const windowTabs: { value: LeaderboardWindow; label: string; suffix: string }[] = [
+  { value: 'week', label: 'This week', suffix: ' this week' },
+  { value: 'month', label: 'This month', suffix: ' this month' },
+  { value: 'all', label: 'All time', suffix: '' },
+];
+
+function ContributorCard({ contributors }: { contributors: Contributor[] }) {
   return (
     <Card>
       <CardHeader className="pb-2">
@@ -12,16 +37,16 @@ function ContributorCard({ contributors }: { contributors: [string, number][] })
       </CardHeader>
       <CardContent>
         <div className="space-y-1">
-          {contributors.map(([author, count], index) => (
-            <div key={author} className="flex justify-between items-center text-xs">
+          {contributors.map(({ username, snippetCount }, index) => (
+            <div key={username} className="flex justify-between items-center text-xs">
               <span>
                 {index + 1}.{" "}
-                <Link href={`/profile/${author}`} className="hover:text-primary hover:underline">
-                  {author}
+                <Link href={`/profile/${username}`} className="hover:text-primary hover:underline">
+                  {username}
                 </Link>
               </span>
               <span className="text-muted-foreground">
-                {count} snippet{count === 1 ? "" : "s"}
+                {snippetCount} snippet{snippetCount === 1 ? "" : "s"}
               </span>
             </div>
           ))}
@@ -31,84 +56,100 @@ function ContributorCard({ contributors }: { contributors: [string, number][] })
   );
 }
 
-function TopVotedCard({ snippets }: { snippets: Snippet[] }) {
-  return (
-    <Card>
-      <CardHeader className="pb-2">
-        <CardTitle className="text-lg">Most liked snippets</CardTitle>
-      </CardHeader>
-      <CardContent>
-        <div className="space-y-3">
-          {snippets.map((snippet, index) => (
-            <div key={snippet.id} className="flex justify-between items-start">
-              <div className="flex flex-col space-y-0.5">
-                <span className="text-xs">
-                  {index + 1}.{" "}
-                  <Link href={`/snippet/${snippet.id}`} className="hover:text-primary hover:underline">
-                    {snippet.title}
-                  </Link>
-                </span>
-                <div className="flex flex-wrap gap-1">
-                  {(Array.isArray(snippet.categories) ? snippet.categories : []).map((category: string) => (
-                    <span key={category} className="text-[10px] px-1.5 py-0.5 rounded bg-primary/10">
-                      {getCategoryDisplayName(category as CodeCategory)}
-                    </span>
-                  ))}
-                </div>
-                <span className="text-[10px] text-muted-foreground">
-                  by{" "}
-                  <Link href={`/profile/${snippet.authorUsername}`} className="hover:text-primary hover:underline">
-                    {snippet.authorUsername}
-                  </Link>
-                </span>
-              </div>
-              <span className="text-[10px] text-muted-foreground ml-4">
-                {snippet.votes} like{snippet.votes === 1 ? "" : "s"}
-              </span>
-            </div>
-          ))}
-        </div>
-      </CardContent>
-    </Card>
-  );
+/**
+ * The stat shown next to each ranked snippet for a sort mode
+ */
+function rankingStat(snippet: Snippet, sort: LeaderboardSort, timeWindow: LeaderboardWindow) {
+  switch (sort) {
+    case 'comments':
+      return `${snippet.commentCount} comment${snippet.commentCount === 1 ? "" : "s"}`;
+    case 'newest':
+      return new Date(snippet.createdAt).toLocaleDateString();
+    default: {
+      const votes = snippet.windowVotes ?? snippet.votes;
+      const suffix = windowTabs.find(tab => tab.value === timeWindow)?.suffix ?? "";
+      return `${votes} vote${Math.abs(votes) === 1 ? "" : "s"}${suffix}`;
+    }
+  }
 }
 
-function MostCommentedCard({ snippets }: { snippets: Snippet[] }) {
+interface RankedSnippetsCardProps {
+  sort: LeaderboardSort;
+  timeWindow: LeaderboardWindow;
+  title: string;
+  category?: string;
+}
+
+function RankedSnippetsCard({ sort, timeWindow, title, category }: RankedSnippetsCardProps) {
+  const {
+    data,
+    isLoading,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteQuery({
+    queryKey: ["/api/leaderboard", sort, timeWindow, category],
+    queryFn: ({ pageParam }) => fetchPage<Snippet>("/api/leaderboard", { sort, window: timeWindow, category }, pageParam),
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+  });
+
+  const snippets = flattenPages(data);
+  const sentinelRef = useInfiniteScroll(
+    () => fetchNextPage(),
+    !!hasNextPage && !isFetchingNextPage
+  );
+
   return (
     <Card>
       <CardHeader className="pb-2">
-        <CardTitle className="text-lg">Most discussed snippets</CardTitle>
+        <CardTitle className="text-lg">{title}</CardTitle>
       </CardHeader>
       <CardContent>
-        <div className="space-y-3">
-          {snippets.map((snippet, index) => (
-            <div key={snippet.id} className="flex justify-between items-start">
-              <div className="flex flex-col space-y-0.5">
-                <span className="text-xs">
-                  {index + 1}.{" "}
-                  <Link href={`/snippet/${snippet.id}`} className="hover:text-primary hover:underline">
-                    {snippet.title}
-                  </Link>
-                </span>
-                <div className="flex flex-wrap gap-1">
-                  {(Array.isArray(snippet.categories) ? snippet.categories : []).map((category: string) => (
-                    <span key={category} className="text-[10px] px-1.5 py-0.5 rounded bg-primary/10">
-                      {getCategoryDisplayName(category as CodeCategory)}
-                    </span>
-                  ))}
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : snippets.length === 0 ? (
+          <p className="text-xs text-muted-foreground text-center py-4">
+            {timeWindow === 'all' ? "No snippets yet" : "Nothing here yet for this period"}
+          </p>
+        ) : (
+          <div className="space-y-3">
+            {snippets.map((snippet, index) => (
+              <div key={snippet.id} className="flex justify-between items-start">
+                <div className="flex flex-col space-y-0.5">
+                  <span className="text-xs">
+                    {index + 1}.{" "}
+                    <Link href={`/snippet/${snippet.id}`} className="hover:text-primary hover:underline">
+                      {snippet.title}
+                    </Link>
+                  </span>
+                  <div className="flex flex-wrap gap-1">
+                    {snippet.categories.map((category) => (
+                      <span key={category} className="text-[10px] px-1.5 py-0.5 rounded bg-primary/10">
+                        <CategoryLabel name={category} />
+                      </span>
+                    ))}
+                  </div>
+                  <span className="text-[10px] text-muted-foreground">
+                    by{" "}
+                    <Link href={`/profile/${snippet.authorUsername}`} className="hover:text-primary hover:underline">
+                      {snippet.authorUsername}
+                    </Link>
+                  </span>
                 </div>
-                <span className="text-[10px] text-muted-foreground">
-                  by{" "}
-                  <Link href={`/profile/${snippet.authorUsername}`} className="hover:text-primary hover:underline">
-                    {snippet.authorUsername}
-                  </Link>
+                <span className="text-[10px] text-muted-foreground ml-4 whitespace-nowrap">
+                  {rankingStat(snippet, sort, timeWindow)}
                 </span>
               </div>
-              <span className="text-[10px] text-muted-foreground ml-4">
-                {snippet.commentCount} comment{snippet.commentCount === 1 ? "" : "s"}
-              </span>
-            </div>
-          ))}
+            ))}
+          </div>
+        )}
+
+        {/* Loads the next page when scrolled into view */}
+        <div ref={sentinelRef} className="flex justify-center pt-2">
+          {isFetchingNextPage && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
         </div>
       </CardContent>
     </Card>
@@ -116,36 +157,59 @@ function MostCommentedCard({ snippets }: { snippets: Snippet[] }) {
 }
 
 export function Leaderboard() {
-  const { data: snippets } = useQuery<Snippet[]>({
-    queryKey: ["/api/leaderboard"],
-  });
-
-  const topContributors = snippets?.reduce((acc, snippet) => {
-    acc[snippet.authorUsername] = (acc[snippet.authorUsername] || 0) + 1;
-    return acc;
-  }, {} as Record<string, number>);
+  const [sort, setSort] = useState<LeaderboardSort>('votes');
+  const [timeWindow, setTimeWindow] = useState<LeaderboardWindow>('all');
+  // Profile pages link here with ?category= to show a single category's board
+  const category = new URLSearchParams(useSearch()).get('category') || undefined;
 
-  const sortedContributors = Object.entries(topContributors || {})
-    .sort(([, a], [, b]) => b - a);
-
-  const topVoted = [...(snippets || [])]
-    .filter(snippet => snippet.votes > 0)
-    .sort((a, b) => b.votes - a.votes);
+  const { data: contributors = [] } = useQuery<Contributor[]>({
+    queryKey: ["/api/leaderboard/contributors"],
+  });
 
-  const mostCommented = [...(snippets || [])]
-    .filter(snippet => snippet.commentCount != null && snippet.commentCount > 0)
-    .sort((a, b) => (b.commentCount || 0) - (a.commentCount || 0));
+  const activeTab = leaderboardTabs.find(tab => tab.value === sort) ?? leaderboardTabs[0];
 
   return (
     <div className="container mx-auto py-6 px-4">
       <div className="flex items-center justify-between mb-4">
-        <h1 className="text-xl font-bold">Leaderboard</h1>
+        <h1 className="text-xl font-bold">
+          Leaderboard
+          {category && (
+            <span className="ml-2 text-sm font-normal text-muted-foreground">
+              <CategoryLabel name={category} /> ·{" "}
+              <Link href="/leaderboard" className="hover:text-primary hover:underline">show all</Link>
+            </span>
+          )}
+        </h1>
+        <div className="flex flex-wrap justify-end gap-2">
+          <Tabs value={timeWindow} onValueChange={(value) => setTimeWindow(value as LeaderboardWindow)}>
+            <TabsList>
+              {windowTabs.map(tab => (
+                <TabsTrigger key={tab.value} value={tab.value} className="text-xs">{tab.label}</TabsTrigger>
+              ))}
+            </TabsList>
+          </Tabs>
+          <Tabs value={sort} onValueChange={(value) => setSort(value as LeaderboardSort)}>
+            <TabsList>
+              <TabsTrigger value="votes" className="text-xs">Most liked</TabsTrigger>
+              <TabsTrigger value="comments" className="text-xs">Most discussed</TabsTrigger>
+              <TabsTrigger value="trending" className="text-xs">Trending</TabsTrigger>
+              <TabsTrigger value="newest" className="text-xs">Newest</TabsTrigger>
+            </TabsList>
+          </Tabs>
+        </div>
       </div>
 
-      <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-4">
-        <ContributorCard contributors={sortedContributors} />
-        <TopVotedCard snippets={topVoted} />
-        <MostCommentedCard snippets={mostCommented} />
+      <div className="grid md:grid-cols-3 gap-4">
+        <ContributorCard contributors={contributors} />
+        <div className="md:col-span-2">
+          <RankedSnippetsCard
+            key={`${sort}-${timeWindow}-${category}`}
+            sort={sort}
+            timeWindow={timeWindow}
+            title={activeTab.title}
+            category={category}
+          />
+        </div>
       </div>
     </div>
   );
@@ -1,14 +1,18 @@
 import { useState } from "react";
-import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useInfiniteQuery, useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { SnippetCard } from "@/components/SnippetCard";
-import type { Snippet, User, CodeCategory } from "@/lib/types";
+import { CollectionDialog } from "@/components/CollectionDialog";
+import { EmailPreferences } from "@/components/EmailPreferences";
+import { FollowAuthorButton } from "@/components/FollowAuthorButton";
+import { ActiveSessions } from "@/components/ActiveSessions";
+import type { Collection, Snippet, User } from "@/lib/types";
 import { useRoute, Link } from "wouter";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { ExternalLink, Edit2, X } from "lucide-react";
+import { ExternalLink, Edit2, X, Loader2, Lock, Plus } from "lucide-react";
 import { Button } from "@/components/ui/button";
-import { getCategoryDisplayName } from "@/lib/utils";
+import { CategoryLabel } from "@/components/CategoryLabel";
 import {
   Form,
   FormControl,
@@ -18,13 +22,18 @@ import {
   FormMessage,
 } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useToast } from "@/hooks/use-toast";
 import { useUser } from "@/hooks/use-user";
+import { useInfiniteScroll } from "@/hooks/use-infinite-scroll";
+import { fetchWithCursor, fetchPage, flattenPages } from "@/lib/pagination";
 
 interface ProfileData {
-  user: User;
+  user: Pick<User, 'id' | 'username' | 'website' | 'createdAt'>;
   snippets: Snippet[];
-  leaderboards: Array<{
+  nextCursor: string | null;
+  // Only returned with the first page
+  leaderboards?: Array<{
     category: string;
     position: number | null;
   }>;
@@ -36,19 +45,95 @@ interface ProfileFormData {
   website?: string;
 }
 
+/**
+ * The logged-in user's bookmarked snippets, most recently bookmarked first.
+ * Bookmarks are private, so this is only shown on the user's own profile.
+ */
+function BookmarkList() {
+  const {
+    data,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+    isLoading,
+  } = useInfiniteQuery({
+    queryKey: ["/api/bookmarks"],
+    queryFn: ({ pageParam }) => fetchPage<Snippet>("/api/bookmarks", {}, pageParam),
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+  });
+
+  const bookmarked = flattenPages(data);
+  const sentinelRef = useInfiniteScroll(
+    () => fetchNextPage(),
+    !!hasNextPage && !isFetchingNextPage
+  );
+
+  if (!isLoading && bookmarked.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        Use the bookmark button on a snippet to save it here. Only you can see your bookmarks.
+      </p>
+    );
+  }
+
+  return (
+    <>
+      <div className="space-y-4">
+        {bookmarked.map((snippet) => (
+          <SnippetCard key={snippet.id} snippet={snippet} />
+        ))}
+      </div>
+      <div ref={sentinelRef} className="flex justify-center py-4">
+        {(isLoading || isFetchingNextPage) && <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />}
+      </div>
+    </>
+  );
+}
+
 export function Profile() {
   const [, params] = useRoute("/profile/:name");
   const authorName = params?.name ?? "";
   const { user: currentUser } = useUser();
   const [isEditing, setIsEditing] = useState(false);
+  const [isCreatingCollection, setIsCreatingCollection] = useState(false);
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
-  const { data } = useQuery<ProfileData>({
+  const {
+    data: pages,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteQuery({
     queryKey: [`/api/authors/${authorName}`],
+    queryFn: ({ pageParam }) =>
+      fetchWithCursor<ProfileData>(`/api/authors/${encodeURIComponent(authorName)}`, {}, pageParam),
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    enabled: !!authorName
+  });
+
+  // Public collections, and private ones too on the user's own profile
+  const { data: collections = [] } = useQuery<Collection[]>({
+    queryKey: [`/api/authors/${authorName}/collections`],
+    queryFn: async () => {
+      const response = await fetch(`/api/authors/${encodeURIComponent(authorName)}/collections`, {
+        credentials: 'include',
+      });
+      if (!response.ok) throw new Error('Failed to load collections');
+      return response.json();
+    },
     enabled: !!authorName
   });
 
+  const data = pages?.pages[0];
+  const authorSnippets = pages?.pages.flatMap(page => page.snippets) ?? [];
+  const sentinelRef = useInfiniteScroll(
+    () => fetchNextPage(),
+    !!hasNextPage && !isFetchingNextPage
+  );
+
   const updateProfileMutation = useMutation({
     mutationFn: async (formData: ProfileFormData) => {
       const response = await fetch('/api/user/profile', {
@@ -93,10 +178,25 @@ export function Profile() {
   if (!data) return null;
 
   const isOwnProfile = currentUser?.username === authorName;
-  const topPositions = data.leaderboards
+  const topPositions = (data.leaderboards ?? [])
     .filter(board => board.position !== null && board.position <= 10)
     .sort((a, b) => (a.position || 0) - (b.position || 0));
 
+  const submittedSnippets = (
+    <>
+      <div className="space-y-4">
+        {authorSnippets.map((snippet) => (
+          <SnippetCard key={snippet.id} snippet={snippet} />
+        ))}
+      </div>
+
+      {/* Loads the next page when scrolled into view */}
+      <div ref={sentinelRef} className="flex justify-center py-4">
+        {isFetchingNextPage && <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />}
+      </div>
+    </>
+  );
+
   async function onSubmit(formData: ProfileFormData) {
     updateProfileMutation.mutate(formData);
   }
@@ -179,6 +279,7 @@ export function Profile() {
                       Visit website <ExternalLink className="h-4 w-4" />
                     </a>
                   )}
+                  <FollowAuthorButton authorName={authorName} canFollow={!!currentUser && !isOwnProfile} />
                   {isOwnProfile && (
                     <Button
                       variant="ghost"
@@ -203,7 +304,7 @@ export function Profile() {
                         href={`/leaderboard?category=${category === 'all' ? '' : category.toLowerCase()}`}
                         className="hover:text-primary"
                       >
-                        {category === 'all' ? 'Overall' : getCategoryDisplayName(category as CodeCategory)}
+                        {category === 'all' ? 'Overall' : <CategoryLabel name={category} />}
                       </Link>
                       <span className="text-muted-foreground">
                         #{position}
@@ -217,12 +318,70 @@ export function Profile() {
         </CardHeader>
       </Card>
 
-      <h2 className="text-xl font-semibold mb-4">Submitted Snippets</h2>
-      <div className="space-y-4">
-        {data.snippets.map((snippet) => (
-          <SnippetCard key={snippet.id} snippet={snippet} />
-        ))}
-      </div>
+      {(collections.length > 0 || isOwnProfile) && (
+        <div className="mb-8">
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-xl font-semibold">Collections</h2>
+            {isOwnProfile && (
+              <Button variant="ghost" size="sm" onClick={() => setIsCreatingCollection(true)}>
+                <Plus className="h-4 w-4 mr-2" />
+                New collection
+              </Button>
+            )}
+          </div>
+          {collections.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              Group snippets into collections to keep them together and share them.
+            </p>
+          ) : (
+            <div className="space-y-2">
+              {collections.map((collection) => (
+                <Link
+                  key={collection.id}
+                  href={`/collection/${collection.id}`}
+                  className="flex items-center justify-between rounded-md border px-3 py-2 hover:bg-accent"
+                >
+                  <span className="flex items-center gap-2 font-medium truncate">
+                    {!collection.isPublic && <Lock className="h-3 w-3 text-muted-foreground" aria-label="Private" />}
+                    {collection.name}
+                  </span>
+                  <span className="text-sm text-muted-foreground flex-shrink-0">
+                    {collection.snippetCount} {collection.snippetCount === 1 ? 'snippet' : 'snippets'}
+                  </span>
+                </Link>
+              ))}
+            </div>
+          )}
+          {isOwnProfile && (
+            <CollectionDialog open={isCreatingCollection} onOpenChange={setIsCreatingCollection} />
+          )}
+        </div>
+      )}
+
+      {isOwnProfile && <EmailPreferences />}
+
+      {isOwnProfile && <ActiveSessions />}
+
+      {isOwnProfile ? (
+        <Tabs defaultValue="snippets">
+          <TabsList className="mb-4">
+            <TabsTrigger value="snippets">Submitted Snippets</TabsTrigger>
+            <TabsTrigger value="bookmarks">My bookmarks</TabsTrigger>
+          </TabsList>
+          {/* Kept mounted so its infinite scroll survives switching tabs */}
+          <TabsContent value="snippets" forceMount className="data-[state=inactive]:hidden">
+            {submittedSnippets}
+          </TabsContent>
+          <TabsContent value="bookmarks">
+            <BookmarkList />
+          </TabsContent>
+        </Tabs>
+      ) : (
+        <>
+          <h2 className="text-xl font-semibold mb-4">Submitted Snippets</h2>
+          {submittedSnippets}
+        </>
+      )}
     </div>
   );
 }
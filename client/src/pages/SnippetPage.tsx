@@ -1,7 +1,10 @@
 import { useQuery } from "@tanstack/react-query";
 import { SnippetCard } from "@/components/SnippetCard";
 import { Comments } from "@/components/Comments";
-import type { Snippet } from "@/lib/types";
+import { RevisionHistory } from "@/components/RevisionHistory";
+import { LintWarnings } from "@/components/LintWarnings";
+import { TmdlOutline } from "@/components/TmdlOutline";
+import type { Snippet, SnippetLint, SnippetOutline } from "@/lib/types";
 import { useRoute, Link } from "wouter";
 import { Suspense } from "react";
 import { Skeleton } from "@/components/ui/skeleton";
@@ -35,6 +38,36 @@ export function SnippetPage() {
     retry: 1, // Only retry once to avoid flooding with requests
   });
 
+  // Lint warnings for the snippet's code; empty for languages without a linter.
+  // Keyed on the code so edits made on this page are re-linted.
+  const { data: lint } = useQuery<SnippetLint>({
+    queryKey: [`/api/snippets/${snippetId}/lint`, snippet?.code],
+    queryFn: async () => {
+      const response = await fetch(`/api/snippets/${snippetId}/lint`);
+      if (!response.ok) {
+        throw new Error('Failed to lint snippet');
+      }
+      return response.json() as Promise<SnippetLint>;
+    },
+    enabled: !!snippet,
+    staleTime: 1000 * 60 * 5,
+  });
+  const warnings = lint?.warnings ?? [];
+
+  // Outline of the objects a TMDL snippet defines
+  const { data: outline } = useQuery<SnippetOutline>({
+    queryKey: [`/api/snippets/${snippetId}/outline`, snippet?.code],
+    queryFn: async () => {
+      const response = await fetch(`/api/snippets/${snippetId}/outline`);
+      if (!response.ok) {
+        throw new Error('Failed to load snippet outline');
+      }
+      return response.json() as Promise<SnippetOutline>;
+    },
+    enabled: !!snippet,
+    staleTime: 1000 * 60 * 5,
+  });
+
   // Loading state
   if (isLoading) {
     return (
@@ -100,8 +133,24 @@ export function SnippetPage() {
         </Button>
       </div>
       
-      <SnippetCard snippet={snippet} />
-      
+      <SnippetCard snippet={snippet} diagnostics={warnings} />
+
+      {warnings.length > 0 && (
+        <div className="mt-8">
+          <LintWarnings warnings={warnings} />
+        </div>
+      )}
+
+      {outline?.outline && outline.outline.length > 0 && (
+        <div className="mt-8">
+          <TmdlOutline outline={outline.outline} />
+        </div>
+      )}
+
+      <div className="mt-8">
+        <RevisionHistory snippet={snippet} />
+      </div>
+
       <div className="mt-8">
         <Comments snippetId={snippetId} />
       </div>
@@ -0,0 +1,62 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { readApiError } from "@/lib/api-error";
+import { Loader2 } from "lucide-react";
+
+/**
+ * Where the unsubscribe link in a digest email leads. It works without
+ * logging in, using the token in the link. Unsubscribing takes a click, so
+ * mail scanners that follow links don't unsubscribe anyone.
+ */
+export function UnsubscribePage() {
+  const [, setLocation] = useLocation();
+  const [token] = useState(() => new URLSearchParams(window.location.search).get("token"));
+
+  const mutation = useMutation({
+    mutationFn: async () => {
+      const res = await fetch(`/api/email/unsubscribe?token=${encodeURIComponent(token ?? "")}`, {
+        method: "POST",
+      });
+      if (!res.ok) throw await readApiError(res, "Failed to unsubscribe");
+      return res.json() as Promise<{ message: string }>;
+    },
+  });
+
+  const [title, description] = !token
+    ? ["Invalid Unsubscribe Link", "This link is missing its unsubscribe token."]
+    : mutation.isSuccess
+      ? ["Unsubscribed", mutation.data.message]
+      : mutation.isError
+        ? ["Couldn't Unsubscribe", mutation.error.message]
+        : ["Unsubscribe from Digests", "Stop receiving FabSnippets digest emails at this address?"];
+
+  return (
+    <div className="container max-w-md mx-auto pt-8">
+      <Card>
+        <CardHeader className="space-y-1">
+          <CardTitle className="text-2xl text-center">{title}</CardTitle>
+          <CardDescription className="text-center">{description}</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {token && !mutation.isSuccess && !mutation.isError && (
+            <Button className="w-full" disabled={mutation.isPending} onClick={() => mutation.mutate()}>
+              {mutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Unsubscribe
+            </Button>
+          )}
+          {(mutation.isSuccess || !token) && (
+            <p className="text-center text-sm text-muted-foreground">
+              You can turn digests back on from your profile at any time.
+            </p>
+          )}
+          <Button variant="outline" className="w-full" onClick={() => setLocation("/")}>
+            Back to FabSnippets
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,134 @@
+/**
+ * UserManagement Page
+ *
+ * Admin page for user roles. Admins can promote members to moderators or
+ * admins and demote them again. An admin can't change their own role, and
+ * the server refuses to demote the last admin.
+ */
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { RefreshCw } from "lucide-react";
+import { Link } from "wouter";
+import { useToast } from "@/hooks/use-toast";
+import { useUser } from "@/hooks/use-user";
+import { readApiError } from "@/lib/api-error";
+import { ROLES } from "@/lib/roles";
+import type { Role, UserWithRole } from "@/lib/types";
+
+const ROLE_LABELS: Record<Role, string> = {
+  member: "Member",
+  moderator: "Moderator",
+  admin: "Admin",
+};
+
+export function UserManagement() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { user: currentUser } = useUser();
+
+  const { data: users = [], isLoading } = useQuery<UserWithRole[]>({
+    queryKey: ["/api/admin/users"],
+  });
+
+  const roleMutation = useMutation({
+    mutationFn: async ({ id, role }: { id: number; role: Role }) => {
+      const res = await fetch(`/api/admin/users/${id}/role`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({ role }),
+      });
+      if (!res.ok) throw await readApiError(res, "Failed to change role");
+      return res.json() as Promise<Pick<UserWithRole, "id" | "username" | "role">>;
+    },
+    onSuccess: (updated) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/users"] });
+      toast({
+        title: "Success",
+        description: `${updated.username} is now ${ROLE_LABELS[updated.role].toLowerCase()}`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="container mx-auto py-10">
+      <Card>
+        <CardHeader className="pb-2">
+          <CardTitle className="text-2xl font-bold">Users</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <p className="text-sm text-muted-foreground mb-4">
+            Moderators can delete anyone's snippets and comments. Admins can also manage categories, backups and roles.
+          </p>
+          {isLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <RefreshCw className="h-8 w-8 animate-spin" />
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Username</TableHead>
+                  <TableHead>Email</TableHead>
+                  <TableHead>Joined</TableHead>
+                  <TableHead className="w-[160px]">Role</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {users.map(user => (
+                  <TableRow key={user.id}>
+                    <TableCell>
+                      <Link href={`/profile/${user.username}`} className="hover:text-primary hover:underline">
+                        {user.username}
+                      </Link>
+                    </TableCell>
+                    <TableCell className="text-xs text-muted-foreground">{user.email}</TableCell>
+                    <TableCell className="text-xs">{new Date(user.createdAt).toLocaleDateString()}</TableCell>
+                    <TableCell>
+                      <Select
+                        value={user.role}
+                        onValueChange={(role) => roleMutation.mutate({ id: user.id, role: role as Role })}
+                        disabled={roleMutation.isPending || user.id === currentUser?.id}
+                      >
+                        <SelectTrigger className="h-8">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {ROLES.map(role => (
+                            <SelectItem key={role} value={role}>{ROLE_LABELS[role]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -13,3 +13,6 @@ export const db = drizzle({
   schema,
   ws: ws,
 });
+
+// Either the shared db handle or a transaction opened from it
+export type DbExecutor = typeof db | Parameters<Parameters<typeof db.transaction>[0]>[0];
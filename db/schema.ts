@@ -1,6 +1,13 @@
-import { pgTable, text, serial, integer, timestamp, varchar, boolean } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, smallint, timestamp, varchar, boolean, jsonb, index, uniqueIndex, primaryKey, unique, check, customType, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { createInsertSchema, createSelectSchema } from "drizzle-zod";
-import { relations } from "drizzle-orm";
+import { relations, sql } from "drizzle-orm";
+
+// Postgres full-text search vector (no built-in drizzle column type)
+const tsvector = customType<{ data: string }>({
+  dataType() {
+    return "tsvector";
+  },
+});
 
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
@@ -9,42 +16,243 @@ export const users = pgTable("users", {
   email: text("email").unique(),
   website: text("website"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
-  isAdmin: boolean("is_admin").notNull().default(false)
-});
+  // member, moderator or admin; see server/access.ts
+  role: varchar("role", { length: 20 }).notNull().default("member")
+}, (table) => [
+  check("users_role_check", sql`${table.role} IN ('member', 'moderator', 'admin')`)
+]);
 
 export const snippets = pgTable("snippets", {
   id: serial("id").primaryKey(),
   title: varchar("title", { length: 200 }).notNull(),
   code: text("code").notNull(),
-  category: varchar("category", { length: 20 }), // Keep existing column
-  categories: text("categories"), // Add new column
   authorId: integer("author_id").notNull().references(() => users.id),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
-  votes: integer("votes").default(0).notNull()
+  // Sum of the snippet's vote values; see server/votes.ts
+  votes: integer("votes").default(0).notNull(),
+  // Weighted full-text search document: title (A), code (B)
+  searchVector: tsvector("search_vector").generatedAlwaysAs(sql`
+    setweight(to_tsvector('simple', coalesce(title, '')), 'A') ||
+    setweight(to_tsvector('simple', coalesce(code, '')), 'B')
+  `)
+}, (table) => [
+  index("snippets_search_vector_idx").using("gin", table.searchVector)
+]);
+
+export const categories = pgTable("categories", {
+  id: serial("id").primaryKey(),
+  // Stable identifier used in URLs, filters and revision history
+  name: varchar("name", { length: 50 }).notNull().unique(),
+  displayName: varchar("display_name", { length: 50 }).notNull(),
+  color: varchar("color", { length: 7 }),
+  icon: varchar("icon", { length: 50 }),
+  description: text("description"),
+  // Syntax highlighting mode for snippets in this category
+  languageMode: varchar("language_mode", { length: 30 }).notNull().default("plaintext"),
+  position: integer("position").notNull().default(0),
+  // Archived categories can't be picked for new snippets but stay on existing ones
+  archivedAt: timestamp("archived_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull()
 });
 
+export const snippetCategories = pgTable("snippet_categories", {
+  snippetId: integer("snippet_id").notNull().references(() => snippets.id, { onDelete: "cascade" }),
+  categoryId: integer("category_id").notNull().references(() => categories.id)
+}, (table) => [
+  primaryKey({ columns: [table.snippetId, table.categoryId] }),
+  index("snippet_categories_category_id_idx").on(table.categoryId)
+]);
+
 export const votes = pgTable("votes", {
   id: serial("id").primaryKey(),
-  snippetId: integer("snippet_id").notNull().references(() => snippets.id),
+  snippetId: integer("snippet_id").notNull().references(() => snippets.id, { onDelete: "cascade" }),
   userId: integer("user_id").references(() => users.id),
   ipAddress: text("ip_address"),
+  // +1 for a like, -1 for a downvote
+  value: smallint("value").notNull().default(1),
   createdAt: timestamp("created_at").defaultNow().notNull()
-});
+}, (table) => [
+  // One vote per user, or per IP address for anonymous voters
+  uniqueIndex("votes_snippet_id_user_id_key").on(table.snippetId, table.userId).where(sql`${table.userId} IS NOT NULL`),
+  uniqueIndex("votes_snippet_id_ip_address_key").on(table.snippetId, table.ipAddress).where(sql`${table.userId} IS NULL`),
+  // Trending scores and windowed leaderboards sum a snippet's recent votes
+  index("votes_snippet_id_created_at_idx").on(table.snippetId, table.createdAt),
+  check("votes_value_check", sql`${table.value} IN (-1, 1)`)
+]);
 
 export const comments = pgTable("comments", {
   id: serial("id").primaryKey(),
   content: text("content").notNull(),
-  snippetId: integer("snippet_id").notNull().references(() => snippets.id),
+  snippetId: integer("snippet_id").notNull().references(() => snippets.id, { onDelete: "cascade" }),
   authorId: integer("author_id").notNull().references(() => users.id),
+  // The comment this one replies to; null for top-level comments
+  parentId: integer("parent_id").references((): AnyPgColumn => comments.id, { onDelete: "cascade" }),
   createdAt: timestamp("created_at").defaultNow().notNull(),
+  editedAt: timestamp("edited_at"),
+  // Deleted comments keep their row so replies stay in their thread
+  deletedAt: timestamp("deleted_at"),
+  deletedBy: integer("deleted_by").references(() => users.id, { onDelete: "set null" }),
+}, (table) => [
+  index("comments_snippet_id_idx").on(table.snippetId, table.createdAt),
+  index("comments_parent_id_idx").on(table.parentId)
+]);
+
+export const snippetRevisions = pgTable("snippet_revisions", {
+  id: serial("id").primaryKey(),
+  snippetId: integer("snippet_id").notNull().references(() => snippets.id, { onDelete: "cascade" }),
+  title: varchar("title", { length: 200 }).notNull(),
+  code: text("code").notNull(),
+  categories: text("categories"),
+  editorId: integer("editor_id").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull()
 });
 
+// Fill-in values marked in a snippet's code as {{Name:default|description}}
+export const snippetPlaceholders = pgTable("snippet_placeholders", {
+  id: serial("id").primaryKey(),
+  snippetId: integer("snippet_id").notNull().references(() => snippets.id, { onDelete: "cascade" }),
+  name: varchar("name", { length: 64 }).notNull(),
+  defaultValue: text("default_value"),
+  description: text("description"),
+  // Order of first appearance in the code
+  position: integer("position").notNull().default(0)
+}, (table) => [
+  unique("snippet_placeholders_snippet_id_name_key").on(table.snippetId, table.name)
+]);
+
+// Snippets a user has saved for later; private, unlike votes
+export const bookmarks = pgTable("bookmarks", {
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  snippetId: integer("snippet_id").notNull().references(() => snippets.id, { onDelete: "cascade" }),
+  createdAt: timestamp("created_at").defaultNow().notNull()
+}, (table) => [
+  primaryKey({ columns: [table.userId, table.snippetId] }),
+  index("bookmarks_snippet_id_idx").on(table.snippetId)
+]);
+
+// Named, ordered sets of snippets a user curates
+export const collections = pgTable("collections", {
+  id: serial("id").primaryKey(),
+  ownerId: integer("owner_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  name: varchar("name", { length: 100 }).notNull(),
+  description: text("description"),
+  // Private collections are only visible to their owner
+  isPublic: boolean("is_public").notNull().default(false),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull()
+}, (table) => [
+  index("collections_owner_id_idx").on(table.ownerId)
+]);
+
+export const collectionSnippets = pgTable("collection_snippets", {
+  collectionId: integer("collection_id").notNull().references(() => collections.id, { onDelete: "cascade" }),
+  snippetId: integer("snippet_id").notNull().references(() => snippets.id, { onDelete: "cascade" }),
+  position: integer("position").notNull().default(0),
+  addedAt: timestamp("added_at").defaultNow().notNull()
+}, (table) => [
+  primaryKey({ columns: [table.collectionId, table.snippetId] }),
+  index("collection_snippets_snippet_id_idx").on(table.snippetId)
+]);
+
 // Relations
-export const userRelations = relations(users, ({ many }) => ({
+export const notifications = pgTable("notifications", {
+  id: serial("id").primaryKey(),
+  // Who the notification is for
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  type: varchar("type", { length: 20 }).notNull(),
+  // Who caused it; null for anonymous voters
+  actorId: integer("actor_id").references(() => users.id, { onDelete: "set null" }),
+  snippetId: integer("snippet_id").notNull().references(() => snippets.id, { onDelete: "cascade" }),
+  commentId: integer("comment_id").references(() => comments.id, { onDelete: "cascade" }),
+  // Unread vote notifications for a snippet are merged; this counts the votes
+  count: integer("count").notNull().default(1),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  readAt: timestamp("read_at"),
+}, (table) => [
+  index("notifications_user_id_idx").on(table.userId, table.createdAt),
+  check("notifications_type_check", sql`${table.type} IN ('mention', 'comment', 'reply', 'vote')`)
+]);
+
+// Digest emails are opt-in; users without a row get none
+export const emailPreferences = pgTable("email_preferences", {
+  userId: integer("user_id").primaryKey().references(() => users.id, { onDelete: "cascade" }),
+  digestFrequency: varchar("digest_frequency", { length: 10 }).notNull().default("off"),
+  includeComments: boolean("include_comments").notNull().default(true),
+  includeVotes: boolean("include_votes").notNull().default(true),
+  includeFollowedCategories: boolean("include_followed_categories").notNull().default(true),
+  // Lets the unsubscribe link in each digest work without logging in
+  unsubscribeToken: varchar("unsubscribe_token", { length: 64 }).notNull().unique(),
+  lastDigestAt: timestamp("last_digest_at"),
+  updatedAt: timestamp("updated_at").defaultNow().notNull()
+}, (table) => [
+  check("email_preferences_digest_frequency_check", sql`${table.digestFrequency} IN ('off', 'daily', 'weekly')`)
+]);
+
+export const categoryFollows = pgTable("category_follows", {
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  categoryId: integer("category_id").notNull().references(() => categories.id, { onDelete: "cascade" }),
+  createdAt: timestamp("created_at").defaultNow().notNull()
+}, (table) => [
+  primaryKey({ columns: [table.userId, table.categoryId] }),
+  index("category_follows_category_id_idx").on(table.categoryId)
+]);
+
+export const authorFollows = pgTable("author_follows", {
+  followerId: integer("follower_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  authorId: integer("author_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  createdAt: timestamp("created_at").defaultNow().notNull()
+}, (table) => [
+  primaryKey({ columns: [table.followerId, table.authorId] }),
+  index("author_follows_author_id_idx").on(table.authorId),
+  check("author_follows_not_self_check", sql`${table.followerId} <> ${table.authorId}`)
+]);
+
+// Login sessions for express-session; see server/sessions.ts
+export const sessions = pgTable("sessions", {
+  sid: varchar("sid", { length: 255 }).primaryKey(),
+  sess: jsonb("sess").notNull(),
+  expire: timestamp("expire").notNull(),
+  // The logged-in user, copied out of sess so their sessions can be listed and revoked
+  userId: integer("user_id").references(() => users.id, { onDelete: "cascade" }),
+  userAgent: text("user_agent"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  lastSeenAt: timestamp("last_seen_at").defaultNow().notNull()
+}, (table) => [
+  index("sessions_expire_idx").on(table.expire),
+  index("sessions_user_id_idx").on(table.userId)
+]);
+
+// One row per backup run, scheduled or manual; see scripts/backupSchedule.ts
+export const backupJobs = pgTable("backup_jobs", {
+  id: serial("id").primaryKey(),
+  trigger: varchar("trigger", { length: 20 }).notNull(),
+  status: varchar("status", { length: 20 }).notNull().default("running"),
+  filename: text("filename"),
+  size: integer("size"),
+  // What happened at each storage target: stored or not, and what retention removed
+  targets: jsonb("targets").notNull().default([]),
+  error: text("error"),
+  startedAt: timestamp("started_at").defaultNow().notNull(),
+  finishedAt: timestamp("finished_at")
+}, (table) => [
+  index("backup_jobs_started_at_idx").on(table.startedAt),
+  check("backup_jobs_trigger_check", sql`${table.trigger} IN ('scheduled', 'manual')`),
+  check("backup_jobs_status_check", sql`${table.status} IN ('running', 'succeeded', 'failed')`)
+]);
+
+export const userRelations = relations(users, ({ one, many }) => ({
   snippets: many(snippets),
   votes: many(votes),
-  comments: many(comments)
+  comments: many(comments),
+  collections: many(collections),
+  bookmarks: many(bookmarks),
+  notifications: many(notifications, { relationName: "notificationRecipient" }),
+  emailPreferences: one(emailPreferences),
+  categoryFollows: many(categoryFollows),
+  following: many(authorFollows, { relationName: "authorFollower" }),
+  followers: many(authorFollows, { relationName: "followedAuthor" }),
+  sessions: many(sessions)
 }));
 
 export const snippetsRelations = relations(snippets, ({ one, many }) => ({
@@ -53,7 +261,29 @@ export const snippetsRelations = relations(snippets, ({ one, many }) => ({
     references: [users.id],
   }),
   votes: many(votes),
-  comments: many(comments)
+  comments: many(comments),
+  revisions: many(snippetRevisions),
+  categories: many(snippetCategories),
+  placeholders: many(snippetPlaceholders),
+  collections: many(collectionSnippets),
+  bookmarks: many(bookmarks),
+  notifications: many(notifications)
+}));
+
+export const categoriesRelations = relations(categories, ({ many }) => ({
+  snippets: many(snippetCategories),
+  followers: many(categoryFollows)
+}));
+
+export const snippetCategoriesRelations = relations(snippetCategories, ({ one }) => ({
+  snippet: one(snippets, {
+    fields: [snippetCategories.snippetId],
+    references: [snippets.id],
+  }),
+  category: one(categories, {
+    fields: [snippetCategories.categoryId],
+    references: [categories.id],
+  }),
 }));
 
 export const votesRelations = relations(votes, ({ one }) => ({
@@ -67,7 +297,7 @@ export const votesRelations = relations(votes, ({ one }) => ({
   }),
 }));
 
-export const commentsRelations = relations(comments, ({ one }) => ({
+export const commentsRelations = relations(comments, ({ one, many }) => ({
   snippet: one(snippets, {
     fields: [comments.snippetId],
     references: [snippets.id],
@@ -76,6 +306,119 @@ export const commentsRelations = relations(comments, ({ one }) => ({
     fields: [comments.authorId],
     references: [users.id],
   }),
+  parent: one(comments, {
+    fields: [comments.parentId],
+    references: [comments.id],
+    relationName: "commentReplies",
+  }),
+  replies: many(comments, { relationName: "commentReplies" }),
+}));
+
+export const snippetRevisionsRelations = relations(snippetRevisions, ({ one }) => ({
+  snippet: one(snippets, {
+    fields: [snippetRevisions.snippetId],
+    references: [snippets.id],
+  }),
+  editor: one(users, {
+    fields: [snippetRevisions.editorId],
+    references: [users.id],
+  }),
+}));
+
+export const snippetPlaceholdersRelations = relations(snippetPlaceholders, ({ one }) => ({
+  snippet: one(snippets, {
+    fields: [snippetPlaceholders.snippetId],
+    references: [snippets.id],
+  }),
+}));
+
+export const bookmarksRelations = relations(bookmarks, ({ one }) => ({
+  user: one(users, {
+    fields: [bookmarks.userId],
+    references: [users.id],
+  }),
+  snippet: one(snippets, {
+    fields: [bookmarks.snippetId],
+    references: [snippets.id],
+  }),
+}));
+
+export const emailPreferencesRelations = relations(emailPreferences, ({ one }) => ({
+  user: one(users, {
+    fields: [emailPreferences.userId],
+    references: [users.id],
+  }),
+}));
+
+export const categoryFollowsRelations = relations(categoryFollows, ({ one }) => ({
+  user: one(users, {
+    fields: [categoryFollows.userId],
+    references: [users.id],
+  }),
+  category: one(categories, {
+    fields: [categoryFollows.categoryId],
+    references: [categories.id],
+  }),
+}));
+
+export const authorFollowsRelations = relations(authorFollows, ({ one }) => ({
+  follower: one(users, {
+    fields: [authorFollows.followerId],
+    references: [users.id],
+    relationName: "authorFollower",
+  }),
+  author: one(users, {
+    fields: [authorFollows.authorId],
+    references: [users.id],
+    relationName: "followedAuthor",
+  }),
+}));
+
+export const sessionsRelations = relations(sessions, ({ one }) => ({
+  user: one(users, {
+    fields: [sessions.userId],
+    references: [users.id],
+  }),
+}));
+
+export const notificationsRelations = relations(notifications, ({ one }) => ({
+  user: one(users, {
+    fields: [notifications.userId],
+    references: [users.id],
+    relationName: "notificationRecipient",
+  }),
+  actor: one(users, {
+    fields: [notifications.actorId],
+    references: [users.id],
+    relationName: "notificationActor",
+  }),
+  snippet: one(snippets, {
+    fields: [notifications.snippetId],
+    references: [snippets.id],
+  }),
+  comment: one(comments, {
+    fields: [notifications.commentId],
+    references: [comments.id],
+  }),
+}));
+
+export const collectionsRelations = relations(collections, ({ one, many }) => ({
+  owner: one(users, {
+    fields: [collections.ownerId],
+    references: [users.id],
+  }),
+  snippets: many(collectionSnippets)
+}));
+
+export const collectionSnippetsRelations = relations(collectionSnippets, ({ one }) => ({
+  collection: one(collections, {
+    fields: [collectionSnippets.collectionId],
+    references: [collections.id],
+  }),
+  snippet: one(snippets, {
+    fields: [collectionSnippets.snippetId],
+    references: [snippets.id],
+  }),
 }));
 
 // Zod schemas for validation
@@ -85,12 +428,35 @@ export const selectUserSchema = createSelectSchema(users);
 export const insertSnippetSchema = createInsertSchema(snippets);
 export const selectSnippetSchema = createSelectSchema(snippets);
 
+export const insertCategorySchema = createInsertSchema(categories);
+export const selectCategorySchema = createSelectSchema(categories);
+
 export const insertVoteSchema = createInsertSchema(votes);
 export const selectVoteSchema = createSelectSchema(votes);
 
 export const insertCommentSchema = createInsertSchema(comments);
 export const selectCommentSchema = createSelectSchema(comments);
 
+export const insertSnippetRevisionSchema = createInsertSchema(snippetRevisions);
+export const selectSnippetRevisionSchema = createSelectSchema(snippetRevisions);
+
+export const insertSnippetPlaceholderSchema = createInsertSchema(snippetPlaceholders);
+export const selectSnippetPlaceholderSchema = createSelectSchema(snippetPlaceholders);
+
+export const insertBookmarkSchema = createInsertSchema(bookmarks);
+export const selectBookmarkSchema = createSelectSchema(bookmarks);
+export const insertNotificationSchema = createInsertSchema(notifications);
+export const selectNotificationSchema = createSelectSchema(notifications);
+export const insertEmailPreferencesSchema = createInsertSchema(emailPreferences);
+export const selectEmailPreferencesSchema = createSelectSchema(emailPreferences);
+export const insertCategoryFollowSchema = createInsertSchema(categoryFollows);
+export const selectCategoryFollowSchema = createSelectSchema(categoryFollows);
+export const insertAuthorFollowSchema = createInsertSchema(authorFollows);
+export const selectAuthorFollowSchema = createSelectSchema(authorFollows);
+
+export const insertCollectionSchema = createInsertSchema(collections);
+export const selectCollectionSchema = createSelectSchema(collections);
+
 // Type exports
 export type User = typeof users.$inferSelect;
 export type NewUser = typeof users.$inferInsert;
@@ -98,8 +464,41 @@ export type NewUser = typeof users.$inferInsert;
 export type Snippet = typeof snippets.$inferSelect;
 export type NewSnippet = typeof snippets.$inferInsert;
 
+export type Category = typeof categories.$inferSelect;
+export type NewCategory = typeof categories.$inferInsert;
+
+export type SnippetCategory = typeof snippetCategories.$inferSelect;
+export type NewSnippetCategory = typeof snippetCategories.$inferInsert;
+
 export type Vote = typeof votes.$inferSelect;
 export type NewVote = typeof votes.$inferInsert;
 
 export type Comment = typeof comments.$inferSelect;
-export type NewComment = typeof comments.$inferInsert;
\ No newline at end of file
+export type NewComment = typeof comments.$inferInsert;
+
+export type SnippetRevision = typeof snippetRevisions.$inferSelect;
+export type NewSnippetRevision = typeof snippetRevisions.$inferInsert;
+
+export type SnippetPlaceholder = typeof snippetPlaceholders.$inferSelect;
+export type NewSnippetPlaceholder = typeof snippetPlaceholders.$inferInsert;
+
+export type Bookmark = typeof bookmarks.$inferSelect;
+export type NewBookmark = typeof bookmarks.$inferInsert;
+export type Notification = typeof notifications.$inferSelect;
+export type NewNotification = typeof notifications.$inferInsert;
+export type EmailPreferences = typeof emailPreferences.$inferSelect;
+export type NewEmailPreferences = typeof emailPreferences.$inferInsert;
+export type CategoryFollow = typeof categoryFollows.$inferSelect;
+export type NewCategoryFollow = typeof categoryFollows.$inferInsert;
+export type AuthorFollow = typeof authorFollows.$inferSelect;
+export type NewAuthorFollow = typeof authorFollows.$inferInsert;
+export type Session = typeof sessions.$inferSelect;
+export type NewSession = typeof sessions.$inferInsert;
+export type BackupJob = typeof backupJobs.$inferSelect;
+export type NewBackupJob = typeof backupJobs.$inferInsert;
+
+export type Collection = typeof collections.$inferSelect;
+export type NewCollection = typeof collections.$inferInsert;
+
+export type CollectionSnippet = typeof collectionSnippets.$inferSelect;
+export type NewCollectionSnippet = typeof collectionSnippets.$inferInsert;
\ No newline at end of file
@@ -0,0 +1,10 @@
+CREATE TABLE IF NOT EXISTS snippet_revisions (
+  id SERIAL PRIMARY KEY,
+  snippet_id INTEGER NOT NULL REFERENCES snippets(id) ON DELETE CASCADE,
+  title VARCHAR(200) NOT NULL,
+  code TEXT NOT NULL,
+  categories TEXT,
+  editor_id INTEGER REFERENCES users(id),
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+CREATE INDEX IF NOT EXISTS snippet_revisions_snippet_id_idx ON snippet_revisions(snippet_id, created_at);
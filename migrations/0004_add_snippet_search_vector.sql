@@ -0,0 +1,6 @@
+ALTER TABLE snippets ADD COLUMN IF NOT EXISTS search_vector TSVECTOR GENERATED ALWAYS AS (
+  setweight(to_tsvector('simple', coalesce(title, '')), 'A') ||
+  setweight(to_tsvector('simple', coalesce(code, '')), 'B') ||
+  setweight(to_tsvector('simple', coalesce(categories, '')), 'C')
+) STORED;
+CREATE INDEX IF NOT EXISTS snippets_search_vector_idx ON snippets USING GIN (search_vector);
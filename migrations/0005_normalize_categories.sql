@@ -0,0 +1,76 @@
+CREATE TABLE IF NOT EXISTS categories (
+  id SERIAL PRIMARY KEY,
+  name VARCHAR(50) NOT NULL UNIQUE,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS snippet_categories (
+  snippet_id INTEGER NOT NULL REFERENCES snippets(id) ON DELETE CASCADE,
+  category_id INTEGER NOT NULL REFERENCES categories(id),
+  PRIMARY KEY (snippet_id, category_id)
+);
+CREATE INDEX IF NOT EXISTS snippet_categories_category_id_idx ON snippet_categories(category_id);
+
+-- Seed the categories the app has shipped with
+INSERT INTO categories (name)
+VALUES ('Prompt'), ('TMDL'), ('DAX'), ('SQL'), ('Python'), ('PowerQuery'), ('C#')
+ON CONFLICT (name) DO NOTHING;
+
+-- A legacy "categories" value as JSON, or NULL if it isn't valid JSON (say a
+-- hand-edited or truncated array), so one bad row can't stop the migration
+CREATE OR REPLACE FUNCTION legacy_categories_jsonb(value TEXT) RETURNS JSONB AS $fn$
+BEGIN
+  RETURN value::jsonb;
+EXCEPTION WHEN invalid_text_representation THEN
+  RETURN NULL;
+END;
+$fn$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Convert existing rows: the JSON "categories" column, falling back to the
+-- legacy "category" column for rows that predate it or whose JSON is invalid
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'snippets' AND column_name = 'categories'
+  ) THEN
+    CREATE TEMP TABLE legacy_snippet_categories AS
+    SELECT s.id AS snippet_id, trim(c.name) AS name
+    FROM snippets s
+    CROSS JOIN LATERAL jsonb_array_elements_text(
+      CASE
+        WHEN s.categories ~ '^\s*\[' AND legacy_categories_jsonb(s.categories) IS NOT NULL
+          THEN legacy_categories_jsonb(s.categories)
+        WHEN s.category IS NOT NULL THEN jsonb_build_array(s.category)
+        ELSE '[]'::jsonb
+      END
+    ) AS c(name)
+    WHERE trim(c.name) <> '';
+
+    INSERT INTO categories (name)
+    SELECT DISTINCT name FROM legacy_snippet_categories
+    ON CONFLICT (name) DO NOTHING;
+
+    INSERT INTO snippet_categories (snippet_id, category_id)
+    SELECT DISTINCT l.snippet_id, c.id
+    FROM legacy_snippet_categories l
+    JOIN categories c ON c.name = l.name
+    ON CONFLICT DO NOTHING;
+
+    DROP TABLE legacy_snippet_categories;
+  END IF;
+END $$;
+
+DROP FUNCTION legacy_categories_jsonb(TEXT);
+
+-- The search vector no longer indexes the JSON column, so rebuild it before dropping
+DROP INDEX IF EXISTS snippets_search_vector_idx;
+ALTER TABLE snippets DROP COLUMN IF EXISTS search_vector;
+ALTER TABLE snippets ADD COLUMN search_vector TSVECTOR GENERATED ALWAYS AS (
+  setweight(to_tsvector('simple', coalesce(title, '')), 'A') ||
+  setweight(to_tsvector('simple', coalesce(code, '')), 'B')
+) STORED;
+CREATE INDEX IF NOT EXISTS snippets_search_vector_idx ON snippets USING GIN (search_vector);
+
+ALTER TABLE snippets DROP COLUMN IF EXISTS categories;
+ALTER TABLE snippets DROP COLUMN IF EXISTS category;
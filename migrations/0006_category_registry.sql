@@ -0,0 +1,32 @@
+ALTER TABLE categories ADD COLUMN IF NOT EXISTS display_name VARCHAR(50);
+ALTER TABLE categories ADD COLUMN IF NOT EXISTS color VARCHAR(7);
+ALTER TABLE categories ADD COLUMN IF NOT EXISTS icon VARCHAR(50);
+ALTER TABLE categories ADD COLUMN IF NOT EXISTS description TEXT;
+ALTER TABLE categories ADD COLUMN IF NOT EXISTS language_mode VARCHAR(30) NOT NULL DEFAULT 'plaintext';
+ALTER TABLE categories ADD COLUMN IF NOT EXISTS position INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE categories ADD COLUMN IF NOT EXISTS archived_at TIMESTAMP;
+
+-- Carry over the display names and order that used to be hard-coded in the client
+UPDATE categories SET display_name = CASE name WHEN 'PowerQuery' THEN 'M' ELSE name END
+WHERE display_name IS NULL;
+ALTER TABLE categories ALTER COLUMN display_name SET NOT NULL;
+
+UPDATE categories SET language_mode = CASE name
+  WHEN 'DAX' THEN 'dax'
+  WHEN 'PowerQuery' THEN 'powerquery'
+  WHEN 'TMDL' THEN 'tmdl'
+  WHEN 'SQL' THEN 'sql'
+  WHEN 'Python' THEN 'python'
+  WHEN 'C#' THEN 'csharp'
+  WHEN 'Prompt' THEN 'markdown'
+  ELSE language_mode
+END;
+
+UPDATE categories SET position = ordered.position
+FROM (
+  SELECT id, ROW_NUMBER() OVER (
+    ORDER BY array_position(ARRAY['Prompt', 'TMDL', 'DAX', 'SQL', 'Python', 'PowerQuery', 'C#']::varchar[], name), name
+  ) AS position
+  FROM categories
+) ordered
+WHERE categories.id = ordered.id;
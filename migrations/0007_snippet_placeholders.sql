@@ -0,0 +1,35 @@
+CREATE TABLE IF NOT EXISTS snippet_placeholders (
+  id SERIAL PRIMARY KEY,
+  snippet_id INTEGER NOT NULL REFERENCES snippets(id) ON DELETE CASCADE,
+  name VARCHAR(64) NOT NULL,
+  default_value TEXT,
+  description TEXT,
+  position INTEGER NOT NULL DEFAULT 0,
+  UNIQUE (snippet_id, name)
+);
+
+-- Pick up placeholders in existing snippets: {{Name}}, {{Name:default}} or
+-- {{Name:default|description}}. The first occurrence of a name wins.
+INSERT INTO snippet_placeholders (snippet_id, name, default_value, description, position)
+SELECT
+  snippet_id,
+  name,
+  NULLIF(trim(match[2]), ''),
+  NULLIF(trim(match[3]), ''),
+  (DENSE_RANK() OVER (PARTITION BY snippet_id ORDER BY first_seen) - 1)::integer
+FROM (
+  SELECT
+    s.id AS snippet_id,
+    m.match,
+    m.match[1] AS name,
+    MIN(m.ordinality) OVER (PARTITION BY s.id, m.match[1]) AS first_seen,
+    m.ordinality
+  FROM snippets s
+  CROSS JOIN LATERAL regexp_matches(
+    s.code,
+    '\{\{\s*([A-Za-z_][A-Za-z0-9_]{0,63})\s*(?::([^|}\n]*))?(?:\|([^}\n]*))?\}\}',
+    'g'
+  ) WITH ORDINALITY AS m(match, ordinality)
+) found
+WHERE ordinality = first_seen
+ON CONFLICT (snippet_id, name) DO NOTHING;
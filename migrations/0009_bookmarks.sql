@@ -0,0 +1,7 @@
+CREATE TABLE IF NOT EXISTS bookmarks (
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  snippet_id INTEGER NOT NULL REFERENCES snippets(id) ON DELETE CASCADE,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (user_id, snippet_id)
+);
+CREATE INDEX IF NOT EXISTS bookmarks_snippet_id_idx ON bookmarks(snippet_id);
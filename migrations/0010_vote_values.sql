@@ -0,0 +1,25 @@
+-- Votes are +1 (like) or -1 (downvote)
+ALTER TABLE votes ADD COLUMN IF NOT EXISTS value SMALLINT NOT NULL DEFAULT 1;
+ALTER TABLE votes DROP CONSTRAINT IF EXISTS votes_value_check;
+ALTER TABLE votes ADD CONSTRAINT votes_value_check CHECK (value IN (-1, 1));
+
+-- Racing requests could record the same voter twice; keep the first vote
+DELETE FROM votes v
+USING votes earlier
+WHERE v.snippet_id = earlier.snippet_id
+  AND v.id > earlier.id
+  AND (
+    (v.user_id IS NOT NULL AND v.user_id = earlier.user_id) OR
+    (v.user_id IS NULL AND earlier.user_id IS NULL AND v.ip_address = earlier.ip_address)
+  );
+
+-- One vote per user, or per IP address for anonymous voters
+CREATE UNIQUE INDEX IF NOT EXISTS votes_snippet_id_user_id_key
+  ON votes(snippet_id, user_id) WHERE user_id IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS votes_snippet_id_ip_address_key
+  ON votes(snippet_id, ip_address) WHERE user_id IS NULL;
+
+-- Bring the denormalised counters back in line with the votes
+UPDATE snippets s
+SET votes = COALESCE((SELECT SUM(v.value) FROM votes v WHERE v.snippet_id = s.id), 0)
+WHERE s.votes <> COALESCE((SELECT SUM(v.value) FROM votes v WHERE v.snippet_id = s.id), 0);
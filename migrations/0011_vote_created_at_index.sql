@@ -0,0 +1,2 @@
+-- Trending scores and windowed leaderboards sum a snippet's recent votes
+CREATE INDEX IF NOT EXISTS votes_snippet_id_created_at_idx ON votes(snippet_id, created_at);
@@ -0,0 +1,10 @@
+-- Replies point at the comment they answer; top-level comments have no parent
+ALTER TABLE comments ADD COLUMN IF NOT EXISTS parent_id INTEGER REFERENCES comments(id) ON DELETE CASCADE;
+-- Set when the author edits a comment
+ALTER TABLE comments ADD COLUMN IF NOT EXISTS edited_at TIMESTAMP;
+-- Deleted comments keep their row so replies stay in their thread
+ALTER TABLE comments ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP;
+ALTER TABLE comments ADD COLUMN IF NOT EXISTS deleted_by INTEGER REFERENCES users(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS comments_snippet_id_idx ON comments(snippet_id, created_at);
+CREATE INDEX IF NOT EXISTS comments_parent_id_idx ON comments(parent_id);
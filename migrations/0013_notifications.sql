@@ -0,0 +1,15 @@
+CREATE TABLE IF NOT EXISTS notifications (
+  id SERIAL PRIMARY KEY,
+  -- Who the notification is for
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  type VARCHAR(20) NOT NULL CHECK (type IN ('mention', 'comment', 'reply', 'vote')),
+  -- Who caused it; null for anonymous voters
+  actor_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  snippet_id INTEGER NOT NULL REFERENCES snippets(id) ON DELETE CASCADE,
+  comment_id INTEGER REFERENCES comments(id) ON DELETE CASCADE,
+  -- Unread vote notifications for a snippet are merged; this counts the votes
+  count INTEGER NOT NULL DEFAULT 1,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  read_at TIMESTAMP
+);
+CREATE INDEX IF NOT EXISTS notifications_user_id_idx ON notifications(user_id, created_at);
@@ -0,0 +1,20 @@
+-- Digest emails are opt-in; users without a row get none
+CREATE TABLE IF NOT EXISTS email_preferences (
+  user_id INTEGER PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+  digest_frequency VARCHAR(10) NOT NULL DEFAULT 'off' CHECK (digest_frequency IN ('off', 'daily', 'weekly')),
+  include_comments BOOLEAN NOT NULL DEFAULT TRUE,
+  include_votes BOOLEAN NOT NULL DEFAULT TRUE,
+  include_followed_categories BOOLEAN NOT NULL DEFAULT TRUE,
+  -- Lets the unsubscribe link in each digest work without logging in
+  unsubscribe_token VARCHAR(64) NOT NULL UNIQUE,
+  last_digest_at TIMESTAMP,
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS category_follows (
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  category_id INTEGER NOT NULL REFERENCES categories(id) ON DELETE CASCADE,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (user_id, category_id)
+);
+CREATE INDEX IF NOT EXISTS category_follows_category_id_idx ON category_follows(category_id);
@@ -0,0 +1,9 @@
+-- Users following other authors; categories are followed through category_follows
+CREATE TABLE IF NOT EXISTS author_follows (
+  follower_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  author_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (follower_id, author_id),
+  CHECK (follower_id <> author_id)
+);
+CREATE INDEX IF NOT EXISTS author_follows_author_id_idx ON author_follows(author_id);
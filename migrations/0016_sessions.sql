@@ -0,0 +1,14 @@
+-- Login sessions, replacing the in-memory store so they survive restarts
+-- and can be shared between instances
+CREATE TABLE IF NOT EXISTS sessions (
+  sid VARCHAR(255) PRIMARY KEY,
+  sess JSONB NOT NULL,
+  expire TIMESTAMP NOT NULL,
+  -- The logged-in user, copied out of sess so their sessions can be listed and revoked
+  user_id INTEGER REFERENCES users(id) ON DELETE CASCADE,
+  user_agent TEXT,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  last_seen_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+CREATE INDEX IF NOT EXISTS sessions_expire_idx ON sessions(expire);
+CREATE INDEX IF NOT EXISTS sessions_user_id_idx ON sessions(user_id);
@@ -0,0 +1,14 @@
+-- History of backup runs, scheduled or manual, shown on the backups page
+CREATE TABLE IF NOT EXISTS backup_jobs (
+  id SERIAL PRIMARY KEY,
+  trigger VARCHAR(20) NOT NULL CHECK (trigger IN ('scheduled', 'manual')),
+  status VARCHAR(20) NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'succeeded', 'failed')),
+  filename TEXT,
+  size INTEGER,
+  -- What happened at each storage target: stored or not, and what retention removed
+  targets JSONB NOT NULL DEFAULT '[]',
+  error TEXT,
+  started_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  finished_at TIMESTAMP
+);
+CREATE INDEX IF NOT EXISTS backup_jobs_started_at_idx ON backup_jobs(started_at);
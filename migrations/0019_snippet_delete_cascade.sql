@@ -0,0 +1,24 @@
+-- Deleting a snippet deletes its votes and comments, so moderators can
+-- remove snippets that have any. The foreign keys were created without a
+-- delete rule, under whatever name the database gave them.
+DO $$
+DECLARE
+  fk RECORD;
+BEGIN
+  FOR fk IN
+    SELECT c.conrelid::regclass AS table_name, c.conname
+    FROM pg_constraint c
+    JOIN pg_attribute a ON a.attrelid = c.conrelid AND a.attnum = ANY (c.conkey)
+    WHERE c.contype = 'f'
+      AND c.confrelid = 'snippets'::regclass
+      AND c.conrelid IN ('votes'::regclass, 'comments'::regclass)
+      AND a.attname = 'snippet_id'
+  LOOP
+    EXECUTE format('ALTER TABLE %s DROP CONSTRAINT %I', fk.table_name, fk.conname);
+  END LOOP;
+END $$;
+
+ALTER TABLE votes ADD CONSTRAINT votes_snippet_id_snippets_id_fk
+  FOREIGN KEY (snippet_id) REFERENCES snippets(id) ON DELETE CASCADE;
+ALTER TABLE comments ADD CONSTRAINT comments_snippet_id_snippets_id_fk
+  FOREIGN KEY (snippet_id) REFERENCES snippets(id) ON DELETE CASCADE;
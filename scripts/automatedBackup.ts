@@ -1,71 +1,35 @@
-import { createBackup } from './dbBackup';
-import fs from 'fs/promises';
-import path from 'path';
-import { fileURLToPath } from 'url';
-import { dirname } from 'path';
-
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = dirname(__filename);
-const backupDir = path.join(__dirname, '../backups');
-
-// Configuration
-const MAX_BACKUPS = 10; // Keep last 10 backups
-const BACKUP_INTERVAL = 14400000; // 4 hours in milliseconds
-
-async function cleanOldBackups() {
-  try {
-    const files = await fs.readdir(backupDir);
-    const backupFiles = files
-      .filter(file => file.startsWith('backup-') && file.endsWith('.sql'))
-      .sort()
-      .reverse(); // Most recent first
-
-    // Keep only the most recent MAX_BACKUPS backups
-    const filesToDelete = backupFiles.slice(MAX_BACKUPS);
-
-    for (const file of filesToDelete) {
-      const filePath = path.join(backupDir, file);
-      await fs.unlink(filePath);
-      console.log(`Deleted old backup: ${file}`);
-    }
-  } catch (error) {
-    console.error('Error cleaning old backups:', error);
-  }
+import { backupScheduleFromEnv, scheduleBackups } from './backupSchedule';
+import { backupTargetsFromEnv } from './backupTargets';
+
+/**
+ * Backup service: makes scheduled backups until stopped. The schedule,
+ * retention and storage targets come from the environment; see
+ * backupSchedule.ts and backupTargets.ts.
+ */
+
+async function main() {
+  // Check the configuration up front rather than at the first run
+  const schedule = backupScheduleFromEnv();
+  const targets = backupTargetsFromEnv().map(target => target.name);
+
+  const stop = await scheduleBackups(schedule);
+
+  const shutdown = () => {
+    console.log('Backup service shutting down...');
+    stop();
+    process.exit(0);
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+
+  const { hourly, daily, weekly } = schedule.retention;
+  console.log(
+    `Automated backup service started. Schedule: "${schedule.expression}", ` +
+    `targets: ${targets.join(', ')}, keeping ${hourly} hourly, ${daily} daily and ${weekly} weekly backup(s)`
+  );
 }
 
-async function runBackup() {
-  try {
-    console.log('\n=== Starting scheduled backup ===');
-    console.log(new Date().toISOString());
-
-    // Create new backup
-    const backupPath = await createBackup();
-    console.log(`Backup created at: ${backupPath}`);
-
-    // Clean old backups
-    await cleanOldBackups();
-
-    console.log('=== Backup process completed ===\n');
-  } catch (error) {
-    console.error('Backup process failed:', error);
-  }
-}
-
-// Run backup immediately on start
-runBackup();
-
-// Schedule regular backups
-setInterval(runBackup, BACKUP_INTERVAL);
-
-// Handle graceful shutdown
-process.on('SIGINT', () => {
-  console.log('Backup service shutting down...');
-  process.exit(0);
+main().catch((error) => {
+  console.error('Backup service failed to start:', error);
+  process.exit(1);
 });
-
-process.on('SIGTERM', () => {
-  console.log('Backup service shutting down...');
-  process.exit(0);
-});
-
-console.log(`Automated backup service started. Backing up every ${BACKUP_INTERVAL / 3600000} hour(s)`);
\ No newline at end of file
@@ -0,0 +1,277 @@
+import { describe, it, expect, vi } from "vitest";
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { crc32, deflateRawSync } from "zlib";
+
+// Small limits, so oversized archives don't take megabytes of test data
+vi.hoisted(() => {
+  process.env.BACKUP_MAX_SIZE_MB = "1";
+  process.env.BACKUP_MAX_EXTRACTED_MB = "2";
+});
+
+// importBackup only reads archives; it never reaches the database
+vi.mock("../db", () => ({ db: {} }));
+
+import {
+  BackupError,
+  MAX_ARCHIVE_ENTRIES,
+  MAX_BACKUP_SIZE,
+  backupDir,
+  backupFilePath,
+  readZipEntries,
+  withExtractedBackup,
+} from "./backupArchive";
+import { importBackup } from "./dbBackup";
+
+interface TestEntry {
+  name: string;
+  data: Buffer | string;
+  deflate?: boolean;
+  // Override what the headers declare
+  crc?: number;
+  size?: number;
+  flags?: number;
+}
+
+interface TestEnd {
+  disk?: number;
+  entriesOnDisk?: number;
+  entryCount?: number;
+  directoryOffset?: number;
+}
+
+/**
+ * Build a zip archive byte by byte, so headers can say things a real zip
+ * tool wouldn't
+ */
+function buildZip(entries: TestEntry[], end: TestEnd = {}): Buffer {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const data = Buffer.from(entry.data);
+    const stored = entry.deflate ? deflateRawSync(data) : data;
+    const name = Buffer.from(entry.name, "latin1");
+    const crc = entry.crc ?? crc32(data);
+    const size = entry.size ?? data.length;
+    const method = entry.deflate ? 8 : 0;
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4);
+    local.writeUInt16LE(entry.flags ?? 0, 6);
+    local.writeUInt16LE(method, 8);
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(stored.length, 18);
+    local.writeUInt32LE(size, 22);
+    local.writeUInt16LE(name.length, 26);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(20, 4);
+    central.writeUInt16LE(20, 6);
+    central.writeUInt16LE(entry.flags ?? 0, 8);
+    central.writeUInt16LE(method, 10);
+    central.writeUInt32LE(crc, 16);
+    central.writeUInt32LE(stored.length, 20);
+    central.writeUInt32LE(size, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(offset, 42);
+
+    locals.push(local, name, stored);
+    centrals.push(central, name);
+    offset += local.length + name.length + stored.length;
+  }
+
+  const directory = Buffer.concat(centrals);
+  const record = Buffer.alloc(22);
+  record.writeUInt32LE(0x06054b50, 0);
+  record.writeUInt16LE(end.disk ?? 0, 4);
+  record.writeUInt16LE(end.entriesOnDisk ?? end.entryCount ?? entries.length, 8);
+  record.writeUInt16LE(end.entryCount ?? entries.length, 10);
+  record.writeUInt32LE(directory.length, 12);
+  record.writeUInt32LE(end.directoryOffset ?? offset, 16);
+
+  return Buffer.concat([...locals, directory, record]);
+}
+
+const manifest = JSON.stringify({ format: "fabsnippets-backup", formatVersion: 2, tables: [] });
+
+function expectRejected(archive: Buffer, message: RegExp) {
+  expect(() => readZipEntries(archive)).toThrow(BackupError);
+  expect(() => readZipEntries(archive)).toThrow(message);
+}
+
+describe("readZipEntries", () => {
+  it("reads stored and deflated entries", () => {
+    const entries = readZipEntries(buildZip([
+      { name: "manifest.json", data: manifest },
+      { name: "snippets.jsonl", data: '{"id":1}\n'.repeat(100), deflate: true },
+      { name: "votes.jsonl", data: "" },
+    ]));
+    expect(entries.map(entry => entry.name)).toEqual(["manifest.json", "snippets.jsonl", "votes.jsonl"]);
+    expect(entries[1].data.toString()).toBe('{"id":1}\n'.repeat(100));
+    expect(entries[2].data.length).toBe(0);
+  });
+
+  it.each([
+    ["../manifest.json"],
+    ["../../etc/passwd"],
+    ["/etc/passwd"],
+    ["C:\\Windows\\win.ini"],
+    ["nested/manifest.json"],
+    ["..\\manifest.json"],
+  ])("rejects the path %s", (name) => {
+    expectRejected(buildZip([{ name, data: "x" }]), /unsafe file name/);
+  });
+
+  it.each([[".hidden"], [".."], ["."]])("rejects the hidden entry %s", (name) => {
+    expectRejected(buildZip([{ name, data: "x" }]), /unsafe file name/);
+  });
+
+  it("rejects duplicate entries", () => {
+    expectRejected(buildZip([
+      { name: "manifest.json", data: manifest },
+      { name: "manifest.json", data: "{}" },
+    ]), /duplicate file "manifest.json"/);
+  });
+
+  it("rejects encrypted entries", () => {
+    expectRejected(buildZip([{ name: "manifest.json", data: manifest, flags: 1 }]), /encrypted/);
+  });
+
+  it("rejects the ZIP64 markers", () => {
+    const entries = [{ name: "manifest.json", data: manifest }];
+    expectRejected(buildZip(entries, { entryCount: 0xffff }), /ZIP64/);
+    expectRejected(buildZip(entries, { directoryOffset: 0xffffffff }), /ZIP64/);
+  });
+
+  it("rejects multi-part archives", () => {
+    const entries = [{ name: "manifest.json", data: manifest }];
+    expectRejected(buildZip(entries, { disk: 1 }), /multi-part/);
+    expectRejected(buildZip(entries, { entriesOnDisk: 0 }), /multi-part/);
+  });
+
+  it("rejects a CRC mismatch", () => {
+    const data = '{"id":1}\n';
+    expectRejected(buildZip([{ name: "snippets.jsonl", data, crc: (crc32(data) ^ 1) >>> 0 }]), /"snippets.jsonl" is corrupt/);
+    expectRejected(buildZip([{ name: "snippets.jsonl", data, crc: (crc32(data) ^ 1) >>> 0, deflate: true }]), /is corrupt/);
+  });
+
+  it("rejects a zip bomb that inflates past its declared size", () => {
+    // 64 MB of zeros deflates to about 64 KB
+    const bomb = Buffer.alloc(64 * 1024 * 1024);
+    expectRejected(
+      buildZip([{ name: "snippets.jsonl", data: bomb, deflate: true, size: 1024, crc: 0 }]),
+      /could not be decompressed/
+    );
+  });
+
+  it("rejects stored data that doesn't match its declared size", () => {
+    expectRejected(buildZip([{ name: "snippets.jsonl", data: "abcdef", size: 3 }]), /is corrupt/);
+  });
+
+  it("rejects archives that declare more than the extracted size limit", () => {
+    expectRejected(
+      buildZip([{ name: "snippets.jsonl", data: "x", size: 3 * 1024 * 1024 }]),
+      /more than 2 MB once extracted/
+    );
+  });
+
+  it("rejects archives with more than MAX_ARCHIVE_ENTRIES entries", () => {
+    const entries = Array.from({ length: MAX_ARCHIVE_ENTRIES + 1 }, (_, i) => ({ name: `t${i}.jsonl`, data: "" }));
+    expectRejected(buildZip(entries), new RegExp(`more than ${MAX_ARCHIVE_ENTRIES} files`));
+    expect(readZipEntries(buildZip(entries.slice(0, MAX_ARCHIVE_ENTRIES)))).toHaveLength(MAX_ARCHIVE_ENTRIES);
+  });
+
+  it("rejects archives over the size limit", () => {
+    const archive = buildZip([{ name: "snippets.jsonl", data: Buffer.alloc(MAX_BACKUP_SIZE), deflate: true }]);
+    expect(archive.length).toBeLessThan(MAX_BACKUP_SIZE);
+    expectRejected(Buffer.concat([Buffer.alloc(MAX_BACKUP_SIZE), archive]), /larger than 1 MB/);
+  });
+
+  it("rejects files that aren't zips or are cut short", () => {
+    expectRejected(Buffer.from("not a zip file at all, just some text"), /not a zip file/);
+    const archive = buildZip([{ name: "manifest.json", data: manifest }]);
+    expectRejected(archive.subarray(0, archive.length - 30), /not a zip file/);
+    expectRejected(buildZip([{ name: "manifest.json", data: manifest }], { directoryOffset: 5 }), /corrupt central directory/);
+  });
+});
+
+describe("withExtractedBackup", () => {
+  it("extracts into a temporary directory and removes it afterwards", async () => {
+    const zipPath = path.join(await fs.mkdtemp(path.join(os.tmpdir(), "backup-test-")), "backup-test.zip");
+    await fs.writeFile(zipPath, buildZip([{ name: "manifest.json", data: manifest }]));
+
+    let extractedTo = "";
+    const contents = await withExtractedBackup(zipPath, async (dir) => {
+      extractedTo = dir;
+      expect(await fs.readdir(dir)).toEqual(["manifest.json"]);
+      return fs.readFile(path.join(dir, "manifest.json"), "utf8");
+    });
+
+    expect(contents).toBe(manifest);
+    expect(path.dirname(extractedTo)).toBe(os.tmpdir());
+    await expect(fs.access(extractedTo)).rejects.toThrow();
+    await fs.rm(path.dirname(zipPath), { recursive: true });
+  });
+
+  it("writes nothing for a rejected archive", async () => {
+    const zipPath = path.join(await fs.mkdtemp(path.join(os.tmpdir(), "backup-test-")), "backup-test.zip");
+    await fs.writeFile(zipPath, buildZip([{ name: "../escaped.json", data: "x" }]));
+
+    const fn = vi.fn();
+    await expect(withExtractedBackup(zipPath, fn)).rejects.toThrow(BackupError);
+    expect(fn).not.toHaveBeenCalled();
+    await expect(fs.access(path.join(path.dirname(zipPath), "..", "escaped.json"))).rejects.toThrow();
+    await fs.rm(path.dirname(zipPath), { recursive: true });
+  });
+});
+
+describe("importBackup", () => {
+  it("rejects an oversized upload", async () => {
+    const upload = Buffer.concat([Buffer.alloc(MAX_BACKUP_SIZE), buildZip([{ name: "manifest.json", data: manifest }])]);
+    await expect(importBackup(upload)).rejects.toThrow(/larger than 1 MB/);
+  });
+
+  it.each([
+    ["a path outside the archive", [{ name: "../manifest.json", data: manifest }], /unsafe file name/],
+    ["an absolute path", [{ name: "/tmp/manifest.json", data: manifest }], /unsafe file name/],
+    ["a hidden entry", [{ name: ".manifest.json", data: manifest }], /unsafe file name/],
+    ["duplicate entries", [{ name: "manifest.json", data: manifest }, { name: "manifest.json", data: manifest }], /duplicate file/],
+  ])("rejects an archive with %s", async (_, entries, message) => {
+    const before = await fs.readdir(backupDir).catch(() => []);
+    await expect(importBackup(buildZip(entries))).rejects.toThrow(BackupError);
+    await expect(importBackup(buildZip(entries))).rejects.toThrow(message);
+    expect(await fs.readdir(backupDir).catch(() => [])).toEqual(before);
+  });
+
+  it("rejects a zip that isn't a backup", async () => {
+    await expect(importBackup(buildZip([{ name: "notes.txt", data: "hello" }]))).rejects.toThrow(BackupError);
+  });
+});
+
+describe("backupFilePath", () => {
+  it.each([
+    ["..%2F"],
+    ["..%2Fbackup-x.zip"],
+    ["../x.zip"],
+    ["backup-a/../b.zip"],
+    ["backup-../../etc.zip"],
+    ["backup-x.zip/.."],
+    ["backup-.zip"],
+    ["backup-x.zip\0.txt"],
+    ["/backups/backup-x.zip"],
+    [""],
+  ])("rejects %j", (filename) => {
+    expect(() => backupFilePath(filename)).toThrow(BackupError);
+  });
+
+  it("accepts backup file names in the backups directory", () => {
+    for (const filename of ["backup-2026-10-19T10-00-00-000Z.zip", "backup-2026-10-19T10-00-00-000Z-uploaded.zip"]) {
+      expect(backupFilePath(filename)).toBe(path.join(backupDir, filename));
+    }
+  });
+});
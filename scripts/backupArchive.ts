@@ -0,0 +1,216 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { dirname } from 'path';
+import { inflateRawSync } from 'zlib';
+
+/**
+ * Backup Archives
+ *
+ * Backups are zip files in the backups directory, made by createBackup or
+ * uploaded by an admin. Their names come from URLs and their contents may
+ * come from anywhere, so both are checked before use:
+ *
+ * - File names must match BACKUP_FILENAME_PATTERN (`backup-` followed by
+ *   letters, digits and dashes, then `.zip`), so no name can reach outside
+ *   the backups directory.
+ * - Archives are read in-process, not by a shell command. Only flat,
+ *   unencrypted, stored or deflated entries with plain file names are
+ *   accepted, and every entry's size and CRC-32 are checked as it is
+ *   inflated, with limits on the archive size, entry count and total
+ *   extracted size against zip bombs.
+ * - Each extraction gets its own temporary directory, removed afterwards,
+ *   so concurrent restores can't see each other's files.
+ */
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+export const backupDir = path.join(__dirname, '../backups');
+
+export const BACKUP_FILENAME_PATTERN = /^backup-[A-Za-z0-9-]+\.zip$/;
+
+// Largest archive that can be uploaded or restored
+export const MAX_BACKUP_SIZE = Number(process.env.BACKUP_MAX_SIZE_MB || 100) * 1024 * 1024;
+
+// Largest total size of an archive's files once extracted
+export const MAX_EXTRACTED_SIZE = Number(process.env.BACKUP_MAX_EXTRACTED_MB || 1024) * 1024 * 1024;
+
+// A backup has a manifest and one file per table
+export const MAX_ARCHIVE_ENTRIES = 200;
+
+// Names of files inside an archive: no directories, no hidden files
+const ENTRY_NAME_PATTERN = /^[A-Za-z0-9_-][A-Za-z0-9_.-]*$/;
+
+/**
+ * A backup archive that can't be restored: malformed, corrupt, or made by
+ * a newer version
+ */
+export class BackupError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BackupError";
+  }
+}
+
+export function isValidBackupFilename(filename: string) {
+  return BACKUP_FILENAME_PATTERN.test(filename);
+}
+
+/**
+ * The path of a backup in the backups directory
+ * @throws BackupError if the name isn't a valid backup file name
+ */
+export function backupFilePath(filename: string) {
+  if (!isValidBackupFilename(filename)) {
+    throw new BackupError('Invalid backup file name');
+  }
+  return path.join(backupDir, filename);
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+function crc32(data: Buffer) {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+export interface ZipEntry {
+  name: string;
+  data: Buffer;
+}
+
+// Zip record signatures and the fixed sizes of their headers
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+const END_RECORD_SIZE = 22;
+const CENTRAL_HEADER_SIZE = 46;
+const LOCAL_HEADER_SIZE = 30;
+
+const STORED = 0;
+const DEFLATED = 8;
+
+/**
+ * Read every file in a zip archive held in memory
+ * @throws BackupError for anything that isn't a well-formed archive
+ *   within the limits
+ */
+export function readZipEntries(archive: Buffer): ZipEntry[] {
+  const invalid = (reason: string) => new BackupError(`Invalid backup archive: ${reason}`);
+
+  if (archive.length > MAX_BACKUP_SIZE) {
+    throw invalid(`larger than ${MAX_BACKUP_SIZE / 1024 / 1024} MB`);
+  }
+
+  // The end record is last, followed only by a comment of up to 64 KB
+  let end = -1;
+  for (let offset = archive.length - END_RECORD_SIZE; offset >= Math.max(0, archive.length - END_RECORD_SIZE - 0xffff); offset--) {
+    if (archive.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY) {
+      end = offset;
+      break;
+    }
+  }
+  if (end === -1) throw invalid('not a zip file');
+
+  const entryCount = archive.readUInt16LE(end + 10);
+  const directorySize = archive.readUInt32LE(end + 12);
+  const directoryOffset = archive.readUInt32LE(end + 16);
+  if (archive.readUInt16LE(end + 4) !== 0 || archive.readUInt16LE(end + 8) !== entryCount) {
+    throw invalid('multi-part archives are not supported');
+  }
+  if (entryCount === 0xffff || directoryOffset === 0xffffffff) {
+    throw invalid('ZIP64 archives are not supported');
+  }
+  if (entryCount > MAX_ARCHIVE_ENTRIES) throw invalid(`more than ${MAX_ARCHIVE_ENTRIES} files`);
+  if (directoryOffset + directorySize > end) throw invalid('central directory out of bounds');
+
+  const entries: ZipEntry[] = [];
+  let extractedSize = 0;
+  let offset = directoryOffset;
+  for (let i = 0; i < entryCount; i++) {
+    if (offset + CENTRAL_HEADER_SIZE > end || archive.readUInt32LE(offset) !== CENTRAL_DIRECTORY_HEADER) {
+      throw invalid('corrupt central directory');
+    }
+    const flags = archive.readUInt16LE(offset + 8);
+    const method = archive.readUInt16LE(offset + 10);
+    const crc = archive.readUInt32LE(offset + 16);
+    const compressedSize = archive.readUInt32LE(offset + 20);
+    const size = archive.readUInt32LE(offset + 24);
+    const nameLength = archive.readUInt16LE(offset + 28);
+    const extraLength = archive.readUInt16LE(offset + 30);
+    const commentLength = archive.readUInt16LE(offset + 32);
+    const localOffset = archive.readUInt32LE(offset + 42);
+    const name = archive.toString('latin1', offset + CENTRAL_HEADER_SIZE, offset + CENTRAL_HEADER_SIZE + nameLength);
+    offset += CENTRAL_HEADER_SIZE + nameLength + extraLength + commentLength;
+
+    if (!ENTRY_NAME_PATTERN.test(name)) throw invalid(`unsafe file name "${name}"`);
+    if (entries.some(entry => entry.name === name)) throw invalid(`duplicate file "${name}"`);
+    if (flags & 1) throw invalid(`"${name}" is encrypted`);
+    if (method !== STORED && method !== DEFLATED) throw invalid(`"${name}" uses an unsupported compression method`);
+
+    extractedSize += size;
+    if (extractedSize > MAX_EXTRACTED_SIZE) {
+      throw invalid(`more than ${MAX_EXTRACTED_SIZE / 1024 / 1024} MB once extracted`);
+    }
+
+    if (localOffset + LOCAL_HEADER_SIZE > directoryOffset || archive.readUInt32LE(localOffset) !== LOCAL_FILE_HEADER) {
+      throw invalid(`corrupt header for "${name}"`);
+    }
+    const dataStart = localOffset + LOCAL_HEADER_SIZE
+      + archive.readUInt16LE(localOffset + 26) + archive.readUInt16LE(localOffset + 28);
+    if (dataStart + compressedSize > directoryOffset) throw invalid(`"${name}" is out of bounds`);
+
+    const compressed = archive.subarray(dataStart, dataStart + compressedSize);
+    let data: Buffer;
+    try {
+      // Inflating stops past the declared size, so a bomb can't fill memory
+      data = method === STORED ? Buffer.from(compressed) : inflateRawSync(compressed, { maxOutputLength: Math.max(size, 1) });
+    } catch {
+      throw invalid(`"${name}" could not be decompressed`);
+    }
+    if (data.length !== size || crc32(data) !== crc) throw invalid(`"${name}" is corrupt`);
+
+    entries.push({ name, data });
+  }
+  return entries;
+}
+
+/**
+ * Extract a backup archive into a new temporary directory, run `fn` on the
+ * directory, then remove it
+ * @param zipPath Path to the archive
+ */
+export async function withExtractedBackup<T>(zipPath: string, fn: (dir: string) => Promise<T>): Promise<T> {
+  const stats = await fs.stat(zipPath);
+  if (stats.size > MAX_BACKUP_SIZE) {
+    throw new BackupError(`Invalid backup archive: larger than ${MAX_BACKUP_SIZE / 1024 / 1024} MB`);
+  }
+  const entries = readZipEntries(await fs.readFile(zipPath));
+
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'fabsnippets-restore-'));
+  try {
+    for (const entry of entries) {
+      // Names are plain file names (see ENTRY_NAME_PATTERN); 'wx' refuses to
+      // follow anything already there
+      await fs.writeFile(path.join(dir, entry.name), entry.data, { flag: 'wx' });
+    }
+    return await fn(dir);
+  } finally {
+    try {
+      await fs.rm(dir, { recursive: true, force: true });
+    } catch (cleanupError) {
+      console.error('Error cleaning up temporary directory:', cleanupError);
+    }
+  }
+}
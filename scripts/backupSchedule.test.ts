@@ -0,0 +1,152 @@
+import { describe, it, expect, vi } from "vitest";
+
+// Retention and schedule parsing don't touch the database
+vi.mock("../db", () => ({ db: {} }));
+
+import { backupsToRemove, backupScheduleFromEnv, nextBackupRun, type RetentionPolicy } from "./backupSchedule";
+import type { StoredBackup } from "./backupTargets";
+
+const HOUR = 60 * 60 * 1000;
+
+function scheduledBackup(time: Date, label = "scheduled"): StoredBackup {
+  const timestamp = time.toISOString().replace(/[:.]/g, "-");
+  return { filename: `backup-${timestamp}${label ? `-${label}` : ""}.zip`, size: 1, createdAt: new Date(0) };
+}
+
+// Backups every `everyHours` hours from `from` up to but not including `to`
+function backupsBetween(from: string, to: string, everyHours = 1) {
+  const backups: StoredBackup[] = [];
+  for (let time = Date.parse(from); time < Date.parse(to); time += everyHours * HOUR) {
+    backups.push(scheduledBackup(new Date(time)));
+  }
+  return backups;
+}
+
+function keptNames(backups: StoredBackup[], retention: RetentionPolicy) {
+  const removed = new Set(backupsToRemove(backups, retention));
+  return backups.filter(backup => !removed.has(backup)).map(backup => backup.filename).sort();
+}
+
+const names = (times: string[], label = "scheduled") =>
+  times.map(time => scheduledBackup(new Date(time), label).filename).sort();
+
+describe("backupsToRemove", () => {
+  it("keeps the newest backup of each of the last N hours", () => {
+    // Every 20 minutes for 5 hours
+    const backups: StoredBackup[] = [];
+    for (let time = Date.parse("2026-10-19T07:00:00Z"); time < Date.parse("2026-10-19T12:00:00Z"); time += HOUR / 3) {
+      backups.push(scheduledBackup(new Date(time)));
+    }
+
+    expect(keptNames(backups, { hourly: 3, daily: 0, weekly: 0 })).toEqual(names([
+      "2026-10-19T09:40:00Z",
+      "2026-10-19T10:40:00Z",
+      "2026-10-19T11:40:00Z",
+    ]));
+  });
+
+  it("keeps the newest backup of each of the last N days", () => {
+    const backups = backupsBetween("2026-10-10T00:00:00Z", "2026-10-19T06:00:00Z", 6);
+
+    expect(keptNames(backups, { hourly: 0, daily: 3, weekly: 0 })).toEqual(names([
+      "2026-10-17T18:00:00Z",
+      "2026-10-18T18:00:00Z",
+      "2026-10-19T00:00:00Z",
+    ]));
+  });
+
+  it("keeps the newest backup of each of the last N weeks, starting on Monday", () => {
+    // Daily at noon; 2026-10-19 is a Monday
+    const backups = backupsBetween("2026-09-01T12:00:00Z", "2026-10-20T00:00:00Z", 24);
+
+    expect(keptNames(backups, { hourly: 0, daily: 0, weekly: 3 })).toEqual(names([
+      "2026-10-11T12:00:00Z", // Sunday, end of the week of 2026-10-05
+      "2026-10-18T12:00:00Z", // Sunday, end of the week of 2026-10-12
+      "2026-10-19T12:00:00Z", // Monday, the current week
+    ]));
+  });
+
+  it("combines the hourly, daily and weekly buckets", () => {
+    const backups = backupsBetween("2026-09-01T00:00:00Z", "2026-10-19T12:00:00Z");
+    const kept = keptNames(backups, { hourly: 24, daily: 7, weekly: 4 });
+
+    // The last 24 hours reach back to 2026-10-18T12:00, which already holds
+    // the newest backup of 2026-10-18 and of the week of 2026-10-12. Days add
+    // 2026-10-13 to 2026-10-17; weeks add those of 2026-10-05 and 2026-09-28.
+    expect(kept).toHaveLength(24 + 5 + 2);
+    expect(kept).toEqual(expect.arrayContaining(names([
+      "2026-10-18T12:00:00Z",
+      "2026-10-18T23:00:00Z",
+      "2026-10-17T23:00:00Z",
+      "2026-10-13T23:00:00Z",
+      "2026-10-11T23:00:00Z",
+      "2026-10-04T23:00:00Z",
+    ])));
+    expect(kept).not.toContain(names(["2026-10-12T23:00:00Z"])[0]);
+    expect(kept).not.toContain(names(["2026-09-27T23:00:00Z"])[0]);
+  });
+
+  it("counts only periods that have a backup", () => {
+    const backups = names(["2026-10-01T10:00:00Z", "2026-10-05T10:00:00Z", "2026-10-19T10:00:00Z"])
+      .map(filename => ({ filename, size: 1, createdAt: new Date(0) }));
+    expect(backupsToRemove(backups, { hourly: 0, daily: 3, weekly: 0 })).toEqual([]);
+  });
+
+  it("always keeps the newest scheduled backup", () => {
+    const backups = backupsBetween("2026-10-19T00:00:00Z", "2026-10-19T03:00:00Z");
+    expect(keptNames(backups, { hourly: 0, daily: 0, weekly: 0 })).toEqual(names(["2026-10-19T02:00:00Z"]));
+  });
+
+  it("leaves manual and uploaded backups alone", () => {
+    const manual = scheduledBackup(new Date("2026-01-01T00:00:00Z"), "");
+    const uploaded = scheduledBackup(new Date("2026-01-02T00:00:00Z"), "uploaded");
+    const backups = [manual, uploaded, ...backupsBetween("2026-10-19T00:00:00Z", "2026-10-19T03:00:00Z")];
+
+    const removed = backupsToRemove(backups, { hourly: 1, daily: 0, weekly: 0 });
+    expect(removed).toHaveLength(2);
+    expect(removed).not.toContain(manual);
+    expect(removed).not.toContain(uploaded);
+  });
+
+  it("goes by the time in the file name, not when the file was written", () => {
+    const backups = backupsBetween("2026-10-19T00:00:00Z", "2026-10-19T03:00:00Z")
+      .map((backup, i) => ({ ...backup, createdAt: new Date(Date.UTC(2026, 0, 1) - i * HOUR) }));
+    expect(keptNames(backups, { hourly: 1, daily: 0, weekly: 0 })).toEqual(names(["2026-10-19T02:00:00Z"]));
+  });
+});
+
+describe("backupScheduleFromEnv", () => {
+  it("defaults to hourly backups keeping 24 hourly, 7 daily and 4 weekly", () => {
+    expect(backupScheduleFromEnv({})).toEqual({
+      expression: "0 * * * *",
+      retention: { hourly: 24, daily: 7, weekly: 4 },
+    });
+  });
+
+  it("reads the schedule and retention", () => {
+    expect(backupScheduleFromEnv({
+      BACKUP_SCHEDULE: "30 2 * * *",
+      BACKUP_KEEP_HOURLY: "0",
+      BACKUP_KEEP_DAILY: "14",
+      BACKUP_KEEP_WEEKLY: "8",
+    })).toEqual({
+      expression: "30 2 * * *",
+      retention: { hourly: 0, daily: 14, weekly: 8 },
+    });
+  });
+
+  it("rejects invalid settings", () => {
+    expect(() => backupScheduleFromEnv({ BACKUP_SCHEDULE: "every hour" })).toThrow(/Invalid backup schedule/);
+    expect(() => backupScheduleFromEnv({ BACKUP_SCHEDULE: "61 * * * *" })).toThrow(/Invalid backup schedule/);
+    expect(() => backupScheduleFromEnv({ BACKUP_KEEP_DAILY: "-1" })).toThrow(/BACKUP_KEEP_DAILY/);
+    expect(() => backupScheduleFromEnv({ BACKUP_KEEP_WEEKLY: "two" })).toThrow(/BACKUP_KEEP_WEEKLY/);
+  });
+});
+
+describe("nextBackupRun", () => {
+  it("finds the next time the expression comes round", () => {
+    const from = new Date("2026-10-19T10:30:00Z");
+    expect(nextBackupRun("0 * * * *", from)).toEqual(new Date("2026-10-19T11:00:00Z"));
+    expect(nextBackupRun("*/15 * * * *", from)).toEqual(new Date("2026-10-19T10:45:00Z"));
+  });
+});
@@ -0,0 +1,348 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { CronExpressionParser } from 'cron-parser';
+import { db } from '../db';
+import { backupJobs, type BackupJob } from '../db/schema';
+import { desc, eq, notInArray } from 'drizzle-orm';
+import { createBackup } from './dbBackup';
+import { backupTargetsFromEnv, type BackupTarget, type StoredBackup } from './backupTargets';
+
+/**
+ * Scheduled Backups
+ *
+ * The backup service (scripts/automatedBackup.ts) makes a backup whenever
+ * the cron expression in BACKUP_SCHEDULE comes round (default `0 * * * *`,
+ * on the hour, in the server's time zone), stores it at every target in
+ * BACKUP_TARGETS (see backupTargets.ts), and then thins out each target's
+ * older scheduled backups:
+ * - the newest backup of each of the last BACKUP_KEEP_HOURLY hours (default 24)
+ * - the newest of each of the last BACKUP_KEEP_DAILY days (default 7)
+ * - the newest of each of the last BACKUP_KEEP_WEEKLY weeks (default 4)
+ * are kept, and the rest are removed. Hours, days and weeks (starting on
+ * Monday) are counted in UTC, and only count if a backup was made in them.
+ *
+ * Retention only touches scheduled backups (backup-<timestamp>-scheduled.zip);
+ * backups made from the backups page or uploaded there are kept until an
+ * admin deletes them.
+ *
+ * Every run, scheduled or manual, is recorded in backup_jobs with what
+ * happened at each target, so failures show on the backups page. A run
+ * fails if any target couldn't store the backup or apply retention.
+ */
+
+export const BACKUP_TRIGGERS = ['scheduled', 'manual'] as const;
+export type BackupTrigger = typeof BACKUP_TRIGGERS[number];
+
+export interface RetentionPolicy {
+  hourly: number;
+  daily: number;
+  weekly: number;
+}
+
+export interface BackupSchedule {
+  expression: string;
+  retention: RetentionPolicy;
+}
+
+export interface BackupTargetResult {
+  target: string;
+  stored: boolean;
+  // Backups removed by retention
+  removed: string[];
+  error?: string;
+}
+
+const DEFAULT_SCHEDULE = '0 * * * *';
+
+const DEFAULT_RETENTION: RetentionPolicy = {
+  hourly: 24,
+  daily: 7,
+  weekly: 4,
+};
+
+const SCHEDULED_LABEL = 'scheduled';
+
+// Job rows kept; older ones are deleted after each run
+const MAX_JOB_HISTORY = 100;
+
+// Longest setTimeout delay; later runs are waited for in steps
+const MAX_TIMER_DELAY = 24 * 60 * 60 * 1000;
+
+/**
+ * The next time a cron expression comes round
+ * @throws Error if the expression isn't valid
+ */
+export function nextBackupRun(expression: string, from = new Date()): Date {
+  try {
+    return CronExpressionParser.parse(expression, { currentDate: from }).next().toDate();
+  } catch (error) {
+    throw new Error(`Invalid backup schedule "${expression}": ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+function parseKeepCount(name: string, value: string | undefined, fallback: number) {
+  if (value === undefined || value === '') return fallback;
+  const count = Number(value);
+  if (!Number.isInteger(count) || count < 0) {
+    throw new Error(`${name} must be a whole number of backups, got "${value}"`);
+  }
+  return count;
+}
+
+/**
+ * The schedule and retention policy configured by BACKUP_SCHEDULE and the
+ * BACKUP_KEEP_* variables
+ * @throws Error if any of them isn't valid
+ */
+export function backupScheduleFromEnv(env: NodeJS.ProcessEnv = process.env): BackupSchedule {
+  const expression = env.BACKUP_SCHEDULE || DEFAULT_SCHEDULE;
+  nextBackupRun(expression);
+  return {
+    expression,
+    retention: {
+      hourly: parseKeepCount('BACKUP_KEEP_HOURLY', env.BACKUP_KEEP_HOURLY, DEFAULT_RETENTION.hourly),
+      daily: parseKeepCount('BACKUP_KEEP_DAILY', env.BACKUP_KEEP_DAILY, DEFAULT_RETENTION.daily),
+      weekly: parseKeepCount('BACKUP_KEEP_WEEKLY', env.BACKUP_KEEP_WEEKLY, DEFAULT_RETENTION.weekly),
+    },
+  };
+}
+
+// When a backup was made, from the timestamp in its name; copies keep
+// their name but not always their modification time
+function backupTime(backup: StoredBackup): Date {
+  const match = backup.filename.match(/^backup-(\d{4}-\d{2}-\d{2})T(\d{2})-(\d{2})-(\d{2})-(\d{3})Z/);
+  if (!match) return backup.createdAt;
+  const [, date, hours, minutes, seconds, millis] = match;
+  return new Date(`${date}T${hours}:${minutes}:${seconds}.${millis}Z`);
+}
+
+// Monday of the UTC week a time falls in, e.g. "2026-10-19"
+function weekKey(time: Date) {
+  const monday = new Date(time);
+  monday.setUTCDate(time.getUTCDate() - (time.getUTCDay() + 6) % 7);
+  return monday.toISOString().slice(0, 10);
+}
+
+/**
+ * The scheduled backups a retention policy removes. The newest scheduled
+ * backup is always kept.
+ * @param backups Everything stored at a target; only scheduled backups are
+ *   considered
+ */
+export function backupsToRemove(backups: StoredBackup[], retention: RetentionPolicy): StoredBackup[] {
+  const scheduled = backups
+    .filter(backup => backup.filename.endsWith(`-${SCHEDULED_LABEL}.zip`))
+    .map(backup => ({ backup, time: backupTime(backup) }))
+    .sort((a, b) => b.time.getTime() - a.time.getTime());
+
+  const kept = new Set<StoredBackup>(scheduled.slice(0, 1).map(({ backup }) => backup));
+  const periods: [number, (time: Date) => string][] = [
+    [retention.hourly, time => time.toISOString().slice(0, 13)],
+    [retention.daily, time => time.toISOString().slice(0, 10)],
+    [retention.weekly, weekKey],
+  ];
+  for (const [count, periodOf] of periods) {
+    const seen = new Set<string>();
+    for (const { backup, time } of scheduled) {
+      if (seen.size >= count) break;
+      const period = periodOf(time);
+      if (seen.has(period)) continue;
+      seen.add(period);
+      kept.add(backup);
+    }
+  }
+
+  return scheduled.map(({ backup }) => backup).filter(backup => !kept.has(backup));
+}
+
+async function applyRetention(target: BackupTarget, retention: RetentionPolicy): Promise<string[]> {
+  const removed: string[] = [];
+  for (const backup of backupsToRemove(await target.list(), retention)) {
+    await target.remove(backup.filename);
+    removed.push(backup.filename);
+    console.log(`Removed old backup ${backup.filename} from ${target.name}`);
+  }
+  return removed;
+}
+
+const errorMessage = (error: unknown) => error instanceof Error ? error.message : String(error);
+
+/**
+ * Make a backup, store it at every target and record the run in
+ * backup_jobs. Scheduled runs also apply the retention policy; manual runs
+ * always leave the backup in the backups directory, where the backups page
+ * lists it.
+ * @returns The finished job; failures are recorded on it rather than thrown
+ */
+export async function runBackupJob(
+  trigger: BackupTrigger,
+  options: { targets?: BackupTarget[]; retention?: RetentionPolicy } = {}
+): Promise<BackupJob> {
+  const [job] = await db.insert(backupJobs).values({ trigger }).returning();
+  const results: BackupTargetResult[] = [];
+  let filename: string | null = null;
+  let size: number | null = null;
+  let jobError: string | null = null;
+
+  try {
+    const targets = options.targets ?? backupTargetsFromEnv();
+    const retention = trigger === 'scheduled'
+      ? options.retention ?? backupScheduleFromEnv().retention
+      : undefined;
+
+    const backupPath = await createBackup(trigger === 'scheduled' ? SCHEDULED_LABEL : undefined);
+    filename = path.basename(backupPath);
+    size = (await fs.stat(backupPath)).size;
+
+    for (const target of targets) {
+      const result: BackupTargetResult = { target: target.name, stored: false, removed: [] };
+      results.push(result);
+      try {
+        await target.store(backupPath);
+        result.stored = true;
+        if (retention) {
+          result.removed = await applyRetention(target, retention);
+        }
+      } catch (error) {
+        console.error(`Error storing backup at ${target.name}:`, error);
+        result.error = errorMessage(error);
+      }
+    }
+
+    // A scheduled backup was only staged in the backups directory if no
+    // target keeps it there
+    if (trigger === 'scheduled' && !targets.some(target => target.holds(backupPath))) {
+      await fs.unlink(backupPath);
+    }
+
+    const failed = results.filter(result => result.error);
+    if (failed.length > 0) {
+      jobError = failed.map(result => `${result.target}: ${result.error}`).join('; ');
+    }
+  } catch (error) {
+    console.error('Error running backup job:', error);
+    jobError = errorMessage(error);
+  }
+
+  const [finished] = await db
+    .update(backupJobs)
+    .set({
+      status: jobError ? 'failed' : 'succeeded',
+      filename,
+      size,
+      targets: results,
+      error: jobError,
+      finishedAt: new Date(),
+    })
+    .where(eq(backupJobs.id, job.id))
+    .returning();
+
+  await db.delete(backupJobs).where(notInArray(
+    backupJobs.id,
+    db.select({ id: backupJobs.id }).from(backupJobs).orderBy(desc(backupJobs.startedAt)).limit(MAX_JOB_HISTORY)
+  ));
+
+  return finished;
+}
+
+/**
+ * The most recent backup runs, newest first
+ */
+export async function listBackupJobs(limit = 20) {
+  return db
+    .select()
+    .from(backupJobs)
+    .orderBy(desc(backupJobs.startedAt))
+    .limit(limit);
+}
+
+/**
+ * The configured schedule, retention and targets with the next run time,
+ * for the backups page. Configuration errors are reported, not thrown.
+ */
+export function describeBackupSchedule(env: NodeJS.ProcessEnv = process.env) {
+  try {
+    const { expression, retention } = backupScheduleFromEnv(env);
+    return {
+      expression,
+      nextRunAt: nextBackupRun(expression),
+      retention,
+      targets: backupTargetsFromEnv(env).map(target => target.name),
+      error: null,
+    };
+  } catch (error) {
+    return {
+      expression: env.BACKUP_SCHEDULE || DEFAULT_SCHEDULE,
+      nextRunAt: null,
+      retention: null,
+      targets: [],
+      error: errorMessage(error),
+    };
+  }
+}
+
+/**
+ * Mark every job still recorded as running as failed. Called when the
+ * backup service or the server starts: jobs run inside one of them, so a
+ * running job left over from before was cut short by a restart. A job
+ * that is in fact still running in another process overwrites this when
+ * it finishes.
+ * @returns How many jobs were marked
+ */
+export async function failInterruptedBackupJobs(): Promise<number> {
+  const interrupted = await db
+    .update(backupJobs)
+    .set({ status: 'failed', error: 'Interrupted before it finished', finishedAt: new Date() })
+    .where(eq(backupJobs.status, 'running'))
+    .returning({ id: backupJobs.id });
+  return interrupted.length;
+}
+
+/**
+ * Run runBackupJob each time the schedule comes round. Runs never overlap:
+ * the next run is planned when one finishes, so a run that overruns skips
+ * the times it missed.
+ * @returns A function that stops the schedule
+ */
+export async function scheduleBackups(schedule: BackupSchedule = backupScheduleFromEnv()) {
+  await failInterruptedBackupJobs();
+
+  let timer: NodeJS.Timeout | undefined;
+  let stopped = false;
+
+  const waitUntil = (nextRun: Date) => {
+    const delay = nextRun.getTime() - Date.now();
+    timer = delay > MAX_TIMER_DELAY
+      ? setTimeout(() => waitUntil(nextRun), MAX_TIMER_DELAY)
+      : setTimeout(run, Math.max(delay, 0));
+  };
+
+  const planNext = () => {
+    if (stopped) return;
+    const nextRun = nextBackupRun(schedule.expression);
+    console.log(`Next scheduled backup at ${nextRun.toISOString()}`);
+    waitUntil(nextRun);
+  };
+
+  const run = async () => {
+    try {
+      const job = await runBackupJob('scheduled', { retention: schedule.retention });
+      if (job.status === 'failed') {
+        console.error(`Scheduled backup ${job.id} failed: ${job.error}`);
+      } else {
+        console.log(`Scheduled backup ${job.id} stored as ${job.filename}`);
+      }
+    } catch (error) {
+      // Only reached if the job couldn't be recorded, e.g. the database is down
+      console.error('Scheduled backup failed:', error);
+    } finally {
+      planNext();
+    }
+  };
+
+  planNext();
+  return () => {
+    stopped = true;
+    clearTimeout(timer);
+  };
+}
@@ -0,0 +1,179 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from "vitest";
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { randomBytes } from "crypto";
+import {
+  S3Client,
+  CreateBucketCommand,
+  PutObjectCommand,
+  DeleteObjectCommand,
+  ListObjectsV2Command,
+} from "@aws-sdk/client-s3";
+import {
+  LocalBackupTarget,
+  S3BackupTarget,
+  backupTargetsFromEnv,
+  type BackupTarget,
+} from "./backupTargets";
+import { backupDir } from "./backupArchive";
+
+const BACKUP_NAME = "backup-2026-10-19T10-00-00-000Z-scheduled.zip";
+
+// A scratch directory holding one archive to store
+async function makeArchive() {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), "backup-target-test-"));
+  const filePath = path.join(dir, BACKUP_NAME);
+  await fs.writeFile(filePath, randomBytes(2048));
+  return { dir, filePath };
+}
+
+// What every target must do, whatever it stores in
+async function checkStoreListRemove(target: BackupTarget, filePath: string) {
+  await target.store(filePath);
+
+  const [stored] = (await target.list()).filter(backup => backup.filename === BACKUP_NAME);
+  expect(stored).toBeDefined();
+  expect(stored.size).toBe(2048);
+  expect(stored.createdAt).toBeInstanceOf(Date);
+
+  await target.remove(BACKUP_NAME);
+  expect((await target.list()).map(backup => backup.filename)).not.toContain(BACKUP_NAME);
+}
+
+describe("LocalBackupTarget", () => {
+  let source: { dir: string; filePath: string };
+  let targetDir: string;
+
+  beforeEach(async () => {
+    source = await makeArchive();
+    targetDir = await fs.mkdtemp(path.join(os.tmpdir(), "backup-target-dir-"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(source.dir, { recursive: true, force: true });
+    await fs.rm(targetDir, { recursive: true, force: true });
+  });
+
+  it("stores, lists and removes backups", async () => {
+    await checkStoreListRemove(new LocalBackupTarget(targetDir), source.filePath);
+  });
+
+  it("lists only backup archives", async () => {
+    await fs.writeFile(path.join(targetDir, "notes.txt"), "");
+    await fs.writeFile(path.join(targetDir, "backup-old.sql"), "");
+    await fs.writeFile(path.join(targetDir, BACKUP_NAME), "");
+    expect((await new LocalBackupTarget(targetDir).list()).map(backup => backup.filename)).toEqual([BACKUP_NAME]);
+  });
+
+  it("lists nothing for a directory that doesn't exist yet", async () => {
+    expect(await new LocalBackupTarget(path.join(targetDir, "missing")).list()).toEqual([]);
+  });
+
+  it("holds backups made in its own directory, so storing them is a no-op", async () => {
+    const target = new LocalBackupTarget(source.dir);
+    expect(target.holds(source.filePath)).toBe(true);
+    expect(new LocalBackupTarget(targetDir).holds(source.filePath)).toBe(false);
+    await target.store(source.filePath);
+    expect(await fs.readdir(source.dir)).toEqual([BACKUP_NAME]);
+  });
+});
+
+describe("backupTargetsFromEnv", () => {
+  it("defaults to the backups directory", () => {
+    const [target, ...rest] = backupTargetsFromEnv({});
+    expect(rest).toEqual([]);
+    expect(target.name).toBe("local");
+    expect(target.holds(path.join(backupDir, BACKUP_NAME))).toBe(true);
+  });
+
+  it("reads a list of targets", () => {
+    const targets = backupTargetsFromEnv({
+      BACKUP_TARGETS: "local, s3, local",
+      BACKUP_S3_BUCKET: "backups",
+      BACKUP_S3_ENDPOINT: "http://localhost:9000",
+    });
+    expect(targets.map(target => target.name)).toEqual(["local", "s3"]);
+  });
+
+  it("rejects unknown targets and an s3 target without a bucket", () => {
+    expect(() => backupTargetsFromEnv({ BACKUP_TARGETS: "ftp" })).toThrow(/Unknown backup target "ftp"/);
+    expect(() => backupTargetsFromEnv({ BACKUP_TARGETS: "s3" })).toThrow(/BACKUP_S3_BUCKET/);
+  });
+});
+
+/**
+ * Runs against a real S3-compatible service when BACKUP_TEST_S3_ENDPOINT is
+ * set, e.g. a local MinIO:
+ *
+ *   docker run -p 9000:9000 minio/minio server /data
+ *   BACKUP_TEST_S3_ENDPOINT=http://localhost:9000 npm test
+ *
+ * BACKUP_TEST_S3_BUCKET (default `fabsnippets-backup-test`) is created if
+ * needed. Credentials come from BACKUP_TEST_S3_ACCESS_KEY_ID and
+ * BACKUP_TEST_S3_SECRET_ACCESS_KEY (default MinIO's `minioadmin`).
+ */
+const s3Endpoint = process.env.BACKUP_TEST_S3_ENDPOINT;
+
+describe.skipIf(!s3Endpoint)("S3BackupTarget", () => {
+  const bucket = process.env.BACKUP_TEST_S3_BUCKET || "fabsnippets-backup-test";
+  const credentials = {
+    accessKeyId: process.env.BACKUP_TEST_S3_ACCESS_KEY_ID || "minioadmin",
+    secretAccessKey: process.env.BACKUP_TEST_S3_SECRET_ACCESS_KEY || "minioadmin",
+  };
+  // Each run works under its own prefix, so runs don't see each other
+  const prefix = `test-${Date.now()}-${randomBytes(4).toString("hex")}/`;
+  const client = new S3Client({ region: "us-east-1", endpoint: s3Endpoint, forcePathStyle: true, credentials });
+  const target = new S3BackupTarget({ bucket, prefix, endpoint: s3Endpoint, ...credentials });
+  let source: { dir: string; filePath: string };
+
+  beforeAll(async () => {
+    try {
+      await client.send(new CreateBucketCommand({ Bucket: bucket }));
+    } catch (error) {
+      if (!["BucketAlreadyOwnedByYou", "BucketAlreadyExists"].includes((error as Error).name)) throw error;
+    }
+    source = await makeArchive();
+  });
+
+  afterAll(async () => {
+    let left;
+    do {
+      left = await client.send(new ListObjectsV2Command({ Bucket: bucket, Prefix: prefix }));
+      for (const object of left.Contents ?? []) {
+        await client.send(new DeleteObjectCommand({ Bucket: bucket, Key: object.Key }));
+      }
+    } while (left.IsTruncated);
+    await fs.rm(source.dir, { recursive: true, force: true });
+  });
+
+  it("never holds a local file", () => {
+    expect(target.holds(source.filePath)).toBe(false);
+  });
+
+  it("stores, lists and removes backups", async () => {
+    await checkStoreListRemove(target, source.filePath);
+  });
+
+  it("stores under its prefix and lists only backup archives there", async () => {
+    await target.store(source.filePath);
+    await client.send(new PutObjectCommand({ Bucket: bucket, Key: `${prefix}notes.txt`, Body: "" }));
+    await client.send(new PutObjectCommand({ Bucket: bucket, Key: `${prefix}nested/${BACKUP_NAME}`, Body: "" }));
+
+    const keys = (await client.send(new ListObjectsV2Command({ Bucket: bucket, Prefix: prefix }))).Contents?.map(o => o.Key);
+    expect(keys).toContain(`${prefix}${BACKUP_NAME}`);
+    expect((await target.list()).map(backup => backup.filename)).toEqual([BACKUP_NAME]);
+  });
+
+  it("pages through long listings", async () => {
+    const pagedPrefix = `${prefix}paged/`;
+    const paged = new S3BackupTarget({ bucket, prefix: pagedPrefix, endpoint: s3Endpoint, ...credentials });
+    // One more than ListObjectsV2 returns per page
+    await Promise.all(Array.from({ length: 1001 }, (_, i) => client.send(new PutObjectCommand({
+      Bucket: bucket,
+      Key: `${pagedPrefix}backup-${String(i).padStart(4, "0")}.zip`,
+      Body: "",
+    }))));
+    expect(await paged.list()).toHaveLength(1001);
+  }, 60_000);
+});
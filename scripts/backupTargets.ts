@@ -0,0 +1,214 @@
+import fs from 'fs/promises';
+import { createReadStream } from 'fs';
+import path from 'path';
+import {
+  S3Client,
+  PutObjectCommand,
+  ListObjectsV2Command,
+  DeleteObjectCommand,
+} from '@aws-sdk/client-s3';
+import { backupDir, isValidBackupFilename } from './backupArchive';
+
+/**
+ * Backup Storage Targets
+ *
+ * Scheduled backups are made in the backups directory and then stored at
+ * every configured target. A target only needs to store, list and remove
+ * backup archives by file name, so adding another kind of storage means
+ * implementing BackupTarget and adding it to backupTargetsFromEnv.
+ *
+ * Two targets are built in:
+ * - `local`: a directory on this machine, by default the backups directory
+ *   the backups page lists and restores from
+ * - `s3`: a bucket on Amazon S3 or any S3-compatible service such as MinIO
+ *
+ * BACKUP_TARGETS lists the targets to use, comma separated (default
+ * `local`). The local target stores in BACKUP_LOCAL_DIR if set. The s3
+ * target reads:
+ * - BACKUP_S3_BUCKET (required)
+ * - BACKUP_S3_PREFIX: key prefix, e.g. `fabsnippets/` (default none)
+ * - BACKUP_S3_REGION (default `us-east-1`)
+ * - BACKUP_S3_ENDPOINT: for S3-compatible services, e.g. `http://localhost:9000`
+ * - BACKUP_S3_ACCESS_KEY_ID and BACKUP_S3_SECRET_ACCESS_KEY; without them
+ *   the SDK's usual credential chain is used
+ * - BACKUP_S3_FORCE_PATH_STYLE: `true` for services without bucket
+ *   subdomains; the default when an endpoint is set
+ */
+
+export interface StoredBackup {
+  filename: string;
+  size: number;
+  createdAt: Date;
+}
+
+export interface BackupTarget {
+  // Shown in job history, e.g. "local" or "s3"
+  readonly name: string;
+  /**
+   * Whether the target keeps its backups at this path, so storing a backup
+   * made there is a no-op
+   */
+  holds(filePath: string): boolean;
+  // Store the archive at `filePath` under its file name
+  store(filePath: string): Promise<void>;
+  // The backups stored at the target, in any order
+  list(): Promise<StoredBackup[]>;
+  remove(filename: string): Promise<void>;
+}
+
+/**
+ * A directory on this machine
+ */
+export class LocalBackupTarget implements BackupTarget {
+  readonly name = 'local';
+
+  constructor(private readonly dir: string = backupDir) {}
+
+  holds(filePath: string) {
+    return path.resolve(path.dirname(filePath)) === path.resolve(this.dir);
+  }
+
+  async store(filePath: string) {
+    if (this.holds(filePath)) return;
+    await fs.mkdir(this.dir, { recursive: true });
+    await fs.copyFile(filePath, path.join(this.dir, path.basename(filePath)));
+  }
+
+  async list() {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.dir);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+
+    return Promise.all(
+      files.filter(isValidBackupFilename).map(async (filename) => {
+        const stats = await fs.stat(path.join(this.dir, filename));
+        return { filename, size: stats.size, createdAt: stats.mtime };
+      })
+    );
+  }
+
+  async remove(filename: string) {
+    await fs.unlink(path.join(this.dir, filename));
+  }
+}
+
+export interface S3BackupTargetOptions {
+  bucket: string;
+  prefix?: string;
+  region?: string;
+  endpoint?: string;
+  accessKeyId?: string;
+  secretAccessKey?: string;
+  forcePathStyle?: boolean;
+}
+
+/**
+ * A bucket on S3 or an S3-compatible service
+ */
+export class S3BackupTarget implements BackupTarget {
+  readonly name = 's3';
+  private readonly client: S3Client;
+  private readonly bucket: string;
+  private readonly prefix: string;
+
+  constructor(options: S3BackupTargetOptions) {
+    this.bucket = options.bucket;
+    this.prefix = options.prefix ?? '';
+    this.client = new S3Client({
+      region: options.region ?? 'us-east-1',
+      endpoint: options.endpoint,
+      forcePathStyle: options.forcePathStyle ?? Boolean(options.endpoint),
+      credentials: options.accessKeyId && options.secretAccessKey
+        ? { accessKeyId: options.accessKeyId, secretAccessKey: options.secretAccessKey }
+        : undefined,
+    });
+  }
+
+  holds() {
+    return false;
+  }
+
+  async store(filePath: string) {
+    const stats = await fs.stat(filePath);
+    await this.client.send(new PutObjectCommand({
+      Bucket: this.bucket,
+      Key: this.prefix + path.basename(filePath),
+      Body: createReadStream(filePath),
+      ContentLength: stats.size,
+      ContentType: 'application/zip',
+    }));
+  }
+
+  async list() {
+    const backups: StoredBackup[] = [];
+    let continuationToken: string | undefined;
+    do {
+      const page = await this.client.send(new ListObjectsV2Command({
+        Bucket: this.bucket,
+        Prefix: this.prefix,
+        ContinuationToken: continuationToken,
+      }));
+      for (const object of page.Contents ?? []) {
+        const filename = object.Key?.slice(this.prefix.length);
+        // Skip anything else in the bucket, including "subdirectories"
+        if (!filename || !isValidBackupFilename(filename)) continue;
+        backups.push({
+          filename,
+          size: object.Size ?? 0,
+          createdAt: object.LastModified ?? new Date(0),
+        });
+      }
+      continuationToken = page.IsTruncated ? page.NextContinuationToken : undefined;
+    } while (continuationToken);
+    return backups;
+  }
+
+  async remove(filename: string) {
+    await this.client.send(new DeleteObjectCommand({
+      Bucket: this.bucket,
+      Key: this.prefix + filename,
+    }));
+  }
+}
+
+export const BACKUP_TARGET_NAMES = ['local', 's3'] as const;
+
+/**
+ * The storage targets configured by BACKUP_TARGETS and the BACKUP_S3_*
+ * variables
+ * @throws Error if a target is unknown or missing its settings
+ */
+export function backupTargetsFromEnv(env: NodeJS.ProcessEnv = process.env): BackupTarget[] {
+  const names = (env.BACKUP_TARGETS || 'local')
+    .split(',')
+    .map(name => name.trim())
+    .filter((name, index, all) => name && all.indexOf(name) === index);
+
+  return names.map((name): BackupTarget => {
+    switch (name) {
+      case 'local':
+        return new LocalBackupTarget(env.BACKUP_LOCAL_DIR ? path.resolve(env.BACKUP_LOCAL_DIR) : backupDir);
+      case 's3':
+        if (!env.BACKUP_S3_BUCKET) {
+          throw new Error('BACKUP_S3_BUCKET must be set to use the s3 backup target');
+        }
+        return new S3BackupTarget({
+          bucket: env.BACKUP_S3_BUCKET,
+          prefix: env.BACKUP_S3_PREFIX,
+          region: env.BACKUP_S3_REGION,
+          endpoint: env.BACKUP_S3_ENDPOINT,
+          accessKeyId: env.BACKUP_S3_ACCESS_KEY_ID,
+          secretAccessKey: env.BACKUP_S3_SECRET_ACCESS_KEY,
+          forcePathStyle: env.BACKUP_S3_FORCE_PATH_STYLE
+            ? env.BACKUP_S3_FORCE_PATH_STYLE === 'true'
+            : undefined,
+        });
+      default:
+        throw new Error(`Unknown backup target "${name}"; expected one of: ${BACKUP_TARGET_NAMES.join(', ')}`);
+    }
+  });
+}
@@ -0,0 +1,204 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { createWriteStream } from "fs";
+import archiver from "archiver";
+
+// Reading a backup doesn't touch the database; restores run their queries
+// through `execute`, which each test sets up
+const { execute } = vi.hoisted(() => ({ execute: vi.fn() }));
+vi.mock("../db", () => ({
+  db: { transaction: (fn: (tx: { execute: typeof execute }) => unknown) => fn({ execute }) },
+}));
+
+import { readBackup, parseCSV, restoreFromBackup, BackupError } from "./dbBackup";
+
+// How the first backups wrote their CSV files: every value quoted, null as ""
+function objectToCSV(items: Record<string, unknown>[]) {
+  const headers = Object.keys(items[0]);
+  return [
+    headers.join(","),
+    ...items.map(row => headers.map(header => {
+      const value = row[header];
+      if (value === null || value === undefined) return '""';
+      return `"${String(value).replace(/"/g, '""')}"`;
+    }).join(",")),
+  ].join("\n");
+}
+
+const snippet = (id: number, category: string | null, categories: string | null) => ({
+  id,
+  title: `Snippet ${id}`,
+  code: 'Total = SUM(Sales[Amount])\n// "quoted", with commas',
+  category,
+  categories,
+  authorId: 1,
+  createdAt: "2024-01-02T03:04:05.678Z",
+  updatedAt: "2024-01-02T03:04:05.678Z",
+  votes: 2,
+});
+
+let dir: string;
+
+beforeEach(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), "backup-legacy-test-"));
+});
+
+afterEach(async () => {
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+async function writeBackup(files: Record<string, string>) {
+  const zipPath = path.join(dir, "backup-2024-01-02T03-04-05-678Z.zip");
+  const output = createWriteStream(zipPath);
+  const archive = archiver("zip");
+  archive.pipe(output);
+  for (const [name, data] of Object.entries(files)) {
+    archive.append(data, { name });
+  }
+  await archive.finalize();
+  await new Promise<void>((resolve, reject) => {
+    output.on("close", resolve);
+    output.on("error", reject);
+  });
+  return zipPath;
+}
+
+describe("readBackup with a format 1 archive", () => {
+  const rowsOf = (backup: Awaited<ReturnType<typeof readBackup>>, name: string) =>
+    backup.tables.find(table => table.name === name)?.rows ?? [];
+
+  it("turns the categories column of the first backups into category rows", async () => {
+    const backup = await readBackup(await writeBackup({
+      "snippets.csv": objectToCSV([
+        snippet(1, "DAX", '["DAX", "SQL"]'),
+        snippet(2, "PowerQuery", null),
+        snippet(3, null, '["Zebra", " Custom ", "Custom", ""]'),
+        snippet(4, null, null),
+      ]),
+      "votes.csv": objectToCSV([
+        { id: 1, snippetId: 1, ipAddress: "127.0.0.1", createdAt: "2024-01-02T03:04:05.678Z" },
+      ]),
+    }));
+
+    expect(backup.manifest.formatVersion).toBe(1);
+    // Parents first, so snippet categories restore after both
+    const order = backup.tables.map(table => table.name);
+    expect([...order].sort()).toEqual(["categories", "snippet_categories", "snippets", "votes"]);
+    expect(order.indexOf("snippet_categories")).toBeGreaterThan(Math.max(order.indexOf("snippets"), order.indexOf("categories")));
+
+    const categories = rowsOf(backup, "categories");
+    expect(categories.map(category => category.name)).toEqual([
+      "Prompt", "TMDL", "DAX", "SQL", "Python", "PowerQuery", "C#", "Custom", "Zebra",
+    ]);
+    expect(categories.find(category => category.name === "PowerQuery")).toEqual({
+      id: 6, name: "PowerQuery", display_name: "M", language_mode: "powerquery", position: 6,
+    });
+    expect(categories.find(category => category.name === "Custom")).toEqual({
+      id: 8, name: "Custom", display_name: "Custom", language_mode: "plaintext", position: 8,
+    });
+
+    expect(rowsOf(backup, "snippet_categories")).toEqual([
+      { snippet_id: "1", category_id: 3 },
+      { snippet_id: "1", category_id: 4 },
+      { snippet_id: "2", category_id: 6 },
+      { snippet_id: "3", category_id: 9 },
+      { snippet_id: "3", category_id: 8 },
+    ]);
+
+    // The dropped columns don't reach the snippets table
+    const [first] = rowsOf(backup, "snippets");
+    expect(first).not.toHaveProperty("category");
+    expect(first).not.toHaveProperty("categories");
+    expect(first).toMatchObject({ id: "1", author_id: "1", code: 'Total = SUM(Sales[Amount])\n// "quoted", with commas' });
+    expect(rowsOf(backup, "votes")).toEqual([
+      { id: "1", snippet_id: "1", ip_address: "127.0.0.1", created_at: "2024-01-02T03:04:05.678Z" },
+    ]);
+  });
+
+  it("keeps the category tables of later format 1 backups", async () => {
+    // Written after the categories columns were dropped
+    const { category: _category, categories: _categories, ...laterSnippet } = snippet(1, null, null);
+    const backup = await readBackup(await writeBackup({
+      "categories.csv": objectToCSV([
+        { id: 4, name: "PowerQuery", createdAt: "2024-01-02T03:04:05.678Z" },
+        { id: 9, name: "Custom", createdAt: "2024-01-02T03:04:05.678Z" },
+      ]),
+      "snippets.csv": objectToCSV([laterSnippet]),
+      "snippet_categories.csv": objectToCSV([{ snippetId: 1, categoryId: 9 }]),
+    }));
+
+    // Backed up before categories had display names
+    expect(rowsOf(backup, "categories")).toEqual([
+      { id: "4", name: "PowerQuery", created_at: "2024-01-02T03:04:05.678Z", display_name: "M" },
+      { id: "9", name: "Custom", created_at: "2024-01-02T03:04:05.678Z", display_name: "Custom" },
+    ]);
+    expect(rowsOf(backup, "snippet_categories")).toEqual([{ snippet_id: "1", category_id: "9" }]);
+  });
+
+  it("falls back to the category column when the categories value isn't JSON", async () => {
+    const backup = await readBackup(await writeBackup({
+      "snippets.csv": objectToCSV([snippet(1, "SQL", '["DAX"'), snippet(2, null, "[DAX")]),
+    }));
+    expect(rowsOf(backup, "snippet_categories")).toEqual([{ snippet_id: "1", category_id: 4 }]);
+  });
+});
+
+describe("restoreFromBackup with a selection", () => {
+  beforeEach(() => {
+    vi.stubEnv("DATABASE_URL", "postgres://test");
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    execute.mockReset();
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  const restoreSnippet = async () => restoreFromBackup(
+    await writeBackup({ "snippets.csv": objectToCSV([snippet(1, null, null), snippet(2, null, null)]) }),
+    { selection: { snippetIds: [1], userIds: [] } }
+  );
+
+  it("names the row when it clashes with another on a unique column", async () => {
+    execute.mockRejectedValue(Object.assign(new Error("duplicate key value violates unique constraint"), {
+      code: "23505",
+      detail: "Key (title)=(Snippet 1) already exists.",
+    }));
+
+    const restoring = restoreSnippet();
+    await expect(restoring).rejects.toThrow(BackupError);
+    await expect(restoring).rejects.toThrow(
+      "Can't restore the snippets row with id 1: its title Snippet 1 already belongs to another row"
+    );
+  });
+
+  it("falls back to Postgres' description of the clash", async () => {
+    execute.mockRejectedValue(Object.assign(new Error("duplicate key value violates unique constraint"), {
+      code: "23505",
+      detail: "Key (lower(title))=(snippet 1) already exists.",
+    }));
+    await expect(restoreSnippet()).rejects.toThrow(
+      "Can't restore a row into snippets: Key (lower(title))=(snippet 1) already exists."
+    );
+  });
+
+  it("passes other database errors through", async () => {
+    const error = Object.assign(new Error("connection lost"), { code: "08006" });
+    execute.mockRejectedValue(error);
+    await expect(restoreSnippet()).rejects.toBe(error);
+  });
+});
+
+describe("parseCSV", () => {
+  it("reads quoted fields with commas, quotes and newlines", () => {
+    expect(parseCSV('a,b\n"1, 2","say ""hi""\nthere"\r\n"",x')).toEqual([
+      ["a", "b"],
+      ["1, 2", 'say "hi"\nthere'],
+      ["", "x"],
+    ]);
+  });
+});
@@ -1,21 +1,96 @@
-import { exec } from 'child_process';
-import { promisify } from 'util';
 import fs from 'fs/promises';
+import os from 'os';
 import path from 'path';
 import { fileURLToPath } from 'url';
 import { dirname } from 'path';
-import { db } from "../db";
-import { snippets, votes } from "../db/schema";
-import { sql } from "drizzle-orm";
+import { createHash } from 'crypto';
+import { db, type DbExecutor } from "../db";
+import * as schema from "../db/schema";
+import { sql, is, getTableColumns, getTableName, TransactionRollbackError, type SQL } from "drizzle-orm";
+import { PgTable, getTableConfig } from "drizzle-orm/pg-core";
 import archiver from 'archiver';
 import { createWriteStream } from 'fs';
+import { BackupError, backupDir, backupFilePath, withExtractedBackup } from './backupArchive';
+
+export { BackupError };
+
+/**
+ * Database Backups
+ *
+ * A backup is a zip archive holding a manifest.json and one JSON Lines file
+ * per table, with one row per line keyed by column name. Rows are exported
+ * with Postgres' own JSON encoding, so timestamps keep their microseconds
+ * and code keeps its commas, quotes and newlines.
+ *
+ * The manifest records the backup format version, the schema version (the
+ * latest migration applied when the backup was made) and, for each table,
+ * its file, row count and SHA-256 checksum. Tables are listed parents
+ * first, which is the order they're restored in.
+ *
+ * Tables are exported in one read-only REPEATABLE READ transaction, so
+ * the backup is a consistent snapshot even while the app is writing.
+ *
+ * Every table in db/schema.ts is backed up except sessions and
+ * backup_jobs: restoring someone's old login would be a surprise, and a
+ * restore signs everyone out; the history of backup runs should outlive
+ * the restore of one of them.
+ *
+ * Restoring replaces the contents of every table in the backup, inside one
+ * transaction, then moves each serial sequence past the restored ids. If
+ * any row can't be restored the whole restore is rolled back.
+ * Backups made with an older schema restore with defaults for the columns
+ * added since; backups made with a newer schema are refused. Archives from
+ * before the manifest (format 1: CSV files for snippets, categories and
+ * votes only) can still be restored, including the oldest of them, which
+ * kept each snippet's categories in snippets.csv.
+ *
+ * A dry run reports, per table, how many rows a restore would add, change,
+ * remove and fail to restore without changing anything. Individual
+ * snippets and users can also be restored on their own, together with the
+ * rows that belong to them, leaving the rest of the database as it is (see
+ * selectRows).
+ *
+ * Archives are named, unpacked and size-checked by backupArchive.ts.
+ */
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
-const execAsync = promisify(exec);
 
-// Ensure backup directory exists
-const backupDir = path.join(__dirname, '../backups');
+export const BACKUP_FORMAT = 'fabsnippets-backup';
+export const BACKUP_FORMAT_VERSION = 2;
+
+const MANIFEST_FILE = 'manifest.json';
+
+// Tables left out of backups, and left alone by restores
+const EXCLUDED_TABLES = ['sessions', 'backup_jobs'];
+
+// Rows sent to Postgres per INSERT when restoring
+const RESTORE_BATCH_SIZE = 500;
+
+const migrationsDir = path.join(__dirname, '../migrations');
+
+export interface BackupManifestTable {
+  name: string;
+  file: string;
+  rows: number;
+  sha256: string;
+}
+
+export interface BackupManifest {
+  format: typeof BACKUP_FORMAT;
+  formatVersion: number;
+  schemaVersion: string | null;
+  createdAt: string;
+  tables: BackupManifestTable[];
+}
+
+type BackupRow = Record<string, unknown>;
+
+// A backup read into memory: rows keyed by table name, in restore order
+export interface BackupContents {
+  manifest: BackupManifest;
+  tables: { name: string; rows: BackupRow[] }[];
+}
 
 async function ensureBackupDir() {
   try {
@@ -27,28 +102,83 @@ async function ensureBackupDir() {
   }
 }
 
-function objectToCSV(items: any[]) {
-  if (items.length === 0) return '';
+function sha256(data: string | Buffer) {
+  return createHash('sha256').update(data).digest('hex');
+}
 
-  const headers = Object.keys(items[0]);
-  const csvRows = [
-    headers.join(','), // Header row
-    ...items.map(row => 
-      headers.map(fieldName => {
-        const value = row[fieldName];
-        // Handle different types of values
-        if (value === null || value === undefined) return '""';
-        if (typeof value === 'string') return `"${value.replace(/"/g, '""')}"`;
-        if (value instanceof Date) return `"${value.toISOString()}"`;
-        return `"${String(value)}"`;
-      }).join(',')
-    )
-  ];
+/**
+ * The schema version of this build: the name of the latest migration
+ * @returns e.g. "0017_user_roles", or null if the migrations aren't deployed
+ */
+export async function currentSchemaVersion(): Promise<string | null> {
+  try {
+    const files = (await fs.readdir(migrationsDir)).filter(file => file.endsWith('.sql')).sort();
+    return files.length > 0 ? files[files.length - 1].replace(/\.sql$/, '') : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Every table in the schema that gets backed up, parents before the tables
+ * whose foreign keys reference them
+ */
+export function backupTables(): PgTable[] {
+  const tables = (Object.values(schema) as unknown[])
+    .filter((value): value is PgTable => is(value, PgTable))
+    .filter(table => !EXCLUDED_TABLES.includes(getTableName(table)));
 
-  return csvRows.join('\n');
+  const ordered: PgTable[] = [];
+  const visit = (table: PgTable, path: PgTable[]) => {
+    if (ordered.includes(table)) return;
+    if (path.includes(table)) {
+      throw new Error(`Foreign keys form a cycle through ${getTableName(table)}`);
+    }
+    for (const foreignKey of getTableConfig(table).foreignKeys) {
+      const parent = foreignKey.reference().foreignTable;
+      // Self references (e.g. comment replies) are satisfied within one insert
+      if (parent !== table && tables.includes(parent)) {
+        visit(parent, [...path, table]);
+      }
+    }
+    ordered.push(table);
+  };
+  for (const table of tables) {
+    visit(table, []);
+  }
+  return ordered;
 }
 
-export async function createBackup() {
+// The columns that can be written, by database name; generated columns
+// such as snippets.search_vector are left out and rebuilt by Postgres
+function writableColumns(table: PgTable): string[] {
+  return Object.values(getTableColumns(table))
+    .filter(column => !column.generated)
+    .map(column => column.name);
+}
+
+function findTable(name: string): PgTable | undefined {
+  return backupTables().find(table => getTableName(table) === name);
+}
+
+async function exportTable(tx: DbExecutor, table: PgTable): Promise<string> {
+  const columns = sql.join(writableColumns(table).map(name => sql.identifier(name)), sql`, `);
+  const result = await tx.execute(sql`
+    SELECT row_to_json(t) AS row
+    FROM (SELECT ${columns} FROM ${table} ORDER BY 1) t
+  `);
+  return (result.rows as { row: BackupRow }[])
+    .map(({ row }) => JSON.stringify(row) + '\n')
+    .join('');
+}
+
+/**
+ * Back up every table to a new archive in the backups directory
+ * @param label Appended to the file name, e.g. "scheduled" for
+ *   backup-<timestamp>-scheduled.zip
+ * @returns The archive's path
+ */
+export async function createBackup(label?: string) {
   console.log('Starting database backup process...');
 
   if (!process.env.DATABASE_URL) {
@@ -58,35 +188,41 @@ export async function createBackup() {
   await ensureBackupDir();
 
   const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
-  const backupDirPath = path.join(backupDir, `backup-${timestamp}`);
+  // Each backup is assembled in its own directory, so concurrent backups don't mix
+  const backupDirPath = await fs.mkdtemp(path.join(os.tmpdir(), 'fabsnippets-backup-'));
 
   try {
-    await fs.mkdir(backupDirPath, { recursive: true });
     console.log('Created temporary backup directory at:', backupDirPath);
 
     console.log('Fetching data from tables...');
 
-    // Export snippets table
-    const snippetsData = await db.select().from(snippets);
-    console.log(`Retrieved ${snippetsData.length} snippets`);
-    const snippetsCSV = objectToCSV(snippetsData);
-    await fs.writeFile(path.join(backupDirPath, 'snippets.csv'), snippetsCSV);
-    console.log('Wrote snippets.csv');
-
-    // Export votes table with all required columns
-    const votesData = await db.select({
-      id: votes.id,
-      snippetId: votes.snippetId,
-      ipAddress: votes.ipAddress,
-      createdAt: votes.createdAt
-    }).from(votes);
-    console.log(`Retrieved ${votesData.length} votes`);
-    const votesCSV = objectToCSV(votesData);
-    await fs.writeFile(path.join(backupDirPath, 'votes.csv'), votesCSV);
-    console.log('Wrote votes.csv');
+    // Export every table, parents first, recording what was written
+    const manifest: BackupManifest = {
+      format: BACKUP_FORMAT,
+      formatVersion: BACKUP_FORMAT_VERSION,
+      schemaVersion: await currentSchemaVersion(),
+      createdAt: new Date().toISOString(),
+      tables: [],
+    };
+    // All from one snapshot, so a row written mid-backup can't appear
+    // without the rows it refers to
+    await db.transaction(async (tx) => {
+      for (const table of backupTables()) {
+        const name = getTableName(table);
+        const file = `${name}.jsonl`;
+        const data = await exportTable(tx, table);
+        await fs.writeFile(path.join(backupDirPath, file), data);
+
+        const rows = data === '' ? 0 : data.split('\n').length - 1;
+        manifest.tables.push({ name, file, rows, sha256: sha256(data) });
+        console.log(`Wrote ${rows} rows to ${file}`);
+      }
+    }, { isolationLevel: 'repeatable read', accessMode: 'read only' });
+    await fs.writeFile(path.join(backupDirPath, MANIFEST_FILE), JSON.stringify(manifest, null, 2));
+    console.log('Wrote manifest');
 
     // Create zip file
-    const zipPath = path.join(backupDir, `backup-${timestamp}.zip`);
+    const zipPath = backupFilePath(`backup-${timestamp}${label ? `-${label}` : ''}.zip`);
     const output = createWriteStream(zipPath);
     const archive = archiver('zip', {
       zlib: { level: 9 } // Maximum compression
@@ -133,104 +269,782 @@ export async function createBackup() {
   }
 }
 
-export async function restoreFromBackup(backupPath: string) {
-  console.log('Starting database restoration process...');
+/**
+ * Split CSV text into records, honouring quoted fields that contain
+ * commas, doubled quotes and newlines (RFC 4180)
+ */
+export function parseCSV(text: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
 
-  if (!process.env.DATABASE_URL) {
-    throw new Error('DATABASE_URL environment variable is not set');
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+  return records;
+}
+
+/**
+ * Read a format 2 backup from an extracted archive, checking each file
+ * against the manifest before anything is parsed
+ */
+async function readBackupDir(dir: string): Promise<BackupContents> {
+  let manifestText: string;
+  try {
+    manifestText = await fs.readFile(path.join(dir, MANIFEST_FILE), 'utf-8');
+  } catch {
+    return readLegacyBackupDir(dir);
+  }
+
+  let manifest: BackupManifest;
+  try {
+    manifest = JSON.parse(manifestText);
+  } catch {
+    throw new BackupError('Invalid backup: manifest.json is not valid JSON');
+  }
+  if (manifest.format !== BACKUP_FORMAT || !Array.isArray(manifest.tables)) {
+    throw new BackupError('Invalid backup: the manifest is not a FabSnippets backup manifest');
+  }
+  if (manifest.formatVersion > BACKUP_FORMAT_VERSION) {
+    throw new BackupError(`Backup format ${manifest.formatVersion} is newer than this version of FabSnippets supports`);
+  }
+  const schemaVersion = await currentSchemaVersion();
+  if (manifest.schemaVersion && schemaVersion && manifest.schemaVersion > schemaVersion) {
+    throw new BackupError(
+      `Backup was made with schema ${manifest.schemaVersion}, which is newer than this database (${schemaVersion}); run the migrations first`
+    );
+  }
+
+  const tables = [];
+  for (const entry of manifest.tables) {
+    if (!findTable(entry.name)) {
+      throw new BackupError(`Invalid backup: unknown table ${entry.name}`);
+    }
+    // Only bare file names, so the manifest can't point outside the archive
+    if (path.basename(entry.file) !== entry.file) {
+      throw new BackupError(`Invalid backup: bad file name ${entry.file}`);
+    }
+    const data = await fs.readFile(path.join(dir, entry.file), 'utf-8');
+    if (sha256(data) !== entry.sha256) {
+      throw new BackupError(`Backup is corrupt: checksum mismatch for ${entry.file}`);
+    }
+    let rows: BackupRow[];
+    try {
+      rows = data.split('\n').filter(line => line !== '').map(line => JSON.parse(line));
+    } catch {
+      throw new BackupError(`Backup is corrupt: ${entry.file} is not valid JSON Lines`);
+    }
+    if (rows.length !== entry.rows) {
+      throw new BackupError(`Backup is corrupt: ${entry.file} has ${rows.length} rows, expected ${entry.rows}`);
+    }
+    tables.push({ name: entry.name, rows });
   }
 
+  // Restore parents first whatever order the manifest lists tables in
+  const order = backupTables().map(table => getTableName(table));
+  tables.sort((a, b) => order.indexOf(a.name) - order.indexOf(b.name));
+  return { manifest, tables };
+}
+
+// The categories the app shipped with before they were stored in the
+// database, as migrations 0005 and 0006 created them
+const SHIPPED_CATEGORIES = [
+  { name: 'Prompt', display_name: 'Prompt', language_mode: 'markdown' },
+  { name: 'TMDL', display_name: 'TMDL', language_mode: 'tmdl' },
+  { name: 'DAX', display_name: 'DAX', language_mode: 'dax' },
+  { name: 'SQL', display_name: 'SQL', language_mode: 'sql' },
+  { name: 'Python', display_name: 'Python', language_mode: 'python' },
+  { name: 'PowerQuery', display_name: 'M', language_mode: 'powerquery' },
+  { name: 'C#', display_name: 'C#', language_mode: 'csharp' },
+];
+
+/**
+ * The category names of a snippet from a backup made before categories had
+ * their own tables: the JSON array in `categories`, or for older rows (and
+ * ones whose JSON is invalid) the single name in `category`
+ */
+function legacyCategoryNames(categories: string | undefined, category: string | undefined): string[] {
+  let names: unknown[] | null = null;
+  if (categories && /^\s*\[/.test(categories)) {
+    try {
+      names = JSON.parse(categories);
+    } catch {
+      // Falls back to `category`, as migration 0005 does
+    }
+  }
+  names ??= category ? [category] : [];
+  return names
+    .map(name => String(name).trim())
+    .filter((name, index, all) => name !== '' && all.indexOf(name) === index);
+}
+
+/**
+ * Categories and snippet categories rows for a backup whose snippets.csv
+ * still has the `categories` and `category` columns, the way migrations
+ * 0005 and 0006 converted them: the shipped categories, then any other
+ * name a snippet uses, ordered by name
+ */
+function legacyCategoryTables(snippetCategories: [string, string[]][]) {
+  const names = SHIPPED_CATEGORIES.map(category => category.name);
+  const others = snippetCategories
+    .flatMap(([, snippetNames]) => snippetNames)
+    .filter((name, index, all) => !names.includes(name) && all.indexOf(name) === index)
+    .sort();
+
+  const categories: BackupRow[] = names.concat(others).map((name, index) => {
+    const shipped = SHIPPED_CATEGORIES.find(category => category.name === name);
+    return {
+      id: index + 1,
+      name,
+      display_name: shipped?.display_name ?? name,
+      language_mode: shipped?.language_mode ?? 'plaintext',
+      position: index + 1,
+    };
+  });
+  const ids = new Map(categories.map(category => [category.name, category.id]));
+
+  return [
+    { name: 'categories', rows: categories },
+    {
+      name: 'snippet_categories',
+      rows: snippetCategories.flatMap(([snippetId, snippetNames]) =>
+        snippetNames.map(name => ({ snippet_id: snippetId, category_id: ids.get(name) }))
+      ),
+    },
+  ];
+}
+
+/**
+ * Read a format 1 backup: CSV files for snippets, categories, snippet
+ * categories and votes, with camelCase headers and empty strings for null.
+ * The oldest of these only have snippets and votes, with each snippet's
+ * categories in snippets.csv (see legacyCategoryTables).
+ */
+async function readLegacyBackupDir(dir: string): Promise<BackupContents> {
+  const files: [string, string][] = [
+    ['categories', 'categories.csv'],
+    ['snippets', 'snippets.csv'],
+    ['snippet_categories', 'snippet_categories.csv'],
+    ['votes', 'votes.csv'],
+  ];
+
+  const tables = [];
+  let snippetCategories: [string, string[]][] | null = null;
+  for (const [name, file] of files) {
+    let text: string;
+    try {
+      text = await fs.readFile(path.join(dir, file), 'utf-8');
+    } catch {
+      continue;
+    }
+
+    // Headers are the schema's property names; map them to column names
+    const columns = getTableColumns(findTable(name)!);
+    const [headers = [], ...records] = parseCSV(text).filter(record => record.some(field => field !== ''));
+    const rows = records.map(record => {
+      const row: BackupRow = {};
+      headers.forEach((header, index) => {
+        const column = columns[header as keyof typeof columns];
+        if (column && !column.generated) {
+          row[column.name] = record[index] === '' ? null : record[index];
+        }
+      });
+      return row;
+    });
+    // Categories backed up before migration 0006 have no display name
+    if (name === 'categories' && !headers.includes('displayName')) {
+      for (const row of rows) {
+        row.display_name = SHIPPED_CATEGORIES.find(category => category.name === row.name)?.display_name ?? row.name;
+      }
+    }
+    tables.push({ name, rows });
+
+    if (name === 'snippets' && (headers.includes('categories') || headers.includes('category'))) {
+      const field = (record: string[], header: string) => record[headers.indexOf(header)];
+      snippetCategories = records.map(record => [
+        field(record, 'id'),
+        legacyCategoryNames(field(record, 'categories'), field(record, 'category')),
+      ]);
+    }
+  }
+
+  if (!tables.some(table => table.name === 'snippets')) {
+    throw new BackupError('Invalid backup: no manifest.json or snippets.csv found');
+  }
+
+  if (snippetCategories && !tables.some(table => table.name === 'categories')) {
+    tables.push(...legacyCategoryTables(snippetCategories));
+    const order = backupTables().map(table => getTableName(table));
+    tables.sort((a, b) => order.indexOf(a.name) - order.indexOf(b.name));
+  }
+
+  return {
+    manifest: {
+      format: BACKUP_FORMAT,
+      formatVersion: 1,
+      schemaVersion: null,
+      createdAt: '',
+      tables: tables.map(({ name, rows }) => ({ name, file: `${name}.csv`, rows: rows.length, sha256: '' })),
+    },
+    tables,
+  };
+}
+
+/**
+ * Extract a backup archive and read it
+ * @param backupPath Path to the backup's zip file
+ */
+export async function readBackup(backupPath: string): Promise<BackupContents> {
   if (!backupPath.endsWith('.zip')) {
-    throw new Error('Invalid backup file format. Expected a zip file.');
+    throw new BackupError('Invalid backup file format. Expected a zip file.');
   }
 
-  const tempDir = path.join(backupDir, 'temp-restore');
+  return withExtractedBackup(backupPath, readBackupDir);
+}
+
+/**
+ * Check an uploaded backup archive and save it to the backups directory
+ * under a new name
+ * @param archive The uploaded file
+ * @returns The saved backup's file name
+ * @throws BackupError if the archive isn't a valid backup
+ */
+export async function importBackup(archive: Buffer): Promise<string> {
+  const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+  const filename = `backup-${timestamp}-uploaded.zip`;
 
+  const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'fabsnippets-upload-'));
   try {
-    // Create temporary directory for extraction
-    await fs.mkdir(tempDir, { recursive: true });
-    console.log('Created temporary restore directory');
-
-    // Extract zip file
-    await execAsync(`unzip "${backupPath}" -d "${tempDir}"`);
-    console.log('Extracted backup archive');
-
-    // Read and parse CSV files
-    const snippetsCSV = await fs.readFile(path.join(tempDir, 'snippets.csv'), 'utf-8');
-    const votesCSV = await fs.readFile(path.join(tempDir, 'votes.csv'), 'utf-8');
-    console.log('Read CSV files');
-
-    // Parse CSV data
-    const parseCSV = (csv: string) => {
-      const [headers, ...rows] = csv.split('\n');
-      const fields = headers.split(',');
-      return rows.map(row => {
-        const values = row.split(',').map(v => v.trim());
-        return fields.reduce((obj: any, field, index) => {
-          let value = values[index] || null;
-          // Remove surrounding quotes and unescape internal quotes
-          if (value && value.startsWith('"') && value.endsWith('"')) {
-            value = value.slice(1, -1).replace(/""/g, '"');
-          }
-          try {
-            obj[field] = value === 'null' ? null : JSON.parse(value);
-          } catch {
-            obj[field] = value;
-          }
-          return obj;
-        }, {});
-      });
-    };
+    const tempPath = path.join(tempDir, filename);
+    await fs.writeFile(tempPath, archive);
+    await readBackup(tempPath);
+
+    await ensureBackupDir();
+    await fs.writeFile(backupFilePath(filename), archive, { flag: 'wx' });
+    console.log('Imported uploaded backup as', filename);
+    return filename;
+  } finally {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  }
+}
+
+// Primary key columns by database name
+function primaryKeyColumns(table: PgTable): string[] {
+  const config = getTableConfig(table);
+  return config.primaryKeys.length > 0
+    ? config.primaryKeys[0].columns.map(column => column.name)
+    : config.columns.filter(column => column.primary).map(column => column.name);
+}
+
+// The writable columns a backup has values for; columns missing from an
+// older backup get their defaults
+function presentColumns(table: PgTable, rows: BackupRow[]): string[] {
+  return writableColumns(table).filter(column => rows.length === 0 || column in rows[0]);
+}
 
-    const snippetsData = parseCSV(snippetsCSV);
-    const votesData = parseCSV(votesCSV);
-    console.log(`Parsed ${snippetsData.length} snippets and ${votesData.length} votes`);
+// A column of a table alias, e.g. b."snippet_id"
+function aliased(alias: string, column: string) {
+  return sql`${sql.raw(alias)}.${sql.identifier(column)}`;
+}
+
+function columnList(columns: string[], alias?: string) {
+  return sql.join(columns.map(column => alias ? aliased(alias, column) : sql.identifier(column)), sql`, `);
+}
 
-    // Drop existing connections except our own
-    await db.execute(sql`
-      SELECT pg_terminate_backend(pid) 
-      FROM pg_stat_activity 
-      WHERE pid <> pg_backend_pid() 
-      AND datname = current_database();
+// Join condition matching rows of two aliases on the table's primary key
+function samePrimaryKey(table: PgTable, left: string, right: string) {
+  return sql.join(
+    primaryKeyColumns(table).map(column => sql`${aliased(left, column)} = ${aliased(right, column)}`),
+    sql` AND `
+  );
+}
+
+/**
+ * Copy backup rows into a temporary table shaped like `table`, dropped when
+ * the transaction ends. Loading them checks every value against the
+ * column's type, so a dry run catches data that wouldn't restore.
+ * @returns The temporary table and the columns the backup has values for
+ */
+async function stageRows(tx: DbExecutor, table: PgTable, rows: BackupRow[]) {
+  const staged = sql.identifier(`restore_${getTableName(table)}`);
+  const columns = presentColumns(table, rows);
+  await tx.execute(sql`CREATE TEMP TABLE ${staged} (LIKE ${table} INCLUDING DEFAULTS) ON COMMIT DROP`);
+
+  for (let start = 0; start < rows.length; start += RESTORE_BATCH_SIZE) {
+    const batch = JSON.stringify(rows.slice(start, start + RESTORE_BATCH_SIZE));
+    await tx.execute(sql`
+      INSERT INTO ${staged} (${columnList(columns)})
+      SELECT ${columnList(columns)} FROM json_populate_recordset(NULL::${table}, ${batch}::json)
     `);
-    console.log('Terminated existing database connections');
+  }
+  return { staged, columns };
+}
+
+// How restoring a backup would change one table. `added` rows are in the
+// backup but not the database, `removed` rows the other way round, and
+// `changed` rows are in both with different values. `skipped` rows are in
+// the backup but couldn't be restored, because they refer to a row the
+// backup doesn't have or clash with another row; a full restore refuses to
+// run while any table has some.
+export interface TableDiff {
+  name: string;
+  added: number;
+  changed: number;
+  unchanged: number;
+  removed: number;
+  skipped: number;
+}
 
-    // Restore data
+async function diffStagedTable(
+  tx: DbExecutor,
+  table: PgTable,
+  { staged, columns }: Awaited<ReturnType<typeof stageRows>>
+): Promise<TableDiff> {
+  const [key] = primaryKeyColumns(table);
+  const differs = sql`ROW(${columnList(columns, 'b')}) IS DISTINCT FROM ROW(${columnList(columns, 't')})`;
+  const result = await tx.execute(sql`
+    SELECT
+      COUNT(*) FILTER (WHERE ${aliased('t', key)} IS NULL)::integer AS added,
+      COUNT(*) FILTER (WHERE ${aliased('t', key)} IS NOT NULL AND ${differs})::integer AS changed,
+      COUNT(*) FILTER (WHERE ${aliased('t', key)} IS NOT NULL AND NOT (${differs}))::integer AS unchanged,
+      (
+        SELECT COUNT(*) FROM ${table} t
+        WHERE NOT EXISTS (SELECT 1 FROM ${staged} b WHERE ${samePrimaryKey(table, 'b', 't')})
+      )::integer AS removed
+    FROM ${staged} b
+    LEFT JOIN ${table} t ON ${samePrimaryKey(table, 'b', 't')}
+  `);
+  const counts = result.rows[0] as Omit<TableDiff, 'name' | 'skipped'>;
+  return { name: getTableName(table), ...counts, skipped: 0 };
+}
+
+/**
+ * The tables a full restore empties: those in the backup, and every table
+ * whose foreign keys reference one of them (TRUNCATE ... CASCADE)
+ */
+function truncatedTables(backup: BackupContents): PgTable[] {
+  const truncated = backup.tables.map(({ name }) => findTable(name)!);
+  for (const table of backupTables()) {
+    const referencesTruncated = getTableConfig(table).foreignKeys
+      .some(foreignKey => truncated.includes(foreignKey.reference().foreignTable));
+    if (referencesTruncated && !truncated.includes(table)) {
+      truncated.push(table);
+    }
+  }
+  return truncated;
+}
+
+/**
+ * Compare a backup with the database without changing anything: each table
+ * in the backup, plus the tables a full restore would empty because they
+ * reference it
+ */
+export async function diffBackup(backup: BackupContents): Promise<TableDiff[]> {
+  const diffs: TableDiff[] = [];
+  try {
     await db.transaction(async (tx) => {
-      // Clear existing data
-      await tx.delete(votes);
-      await tx.delete(snippets);
-      console.log('Cleared existing data');
-
-      // Insert new data
-      for (const snippet of snippetsData) {
-        await tx.insert(snippets).values(snippet);
+      for (const { name, rows } of backup.tables) {
+        const table = findTable(name)!;
+        diffs.push(await diffStagedTable(tx, table, await stageRows(tx, table, rows)));
+      }
+
+      for (const table of truncatedTables(backup)) {
+        const name = getTableName(table);
+        if (diffs.some(diff => diff.name === name)) continue;
+        const result = await tx.execute(sql`SELECT COUNT(*)::integer AS count FROM ${table}`);
+        const { count } = result.rows[0] as { count: number };
+        diffs.push({ name, added: 0, changed: 0, unchanged: 0, removed: count, skipped: 0 });
+      }
+
+      // Restore for real and roll back, to find the rows a restore would skip
+      for (const { name, rows, restored } of await replaceTables(tx, backup)) {
+        diffs.find(diff => diff.name === name)!.skipped = rows - restored;
+      }
+      tx.rollback();
+    });
+  } catch (error) {
+    if (!(error instanceof TransactionRollbackError)) throw error;
+  }
+  return diffs;
+}
+
+export type RowStatus = 'added' | 'changed' | 'unchanged';
+
+async function rowStatuses(tx: DbExecutor, table: PgTable, rows: BackupRow[]) {
+  const staged = await stageRows(tx, table, rows);
+  const result = await tx.execute(sql`
+    SELECT
+      b.id,
+      CASE
+        WHEN t.id IS NULL THEN 'added'
+        WHEN ROW(${columnList(staged.columns, 'b')}) IS DISTINCT FROM ROW(${columnList(staged.columns, 't')}) THEN 'changed'
+        ELSE 'unchanged'
+      END AS status
+    FROM ${staged.staged} b
+    LEFT JOIN ${table} t ON t.id = b.id
+  `);
+  return new Map((result.rows as { id: number; status: RowStatus }[]).map(row => [row.id, row.status]));
+}
+
+/**
+ * The snippets and users in a backup that can be restored one by one, each
+ * with whether restoring it would add it back, change it, or do nothing
+ */
+export async function listBackupItems(backup: BackupContents) {
+  const rowsOf = (name: string) => backup.tables.find(table => table.name === name)?.rows ?? [];
+  const backupUsers = rowsOf('users');
+  const backupSnippets = rowsOf('snippets');
+  const usernames = new Map(backupUsers.map(user => [Number(user.id), String(user.username)]));
+
+  return db.transaction(async (tx) => {
+    const userStatuses = await rowStatuses(tx, schema.users, backupUsers);
+    const snippetStatuses = await rowStatuses(tx, schema.snippets, backupSnippets);
+
+    return {
+      users: backupUsers.map(user => ({
+        id: Number(user.id),
+        username: String(user.username),
+        status: userStatuses.get(Number(user.id))!,
+      })),
+      snippets: backupSnippets.map(snippet => ({
+        id: Number(snippet.id),
+        title: String(snippet.title),
+        authorUsername: usernames.get(Number(snippet.author_id)) ?? null,
+        status: snippetStatuses.get(Number(snippet.id))!,
+      })),
+    };
+  });
+}
+
+// Individual rows to restore from a backup
+export interface RestoreSelection {
+  snippetIds: number[];
+  userIds: number[];
+}
+
+// Key for matching a row's foreign key columns with the referenced columns
+function valuesKey(row: BackupRow, columns: string[]) {
+  return JSON.stringify(columns.map(column => row[column] === null ? null : String(row[column])));
+}
+
+/**
+ * Pick the rows a selective restore writes. The selected snippets and users
+ * are restored as they were in the backup. So is everything in the backup
+ * that belongs to them: rows whose foreign keys lead back to them, except
+ * through `ON DELETE SET NULL` keys, which don't imply ownership (e.g. the
+ * moderator who deleted a comment). Rows the selected ones need, such as a
+ * snippet's author, are added if they're missing.
+ */
+function selectRows(backup: BackupContents, selection: RestoreSelection) {
+  const included = new Map<string, Set<BackupRow>>();
+  const roots = new Set<BackupRow>();
+  // Key sets of the included rows, by table and columns; dropped whenever
+  // a row is added to the table
+  const keyIndex = new Map<string, Set<string>>();
+  const include = (name: string, row: BackupRow) => {
+    if (!included.has(name)) included.set(name, new Set());
+    included.get(name)!.add(row);
+    Array.from(keyIndex.keys())
+      .filter(indexKey => indexKey.startsWith(`${name}:`))
+      .forEach(indexKey => keyIndex.delete(indexKey));
+  };
+  const isIncluded = (name: string, columns: string[], key: string) => {
+    const indexKey = `${name}:${columns.join(',')}`;
+    if (!keyIndex.has(indexKey)) {
+      keyIndex.set(indexKey, new Set(Array.from(included.get(name) ?? []).map(row => valuesKey(row, columns))));
+    }
+    return keyIndex.get(indexKey)!.has(key);
+  };
+
+  const rowsOf = (name: string) => backup.tables.find(table => table.name === name)?.rows ?? [];
+  const selected: [string, number[]][] = [['users', selection.userIds], ['snippets', selection.snippetIds]];
+  for (const [name, ids] of selected) {
+    for (const row of rowsOf(name).filter(row => ids.includes(Number(row.id)))) {
+      include(name, row);
+      roots.add(row);
+    }
+  }
+
+  // Descendants; parents come first, so one pass in backup order finds them
+  for (const { name, rows } of backup.tables) {
+    const table = findTable(name)!;
+    const owners = getTableConfig(table).foreignKeys
+      .filter(foreignKey => foreignKey.onDelete !== 'set null')
+      .map(foreignKey => foreignKey.reference())
+      .filter(reference => reference.foreignTable !== table);
+
+    for (const row of rows) {
+      const owned = owners.some(reference => {
+        const columns = reference.columns.map(column => column.name);
+        const key = valuesKey(row, columns);
+        return key !== JSON.stringify(columns.map(() => null))
+          && isIncluded(getTableName(reference.foreignTable), reference.foreignColumns.map(column => column.name), key);
+      });
+      if (owned) include(name, row);
+    }
+  }
+
+  // Ancestors of the selected rows, found in the backup
+  const addParents = (table: PgTable, row: BackupRow) => {
+    for (const foreignKey of getTableConfig(table).foreignKeys) {
+      const reference = foreignKey.reference();
+      const parentName = getTableName(reference.foreignTable);
+      const key = valuesKey(row, reference.columns.map(column => column.name));
+      const parentColumns = reference.foreignColumns.map(column => column.name);
+      const parent = rowsOf(parentName).find(candidate => valuesKey(candidate, parentColumns) === key);
+      if (parent && !included.get(parentName)?.has(parent)) {
+        include(parentName, parent);
+        addParents(reference.foreignTable, parent);
+      }
+    }
+  };
+  for (const [name] of selected) {
+    for (const row of rowsOf(name).filter(row => roots.has(row))) {
+      addParents(findTable(name)!, row);
+    }
+  }
+
+  return backup.tables
+    .filter(({ name }) => included.has(name))
+    .map(({ name, rows }) => {
+      const chosen = rows.filter(row => included.get(name)!.has(row));
+      return {
+        name,
+        overwrite: chosen.filter(row => roots.has(row)),
+        addIfMissing: chosen.filter(row => !roots.has(row)),
+      };
+    });
+}
+
+/**
+ * Explain a unique violation (SQLSTATE 23505) from inserting backup rows:
+ * overwriting a row only resolves a clash on its primary key, so a restored
+ * user whose username now belongs to someone else can't be written
+ * @returns A BackupError naming the table and the row, or null for any other error
+ */
+function uniqueViolation(error: unknown, table: PgTable, rows: BackupRow[]): BackupError | null {
+  const { code, detail } = (error ?? {}) as { code?: string; detail?: string };
+  if (code !== '23505') return null;
+
+  const name = getTableName(table);
+  // e.g. Key (username)=(alice) already exists.
+  const key = detail?.match(/^Key \((.+)\)=\((.*)\) already exists/);
+  const columns = key?.[1].split(', ');
+  const values = key?.[2].split(', ');
+  const row = columns && values?.length === columns.length
+    ? rows.find(candidate => columns.every((column, i) => String(candidate[column]) === values[i]))
+    : undefined;
+
+  if (!key || !row) {
+    return new BackupError(`Can't restore a row into ${name}: ${detail ?? 'it clashes with an existing row'}`);
+  }
+  const rowKey = primaryKeyColumns(table).map(column => `${column} ${row[column]}`).join(', ');
+  return new BackupError(
+    `Can't restore the ${name} row with ${rowKey}: its ${key[1]} ${key[2]} already belongs to another row`
+  );
+}
+
+/**
+ * Insert backup rows, skipping any whose foreign keys point at rows that
+ * don't exist (a comment by a user who has since been deleted)
+ * @param overwrite Replace existing rows with the same primary key; otherwise
+ *   rows that clash with an existing one are skipped
+ * @returns How many rows were written
+ * @throws BackupError if a row clashes with another on a unique column
+ */
+async function insertRows(tx: DbExecutor, table: PgTable, rows: BackupRow[], overwrite: boolean) {
+  if (rows.length === 0) return 0;
+  const columns = presentColumns(table, rows);
+  const keyColumns = primaryKeyColumns(table);
+  const updates = columns
+    .filter(column => !keyColumns.includes(column))
+    .map(column => sql`${sql.identifier(column)} = EXCLUDED.${sql.identifier(column)}`);
+  const onConflict = overwrite
+    ? sql`ON CONFLICT (${columnList(keyColumns)}) DO UPDATE SET ${sql.join(updates, sql`, `)}`
+    : sql`ON CONFLICT DO NOTHING`;
+
+  let written = 0;
+  for (let start = 0; start < rows.length; start += RESTORE_BATCH_SIZE) {
+    const batch = JSON.stringify(rows.slice(start, start + RESTORE_BATCH_SIZE));
+    const parentsExist = getTableConfig(table).foreignKeys.map(foreignKey => {
+      const reference = foreignKey.reference();
+      const columns = reference.columns.map(column => column.name);
+      const matches = (source: SQL) => sql`EXISTS (
+        SELECT 1 FROM ${source} p
+        WHERE ${sql.join(columns.map((column, i) =>
+          sql`${aliased('p', reference.foreignColumns[i].name)} = ${aliased('r', column)}`), sql` AND `)}
+      )`;
+      // A row may reply to another row of the same batch
+      const sameBatch = reference.foreignTable === table ? sql` OR ${matches(sql`batch`)}` : sql``;
+      return sql`(${aliased('r', columns[0])} IS NULL OR ${matches(sql`${reference.foreignTable}`)}${sameBatch})`;
+    });
+
+    let result;
+    try {
+      result = await tx.execute(sql`
+        WITH batch AS (SELECT * FROM json_populate_recordset(NULL::${table}, ${batch}::json))
+        INSERT INTO ${table} (${columnList(columns)})
+        SELECT ${columnList(columns, 'r')} FROM batch r
+        ${parentsExist.length > 0 ? sql`WHERE ${sql.join(parentsExist, sql` AND `)}` : sql``}
+        ${onConflict}
+      `);
+    } catch (error) {
+      throw uniqueViolation(error, table, rows) ?? error;
+    }
+    written += result.rowCount ?? 0;
+  }
+  return written;
+}
+
+// Start each serial sequence after the highest id in its table
+async function resetSequences(tx: DbExecutor, tables: PgTable[]) {
+  for (const table of tables) {
+    for (const column of Object.values(getTableColumns(table))) {
+      if (column.columnType !== 'PgSerial') continue;
+      await tx.execute(sql`
+        SELECT setval(
+          pg_get_serial_sequence(${getTableName(table)}, ${column.name}),
+          COALESCE((SELECT MAX(${sql.identifier(column.name)}) FROM ${table}), 0) + 1,
+          false
+        )
+      `);
+    }
+  }
+}
+
+/**
+ * Empty the backup's tables and insert its rows
+ * @returns How many rows each table has in the backup and how many were written
+ */
+async function replaceTables(tx: DbExecutor, backup: BackupContents) {
+  // Clear every table at once; CASCADE also clears tables that reference
+  // them but aren't in the backup, such as sessions
+  const tables = backup.tables.map(({ name }) => findTable(name)!);
+  await tx.execute(sql`TRUNCATE ${sql.join(tables.map(table => sql`${table}`), sql`, `)} CASCADE`);
+
+  const counts: { name: string; rows: number; restored: number }[] = [];
+  for (const { name, rows } of backup.tables) {
+    const restored = await insertRows(tx, findTable(name)!, rows, false);
+    counts.push({ name, rows: rows.length, restored });
+  }
+  return counts;
+}
+
+/**
+ * Replace the contents of the backup's tables with its rows
+ * @throws BackupError, restoring nothing, if any row can't be restored
+ */
+async function restoreTables(backup: BackupContents) {
+  await db.transaction(async (tx) => {
+    for (const { name, rows, restored } of await replaceTables(tx, backup)) {
+      if (restored < rows) {
+        throw new BackupError(
+          `${rows - restored} of ${rows} rows in ${name} can't be restored: they refer to rows missing from the backup or clash with other rows. Nothing was restored.`
+        );
       }
-      console.log(`Restored ${snippetsData.length} snippets`);
-
-      for (const vote of votesData) {
-        await tx.insert(votes).values({
-          id: vote.id,
-          snippetId: vote.snippetId,
-          ipAddress: vote.ipAddress,
-          createdAt: new Date(vote.createdAt)
-        });
+      console.log(`Restored ${restored} rows into ${name}`);
+    }
+
+    await resetSequences(tx, backup.tables.map(({ name }) => findTable(name)!));
+    console.log('Reset sequences');
+  });
+}
+
+/**
+ * Restore only the selected snippets and users, and what belongs to them,
+ * leaving everything else as it is
+ * @param dryRun Roll back instead of committing, to report what would be written
+ * @returns How many rows were written to each table
+ */
+async function restoreSelection(backup: BackupContents, selection: RestoreSelection, dryRun: boolean) {
+  const written: { name: string; restored: number }[] = [];
+  try {
+    await db.transaction(async (tx) => {
+      for (const { name, overwrite, addIfMissing } of selectRows(backup, selection)) {
+        const table = findTable(name)!;
+        const restored = await insertRows(tx, table, overwrite, true)
+          + await insertRows(tx, table, addIfMissing, false);
+        written.push({ name, restored });
       }
-      console.log(`Restored ${votesData.length} votes`);
+      await resetSequences(tx, written.map(({ name }) => findTable(name)!));
+      if (dryRun) tx.rollback();
     });
+  } catch (error) {
+    if (!(error instanceof TransactionRollbackError)) throw error;
+  }
+  return written;
+}
+
+export interface RestoreOptions {
+  // Report what the restore would do without changing anything
+  dryRun?: boolean;
+  // Restore only these snippets and users instead of the whole backup
+  selection?: RestoreSelection;
+}
+
+/**
+ * Restore a backup, all of it or only some snippets and users
+ * @returns What was (or, for a dry run, would be) restored: a diff per table
+ *   for a full restore, or the rows written per table for a selective one
+ */
+export async function restoreFromBackup(backupPath: string, options: RestoreOptions = {}) {
+  console.log('Starting database restoration process...');
+
+  if (!process.env.DATABASE_URL) {
+    throw new Error('DATABASE_URL environment variable is not set');
+  }
+
+  try {
+    const backup = await readBackup(backupPath);
+    console.log(
+      `Read backup format ${backup.manifest.formatVersion} with ${backup.tables.length} tables`
+    );
 
-    console.log('Database restored successfully from', backupPath);
+    const { formatVersion, schemaVersion, createdAt } = backup.manifest;
+    const summary = { formatVersion, schemaVersion, createdAt };
+    if (options.selection) {
+      const tables = await restoreSelection(backup, options.selection, options.dryRun ?? false);
+      console.log(`${options.dryRun ? 'Checked' : 'Restored'} selected rows from`, backupPath);
+      return { backup: summary, tables };
+    }
+
+    const tables = await diffBackup(backup);
+    if (!options.dryRun) {
+      await restoreTables(backup);
+      console.log('Database restored successfully from', backupPath);
+    }
+    return { backup: summary, tables };
   } catch (error) {
     console.error('Error restoring backup:', error);
     throw error;
-  } finally {
-    // Clean up temporary directory
-    try {
-      await fs.rm(tempDir, { recursive: true });
-      console.log('Cleaned up temporary directory');
-    } catch (cleanupError) {
-      console.error('Error cleaning up temporary directory:', cleanupError);
-    }
   }
 }
 
@@ -244,4 +1058,4 @@ if (process.argv[1] === fileURLToPath(import.meta.url)) {
       console.error('Backup failed:', error);
       process.exit(1);
     });
-}
\ No newline at end of file
+}
@@ -1,17 +1,13 @@
 import { createBackup, restoreFromBackup } from './dbBackup';
+import { backupDir, isValidBackupFilename } from './backupArchive';
 import fs from 'fs/promises';
 import path from 'path';
 import { fileURLToPath } from 'url';
-import { dirname } from 'path';
-
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = dirname(__filename);
-const backupDir = path.join(__dirname, '../backups');
 
 async function listBackups() {
   try {
     const files = await fs.readdir(backupDir);
-    const backupFiles = files.filter(file => file.startsWith('backup-') && file.endsWith('.sql'));
+    const backupFiles = files.filter(isValidBackupFilename);
     return backupFiles.sort().reverse(); // Most recent first
   } catch (error) {
     console.error('Error listing backups:', error);
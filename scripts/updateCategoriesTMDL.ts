@@ -1,15 +1,30 @@
-
 import { db } from "../db/index.js";
-import { snippets } from "../db/schema.js";
-import { sql } from "drizzle-orm";
+import { snippets, categories, snippetCategories } from "../db/schema.js";
+import { eq } from "drizzle-orm";
 
 async function updateCategories() {
   console.log("Starting category update...");
   try {
-    await db.update(snippets)
-      .set({ category: 'TMDL' });
-    
-    console.log("All categories updated to TMDL successfully");
+    const [tmdl] = await db
+      .select()
+      .from(categories)
+      .where(eq(categories.name, 'TMDL'))
+      .limit(1);
+
+    if (!tmdl) {
+      console.error("TMDL category not found");
+      process.exit(1);
+    }
+
+    // Tag every snippet with TMDL, keeping its other categories
+    const allSnippets = await db.select({ id: snippets.id }).from(snippets);
+    for (const snippet of allSnippets) {
+      await db.insert(snippetCategories)
+        .values({ snippetId: snippet.id, categoryId: tmdl.id })
+        .onConflictDoNothing();
+    }
+
+    console.log("All snippets tagged as TMDL successfully");
   } catch (error) {
     console.error("Error updating categories:", error);
     process.exit(1);
@@ -0,0 +1,122 @@
+import type { Request, Response, NextFunction } from "express";
+import { db } from "@db";
+import { users } from "@db/schema";
+import { eq, asc } from "drizzle-orm";
+
+/**
+ * Roles and Access Control
+ *
+ * Every user has one role:
+ * - `member`: can post, vote, comment, and manage their own content
+ * - `moderator`: can also remove other users' comments and snippets
+ * - `admin`: can also manage categories, backups, digests and user roles
+ *
+ * Roles are ordered, so a route that needs a moderator also lets admins in.
+ * Routes declare what they need with the requireAuth and requireRole
+ * middleware; checks that depend on the resource (e.g. "the author or a
+ * moderator") use hasRole inside the handler.
+ *
+ * New accounts are members. Admins change roles from the user management
+ * page; there is always at least one admin left.
+ */
+
+export const ROLES = ['member', 'moderator', 'admin'] as const;
+export type Role = typeof ROLES[number];
+
+const ROLE_RANK: Record<Role, number> = {
+  member: 0,
+  moderator: 1,
+  admin: 2,
+};
+
+/**
+ * Whether a user has a role or one above it
+ * @param user The user to check; anyone without a user has no role
+ * @param role The least role required
+ */
+export function hasRole(user: { role: string } | undefined | null, role: Role): boolean {
+  if (!user || !ROLES.includes(user.role as Role)) return false;
+  return ROLE_RANK[user.role as Role] >= ROLE_RANK[role];
+}
+
+/**
+ * Reject requests from visitors who aren't logged in with 401
+ */
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ message: "Not logged in" });
+  }
+  next();
+}
+
+/**
+ * Reject requests from visitors who aren't logged in (401) or whose role
+ * is below `role` (403)
+ * @param role The least role required
+ */
+export function requireRole(role: Role) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Not logged in" });
+    }
+    if (!hasRole(req.user, role)) {
+      return res.status(403).json({ message: `Not authorized: requires the ${role} role` });
+    }
+    next();
+  };
+}
+
+/**
+ * Every user with their role, for the user management page
+ */
+export async function listUsersWithRoles() {
+  return db
+    .select({
+      id: users.id,
+      username: users.username,
+      email: users.email,
+      role: users.role,
+      createdAt: users.createdAt,
+    })
+    .from(users)
+    .orderBy(asc(users.username));
+}
+
+/**
+ * Check a role sent by a client
+ * @returns The role, or an error message
+ */
+export function parseRole(value: unknown): { role: Role } | { error: string } {
+  if (typeof value !== 'string' || !ROLES.includes(value as Role)) {
+    return { error: `Role must be one of: ${ROLES.join(', ')}` };
+  }
+  return { role: value as Role };
+}
+
+/**
+ * Change a user's role. Demoting the last admin is refused, so the app
+ * can't be left without anyone able to manage it.
+ * @returns The updated user, or why the role wasn't changed
+ */
+export async function setUserRole(userId: number, role: Role) {
+  return db.transaction(async (tx) => {
+    // Lock the admins so two admins can't demote each other at once
+    const admins = await tx
+      .select({ id: users.id })
+      .from(users)
+      .where(eq(users.role, 'admin'))
+      .for('update');
+
+    const isLastAdmin = admins.length === 1 && admins[0].id === userId;
+    if (isLastAdmin && role !== 'admin') {
+      return { error: 'last_admin' as const };
+    }
+
+    const [updated] = await tx
+      .update(users)
+      .set({ role })
+      .where(eq(users.id, userId))
+      .returning({ id: users.id, username: users.username, role: users.role });
+    return updated ? { user: updated } : { error: 'not_found' as const };
+  });
+}
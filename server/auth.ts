@@ -2,13 +2,13 @@ import passport from "passport";
 import { IVerifyOptions, Strategy as LocalStrategy } from "passport-local";
 import { type Express } from "express";
 import session from "express-session";
-import createMemoryStore from "memorystore";
 import { scrypt, randomBytes, timingSafeEqual } from "crypto";
 import { promisify } from "util";
-import { users, insertUserSchema, type User } from "@db/schema";
+import { users, insertUserSchema, type User as SelectUser } from "@db/schema";
 import { db } from "@db";
 import { eq } from "drizzle-orm";
 import { z } from "zod";
+import { PgSessionStore, SESSION_MAX_AGE, scheduleSessionPruning, listUserSessions, destroyUserSessions } from "./sessions";
 
 const scryptAsync = promisify(scrypt);
 const crypto = {
@@ -39,25 +39,24 @@ const updateProfileSchema = z.object({
 // extend express user object with our schema
 declare global {
   namespace Express {
-    interface User extends User { }
+    interface User extends SelectUser { }
   }
 }
 
 export function setupAuth(app: Express) {
-  const MemoryStore = createMemoryStore(session);
   const sessionSettings: session.SessionOptions = {
     secret: process.env.REPL_ID || "porygon-supremacy",
     resave: false,
     saveUninitialized: false,
-    cookie: {},
-    store: new MemoryStore({
-      checkPeriod: 86400000, // prune expired entries every 24h
-    }),
+    cookie: { maxAge: SESSION_MAX_AGE },
+    // Sessions are kept in Postgres so restarts don't log everyone out
+    store: new PgSessionStore(),
   };
 
   if (app.get("env") === "production") {
     app.set("trust proxy", 1);
     sessionSettings.cookie = {
+      ...sessionSettings.cookie,
       secure: true,
     };
   }
@@ -66,6 +65,16 @@ export function setupAuth(app: Express) {
   app.use(passport.initialize());
   app.use(passport.session());
 
+  // Note which browser each logged-in session belongs to, for the sessions list
+  app.use((req, _res, next) => {
+    if (req.isAuthenticated() && req.session.userAgent === undefined) {
+      req.session.userAgent = req.get("user-agent") ?? "";
+    }
+    next();
+  });
+
+  scheduleSessionPruning();
+
   passport.use(
     new LocalStrategy(async (username, password, done) => {
       try {
@@ -132,12 +141,14 @@ export function setupAuth(app: Express) {
       // Hash the password
       const hashedPassword = await crypto.hash(password);
 
-      // Create the new user
+      // Create the new user. Everyone starts as a member; only an admin can
+      // change a role, so one sent with the form is ignored
       const [newUser] = await db
         .insert(users)
         .values({
           ...result.data,
           password: hashedPassword,
+          role: "member",
         })
         .returning();
 
@@ -198,6 +209,42 @@ export function setupAuth(app: Express) {
     });
   });
 
+  // The logged-in user's active sessions, one per device or browser
+  app.get("/api/sessions", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Not logged in" });
+    }
+
+    try {
+      res.json(await listUserSessions(req.user.id, req.sessionID));
+    } catch (error) {
+      console.error('Error fetching sessions:', error);
+      res.status(500).json({ message: "Error fetching sessions" });
+    }
+  });
+
+  // Sign out of all devices, including this one
+  app.delete("/api/sessions", (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Not logged in" });
+    }
+
+    const userId = req.user.id;
+    req.logout(async (err) => {
+      if (err) {
+        return res.status(500).json({ message: "Logout failed" });
+      }
+
+      try {
+        const signedOut = await destroyUserSessions(userId);
+        res.json({ message: "Signed out of all devices", signedOut });
+      } catch (error) {
+        console.error('Error signing out of all devices:', error);
+        res.status(500).json({ message: "Error signing out of all devices" });
+      }
+    });
+  });
+
   app.get("/api/user", (req, res) => {
     if (req.isAuthenticated()) {
       return res.json(req.user);
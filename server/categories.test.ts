@@ -0,0 +1,40 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+// A transaction that sees categories 1, 2 and 3 and records the positions set
+const { positions, tx } = vi.hoisted(() => {
+  const positions: number[] = [];
+  const tx = {
+    select: () => ({ from: async () => [{ id: 1 }, { id: 2 }, { id: 3 }] }),
+    update: () => ({
+      set: ({ position }: { position: number }) => ({
+        where: async () => { positions.push(position); },
+      }),
+    }),
+  };
+  return { positions, tx };
+});
+
+vi.mock("@db", () => ({ db: { transaction: (fn: (t: typeof tx) => unknown) => fn(tx) } }));
+
+import { reorderCategories } from "./categories";
+
+describe("reorderCategories", () => {
+  beforeEach(() => {
+    positions.length = 0;
+  });
+
+  it("sets a position for every category", async () => {
+    expect(await reorderCategories([3, 1, 2])).toBe(true);
+    expect(positions).toEqual([1, 2, 3]);
+  });
+
+  it.each([
+    ["a duplicate id", [1, 1, 3]],
+    ["a missing category", [1, 2]],
+    ["an unknown id", [1, 2, 4]],
+    ["an extra id", [1, 2, 3, 3]],
+  ])("rejects a list with %s", async (_, ids) => {
+    expect(await reorderCategories(ids)).toBe(false);
+    expect(positions).toEqual([]);
+  });
+});
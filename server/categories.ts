@@ -0,0 +1,382 @@
+import { db, type DbExecutor } from "@db";
+import { categories, snippetCategories, snippets, snippetRevisions, type NewCategory } from "@db/schema";
+import { eq, ne, asc, and, inArray, sql, type SQL } from "drizzle-orm";
+
+/**
+ * Category Registry
+ *
+ * Categories are managed by admins at runtime rather than hard-coded in the
+ * client. `name` is the stable identifier used in URLs, filters and revision
+ * history; everything shown to users (display name, colour, icon,
+ * description) and the syntax mode used for snippets comes from the row.
+ */
+
+// Syntax modes the client knows how to highlight
+export const LANGUAGE_MODES = [
+  'plaintext',
+  'dax',
+  'powerquery',
+  'tmdl',
+  'sql',
+  'kql',
+  'python',
+  'csharp',
+  'markdown',
+  'json',
+] as const;
+export type LanguageMode = typeof LANGUAGE_MODES[number];
+
+const NAME_PATTERN = /^[A-Za-z0-9#+._ -]+$/;
+const COLOR_PATTERN = /^#[0-9a-fA-F]{6}$/;
+
+export type CategoryInput = Partial<Pick<NewCategory,
+  'name' | 'displayName' | 'color' | 'icon' | 'description' | 'languageMode' | 'archivedAt'
+>>;
+
+/**
+ * The category names of each snippet as a JSON array, usable in any select
+ * that reads from the snippets table
+ */
+export const snippetCategoryNamesSql = sql<string[]>`COALESCE((
+  SELECT json_agg(${categories.name} ORDER BY ${categories.name})
+  FROM ${snippetCategories}
+  JOIN ${categories} ON ${categories.id} = ${snippetCategories.categoryId}
+  WHERE ${snippetCategories.snippetId} = ${snippets.id}
+), '[]'::json)`;
+
+/**
+ * Read a category filter from a query string value. Accepts repeated
+ * parameters (`?category=DAX&category=SQL`) or a comma-separated list.
+ * @param value The raw `category` query parameter
+ */
+export function parseCategoryFilter(value: unknown): string[] {
+  const values = Array.isArray(value) ? value : [value];
+  return values
+    .filter((item): item is string => typeof item === 'string')
+    .flatMap(item => item.split(','))
+    .map(item => item.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Condition matching snippets tagged with any of the given categories
+ * (case-insensitive)
+ * @param names Category names to match
+ */
+export function inCategories(names: string[]): SQL | undefined {
+  if (names.length === 0) return undefined;
+  const lowered = names.map(name => name.toLowerCase());
+  return sql`EXISTS (
+    SELECT 1 FROM ${snippetCategories}
+    JOIN ${categories} ON ${categories.id} = ${snippetCategories.categoryId}
+    WHERE ${snippetCategories.snippetId} = ${snippets.id}
+    AND lower(${categories.name}) IN (${sql.join(lowered.map(name => sql`${name}`), sql`, `)})
+  )`;
+}
+
+/**
+ * List every category, including archived ones, in display order
+ */
+export async function listCategories() {
+  return db
+    .select({
+      id: categories.id,
+      name: categories.name,
+      displayName: categories.displayName,
+      color: categories.color,
+      icon: categories.icon,
+      description: categories.description,
+      languageMode: categories.languageMode,
+      position: categories.position,
+      archivedAt: categories.archivedAt,
+    })
+    .from(categories)
+    .orderBy(asc(categories.position), asc(categories.name));
+}
+
+/**
+ * Look up categories by exact name
+ * @param names Category names to resolve
+ * @returns The matching categories, any names that don't exist, and the
+ * names of matches that are archived
+ */
+export async function resolveCategories(names: string[]) {
+  const unique = Array.from(new Set(names));
+  const found = unique.length === 0
+    ? []
+    : await db.select().from(categories).where(inArray(categories.name, unique));
+
+  const foundNames = new Set(found.map(category => category.name));
+  return {
+    categories: found,
+    unknown: unique.filter(name => !foundNames.has(name)),
+    archived: found.filter(category => category.archivedAt).map(category => category.name),
+  };
+}
+
+/**
+ * Validate a category create or update request body
+ * @param body The request body
+ * @param partial Whether fields may be omitted (updates)
+ * @returns The values to write, or field-keyed validation errors
+ */
+export function parseCategoryInput(
+  body: Record<string, unknown>,
+  partial: boolean
+): { values: CategoryInput } | { errors: Record<string, string> } {
+  const errors: Record<string, string> = {};
+  const values: CategoryInput = {};
+
+  const text = (field: string, maxLength: number) => {
+    const value = body[field];
+    if (value === undefined) return undefined;
+    if (value === null || value === '') return null;
+    if (typeof value !== 'string') {
+      errors[field] = `${field} must be a string`;
+      return undefined;
+    }
+    if (value.trim().length > maxLength) {
+      errors[field] = `${field} must be at most ${maxLength} characters`;
+      return undefined;
+    }
+    return value.trim();
+  };
+
+  const name = text('name', 50);
+  if (name) {
+    if (!NAME_PATTERN.test(name)) {
+      errors.name = "Name may only contain letters, numbers, spaces and # + . _ -";
+    } else {
+      values.name = name;
+    }
+  } else if (name === null || !partial) {
+    errors.name = "Name is required";
+  }
+
+  const displayName = text('displayName', 50);
+  if (displayName) {
+    values.displayName = displayName;
+  } else if (displayName === null) {
+    errors.displayName = "Display name can't be empty";
+  } else if (!partial && values.name) {
+    values.displayName = values.name;
+  }
+
+  const color = text('color', 7);
+  if (color && !COLOR_PATTERN.test(color)) {
+    errors.color = "Colour must be a hex value like #1f6feb";
+  } else if (color !== undefined) {
+    values.color = color;
+  }
+
+  const icon = text('icon', 50);
+  if (icon !== undefined) values.icon = icon;
+
+  const description = text('description', 500);
+  if (description !== undefined) values.description = description;
+
+  const languageMode = text('languageMode', 30);
+  if (languageMode && !LANGUAGE_MODES.includes(languageMode as LanguageMode)) {
+    errors.languageMode = `Language mode must be one of: ${LANGUAGE_MODES.join(', ')}`;
+  } else if (languageMode) {
+    values.languageMode = languageMode;
+  }
+
+  if (body.archived !== undefined) {
+    if (typeof body.archived !== 'boolean') {
+      errors.archived = "archived must be true or false";
+    } else {
+      values.archivedAt = body.archived ? new Date() : null;
+    }
+  }
+
+  return Object.keys(errors).length > 0 ? { errors } : { values };
+}
+
+/**
+ * Check whether a category name is already used by another category
+ * @param name The name to check
+ * @param exceptId A category to ignore (the one being renamed)
+ */
+export async function isCategoryNameTaken(name: string, exceptId?: number) {
+  const [existing] = await db
+    .select({ id: categories.id })
+    .from(categories)
+    .where(and(
+      sql`lower(${categories.name}) = ${name.toLowerCase()}`,
+      exceptId === undefined ? undefined : ne(categories.id, exceptId)
+    ))
+    .limit(1);
+  return Boolean(existing);
+}
+
+/**
+ * Add a category at the end of the display order
+ * @param values Validated values from parseCategoryInput
+ */
+export async function createCategory(values: CategoryInput & Pick<NewCategory, 'name' | 'displayName'>) {
+  const [created] = await db
+    .insert(categories)
+    .values({
+      ...values,
+      position: sql`(SELECT COALESCE(MAX(${categories.position}), 0) + 1 FROM ${categories})`,
+    })
+    .returning();
+  return created;
+}
+
+/**
+ * Update a category. Renames are carried into the revision history so old
+ * revisions keep their categories when restored.
+ * @param id The category to update
+ * @param values Validated values from parseCategoryInput
+ * @returns The updated category, or null if it doesn't exist
+ */
+export async function updateCategory(id: number, values: CategoryInput) {
+  return db.transaction(async (tx) => {
+    const [existing] = await tx.select().from(categories).where(eq(categories.id, id)).limit(1);
+    if (!existing) return null;
+
+    const [updated] = await tx
+      .update(categories)
+      .set(values)
+      .where(eq(categories.id, id))
+      .returning();
+
+    if (values.name && values.name !== existing.name) {
+      await tx.execute(sql`
+        UPDATE ${snippetRevisions}
+        SET categories = (
+          SELECT json_agg(CASE WHEN name = ${existing.name} THEN ${values.name} ELSE name END)::text
+          FROM json_array_elements_text(${snippetRevisions.categories}::json) AS name
+        )
+        WHERE ${snippetRevisions.categories}::jsonb ? ${existing.name}
+      `);
+    }
+
+    return updated;
+  });
+}
+
+/**
+ * Set the display order of categories
+ * @param ids Every category id, in the new order
+ * @returns False unless the ids list every existing category exactly once
+ */
+export async function reorderCategories(ids: number[]) {
+  return db.transaction(async (tx) => {
+    const existing = await tx.select({ id: categories.id }).from(categories);
+    const existingIds = new Set(existing.map(category => category.id));
+    if (ids.length !== existingIds.size || new Set(ids).size !== ids.length || !ids.every(id => existingIds.has(id))) {
+      return false;
+    }
+
+    for (let index = 0; index < ids.length; index++) {
+      await tx.update(categories).set({ position: index + 1 }).where(eq(categories.id, ids[index]));
+    }
+    return true;
+  });
+}
+
+/**
+ * Get the category names of a single snippet
+ * @param executor Database handle or transaction to read with
+ * @param snippetId The snippet to look up
+ */
+export async function getSnippetCategoryNames(executor: DbExecutor, snippetId: number): Promise<string[]> {
+  const rows = await executor
+    .select({ name: categories.name })
+    .from(snippetCategories)
+    .innerJoin(categories, eq(categories.id, snippetCategories.categoryId))
+    .where(eq(snippetCategories.snippetId, snippetId))
+    .orderBy(asc(categories.name));
+
+  return rows.map(row => row.name);
+}
+
+/**
+ * Pick the syntax mode for a set of categories: that of the first one, by
+ * name, that has one. Matches how the client picks the editor language.
+ * @param rows The categories' names and language modes
+ * @returns The language mode, or null for plain text
+ */
+export function pickLanguageMode(rows: Array<{ name: string; languageMode: string }>): string | null {
+  const withMode = rows
+    .filter(row => row.languageMode !== 'plaintext')
+    .sort((a, b) => a.name.localeCompare(b.name));
+  return withMode.length > 0 ? withMode[0].languageMode : null;
+}
+
+/**
+ * Get the syntax mode of a snippet (see pickLanguageMode)
+ * @param snippetId The snippet to look up
+ * @returns The language mode, or null for plain text
+ */
+export async function getSnippetLanguageMode(snippetId: number): Promise<string | null> {
+  const rows = await db
+    .select({ name: categories.name, languageMode: categories.languageMode })
+    .from(snippetCategories)
+    .innerJoin(categories, eq(categories.id, snippetCategories.categoryId))
+    .where(eq(snippetCategories.snippetId, snippetId));
+
+  return pickLanguageMode(rows);
+}
+
+/**
+ * Replace the categories of a snippet
+ * @param executor Database handle or transaction to write with
+ * @param snippetId The snippet to update
+ * @param categoryIds The categories it should be tagged with
+ */
+export async function setSnippetCategories(executor: DbExecutor, snippetId: number, categoryIds: number[]) {
+  await executor.delete(snippetCategories).where(eq(snippetCategories.snippetId, snippetId));
+
+  if (categoryIds.length > 0) {
+    await executor
+      .insert(snippetCategories)
+      .values(categoryIds.map(categoryId => ({ snippetId, categoryId })))
+      .onConflictDoNothing();
+  }
+}
+
+/**
+ * Find an author's best leaderboard position overall and in each category.
+ * A position is the rank of the author's highest-voted snippet.
+ * @param authorId The author to look up
+ * @returns One entry per category plus `all`, with null where the author has no snippets
+ */
+export async function getLeaderboardPositions(authorId: number) {
+  const overall = await db.execute(sql`
+    SELECT MIN(position)::integer AS position
+    FROM (
+      SELECT author_id, ROW_NUMBER() OVER (ORDER BY votes DESC, id) AS position
+      FROM snippets
+    ) ranked
+    WHERE author_id = ${authorId}
+  `);
+
+  const byCategory = await db.execute(sql`
+    SELECT c.name AS category, ranked.position
+    FROM categories c
+    LEFT JOIN (
+      SELECT category_id, MIN(position)::integer AS position
+      FROM (
+        SELECT sc.category_id, s.author_id,
+          ROW_NUMBER() OVER (PARTITION BY sc.category_id ORDER BY s.votes DESC, s.id) AS position
+        FROM snippet_categories sc
+        JOIN snippets s ON s.id = sc.snippet_id
+      ) category_ranks
+      WHERE author_id = ${authorId}
+      GROUP BY category_id
+    ) ranked ON ranked.category_id = c.id
+    WHERE c.archived_at IS NULL OR ranked.position IS NOT NULL
+    ORDER BY c.position, c.name
+  `);
+
+  const overallRow = overall.rows[0] as { position: number | null } | undefined;
+  return [
+    ...(byCategory.rows as { category: string; position: number | null }[])
+      .map(row => ({ category: row.category, position: row.position ?? null })),
+    { category: 'all', position: overallRow?.position ?? null },
+  ];
+}
@@ -0,0 +1,40 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+// A transaction that sees snippets 10 and 20 in the collection and records
+// the positions set
+const { positions, tx } = vi.hoisted(() => {
+  const positions: number[] = [];
+  const tx = {
+    select: () => ({ from: () => ({ where: async () => [{ snippetId: 10 }, { snippetId: 20 }] }) }),
+    update: () => ({
+      set: ({ position }: { position?: number }) => ({
+        where: async () => { if (position !== undefined) positions.push(position); },
+      }),
+    }),
+  };
+  return { positions, tx };
+});
+
+vi.mock("@db", () => ({ db: { transaction: (fn: (t: typeof tx) => unknown) => fn(tx) } }));
+
+import { reorderCollectionSnippets } from "./collections";
+
+describe("reorderCollectionSnippets", () => {
+  beforeEach(() => {
+    positions.length = 0;
+  });
+
+  it("sets a position for every snippet in the collection", async () => {
+    expect(await reorderCollectionSnippets(1, [20, 10])).toBe(true);
+    expect(positions).toEqual([1, 2]);
+  });
+
+  it.each([
+    ["a duplicate id", [10, 10]],
+    ["a missing snippet", [10]],
+    ["a snippet not in the collection", [10, 30]],
+  ])("rejects a list with %s", async (_, snippetIds) => {
+    expect(await reorderCollectionSnippets(1, snippetIds)).toBe(false);
+    expect(positions).toEqual([]);
+  });
+});
@@ -0,0 +1,249 @@
+import { db } from "@db";
+import { collections, collectionSnippets, users, type NewCollection } from "@db/schema";
+import { eq, and, desc, sql } from "drizzle-orm";
+
+/**
+ * Collections
+ *
+ * Named, ordered sets of snippets that a user curates, e.g. a starter kit
+ * for a team. A collection is private to its owner until it's made public;
+ * private collections look the same as missing ones to everyone else.
+ */
+
+export type CollectionInput = Partial<Pick<NewCollection, 'name' | 'description' | 'isPublic'>>;
+
+// Columns returned for each collection
+const collectionFields = {
+  id: collections.id,
+  name: collections.name,
+  description: collections.description,
+  isPublic: collections.isPublic,
+  ownerId: collections.ownerId,
+  ownerUsername: users.username,
+  createdAt: collections.createdAt,
+  updatedAt: collections.updatedAt,
+  snippetCount: sql<number>`(
+    SELECT COUNT(*)::integer FROM ${collectionSnippets}
+    WHERE ${collectionSnippets.collectionId} = ${collections.id}
+  )`,
+};
+
+/**
+ * Validate a collection create or update request body
+ * @param body The request body
+ * @param partial Whether fields may be omitted (updates)
+ * @returns The values to write, or field-keyed validation errors
+ */
+export function parseCollectionInput(
+  body: Record<string, unknown>,
+  partial: boolean
+): { values: CollectionInput } | { errors: Record<string, string> } {
+  const errors: Record<string, string> = {};
+  const values: CollectionInput = {};
+
+  const { name, description, isPublic } = body;
+
+  if (name !== undefined) {
+    if (typeof name !== 'string' || !name.trim()) {
+      errors.name = "Name is required";
+    } else if (name.trim().length > 100) {
+      errors.name = "Name must be at most 100 characters";
+    } else {
+      values.name = name.trim();
+    }
+  } else if (!partial) {
+    errors.name = "Name is required";
+  }
+
+  if (description === null || description === '') {
+    values.description = null;
+  } else if (description !== undefined) {
+    if (typeof description !== 'string') {
+      errors.description = "description must be a string";
+    } else if (description.trim().length > 1000) {
+      errors.description = "Description must be at most 1000 characters";
+    } else {
+      values.description = description.trim();
+    }
+  }
+
+  if (isPublic !== undefined) {
+    if (typeof isPublic !== 'boolean') {
+      errors.isPublic = "isPublic must be true or false";
+    } else {
+      values.isPublic = isPublic;
+    }
+  }
+
+  return Object.keys(errors).length > 0 ? { errors } : { values };
+}
+
+/**
+ * List a user's collections, most recently updated first
+ * @param ownerId The collections' owner
+ * @param includePrivate Whether to include private collections (the owner is looking)
+ * @param snippetId A snippet to report membership of as `containsSnippet`
+ */
+export async function listCollections(ownerId: number, includePrivate: boolean, snippetId?: number) {
+  const rows = await db
+    .select({
+      ...collectionFields,
+      containsSnippet: snippetId === undefined
+        ? sql<boolean>`false`
+        : sql<boolean>`EXISTS (
+            SELECT 1 FROM ${collectionSnippets}
+            WHERE ${collectionSnippets.collectionId} = ${collections.id}
+            AND ${collectionSnippets.snippetId} = ${snippetId}
+          )`,
+    })
+    .from(collections)
+    .innerJoin(users, eq(collections.ownerId, users.id))
+    .where(and(
+      eq(collections.ownerId, ownerId),
+      includePrivate ? undefined : eq(collections.isPublic, true)
+    ))
+    .orderBy(desc(collections.updatedAt), desc(collections.id));
+
+  return snippetId === undefined
+    ? rows.map(({ containsSnippet, ...collection }) => collection)
+    : rows;
+}
+
+/**
+ * Get a collection if the given user may see it
+ * @param id The collection to look up
+ * @param viewerId The user asking, if logged in
+ * @returns The collection, or null if it doesn't exist or is private to someone else
+ */
+export async function getVisibleCollection(id: number, viewerId: number | undefined) {
+  const [collection] = await db
+    .select(collectionFields)
+    .from(collections)
+    .innerJoin(users, eq(collections.ownerId, users.id))
+    .where(eq(collections.id, id))
+    .limit(1);
+
+  if (!collection || (!collection.isPublic && collection.ownerId !== viewerId)) {
+    return null;
+  }
+  return collection;
+}
+
+/**
+ * Get the owner and visibility of a collection, for checking who may change it
+ * @returns The owner's id and whether it's public, or null if the collection doesn't exist
+ */
+export async function getCollectionOwner(id: number): Promise<{ ownerId: number; isPublic: boolean } | null> {
+  const [collection] = await db
+    .select({ ownerId: collections.ownerId, isPublic: collections.isPublic })
+    .from(collections)
+    .where(eq(collections.id, id))
+    .limit(1);
+  return collection ?? null;
+}
+
+/**
+ * Create a collection
+ * @param ownerId The user creating it
+ * @param values Validated values from parseCollectionInput
+ */
+export async function createCollection(ownerId: number, values: CollectionInput & Pick<NewCollection, 'name'>) {
+  const [created] = await db
+    .insert(collections)
+    .values({ ...values, ownerId })
+    .returning();
+  return created;
+}
+
+/**
+ * Update a collection's name, description or visibility
+ * @param id The collection to update
+ * @param values Validated values from parseCollectionInput
+ */
+export async function updateCollection(id: number, values: CollectionInput) {
+  const [updated] = await db
+    .update(collections)
+    .set({ ...values, updatedAt: new Date() })
+    .where(eq(collections.id, id))
+    .returning();
+  return updated;
+}
+
+/**
+ * Add a snippet at the end of a collection. Adding a snippet that's already
+ * in the collection leaves it where it is.
+ * @param collectionId The collection to add to
+ * @param snippetId The snippet to add
+ */
+export async function addSnippetToCollection(collectionId: number, snippetId: number) {
+  await db.transaction(async (tx) => {
+    await tx
+      .insert(collectionSnippets)
+      .values({
+        collectionId,
+        snippetId,
+        position: sql`(
+          SELECT COALESCE(MAX(${collectionSnippets.position}), 0) + 1 FROM ${collectionSnippets}
+          WHERE ${collectionSnippets.collectionId} = ${collectionId}
+        )`,
+      })
+      .onConflictDoNothing();
+    await tx.update(collections).set({ updatedAt: new Date() }).where(eq(collections.id, collectionId));
+  });
+}
+
+/**
+ * Remove a snippet from a collection
+ * @returns False if the snippet wasn't in the collection
+ */
+export async function removeSnippetFromCollection(collectionId: number, snippetId: number) {
+  return db.transaction(async (tx) => {
+    const removed = await tx
+      .delete(collectionSnippets)
+      .where(and(
+        eq(collectionSnippets.collectionId, collectionId),
+        eq(collectionSnippets.snippetId, snippetId)
+      ))
+      .returning();
+    if (removed.length === 0) return false;
+
+    await tx.update(collections).set({ updatedAt: new Date() }).where(eq(collections.id, collectionId));
+    return true;
+  });
+}
+
+/**
+ * Set the order of the snippets in a collection
+ * @param collectionId The collection to reorder
+ * @param snippetIds Every snippet id in the collection, in the new order
+ * @returns False unless the ids list every snippet in the collection exactly once
+ */
+export async function reorderCollectionSnippets(collectionId: number, snippetIds: number[]) {
+  return db.transaction(async (tx) => {
+    const existing = await tx
+      .select({ snippetId: collectionSnippets.snippetId })
+      .from(collectionSnippets)
+      .where(eq(collectionSnippets.collectionId, collectionId));
+    const existingIds = new Set(existing.map(row => row.snippetId));
+    if (
+      snippetIds.length !== existingIds.size ||
+      new Set(snippetIds).size !== snippetIds.length ||
+      !snippetIds.every(id => existingIds.has(id))
+    ) {
+      return false;
+    }
+
+    for (let index = 0; index < snippetIds.length; index++) {
+      await tx
+        .update(collectionSnippets)
+        .set({ position: index + 1 })
+        .where(and(
+          eq(collectionSnippets.collectionId, collectionId),
+          eq(collectionSnippets.snippetId, snippetIds[index])
+        ));
+    }
+    await tx.update(collections).set({ updatedAt: new Date() }).where(eq(collections.id, collectionId));
+    return true;
+  });
+}
+
@@ -0,0 +1,152 @@
+import { db } from "@db";
+import { comments, users } from "@db/schema";
+import { eq, asc } from "drizzle-orm";
+import { renderCommentMarkdown, extractMentions, type MarkdownBlock } from "./markdown";
+import { resolveMentions } from "./notifications";
+
+/**
+ * Comments
+ *
+ * Comments on a snippet form threads: a reply points at the comment it
+ * answers through `parentId`. Authors can edit their comments, which marks
+ * them as edited. Deleting a comment (by its author or a moderator) only blanks
+ * it, so the replies under it keep their place in the thread.
+ *
+ * Content is stored as typed and returned both raw (for editing) and as
+ * rendered Markdown blocks (for display).
+ */
+
+export const MAX_COMMENT_LENGTH = 10000;
+
+// Columns returned for each comment
+const commentFields = {
+  id: comments.id,
+  content: comments.content,
+  parentId: comments.parentId,
+  createdAt: comments.createdAt,
+  editedAt: comments.editedAt,
+  deletedAt: comments.deletedAt,
+  authorId: comments.authorId,
+  authorUsername: users.username,
+  authorWebsite: users.website,
+};
+
+/**
+ * Prepare comments for a response: render their Markdown (see markdown.ts)
+ * with links for the users they mention, and hide who wrote the deleted ones
+ */
+async function present<T extends { content: string; deletedAt: Date | null; authorUsername: string | null; authorWebsite: string | null }>(
+  rows: T[]
+): Promise<(T & { blocks: MarkdownBlock[] })[]> {
+  const mentions = await resolveMentions(Array.from(new Set(
+    rows.filter(row => !row.deletedAt).flatMap(row => extractMentions(row.content))
+  )));
+
+  return rows.map(row => row.deletedAt
+    ? { ...row, authorUsername: null, authorWebsite: null, blocks: [] }
+    : { ...row, blocks: renderCommentMarkdown(row.content, mentions) });
+}
+
+/**
+ * Validate the content of a new or edited comment
+ * @returns The trimmed content, or an error message for a 400 response
+ */
+export function parseCommentContent(content: unknown): { content: string } | { error: string } {
+  if (typeof content !== 'string' || !content.trim()) {
+    return { error: "Comment content is required" };
+  }
+  if (content.trim().length > MAX_COMMENT_LENGTH) {
+    return { error: `Comments must be at most ${MAX_COMMENT_LENGTH} characters` };
+  }
+  return { content: content.trim() };
+}
+
+/**
+ * Every comment on a snippet, oldest first, for the client to arrange
+ * into threads. Deleted comments are included with their content removed.
+ * @param snippetId The snippet whose comments to list
+ */
+export async function listComments(snippetId: number) {
+  const rows = await db
+    .select(commentFields)
+    .from(comments)
+    .leftJoin(users, eq(comments.authorId, users.id))
+    .where(eq(comments.snippetId, snippetId))
+    .orderBy(asc(comments.createdAt), asc(comments.id));
+  return present(rows);
+}
+
+/**
+ * Get a single comment with its author's details
+ * @returns The comment, or null if it doesn't exist
+ */
+export async function getComment(id: number) {
+  const [comment] = await db
+    .select(commentFields)
+    .from(comments)
+    .leftJoin(users, eq(comments.authorId, users.id))
+    .where(eq(comments.id, id))
+    .limit(1);
+  if (!comment) return null;
+  const [presented] = await present([comment]);
+  return presented;
+}
+
+/**
+ * Get a comment without its author's details, to check who may reply to,
+ * edit or delete it
+ * @returns The comment, or null if it doesn't exist
+ */
+export async function getCommentAccess(id: number) {
+  const [comment] = await db
+    .select({
+      id: comments.id,
+      snippetId: comments.snippetId,
+      authorId: comments.authorId,
+      parentId: comments.parentId,
+      content: comments.content,
+      deletedAt: comments.deletedAt,
+    })
+    .from(comments)
+    .where(eq(comments.id, id))
+    .limit(1);
+  return comment ?? null;
+}
+
+/**
+ * Add a comment or reply to a snippet
+ * @param snippetId The snippet commented on
+ * @param authorId The commenting user
+ * @param content Validated content from parseCommentContent
+ * @param parentId The comment being replied to, checked by the caller to belong to the snippet
+ */
+export async function createComment(snippetId: number, authorId: number, content: string, parentId: number | null) {
+  const [created] = await db
+    .insert(comments)
+    .values({ snippetId, authorId, content, parentId, createdAt: new Date() })
+    .returning({ id: comments.id });
+  return getComment(created.id);
+}
+
+/**
+ * Replace a comment's content and mark it as edited
+ */
+export async function editComment(id: number, content: string) {
+  await db
+    .update(comments)
+    .set({ content, editedAt: new Date() })
+    .where(eq(comments.id, id));
+  return getComment(id);
+}
+
+/**
+ * Blank a comment, keeping its row so the replies under it stay threaded
+ * @param id The comment to delete
+ * @param deletedBy The user deleting it: its author or a moderator
+ */
+export async function softDeleteComment(id: number, deletedBy: number) {
+  await db
+    .update(comments)
+    .set({ content: '', deletedAt: new Date(), deletedBy })
+    .where(eq(comments.id, id));
+}
@@ -0,0 +1,64 @@
+import { describe, it, expect } from "vitest";
+import { formatDax } from "./formatter";
+
+describe("formatDax", () => {
+  it("formats a measure with variables", () => {
+    expect(formatDax("Total = var x = sum(Sales[Amount]) return x * 2")).toBe([
+      "Total =",
+      "    VAR x = SUM ( Sales[Amount] )",
+      "    RETURN",
+      "        x * 2",
+      "",
+    ].join("\n"));
+  });
+
+  it("formats a query with DEFINE, EVALUATE, ORDER BY and START AT", () => {
+    const query = "define measure Sales[Total] = sum(Sales[Amount]) measure 'Sales'[Count] = countrows(Sales) " +
+      "column Sales[Double] = Sales[Amount] * 2 table Top = topn(10, Sales) " +
+      "evaluate Sales order by Sales[Amount] desc start at 100";
+    expect(formatDax(query)).toBe([
+      "DEFINE",
+      "    MEASURE Sales[Total] = SUM ( Sales[Amount] )",
+      "    MEASURE 'Sales'[Count] = COUNTROWS ( Sales )",
+      "    COLUMN Sales[Double] = Sales[Amount] * 2",
+      "    TABLE Top = TOPN ( 10, Sales )",
+      "EVALUATE",
+      "    Sales",
+      "ORDER BY",
+      "    Sales[Amount] DESC",
+      "START AT",
+      "    100",
+      "",
+    ].join("\n"));
+  });
+
+  it("keeps RETURN and its unary operand together inside a call", () => {
+    expect(formatDax("Total = CALCULATE(VAR x = 1 RETURN -x, ALL(Sales))"))
+      .toBe("Total = CALCULATE ( VAR x = 1 RETURN -x, ALL ( Sales ) )\n");
+  });
+
+  it.each([
+    ["Measure = 1"],
+    ["Return = 1"],
+    ["Table := 1"],
+    ["Column = [Sales] + 1"],
+    ["Order = 1"],
+    ["By = 1"],
+    ["Start = 1"],
+    ["At = 1"],
+    ["Measure Count = COUNTROWS ( Sales )"],
+  ])("leaves a measure named like a clause keyword as written: %s", (source) => {
+    expect(formatDax(source)).toBe(`${source}\n`);
+  });
+
+  it("leaves variables named like clause keywords as written", () => {
+    expect(formatDax("Total = VAR Start = 1 VAR At = 2 RETURN Start + At")).toBe([
+      "Total =",
+      "    VAR Start = 1",
+      "    VAR At = 2",
+      "    RETURN",
+      "        Start + At",
+      "",
+    ].join("\n"));
+  });
+});
@@ -0,0 +1,300 @@
+import { tokenizeDax, type DaxToken } from "./tokenizer";
+import { parseDax, type DaxNode, type DaxGroupNode, type DaxTokenNode } from "./parser";
+
+/**
+ * DAX Formatter
+ *
+ * Formats DAX in the style popularised by daxformatter.com: upper-case
+ * functions and keywords, a space inside call parentheses, each VAR and
+ * RETURN on its own line, and calls broken one argument per line when they
+ * don't fit within MAX_WIDTH. Runs entirely in-process.
+ */
+
+const INDENT = '    ';
+const MAX_WIDTH = 80;
+
+const KEYWORDS = new Set(['VAR', 'DEFINE', 'EVALUATE', 'ASC', 'DESC', 'IN', 'NOT']);
+
+// Words that are only keywords where they start a clause; anywhere else
+// they can name a measure or variable, as in `Return = 1` or `VAR Start = 0`
+const CLAUSE_WORDS = new Set(['RETURN', 'MEASURE', 'COLUMN', 'TABLE', 'ORDER', 'BY', 'START', 'AT']);
+
+// Clauses that start a new line; the ones in BODY_CLAUSES put their body
+// on the following lines, the others are `KEYWORD name = expression`
+const DEFINITION_CLAUSES = new Set(['VAR', 'MEASURE', 'COLUMN', 'TABLE']);
+const BODY_CLAUSES = new Set(['RETURN', 'EVALUATE', 'DEFINE', 'ORDER BY', 'START AT']);
+
+const pad = (indent: number) => INDENT.repeat(indent);
+
+function upper(token: DaxToken) {
+  return token.type === 'identifier' ? token.text.toUpperCase() : token.text;
+}
+
+function isCallee(node: DaxNode, next: DaxNode | undefined) {
+  return node.kind === 'token' && next?.kind === 'group' && next.callee === node.token;
+}
+
+/**
+ * Whether the identifier at `index` is a keyword rather than a name
+ */
+function isKeyword(nodes: DaxNode[], index: number) {
+  const node = nodes[index];
+  if (node?.kind !== 'token' || node.token.type !== 'identifier') return false;
+  const word = upper(node.token);
+  if (KEYWORDS.has(word)) return true;
+  if (!CLAUSE_WORDS.has(word)) return false;
+  // The second word of ORDER BY and START AT
+  if (word === 'BY' || word === 'AT') return clauseKeyword(nodes, index - 1, false)?.endsWith(word) ?? false;
+  return clauseKeyword(nodes, index, false) !== null;
+}
+
+function tokenText(nodes: DaxNode[], index: number) {
+  const node = nodes[index] as DaxTokenNode;
+  if (isKeyword(nodes, index) || isCallee(node, nodes[index + 1])) return node.token.text.toUpperCase();
+  return node.token.text;
+}
+
+/**
+ * Whether an operator is a prefix sign (-1, -[Amount]) rather than binary
+ */
+function isUnary(nodes: DaxNode[], index: number) {
+  const node = nodes[index];
+  if (node.kind !== 'token' || node.token.type !== 'operator' || !['-', '+'].includes(node.token.text)) {
+    return false;
+  }
+  const previous = nodes[index - 1];
+  return !previous || (previous.kind === 'token' && (
+    previous.token.type === 'operator' ||
+    previous.token.type === 'comma' ||
+    isKeyword(nodes, index - 1)
+  ));
+}
+
+/**
+ * The separator to put between two adjacent nodes of a sequence
+ */
+function separator(nodes: DaxNode[], index: number) {
+  if (index === 0) return '';
+  const previous = nodes[index - 1];
+  const node = nodes[index];
+
+  if (node.kind === 'token') {
+    if (node.token.type === 'comma') return '';
+    // Keep Sales[Amount] and 'Sales'[Amount] together
+    if (node.token.type === 'column' && !node.token.spaceBefore && previous.kind === 'token' &&
+        (previous.token.type === 'identifier' || previous.token.type === 'table')) {
+      return '';
+    }
+  }
+  if (isUnary(nodes, index - 1)) return '';
+  return ' ';
+}
+
+function flatGroup(group: DaxGroupNode): string | null {
+  if (group.args.length === 0) return `${group.open.text}${group.close.text}`;
+  const args = group.args.map(flat);
+  if (args.some(arg => arg === null)) return null;
+  return `${group.open.text} ${args.join(', ')} ${group.close.text}`;
+}
+
+/**
+ * Render a sequence on a single line, or null if it can't be (it holds a
+ * line comment or a clause keyword)
+ */
+function flat(nodes: DaxNode[]): string | null {
+  let out = '';
+  for (let index = 0; index < nodes.length; index++) {
+    const node = nodes[index];
+    if (node.kind === 'token' && node.token.lineComment) return null;
+    const text = node.kind === 'group' ? flatGroup(node) : tokenText(nodes, index);
+    if (text === null) return null;
+    out += separator(nodes, index) + text;
+  }
+  return out;
+}
+
+const lastLineLength = (text: string) => text.length - text.lastIndexOf('\n') - 1;
+
+/**
+ * Split comments off the end of a sequence so they can follow a comma or
+ * sit at the end of a line that otherwise fits
+ */
+function splitTrailingComments(nodes: DaxNode[]): [DaxNode[], string] {
+  let end = nodes.length;
+  while (end > 0) {
+    const node = nodes[end - 1];
+    if (node.kind !== 'token' || node.token.type !== 'comment') break;
+    end--;
+  }
+  const comments = nodes.slice(end).map(node => (node as DaxTokenNode).token.text).join(' ');
+  return [nodes.slice(0, end), comments ? ` ${comments}` : ''];
+}
+
+function renderGroup(group: DaxGroupNode, indent: number): string {
+  if (group.args.length === 0) return `${group.open.text}${group.close.text}`;
+  const args = group.args.map((arg, index) => {
+    // A comment ending the argument goes after its comma, not before it
+    const [body, comments] = splitTrailingComments(arg);
+    const comma = index < group.args.length - 1 ? ',' : '';
+    return `${pad(indent + 1)}${render(body, indent + 1, (indent + 1) * INDENT.length)}${comma}${comments}`;
+  });
+  return `${group.open.text}\n${args.join('\n')}\n${pad(indent)}${group.close.text}`;
+}
+
+interface Clause {
+  keyword: string | null;
+  nodes: DaxNode[];
+}
+
+/**
+ * The clause a word starts, if it's in a clause position: MEASURE, COLUMN
+ * and TABLE start a definition inside DEFINE, the rest start a clause
+ * wherever they're followed by a name or expression. A word followed by
+ * `=` or `:=` is a name being defined, not a clause.
+ */
+function clauseKeyword(nodes: DaxNode[], index: number, inDefine: boolean): string | null {
+  const node = nodes[index];
+  if (node?.kind !== 'token' || node.token.type !== 'identifier') return null;
+  const word = upper(node.token);
+  const next = nodes[index + 1];
+  if (next?.kind === 'token' && ['=', ':='].includes(next.token.text)) return null;
+  const nextWord = next?.kind === 'token' && next.token.type === 'identifier' ? upper(next.token) : null;
+  const nextIsName = next?.kind === 'token' && (next.token.type === 'identifier' || next.token.type === 'table');
+
+  if (word === 'ORDER' && nextWord === 'BY') return 'ORDER BY';
+  if (word === 'START' && nextWord === 'AT') return 'START AT';
+  if (word === 'MEASURE' || word === 'COLUMN' || word === 'TABLE') return inDefine && nextIsName ? word : null;
+  if (DEFINITION_CLAUSES.has(word) || BODY_CLAUSES.has(word)) return word;
+  return null;
+}
+
+function splitClauses(nodes: DaxNode[]): Clause[] | null {
+  const clauses: Clause[] = [{ keyword: null, nodes: [] }];
+  let inDefine = false;
+
+  for (let index = 0; index < nodes.length; index++) {
+    const keyword = clauseKeyword(nodes, index, inDefine);
+    if (keyword) {
+      if (keyword === 'DEFINE') inDefine = true;
+      if (keyword === 'EVALUATE') inDefine = false;
+      clauses.push({ keyword, nodes: [] });
+      if (keyword.includes(' ')) index++;
+      continue;
+    }
+    clauses[clauses.length - 1].nodes.push(nodes[index]);
+  }
+
+  return clauses.length > 1 ? clauses : null;
+}
+
+function renderClauses(clauses: Clause[], indent: number, column: number): string {
+  const lines: string[] = [];
+  const [prefix, ...rest] = clauses;
+
+  // A measure definition (`Total Sales =`) puts its VARs on the next lines, indented
+  let clauseIndent = indent;
+  if (prefix.nodes.length > 0) {
+    lines.push(render(prefix.nodes, indent, column));
+    const last = prefix.nodes[prefix.nodes.length - 1];
+    if (last.kind === 'token' && last.token.type === 'operator') clauseIndent = indent + 1;
+  }
+
+  let defineIndent = 0;
+  for (const { keyword, nodes } of rest) {
+    if (keyword === 'DEFINE') defineIndent = 0;
+    const level = clauseIndent + (keyword !== null && DEFINITION_CLAUSES.has(keyword) ? defineIndent : 0);
+
+    if (keyword !== null && DEFINITION_CLAUSES.has(keyword)) {
+      const equals = nodes.findIndex(node => node.kind === 'token' && node.token.text === '=');
+      if (equals === -1) {
+        lines.push(`${pad(level)}${keyword} ${render(nodes, level, 0)}`.trimEnd());
+        continue;
+      }
+      const head = `${pad(level)}${keyword} ${flat(nodes.slice(0, equals)) ?? ''} =`;
+      const [expression, comments] = splitTrailingComments(nodes.slice(equals + 1));
+      const flatExpression = flat(expression);
+      if (flatExpression !== null && head.length + 1 + flatExpression.length <= MAX_WIDTH) {
+        lines.push(`${head} ${flatExpression}${comments}`);
+      } else {
+        lines.push(`${head}\n${pad(level + 1)}${render(expression, level + 1, (level + 1) * INDENT.length)}${comments}`);
+      }
+      continue;
+    }
+
+    if (keyword === 'DEFINE') {
+      lines.push(`${pad(level)}DEFINE`);
+      defineIndent = 1;
+      if (nodes.length > 0) lines.push(pad(level + 1) + render(nodes, level + 1, (level + 1) * INDENT.length));
+      continue;
+    }
+    if (keyword === 'EVALUATE') defineIndent = 0;
+
+    lines.push(nodes.length === 0
+      ? `${pad(level)}${keyword}`
+      : `${pad(level)}${keyword}\n${pad(level + 1)}${render(nodes, level + 1, (level + 1) * INDENT.length)}`);
+  }
+
+  // The first line is placed by the caller
+  return lines.map(line => line.replace(/\s+$/, '')).join('\n').replace(/^\s+/, '');
+}
+
+/**
+ * Render a sequence starting at the given column, breaking it over several
+ * lines where it doesn't fit
+ */
+function render(nodes: DaxNode[], indent: number, column: number): string {
+  const clauses = splitClauses(nodes);
+  if (clauses) return renderClauses(clauses, indent, column);
+
+  const single = flat(nodes);
+  if (single !== null && column + single.length <= MAX_WIDTH) return single;
+
+  let out = '';
+  let col = column;
+  let breakNext = false;
+
+  // Conditions that don't fit put each && and || on a new line
+  const breakLogical = nodes.some((node, index) => index > 0 && node.kind === 'token' &&
+    node.token.type === 'operator' && ['&&', '||'].includes(node.token.text));
+
+  for (let index = 0; index < nodes.length; index++) {
+    const node = nodes[index];
+    let sep = separator(nodes, index);
+    if (breakNext) {
+      sep = `\n${pad(indent)}`;
+      breakNext = false;
+    }
+
+    let text: string;
+    if (node.kind === 'group') {
+      const flatText = flatGroup(node);
+      text = flatText !== null && lastLineLength(out + sep) + flatText.length <= MAX_WIDTH
+        ? flatText
+        : renderGroup(node, indent);
+    } else {
+      text = tokenText(nodes, index);
+      if (breakLogical && index > 0 && node.token.type === 'operator' && ['&&', '||'].includes(node.token.text)) {
+        sep = `\n${pad(indent)}`;
+      }
+      if (node.token.lineComment) breakNext = true;
+    }
+
+    out += sep + text;
+    col = out.includes('\n') ? lastLineLength(out) : column + out.length;
+  }
+
+  return out;
+}
+
+/**
+ * Format DAX source
+ * @param source The DAX expression or query
+ * @throws DaxSyntaxError when the source can't be tokenized or has unbalanced brackets
+ */
+export function formatDax(source: string): string {
+  const tree = parseDax(tokenizeDax(source));
+  return render(tree, 0, 0)
+    .split('\n')
+    .map(line => line.replace(/\s+$/, ''))
+    .join('\n') + '\n';
+}
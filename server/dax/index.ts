@@ -0,0 +1,3 @@
+export { tokenizeDax, DaxSyntaxError } from "./tokenizer";
+export { formatDax } from "./formatter";
+export { lintDax, type DaxLintWarning, type DaxLintRule } from "./lint";
@@ -0,0 +1,197 @@
+import { tokenizeDax, type DaxToken } from "./tokenizer";
+import { parseDax, walkGroups, walkTokens, type DaxNode, type DaxGroupNode } from "./parser";
+
+/**
+ * DAX Linter
+ *
+ * Flags common anti-patterns in DAX snippets. Rules work on a single
+ * snippet without the data model, so they're heuristics: a warning is a
+ * prompt to look again, not proof of a bug.
+ */
+
+export type DaxLintRule =
+  | 'filter-whole-table'
+  | 'iferror'
+  | 'repeated-expression'
+  | 'unqualified-column';
+
+export interface DaxLintWarning {
+  rule: DaxLintRule;
+  message: string;
+  // 1-based positions; the range covers the offending expression
+  line: number;
+  column: number;
+  endLine: number;
+  endColumn: number;
+}
+
+// Functions whose first argument must be a column
+const COLUMN_FUNCTIONS = new Set([
+  'SUM', 'AVERAGE', 'MIN', 'MAX', 'COUNT', 'COUNTA', 'COUNTBLANK', 'DISTINCTCOUNT',
+  'DISTINCTCOUNTNOBLANK', 'VALUES', 'DISTINCT', 'SELECTEDVALUE', 'HASONEVALUE',
+  'HASONEFILTER', 'ISFILTERED', 'ISCROSSFILTERED', 'RELATED', 'FIRSTNONBLANK',
+  'LASTNONBLANK', 'USERELATIONSHIP', 'TREATAS', 'ALLNOBLANKROW',
+]);
+
+// Repeated calls shorter than this (e.g. BLANK ()) aren't worth a variable
+const MIN_REPEATED_LENGTH = 12;
+
+function span(start: DaxToken, end: DaxToken) {
+  const endLines = end.text.split('\n');
+  return {
+    line: start.line,
+    column: start.column,
+    endLine: end.line + endLines.length - 1,
+    endColumn: (endLines.length > 1 ? 1 : end.column) + endLines[endLines.length - 1].length,
+  };
+}
+
+/**
+ * Source text of a group and its callee with whitespace normalised, used to
+ * spot repeated expressions regardless of layout
+ */
+function groupKey(group: DaxGroupNode): string {
+  const parts: string[] = [];
+  const add = (nodes: DaxNode[]) => {
+    for (const node of nodes) {
+      if (node.kind === 'token') {
+        if (node.token.type !== 'comment') parts.push(node.token.type === 'identifier' ? node.token.text.toUpperCase() : node.token.text);
+      } else {
+        if (node.callee) parts.push(node.callee.text.toUpperCase());
+        parts.push(node.open.text);
+        node.args.forEach((arg, index) => {
+          if (index > 0) parts.push(',');
+          add(arg);
+        });
+        parts.push(node.close.text);
+      }
+    }
+  };
+  add([group]);
+  return parts.join(' ');
+}
+
+/**
+ * Names declared with VAR, which are tables or values rather than model tables
+ */
+function variableNames(tree: DaxNode[]): Set<string> {
+  const names = new Set<string>();
+  walkTokens(tree, (token, previous) => {
+    if (token.type === 'identifier' && previous?.type === 'identifier' && previous.text.toUpperCase() === 'VAR') {
+      names.add(token.text.toUpperCase());
+    }
+  });
+  return names;
+}
+
+function lintFilterWholeTable(tree: DaxNode[], variables: Set<string>, warnings: DaxLintWarning[]) {
+  walkGroups(tree, (group) => {
+    if (group.callee?.text.toUpperCase() !== 'FILTER' || group.args.length === 0) return;
+    const [table] = group.args[0];
+    if (group.args[0].length !== 1 || table.kind !== 'token') return;
+    const { token } = table;
+    if (token.type === 'table' || (token.type === 'identifier' && !variables.has(token.text.toUpperCase()))) {
+      warnings.push({
+        rule: 'filter-whole-table',
+        message: `FILTER iterates every row of ${token.text}. Filter only the columns you need, e.g. FILTER ( ALL ( ${token.text}[Column] ), ... ) or a plain column predicate in CALCULATE.`,
+        ...span(group.callee!, group.close),
+      });
+    }
+  });
+}
+
+function lintIferror(tree: DaxNode[], warnings: DaxLintWarning[]) {
+  walkGroups(tree, (group) => {
+    if (group.callee?.text.toUpperCase() !== 'IFERROR') return;
+    warnings.push({
+      rule: 'iferror',
+      message: 'IFERROR hides errors and stops the engine from optimising the expression. Use DIVIDE for division, or test the condition with IF.',
+      ...span(group.callee, group.close),
+    });
+  });
+}
+
+function lintRepeatedExpressions(tree: DaxNode[], warnings: DaxLintWarning[]) {
+  const occurrences = new Map<string, DaxGroupNode[]>();
+  walkGroups(tree, (group) => {
+    if (!group.callee || group.args.length === 0) return;
+    const key = groupKey(group);
+    if (key.length < MIN_REPEATED_LENGTH) return;
+    occurrences.set(key, [...(occurrences.get(key) ?? []), group]);
+  });
+
+  // Report the largest repeated expressions first, and skip ones that only
+  // repeat because they're inside a larger reported one
+  const repeated = Array.from(occurrences.entries())
+    .filter(([, groups]) => groups.length > 1)
+    .sort(([a], [b]) => b.length - a.length);
+  const reported: [number, number][] = [];
+  const isInsideReported = (group: DaxGroupNode) =>
+    reported.some(([start, end]) => group.callee!.offset >= start && group.close.offset <= end);
+
+  for (const [, groups] of repeated) {
+    if (groups.every(isInsideReported)) continue;
+    groups.forEach(group => reported.push([group.callee!.offset, group.close.offset]));
+    const [first, ...rest] = groups;
+    const name = first.callee!.text.toUpperCase();
+    for (const group of rest) {
+      warnings.push({
+        rule: 'repeated-expression',
+        message: `This ${name} ( ... ) expression appears ${groups.length} times. Compute it once in a VAR and reuse the variable.`,
+        ...span(group.callee!, group.close),
+      });
+    }
+  }
+}
+
+function lintUnqualifiedColumns(tree: DaxNode[], warnings: DaxLintWarning[]) {
+  const qualified = new Map<string, string>();
+  const unqualified: DaxToken[] = [];
+
+  walkTokens(tree, (token, previous) => {
+    if (token.type !== 'column') return;
+    if (!token.spaceBefore && previous && (previous.type === 'table' || previous.type === 'identifier')) {
+      qualified.set(token.text.toLowerCase(), previous.text);
+    } else {
+      unqualified.push(token);
+    }
+  });
+
+  // Arguments that have to be columns
+  const mustBeColumns = new Set<DaxToken>();
+  walkGroups(tree, (group) => {
+    const first = group.args[0];
+    if (group.callee && COLUMN_FUNCTIONS.has(group.callee.text.toUpperCase()) &&
+        first?.length === 1 && first[0].kind === 'token' && first[0].token.type === 'column') {
+      mustBeColumns.add(first[0].token);
+    }
+  });
+
+  for (const token of unqualified) {
+    const table = qualified.get(token.text.toLowerCase());
+    if (!table && !mustBeColumns.has(token)) continue;
+    warnings.push({
+      rule: 'unqualified-column',
+      message: `Column ${token.text} should be qualified with its table, e.g. ${table ?? 'Table'}${token.text}. Leave only measures unqualified.`,
+      ...span(token, token),
+    });
+  }
+}
+
+/**
+ * Lint DAX source
+ * @param source The DAX expression or query
+ * @returns Warnings in source order
+ * @throws DaxSyntaxError when the source can't be parsed
+ */
+export function lintDax(source: string): DaxLintWarning[] {
+  const tree = parseDax(tokenizeDax(source));
+  const warnings: DaxLintWarning[] = [];
+
+  lintFilterWholeTable(tree, variableNames(tree), warnings);
+  lintIferror(tree, warnings);
+  lintRepeatedExpressions(tree, warnings);
+  lintUnqualifiedColumns(tree, warnings);
+
+  return warnings.sort((a, b) => a.line - b.line || a.column - b.column);
+}
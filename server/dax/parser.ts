@@ -0,0 +1,126 @@
+import { DaxSyntaxError, type DaxToken } from "./tokenizer";
+
+/**
+ * DAX Parse Tree
+ *
+ * A deliberately shallow tree: an expression is a flat sequence of tokens
+ * and bracketed groups, and each group holds its comma-separated arguments
+ * as nested sequences. That's all the formatter and linter need; operator
+ * precedence never matters to either.
+ */
+
+export interface DaxTokenNode {
+  kind: 'token';
+  token: DaxToken;
+}
+
+export interface DaxGroupNode {
+  kind: 'group';
+  open: DaxToken;
+  close: DaxToken;
+  // The function name when the group is a call, e.g. CALCULATE ( ... )
+  callee: DaxToken | null;
+  args: DaxNode[][];
+}
+
+export type DaxNode = DaxTokenNode | DaxGroupNode;
+
+const CLOSERS: Record<string, string> = { '(': ')', '{': '}' };
+
+/**
+ * Build the parse tree for a token list
+ * @throws DaxSyntaxError for unbalanced brackets
+ */
+export function parseDax(tokens: DaxToken[]): DaxNode[] {
+  let index = 0;
+
+  const parseSequence = (closer: string | null): { args: DaxNode[][]; close: DaxToken | null } => {
+    const args: DaxNode[][] = [[]];
+    let lastComma: DaxToken | null = null;
+
+    while (index < tokens.length) {
+      const token = tokens[index++];
+
+      if (token.type === 'close') {
+        if (token.text !== closer) {
+          throw new DaxSyntaxError(`Unexpected "${token.text}"`, token.line, token.column);
+        }
+        return { args, close: token };
+      }
+
+      // Commas only separate arguments inside brackets; at the top level
+      // (e.g. ORDER BY a, b) they stay in the sequence
+      if (token.type === 'comma' && closer !== null) {
+        args.push([]);
+        lastComma = token;
+        continue;
+      }
+
+      // A comment on the same line as the comma before it belongs to the previous argument
+      if (token.type === 'comment' && lastComma?.line === token.line && args[args.length - 1].length === 0) {
+        args[args.length - 2].push({ kind: 'token', token });
+        continue;
+      }
+
+      const current = args[args.length - 1];
+      if (token.type === 'open') {
+        const previous = current[current.length - 1];
+        const callee = previous?.kind === 'token' && previous.token.type === 'identifier' && token.text === '('
+          ? previous.token
+          : null;
+        const inner = parseSequence(CLOSERS[token.text]);
+        current.push({
+          kind: 'group',
+          open: token,
+          close: inner.close!,
+          callee,
+          // A call with no arguments has one empty argument list; drop it
+          args: inner.args.length === 1 && inner.args[0].length === 0 ? [] : inner.args,
+        });
+        continue;
+      }
+
+      current.push({ kind: 'token', token });
+    }
+
+    if (closer !== null) {
+      const last = tokens[tokens.length - 1];
+      throw new DaxSyntaxError(`Missing "${closer}"`, last?.line ?? 1, (last?.column ?? 0) + 1);
+    }
+    return { args, close: null };
+  };
+
+  return parseSequence(null).args[0];
+}
+
+/**
+ * Visit every group in a tree, outermost first
+ */
+export function walkGroups(nodes: DaxNode[], visit: (group: DaxGroupNode) => void) {
+  for (const node of nodes) {
+    if (node.kind === 'group') {
+      visit(node);
+      node.args.forEach(arg => walkGroups(arg, visit));
+    }
+  }
+}
+
+/**
+ * Visit every token in a tree in source order, with the token before it
+ */
+export function walkTokens(nodes: DaxNode[], visit: (token: DaxToken, previous: DaxToken | null) => void) {
+  let previous: DaxToken | null = null;
+  const walk = (sequence: DaxNode[]) => {
+    for (const node of sequence) {
+      if (node.kind === 'token') {
+        visit(node.token, previous);
+        previous = node.token;
+      } else {
+        previous = node.open;
+        node.args.forEach(walk);
+        previous = node.close;
+      }
+    }
+  };
+  walk(nodes);
+}
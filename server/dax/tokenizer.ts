@@ -0,0 +1,199 @@
+/**
+ * DAX Tokenizer
+ *
+ * Splits DAX source into tokens with their positions. Whitespace is dropped
+ * but each token records whether whitespace preceded it, which the
+ * formatter needs to tell `Sales[Amount]` from `Sales [Amount]`.
+ */
+
+export type DaxTokenType =
+  | 'identifier'   // functions, keywords, variables, unquoted table names
+  | 'table'        // 'Quoted Table'
+  | 'column'       // [Column] or [Measure]
+  | 'string'
+  | 'number'
+  | 'operator'
+  | 'open'         // ( or {
+  | 'close'        // ) or }
+  | 'comma'
+  | 'comment'
+  | 'other';       // anything else, e.g. the % in a `Margin % =` measure name
+
+export interface DaxToken {
+  type: DaxTokenType;
+  text: string;
+  // 1-based line and column of the first character
+  line: number;
+  column: number;
+  offset: number;
+  spaceBefore: boolean;
+  // Line comments end the line they're on
+  lineComment?: boolean;
+}
+
+export class DaxSyntaxError extends Error {
+  constructor(message: string, public line: number, public column: number) {
+    super(`${message} (line ${line}, column ${column})`);
+    this.name = 'DaxSyntaxError';
+  }
+}
+
+const OPERATORS = ['&&', '||', '<>', '<=', '>=', '==', ':=', '+', '-', '*', '/', '^', '&', '=', '<', '>'];
+
+/**
+ * Tokenize DAX source
+ * @param source The DAX expression or query
+ * @throws DaxSyntaxError for unterminated strings, references and comments
+ */
+export function tokenizeDax(source: string): DaxToken[] {
+  const tokens: DaxToken[] = [];
+  let index = 0;
+  let line = 1;
+  let lineStart = 0;
+  let spaceBefore = false;
+
+  const push = (type: DaxTokenType, start: number, end: number, extra: Partial<DaxToken> = {}) => {
+    tokens.push({
+      type,
+      text: source.slice(start, end),
+      line,
+      column: start - lineStart + 1,
+      offset: start,
+      spaceBefore,
+      ...extra,
+    });
+    spaceBefore = false;
+  };
+
+  // Find the end of a quoted run where the quote is escaped by doubling it
+  const readQuoted = (start: number, quote: string, what: string) => {
+    let end = start + 1;
+    while (end < source.length) {
+      if (source[end] === quote) {
+        if (source[end + 1] === quote) {
+          end += 2;
+          continue;
+        }
+        return end + 1;
+      }
+      if (source[end] === '\n' && quote !== '"') break;
+      end++;
+    }
+    throw new DaxSyntaxError(`Unterminated ${what}`, line, start - lineStart + 1);
+  };
+
+  while (index < source.length) {
+    const char = source[index];
+
+    if (char === '\n') {
+      index++;
+      line++;
+      lineStart = index;
+      spaceBefore = true;
+      continue;
+    }
+    if (/\s/.test(char)) {
+      index++;
+      spaceBefore = true;
+      continue;
+    }
+
+    if (source.startsWith('//', index) || source.startsWith('--', index)) {
+      const end = source.indexOf('\n', index);
+      const stop = end === -1 ? source.length : end;
+      push('comment', index, stop, { lineComment: true });
+      index = stop;
+      continue;
+    }
+
+    if (source.startsWith('/*', index)) {
+      const end = source.indexOf('*/', index + 2);
+      if (end === -1) {
+        throw new DaxSyntaxError('Unterminated comment', line, index - lineStart + 1);
+      }
+      push('comment', index, end + 2);
+      // Keep line numbers right after multi-line comments
+      for (let i = index; i < end; i++) {
+        if (source[i] === '\n') {
+          line++;
+          lineStart = i + 1;
+        }
+      }
+      index = end + 2;
+      continue;
+    }
+
+    if (char === '"') {
+      const end = readQuoted(index, '"', 'string');
+      push('string', index, end);
+      // Strings may span lines
+      for (let i = index; i < end; i++) {
+        if (source[i] === '\n') {
+          line++;
+          lineStart = i + 1;
+        }
+      }
+      index = end;
+      continue;
+    }
+
+    if (char === "'") {
+      const end = readQuoted(index, "'", 'table name');
+      push('table', index, end);
+      index = end;
+      continue;
+    }
+
+    if (char === '[') {
+      const end = source.indexOf(']', index);
+      if (end === -1 || source.slice(index, end).includes('\n')) {
+        throw new DaxSyntaxError('Unterminated column reference', line, index - lineStart + 1);
+      }
+      push('column', index, end + 1);
+      index = end + 1;
+      continue;
+    }
+
+    const number = /^(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/.exec(source.slice(index, index + 64));
+    if (number) {
+      push('number', index, index + number[0].length);
+      index += number[0].length;
+      continue;
+    }
+
+    const identifier = /^[A-Za-z_][\w.]*/.exec(source.slice(index, index + 256));
+    if (identifier) {
+      push('identifier', index, index + identifier[0].length);
+      index += identifier[0].length;
+      continue;
+    }
+
+    const operator = OPERATORS.find(op => source.startsWith(op, index));
+    if (operator) {
+      push('operator', index, index + operator.length);
+      index += operator.length;
+      continue;
+    }
+
+    if (char === '(' || char === '{') {
+      push('open', index, index + 1);
+      index++;
+      continue;
+    }
+    if (char === ')' || char === '}') {
+      push('close', index, index + 1);
+      index++;
+      continue;
+    }
+    if (char === ',') {
+      push('comma', index, index + 1);
+      index++;
+      continue;
+    }
+
+    push('other', index, index + 1);
+    index++;
+  }
+
+  return tokens;
+}
@@ -0,0 +1,50 @@
+import { parseTmdl } from "./tmdl";
+import { validateM } from "./powerquery";
+import { fillWithDefaults } from "./templates";
+
+/**
+ * Code Diagnostics
+ *
+ * Syntax checks that run when a snippet is saved. Code in a language with a
+ * validator must parse before it can be created or updated; the problems are
+ * returned with line and column positions so the editor can mark them.
+ * Template placeholders are checked as their default values.
+ */
+
+export interface CodeDiagnostic {
+  message: string;
+  // 1-based, the end column is exclusive
+  line: number;
+  column: number;
+  endLine: number;
+  endColumn: number;
+  severity: 'error' | 'warning';
+}
+
+/**
+ * Check snippet code for syntax errors
+ * @param code The snippet code
+ * @param languageMode The snippet's language mode (see pickLanguageMode)
+ * @returns The errors, empty when the code is valid or has no validator
+ */
+export function validateSnippetCode(code: string, languageMode: string | null): CodeDiagnostic[] {
+  switch (languageMode) {
+    case 'tmdl':
+      return parseTmdl(fillWithDefaults(code)).errors.map(error => ({ ...error, severity: 'error' as const }));
+    case 'powerquery':
+      return validateM(fillWithDefaults(code)).map(error => ({ ...error, severity: 'error' as const }));
+    default:
+      return [];
+  }
+}
+
+/**
+ * Summarise diagnostics for the field-keyed `errors` of a validation response
+ */
+export function summarizeDiagnostics(diagnostics: CodeDiagnostic[]): string {
+  const [first] = diagnostics;
+  const more = diagnostics.length > 1
+    ? ` (and ${diagnostics.length - 1} more problem${diagnostics.length === 2 ? '' : 's'})`
+    : '';
+  return `Line ${first.line}: ${first.message}${more}`;
+}
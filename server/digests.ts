@@ -0,0 +1,436 @@
+import { randomBytes } from "crypto";
+import { db } from "@db";
+import {
+  emailPreferences,
+  categoryFollows,
+  categories,
+  snippetCategories,
+  snippets,
+  comments,
+  votes,
+  users,
+  type NewEmailPreferences,
+} from "@db/schema";
+import { eq, and, ne, gt, lte, or, isNull, isNotNull, inArray, asc, desc, sql } from "drizzle-orm";
+import { sendEmail, isEmailServiceReady } from "./email";
+import { renderEmail, type EmailSection } from "./emailTemplates";
+
+/**
+ * Email Digests
+ *
+ * Users can opt in to a daily or weekly email summarising what happened
+ * since their last one:
+ * - new comments on their snippets
+ * - likes their snippets received
+ * - new snippets in the categories they follow
+ *
+ * Each part can be turned off on its own. Preferences live in
+ * `email_preferences`; users without a row, or without an email address,
+ * get no digests.
+ *
+ * scheduleDigests checks every DIGEST_CHECK_INTERVAL for users whose next
+ * digest is due. Every app instance checks, so each run claims the digests
+ * it sends and the others skip them. A digest with nothing in it isn't sent, but still counts
+ * as sent so the next one covers only the following period. Every digest
+ * carries an unsubscribe link with the user's token, which turns digests
+ * off without logging in.
+ */
+
+export const DIGEST_FREQUENCIES = ['off', 'daily', 'weekly'] as const;
+export type DigestFrequency = typeof DIGEST_FREQUENCIES[number];
+
+const DIGEST_PERIOD_HOURS: Record<Exclude<DigestFrequency, 'off'>, number> = {
+  daily: 24,
+  weekly: 7 * 24,
+};
+
+export const DIGEST_CHECK_INTERVAL = 60 * 60 * 1000;
+
+// Items listed per digest section; the rest are summarised as a count
+export const MAX_DIGEST_ITEMS = 10;
+
+// Rows fetched per section, enough to count what's left out
+const DIGEST_QUERY_LIMIT = 500;
+
+const COMMENT_EXCERPT_LENGTH = 140;
+
+// Origin of the links in digests, which are built outside any request
+export const APP_URL = (process.env.APP_URL || 'http://localhost:5000').replace(/\/+$/, '');
+
+export interface EmailPreferencesInput {
+  digestFrequency?: DigestFrequency;
+  includeComments?: boolean;
+  includeVotes?: boolean;
+  includeFollowedCategories?: boolean;
+  followedCategories?: string[];
+}
+
+const preferenceDefaults = {
+  digestFrequency: 'off' as DigestFrequency,
+  includeComments: true,
+  includeVotes: true,
+  includeFollowedCategories: true,
+};
+
+/**
+ * Get a user's digest preferences, with the defaults if they've never set
+ * any, and the names of the categories they follow
+ */
+export async function getEmailPreferences(userId: number) {
+  const [preferences] = await db
+    .select()
+    .from(emailPreferences)
+    .where(eq(emailPreferences.userId, userId))
+    .limit(1);
+
+  const followed = await db
+    .select({ name: categories.name })
+    .from(categoryFollows)
+    .innerJoin(categories, eq(categoryFollows.categoryId, categories.id))
+    .where(eq(categoryFollows.userId, userId))
+    .orderBy(asc(categories.position), asc(categories.name));
+
+  return {
+    digestFrequency: (preferences?.digestFrequency ?? preferenceDefaults.digestFrequency) as DigestFrequency,
+    includeComments: preferences?.includeComments ?? preferenceDefaults.includeComments,
+    includeVotes: preferences?.includeVotes ?? preferenceDefaults.includeVotes,
+    includeFollowedCategories: preferences?.includeFollowedCategories ?? preferenceDefaults.includeFollowedCategories,
+    lastDigestAt: preferences?.lastDigestAt ?? null,
+    followedCategories: followed.map(row => row.name),
+  };
+}
+
+/**
+ * Validate a preferences update request body
+ * @returns The fields to change, or field-keyed validation errors
+ */
+export function parseEmailPreferences(
+  body: Record<string, unknown>
+): { values: EmailPreferencesInput } | { errors: Record<string, string> } {
+  const errors: Record<string, string> = {};
+  const values: EmailPreferencesInput = {};
+
+  if (body.digestFrequency !== undefined) {
+    if (!DIGEST_FREQUENCIES.includes(body.digestFrequency as DigestFrequency)) {
+      errors.digestFrequency = `Digest frequency must be one of: ${DIGEST_FREQUENCIES.join(', ')}`;
+    } else {
+      values.digestFrequency = body.digestFrequency as DigestFrequency;
+    }
+  }
+
+  for (const field of ['includeComments', 'includeVotes', 'includeFollowedCategories'] as const) {
+    if (body[field] === undefined) continue;
+    if (typeof body[field] !== 'boolean') {
+      errors[field] = `${field} must be true or false`;
+    } else {
+      values[field] = body[field] as boolean;
+    }
+  }
+
+  if (body.followedCategories !== undefined) {
+    if (!Array.isArray(body.followedCategories) || !body.followedCategories.every(name => typeof name === 'string')) {
+      errors.followedCategories = "followedCategories must be a list of category names";
+    } else {
+      values.followedCategories = Array.from(new Set(body.followedCategories as string[]));
+    }
+  }
+
+  return Object.keys(errors).length > 0 ? { errors } : { values };
+}
+
+/**
+ * Save a user's digest preferences, creating their row (and unsubscribe
+ * token) the first time
+ * @param userId The user
+ * @param values Validated fields from parseEmailPreferences; followed
+ * categories must already be resolved to ids
+ */
+export async function updateEmailPreferences(
+  userId: number,
+  values: Omit<EmailPreferencesInput, 'followedCategories'> & { followedCategoryIds?: number[] }
+) {
+  const { followedCategoryIds, ...fields } = values;
+
+  await db.transaction(async (tx) => {
+    const [current] = await tx
+      .select({ digestFrequency: emailPreferences.digestFrequency })
+      .from(emailPreferences)
+      .where(eq(emailPreferences.userId, userId))
+      .limit(1);
+
+    const changes: Partial<NewEmailPreferences> = { ...fields, updatedAt: new Date() };
+    // The first digest after opting in covers the period from then on
+    if (fields.digestFrequency && fields.digestFrequency !== 'off' && (current?.digestFrequency ?? 'off') === 'off') {
+      changes.lastDigestAt = new Date();
+    }
+
+    await tx
+      .insert(emailPreferences)
+      .values({
+        ...preferenceDefaults,
+        ...changes,
+        userId,
+        unsubscribeToken: randomBytes(32).toString('hex'),
+      })
+      .onConflictDoUpdate({ target: emailPreferences.userId, set: changes });
+
+    if (followedCategoryIds) {
+      await tx.delete(categoryFollows).where(eq(categoryFollows.userId, userId));
+      if (followedCategoryIds.length > 0) {
+        await tx
+          .insert(categoryFollows)
+          .values(followedCategoryIds.map(categoryId => ({ userId, categoryId })));
+      }
+    }
+  });
+
+  return getEmailPreferences(userId);
+}
+
+/**
+ * Turn off digests for the user an unsubscribe token belongs to
+ * @returns Whether the token matched a user
+ */
+export async function unsubscribeFromDigests(token: string): Promise<boolean> {
+  const updated = await db
+    .update(emailPreferences)
+    .set({ digestFrequency: 'off', updatedAt: new Date() })
+    .where(eq(emailPreferences.unsubscribeToken, token))
+    .returning({ userId: emailPreferences.userId });
+  return updated.length > 0;
+}
+
+function excerpt(text: string): string {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  return flat.length > COMMENT_EXCERPT_LENGTH ? `${flat.slice(0, COMMENT_EXCERPT_LENGTH - 1)}…` : flat;
+}
+
+function snippetUrl(snippetId: number, commentId?: number): string {
+  return commentId
+    ? `${APP_URL}/snippet/${snippetId}#comment-${commentId}`
+    : `${APP_URL}/snippet/${snippetId}`;
+}
+
+/**
+ * Limit a section to MAX_DIGEST_ITEMS, noting how many were left out
+ */
+function section(heading: string, items: EmailSection['items']): EmailSection[] {
+  if (items.length === 0) return [];
+  const shown = items.slice(0, MAX_DIGEST_ITEMS);
+  if (items.length > shown.length) {
+    shown.push({ text: `…and ${items.length - shown.length} more` });
+  }
+  return [{ heading, items: shown }];
+}
+
+/**
+ * Collect what goes in a user's digest
+ * @param userId The recipient
+ * @param since The start of the period covered
+ * @param include Which parts of the digest the user wants
+ * @returns The digest's sections; empty if nothing happened
+ */
+export async function buildDigest(
+  userId: number,
+  since: Date,
+  include: { includeComments: boolean; includeVotes: boolean; includeFollowedCategories: boolean }
+): Promise<EmailSection[]> {
+  const sections: EmailSection[] = [];
+
+  if (include.includeComments) {
+    const rows = await db
+      .select({
+        id: comments.id,
+        content: comments.content,
+        snippetId: snippets.id,
+        snippetTitle: snippets.title,
+        authorUsername: users.username,
+      })
+      .from(comments)
+      .innerJoin(snippets, eq(comments.snippetId, snippets.id))
+      .leftJoin(users, eq(comments.authorId, users.id))
+      .where(and(
+        eq(snippets.authorId, userId),
+        ne(comments.authorId, userId),
+        isNull(comments.deletedAt),
+        gt(comments.createdAt, since)
+      ))
+      .orderBy(desc(comments.createdAt))
+      .limit(DIGEST_QUERY_LIMIT);
+
+    sections.push(...section('New comments on your snippets', rows.map(row => ({
+      text: `${row.authorUsername ?? 'Someone'} on "${row.snippetTitle}"`,
+      url: snippetUrl(row.snippetId, row.id),
+      meta: `"${excerpt(row.content)}"`,
+    }))));
+  }
+
+  if (include.includeVotes) {
+    const likes = sql<number>`COUNT(*)::integer`;
+    const rows = await db
+      .select({ snippetId: snippets.id, snippetTitle: snippets.title, likes })
+      .from(votes)
+      .innerJoin(snippets, eq(votes.snippetId, snippets.id))
+      .where(and(
+        eq(snippets.authorId, userId),
+        eq(votes.value, 1),
+        or(isNull(votes.userId), ne(votes.userId, userId)),
+        gt(votes.createdAt, since)
+      ))
+      .groupBy(snippets.id, snippets.title)
+      .orderBy(desc(likes), desc(snippets.id));
+
+    sections.push(...section('Likes on your snippets', rows.map(row => ({
+      text: row.snippetTitle,
+      url: snippetUrl(row.snippetId),
+      meta: row.likes === 1 ? '(1 new like)' : `(${row.likes} new likes)`,
+    }))));
+  }
+
+  if (include.includeFollowedCategories) {
+    const followed = db
+      .select({ categoryId: categoryFollows.categoryId })
+      .from(categoryFollows)
+      .where(eq(categoryFollows.userId, userId));
+    const inFollowed = db
+      .select({ snippetId: snippetCategories.snippetId })
+      .from(snippetCategories)
+      .where(inArray(snippetCategories.categoryId, followed));
+
+    const rows = await db
+      .select({ id: snippets.id, title: snippets.title, authorUsername: users.username })
+      .from(snippets)
+      .innerJoin(users, eq(snippets.authorId, users.id))
+      .where(and(
+        inArray(snippets.id, inFollowed),
+        ne(snippets.authorId, userId),
+        gt(snippets.createdAt, since)
+      ))
+      .orderBy(desc(snippets.createdAt))
+      .limit(DIGEST_QUERY_LIMIT);
+
+    sections.push(...section('New snippets in categories you follow', rows.map(row => ({
+      text: row.title,
+      url: snippetUrl(row.id),
+      meta: `by ${row.authorUsername}`,
+    }))));
+  }
+
+  return sections;
+}
+
+/**
+ * Send a digest to every user whose next one is due
+ * @param now The time of this run; digests cover the period up to it
+ * @returns How many digests were sent, skipped as empty, and failed
+ */
+export async function sendDueDigests(now = new Date()) {
+  const summary = { sent: 0, skipped: 0, failed: 0 };
+  if (!isEmailServiceReady()) return summary;
+
+  const periodStart = (frequency: Exclude<DigestFrequency, 'off'>) =>
+    new Date(now.getTime() - DIGEST_PERIOD_HOURS[frequency] * 60 * 60 * 1000);
+  const periodElapsed = (frequency: Exclude<DigestFrequency, 'off'>) => and(
+    eq(emailPreferences.digestFrequency, frequency),
+    or(isNull(emailPreferences.lastDigestAt), lte(emailPreferences.lastDigestAt, periodStart(frequency)))
+  );
+
+  // Claim the due digests by moving them on to `now` in the same statement
+  // that finds them, so another instance running at the same time can't
+  // send them too. A digest that fails to send is put back to be retried.
+  const due = db.$with('due').as(
+    db
+      .select({ userId: emailPreferences.userId, previousDigestAt: emailPreferences.lastDigestAt })
+      .from(emailPreferences)
+      .innerJoin(users, eq(emailPreferences.userId, users.id))
+      .where(and(isNotNull(users.email), or(periodElapsed('daily'), periodElapsed('weekly'))))
+      .for('update', { of: emailPreferences, skipLocked: true })
+  );
+  const claimed = await db
+    .with(due)
+    .update(emailPreferences)
+    .set({ lastDigestAt: now })
+    .from(due)
+    .where(eq(emailPreferences.userId, due.userId))
+    .returning({ userId: emailPreferences.userId, previousDigestAt: due.previousDigestAt });
+  if (claimed.length === 0) return summary;
+
+  const previousDigestAt = new Map(claimed.map(claim => [claim.userId, claim.previousDigestAt]));
+  const recipients = await db
+    .select({
+      userId: users.id,
+      username: users.username,
+      email: users.email,
+      preferences: emailPreferences,
+    })
+    .from(emailPreferences)
+    .innerJoin(users, eq(emailPreferences.userId, users.id))
+    .where(inArray(emailPreferences.userId, claimed.map(claim => claim.userId)));
+
+  for (const { userId, username, email, preferences } of recipients) {
+    const frequency = preferences.digestFrequency as Exclude<DigestFrequency, 'off'>;
+    const lastDigestAt = previousDigestAt.get(userId) ?? null;
+    const since = lastDigestAt ?? periodStart(frequency);
+
+    try {
+      const sections = await buildDigest(userId, since, preferences);
+      if (sections.length > 0) {
+        const unsubscribeToken = encodeURIComponent(preferences.unsubscribeToken);
+        await sendEmail({
+          to: email!,
+          subject: frequency === 'daily' ? 'Your daily FabSnippets digest' : 'Your weekly FabSnippets digest',
+          ...renderEmail({
+            title: frequency === 'daily' ? 'Your daily digest' : 'Your weekly digest',
+            intro: `Hi ${username}, here's what happened on FabSnippets since your last digest.`,
+            sections,
+            action: { label: 'Open FabSnippets', url: APP_URL },
+            unsubscribeUrl: `${APP_URL}/unsubscribe?token=${unsubscribeToken}`,
+          }),
+          headers: {
+            'List-Unsubscribe': `<${APP_URL}/api/email/unsubscribe?token=${unsubscribeToken}>`,
+            'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+          },
+        });
+        summary.sent++;
+      } else {
+        summary.skipped++;
+      }
+    } catch (error) {
+      // Left due, so it's retried on the next run, unless the user has
+      // received one since
+      console.error(`Error sending digest to user ${userId}:`, error);
+      summary.failed++;
+      await db
+        .update(emailPreferences)
+        .set({ lastDigestAt })
+        .where(and(eq(emailPreferences.userId, userId), eq(emailPreferences.lastDigestAt, now)));
+    }
+  }
+
+  return summary;
+}
+
+/**
+ * Run sendDueDigests now and then every DIGEST_CHECK_INTERVAL, logging
+ * what each run sent. Runs never overlap.
+ */
+export function scheduleDigests() {
+  let running = false;
+  const run = async () => {
+    if (running) return;
+    running = true;
+    try {
+      const { sent, skipped, failed } = await sendDueDigests();
+      if (sent + failed > 0) {
+        console.log(`Sent ${sent} digest email(s), ${skipped} empty, ${failed} failed`);
+      }
+    } catch (error) {
+      console.error('Error sending digests:', error);
+    } finally {
+      running = false;
+    }
+  };
+
+  run();
+  return setInterval(run, DIGEST_CHECK_INTERVAL);
+}
@@ -4,6 +4,7 @@ import { db } from "@db";
 import { users } from "@db/schema";
 import { eq, or } from "drizzle-orm";
 import { Resend } from 'resend';
+import { passwordResetEmail, type RenderedEmail } from "./emailTemplates";
 
 // Configuration for nodemailer and Resend
 let transporter: nodemailer.Transporter;
@@ -85,6 +86,62 @@ export function initEmailService() {
   });
 }
 
+/**
+ * Whether an email can be sent yet. Ethereal's test account is created
+ * asynchronously, so there's a moment after startup when it can't.
+ */
+export function isEmailServiceReady(): boolean {
+  return emailProvider === 'resend' ? resend !== null : Boolean(transporter);
+}
+
+/**
+ * Send an email through whichever provider is configured
+ * @param message The recipient, subject and bodies (see emailTemplates.ts),
+ * and any extra headers such as List-Unsubscribe
+ * @throws If the service isn't ready or the provider rejects the email
+ */
+export async function sendEmail(message: RenderedEmail & {
+  to: string;
+  subject: string;
+  headers?: Record<string, string>;
+}): Promise<void> {
+  if (!isEmailServiceReady()) {
+    throw new Error('Email service is not ready');
+  }
+
+  if (emailProvider === 'resend' && resend) {
+    // Resend email sending - use a sandbox domain for testing
+    const result = await resend.emails.send({
+      from: 'FabSnippets <onboarding@resend.dev>', // The sandbox domain provided by Resend
+      to: message.to,
+      subject: message.subject,
+      text: message.text,
+      html: message.html,
+      headers: message.headers,
+    });
+    if (result.error) {
+      throw new Error(`Resend rejected the email: ${result.error.message}`);
+    }
+    return;
+  }
+
+  // Nodemailer sending (both SMTP and Ethereal)
+  const info = await transporter.sendMail({
+    from: `"FabSnippets" <noreply@fabsnippets.com>`,
+    to: message.to,
+    subject: message.subject,
+    text: message.text,
+    html: message.html,
+    headers: message.headers,
+  });
+
+  // For ethereal emails, log the preview URL
+  if (emailProvider === 'ethereal') {
+    console.log(`Email "${message.subject}" sent to ${message.to}`);
+    console.log(`Preview URL: ${nodemailer.getTestMessageUrl(info)}`);
+  }
+}
+
 /**
  * Generate a password reset token for a user
  * @param userId The user ID
@@ -145,8 +202,8 @@ export async function sendPasswordResetEmail(
   origin: string
 ): Promise<{ success: boolean; message: string }> {
   try {
-    if (emailProvider === 'ethereal' && !transporter) {
-      console.log('Waiting for Ethereal email account setup...');
+    if (!isEmailServiceReady()) {
+      console.log('Waiting for email service setup...');
       return {
         success: false,
         message: "Email service still initializing, please try again in a moment",
@@ -181,68 +238,12 @@ export async function sendPasswordResetEmail(
     // Create reset URL
     const resetUrl = `${origin}/reset-password?token=${token}`;
 
-    // Prepare email content (same for all providers)
-    const emailSubject = "Password Reset Instructions";
-    const textContent = `
-      You requested a password reset for your FabSnippets account.
-      
-      Please follow this link to reset your password:
-      ${resetUrl}
-      
-      This link will expire in 1 hour.
-      
-      If you didn't request this, please ignore this email.
-    `;
-    const htmlContent = `
-      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
-        <h2 style="color: #333;">Password Reset Instructions</h2>
-        <p>You requested a password reset for your FabSnippets account.</p>
-        <p>Please click the button below to reset your password:</p>
-        <div style="text-align: center; margin: 30px 0;">
-          <a href="${resetUrl}" style="background-color: #4f46e5; color: white; padding: 12px 20px; text-decoration: none; border-radius: 4px; display: inline-block;">Reset Your Password</a>
-        </div>
-        <p>This link will expire in 1 hour.</p>
-        <p>If you didn't request this, please ignore this email.</p>
-        <hr style="margin: 30px 0; border: none; border-top: 1px solid #eee;" />
-        <p style="font-size: 12px; color: #666;">FabSnippets - Code Snippet Sharing Platform</p>
-      </div>
-    `;
-
-    // Send email using the appropriate provider
-    if (emailProvider === 'resend' && resend) {
-      // Resend email sending - use a sandbox domain for testing
-      const result = await resend.emails.send({
-        from: 'FabSnippets <onboarding@resend.dev>', // The sandbox domain provided by Resend
-        to: user.email,
-        subject: emailSubject,
-        text: textContent,
-        html: htmlContent,
-      });
-      
-      console.log(`Password reset email sent via Resend to user: ${user.username}`, result);
-    } 
-    else if (emailProvider === 'nodemailer' || emailProvider === 'ethereal') {
-      // Nodemailer sending (both SMTP and Ethereal)
-      const info = await transporter.sendMail({
-        from: `"FabSnippets" <noreply@fabsnippets.com>`,
-        to: user.email,
-        subject: emailSubject,
-        text: textContent,
-        html: htmlContent,
-      });
-
-      // For ethereal emails, log the preview URL
-      if (emailProvider === 'ethereal' && info.messageId && info.preview) {
-        console.log(`Password reset email sent for user: ${user.username}`);
-        console.log(`Preview URL: ${nodemailer.getTestMessageUrl(info)}`);
-        // Log contents for testing/debugging - this makes it more like production
-        console.log('\n---- RESET EMAIL CONTENTS ----');
-        console.log('To:', user.email);
-        console.log('Subject:', emailSubject);
-        console.log('Reset Link:', resetUrl);
-        console.log('\n');
-      }
-    }
+    await sendEmail({
+      to: user.email,
+      subject: "Password Reset Instructions",
+      ...passwordResetEmail(resetUrl),
+    });
+    console.log(`Password reset email sent to user: ${user.username}`);
 
     return {
       success: true,
@@ -0,0 +1,121 @@
+import { escapeHtml } from "./markdown";
+
+/**
+ * Email Templates
+ *
+ * Every email FabSnippets sends is laid out here, so they share one look:
+ * a heading, an introduction, optional sections of linked items, an
+ * optional call-to-action button, closing notes and the site footer, with
+ * an unsubscribe link for emails users can opt out of.
+ *
+ * Each template produces both an HTML and a plain-text body. All text is
+ * HTML-escaped, so callers can pass usernames, titles and comments as they
+ * are stored.
+ */
+
+export interface EmailItem {
+  text: string;
+  url?: string;
+  // Secondary detail shown after the text, e.g. a count or a quote
+  meta?: string;
+}
+
+export interface EmailSection {
+  heading: string;
+  items: EmailItem[];
+}
+
+export interface EmailContent {
+  title: string;
+  intro: string;
+  sections?: EmailSection[];
+  action?: { label: string; url: string };
+  // Paragraphs after the sections and button
+  notes?: string[];
+  unsubscribeUrl?: string;
+}
+
+export interface RenderedEmail {
+  html: string;
+  text: string;
+}
+
+const BRAND_COLOR = '#4f46e5';
+const FOOTER = 'FabSnippets - Code Snippet Sharing Platform';
+
+function renderItemHtml(item: EmailItem): string {
+  const text = item.url
+    ? `<a href="${escapeHtml(item.url)}" style="color: ${BRAND_COLOR};">${escapeHtml(item.text)}</a>`
+    : escapeHtml(item.text);
+  const meta = item.meta
+    ? ` <span style="color: #666;">${escapeHtml(item.meta)}</span>`
+    : '';
+  return `<li style="margin-bottom: 8px;">${text}${meta}</li>`;
+}
+
+function renderItemText(item: EmailItem): string {
+  const meta = item.meta ? ` ${item.meta}` : '';
+  const url = item.url ? `\n    ${item.url}` : '';
+  return `  - ${item.text}${meta}${url}`;
+}
+
+/**
+ * Lay out an email in the shared template
+ * @param content What the email says; plain text throughout
+ * @returns The HTML and plain-text bodies
+ */
+export function renderEmail(content: EmailContent): RenderedEmail {
+  const sections = content.sections ?? [];
+  const notes = content.notes ?? [];
+
+  const html = [
+    '<div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">',
+    `<h2 style="color: #333;">${escapeHtml(content.title)}</h2>`,
+    `<p>${escapeHtml(content.intro)}</p>`,
+    ...sections.map(section => [
+      `<h3 style="color: #333; margin-top: 24px;">${escapeHtml(section.heading)}</h3>`,
+      `<ul style="padding-left: 20px;">${section.items.map(renderItemHtml).join('')}</ul>`,
+    ].join('')),
+    content.action
+      ? `<div style="text-align: center; margin: 30px 0;"><a href="${escapeHtml(content.action.url)}" style="background-color: ${BRAND_COLOR}; color: white; padding: 12px 20px; text-decoration: none; border-radius: 4px; display: inline-block;">${escapeHtml(content.action.label)}</a></div>`
+      : '',
+    ...notes.map(note => `<p>${escapeHtml(note)}</p>`),
+    '<hr style="margin: 30px 0; border: none; border-top: 1px solid #eee;" />',
+    `<p style="font-size: 12px; color: #666;">${FOOTER}</p>`,
+    content.unsubscribeUrl
+      ? `<p style="font-size: 12px; color: #666;"><a href="${escapeHtml(content.unsubscribeUrl)}" style="color: #666;">Unsubscribe</a> from these emails.</p>`
+      : '',
+    '</div>',
+  ].filter(Boolean).join('\n');
+
+  const text = [
+    content.title,
+    '',
+    content.intro,
+    ...sections.flatMap(section => ['', `${section.heading}:`, ...section.items.map(renderItemText)]),
+    ...(content.action ? ['', `${content.action.label}: ${content.action.url}`] : []),
+    ...notes.flatMap(note => ['', note]),
+    '',
+    '--',
+    FOOTER,
+    ...(content.unsubscribeUrl ? [`Unsubscribe: ${content.unsubscribeUrl}`] : []),
+  ].join('\n');
+
+  return { html, text };
+}
+
+/**
+ * The password reset email
+ * @param resetUrl The link that opens the reset form with the user's token
+ */
+export function passwordResetEmail(resetUrl: string): RenderedEmail {
+  return renderEmail({
+    title: 'Password Reset Instructions',
+    intro: 'You requested a password reset for your FabSnippets account. Please click the button below to reset your password:',
+    action: { label: 'Reset Your Password', url: resetUrl },
+    notes: [
+      'This link will expire in 1 hour.',
+      "If you didn't request this, please ignore this email.",
+    ],
+  });
+}
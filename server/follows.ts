@@ -0,0 +1,109 @@
+import { db } from "@db";
+import { authorFollows, categoryFollows, categories, snippetCategories, snippets, users } from "@db/schema";
+import { eq, and, or, inArray, asc, sql, type SQL } from "drizzle-orm";
+
+/**
+ * Follows
+ *
+ * Users can follow other authors and categories. The personalised feed
+ * (`GET /api/feed`) lists snippets by followed authors and snippets in
+ * followed categories, leaving out the user's own. Followed categories
+ * also decide which new snippets appear in digest emails (see digests.ts).
+ *
+ * Following is idempotent: following twice keeps the original date, and
+ * unfollowing something not followed does nothing.
+ */
+
+/**
+ * Everything a user follows
+ * @returns The followed authors and the names of the followed categories
+ */
+export async function listFollows(userId: number) {
+  const [authors, followedCategories] = await Promise.all([
+    db
+      .select({ id: users.id, username: users.username })
+      .from(authorFollows)
+      .innerJoin(users, eq(authorFollows.authorId, users.id))
+      .where(eq(authorFollows.followerId, userId))
+      .orderBy(asc(users.username)),
+    db
+      .select({ name: categories.name })
+      .from(categoryFollows)
+      .innerJoin(categories, eq(categoryFollows.categoryId, categories.id))
+      .where(eq(categoryFollows.userId, userId))
+      .orderBy(asc(categories.position), asc(categories.name)),
+  ]);
+
+  return { authors, categories: followedCategories.map(row => row.name) };
+}
+
+/**
+ * An author's follower count, and whether a user follows them
+ * @param authorId The author
+ * @param viewerId The logged-in user, if any
+ */
+export async function getAuthorFollowStatus(authorId: number, viewerId: number | null) {
+  const [row] = await db
+    .select({
+      followers: sql<number>`COUNT(*)::integer`,
+      following: viewerId === null
+        ? sql<boolean>`false`
+        : sql<boolean>`COALESCE(BOOL_OR(${authorFollows.followerId} = ${viewerId}), false)`,
+    })
+    .from(authorFollows)
+    .where(eq(authorFollows.authorId, authorId));
+  return { followers: row?.followers ?? 0, following: row?.following ?? false };
+}
+
+export async function followAuthor(followerId: number, authorId: number) {
+  await db
+    .insert(authorFollows)
+    .values({ followerId, authorId })
+    .onConflictDoNothing();
+}
+
+export async function unfollowAuthor(followerId: number, authorId: number) {
+  await db
+    .delete(authorFollows)
+    .where(and(eq(authorFollows.followerId, followerId), eq(authorFollows.authorId, authorId)));
+}
+
+export async function followCategory(userId: number, categoryId: number) {
+  await db
+    .insert(categoryFollows)
+    .values({ userId, categoryId })
+    .onConflictDoNothing();
+}
+
+export async function unfollowCategory(userId: number, categoryId: number) {
+  await db
+    .delete(categoryFollows)
+    .where(and(eq(categoryFollows.userId, userId), eq(categoryFollows.categoryId, categoryId)));
+}
+
+/**
+ * Where clause selecting the snippets in a user's feed: those by authors
+ * they follow or in categories they follow, other than their own
+ */
+export function inFeedOf(userId: number): SQL {
+  const followedAuthors = db
+    .select({ authorId: authorFollows.authorId })
+    .from(authorFollows)
+    .where(eq(authorFollows.followerId, userId));
+  const followedCategories = db
+    .select({ categoryId: categoryFollows.categoryId })
+    .from(categoryFollows)
+    .where(eq(categoryFollows.userId, userId));
+  const inFollowedCategories = db
+    .select({ snippetId: snippetCategories.snippetId })
+    .from(snippetCategories)
+    .where(inArray(snippetCategories.categoryId, followedCategories));
+
+  return and(
+    sql`${snippets.authorId} <> ${userId}`,
+    or(
+      inArray(snippets.authorId, followedAuthors),
+      inArray(snippets.id, inFollowedCategories)
+    )
+  )!;
+}
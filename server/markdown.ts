@@ -0,0 +1,239 @@
+import type { LanguageMode } from "./categories";
+
+/**
+ * Comment Markdown
+ *
+ * Comments accept a small, safe Markdown subset:
+ * - ```lang fenced code blocks, highlighted by the client in that language
+ * - `inline code`
+ * - [links](https://example.com) and bare http(s) URLs
+ * - **bold** and *italic* / _italic_
+ * - @username mentions, linked to the user's profile when the user exists
+ * - blank lines between paragraphs; single newlines are kept as line breaks
+ *
+ * Everything else, including any HTML in the source, is shown as typed. The
+ * raw Markdown is what's stored; it's rendered here on every read so the
+ * output can't contain markup that didn't come from this renderer. All text
+ * is HTML-escaped before it's emitted, only the tags below are generated,
+ * and link targets are limited to http(s) and mailto URLs.
+ *
+ * Prose comes back as HTML and code blocks as plain text, so the client can
+ * show code in its highlighting editor without parsing HTML.
+ */
+
+export type MarkdownBlock =
+  | { type: 'html'; html: string }
+  | { type: 'code'; language: LanguageMode; code: string };
+
+// Fence info strings people use for each language mode
+const FENCE_LANGUAGES: Record<string, LanguageMode> = {
+  dax: 'dax',
+  m: 'powerquery',
+  pq: 'powerquery',
+  powerquery: 'powerquery',
+  'power-query': 'powerquery',
+  tmdl: 'tmdl',
+  sql: 'sql',
+  tsql: 'sql',
+  't-sql': 'sql',
+  kql: 'kql',
+  kusto: 'kql',
+  python: 'python',
+  py: 'python',
+  pyspark: 'python',
+  csharp: 'csharp',
+  cs: 'csharp',
+  'c#': 'csharp',
+  markdown: 'markdown',
+  md: 'markdown',
+  json: 'json',
+};
+
+const FENCE_PATTERN = /^ {0,3}(`{3,}|~{3,})\s*([^\s`]*)[^`]*$/;
+const INLINE_CODE_PATTERN = /`([^`\n]+)`/g;
+// A [text](url) link, a bare URL, **bold**, or *italic* / _italic_ between non-word characters
+const INLINE_PATTERN = /\[([^\]\n]+)\]\(([^()\s]+)\)|(https?:\/\/[^\s<>"]*[^\s<>".,:;!?)\]'])|\*\*([^*\n]+)\*\*|(^|[^\w*])([*_])([^*_\n]+)\6(?![\w*])/g;
+
+// @name at the start of the text or after a character that can't be part of an email address
+const MENTION_PATTERN = /(^|[^\w@.])@([A-Za-z0-9_][A-Za-z0-9_.-]*)/g;
+const CODE_PATTERN = /(`{3,}|~{3,})[\s\S]*?(\1|$)|`[^`\n]+`/g;
+
+// Users mentioned in a comment, keyed by lowercased username
+export type MentionedUsers = Map<string, { username: string }>;
+
+/**
+ * Find the usernames mentioned in a comment. Mentions inside code are
+ * ignored, and trailing dots and dashes aren't part of the name.
+ * @returns The mentioned names, lowercased and without duplicates
+ */
+export function extractMentions(text: string): string[] {
+  const prose = text.replace(CODE_PATTERN, ' ');
+  const names = new Set<string>();
+  MENTION_PATTERN.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = MENTION_PATTERN.exec(prose)) !== null) {
+    names.add(match[2].replace(/[.-]+$/, '').toLowerCase());
+  }
+  return Array.from(names).filter(name => name.length > 0 && name.length <= 100);
+}
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Check a link target is safe to emit
+ * @returns The URL, or null for anything but absolute http(s) and mailto URLs
+ */
+export function sanitizeUrl(url: string): string | null {
+  try {
+    const parsed = new URL(url);
+    return ['http:', 'https:', 'mailto:'].includes(parsed.protocol) ? parsed.href : null;
+  } catch {
+    return null;
+  }
+}
+
+function link(url: string, text: string): string {
+  return `<a href="${escapeHtml(url)}" target="_blank" rel="nofollow noopener noreferrer">${escapeHtml(text)}</a>`;
+}
+
+/**
+ * Escape plain text, linking mentions of existing users to their profiles
+ */
+function renderText(text: string, mentions: MentionedUsers): string {
+  let html = '';
+  let last = 0;
+  MENTION_PATTERN.lastIndex = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = MENTION_PATTERN.exec(text)) !== null) {
+    const [, prefix, rawName] = match;
+    const name = rawName.replace(/[.-]+$/, '');
+    const user = mentions.get(name.toLowerCase());
+    if (!user) continue;
+
+    const start = match.index + prefix.length;
+    html += escapeHtml(text.slice(last, start));
+    html += `<a href="/profile/${encodeURIComponent(user.username)}" class="mention">@${escapeHtml(name)}</a>`;
+    last = start + 1 + name.length;
+    // Trailing dots and dashes go back to the text
+    MENTION_PATTERN.lastIndex = Math.min(MENTION_PATTERN.lastIndex, last);
+  }
+
+  return html + escapeHtml(text.slice(last));
+}
+
+/**
+ * Render links, emphasis and mentions in text without code spans
+ */
+function renderFormatting(text: string, mentions: MentionedUsers): string {
+  let html = '';
+  let last = 0;
+  INLINE_PATTERN.lastIndex = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = INLINE_PATTERN.exec(text)) !== null) {
+    const [whole, linkText, linkUrl, bareUrl, bold, italicPrefix, , italic] = match;
+    html += renderText(text.slice(last, match.index), mentions);
+    last = match.index + whole.length;
+
+    if (linkText !== undefined) {
+      const url = sanitizeUrl(linkUrl);
+      // Unsafe targets are shown as typed
+      html += url ? link(url, linkText) : escapeHtml(whole);
+    } else if (bareUrl !== undefined) {
+      const url = sanitizeUrl(bareUrl);
+      html += url ? link(url, bareUrl) : escapeHtml(whole);
+    } else if (bold !== undefined) {
+      html += `<strong>${escapeHtml(bold)}</strong>`;
+    } else {
+      html += `${escapeHtml(italicPrefix)}<em>${escapeHtml(italic)}</em>`;
+    }
+  }
+
+  return html + renderText(text.slice(last), mentions);
+}
+
+/**
+ * Render the inline Markdown in a paragraph
+ */
+function renderInline(text: string, mentions: MentionedUsers): string {
+  let html = '';
+  let last = 0;
+  INLINE_CODE_PATTERN.lastIndex = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = INLINE_CODE_PATTERN.exec(text)) !== null) {
+    html += renderFormatting(text.slice(last, match.index), mentions);
+    html += `<code>${escapeHtml(match[1])}</code>`;
+    last = match.index + match[0].length;
+  }
+
+  return (html + renderFormatting(text.slice(last), mentions)).replace(/\n/g, '<br>');
+}
+
+/**
+ * Render prose as paragraphs split on blank lines
+ */
+function renderParagraphs(lines: string[], mentions: MentionedUsers): string {
+  return lines
+    .join('\n')
+    .split(/\n\s*\n/)
+    .map(paragraph => paragraph.trim())
+    .filter(paragraph => paragraph.length > 0)
+    .map(paragraph => `<p>${renderInline(paragraph, mentions)}</p>`)
+    .join('');
+}
+
+/**
+ * Render a comment's Markdown
+ * @param source The comment as stored
+ * @param mentions The existing users among extractMentions(source); other
+ * mentions are left as text
+ * @returns Sanitised HTML for prose, and the code blocks as plain text
+ */
+export function renderCommentMarkdown(source: string, mentions: MentionedUsers = new Map()): MarkdownBlock[] {
+  const blocks: MarkdownBlock[] = [];
+  const lines = source.replace(/\r\n?/g, '\n').split('\n');
+  let prose: string[] = [];
+
+  const flushProse = () => {
+    const html = renderParagraphs(prose, mentions);
+    if (html) blocks.push({ type: 'html', html });
+    prose = [];
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const fence = FENCE_PATTERN.exec(lines[i]);
+    if (!fence) {
+      prose.push(lines[i]);
+      continue;
+    }
+
+    flushProse();
+    const [, marker, info] = fence;
+    const code: string[] = [];
+    // An unclosed fence runs to the end of the comment
+    for (i++; i < lines.length; i++) {
+      const closing = lines[i].trim();
+      if (closing.startsWith(marker[0]) && closing.length >= marker.length && /^(`+|~+)$/.test(closing)) {
+        break;
+      }
+      code.push(lines[i]);
+    }
+    blocks.push({
+      type: 'code',
+      language: FENCE_LANGUAGES[info.toLowerCase()] ?? 'plaintext',
+      code: code.join('\n'),
+    });
+  }
+
+  flushProse();
+  return blocks;
+}
@@ -0,0 +1,237 @@
+import { db } from "@db";
+import { notifications, users, snippets, comments } from "@db/schema";
+import { eq, and, desc, inArray, isNull, sql } from "drizzle-orm";
+import { extractMentions } from "./markdown";
+
+/**
+ * Notifications
+ *
+ * Users are notified when someone:
+ * - mentions them as @username in a comment (`mention`)
+ * - comments on one of their snippets (`comment`)
+ * - replies to one of their comments (`reply`)
+ * - likes one of their snippets (`vote`)
+ *
+ * Nobody is notified about their own actions, and each comment notifies a
+ * user once, as a reply before a comment before a mention. Likes on a
+ * snippet are merged into its unread vote notification, with `count`
+ * holding how many there have been since it was last read.
+ *
+ * Creating notifications never fails the request that caused them; errors
+ * are logged and the action goes ahead.
+ */
+
+export const NOTIFICATION_TYPES = ['mention', 'comment', 'reply', 'vote'] as const;
+export type NotificationType = typeof NOTIFICATION_TYPES[number];
+
+export const MAX_NOTIFICATIONS = 100;
+
+/**
+ * Look up mentioned usernames, ignoring case
+ * @param names Lowercased names from extractMentions (see markdown.ts)
+ * @returns The matching users keyed by lowercased name. Where names differ
+ * only in case, the exact lowercase match wins.
+ */
+export async function resolveMentions(names: string[]): Promise<Map<string, { id: number; username: string }>> {
+  const resolved = new Map<string, { id: number; username: string }>();
+  if (names.length === 0) return resolved;
+
+  const rows = await db
+    .select({ id: users.id, username: users.username })
+    .from(users)
+    .where(inArray(sql`lower(${users.username})`, names));
+
+  for (const row of rows) {
+    const key = row.username.toLowerCase();
+    if (!resolved.has(key) || row.username === key) {
+      resolved.set(key, row);
+    }
+  }
+  return resolved;
+}
+
+type NewNotificationRow = typeof notifications.$inferInsert;
+
+async function insertNotifications(rows: NewNotificationRow[]) {
+  if (rows.length > 0) {
+    await db.insert(notifications).values(rows);
+  }
+}
+
+/**
+ * Notify the snippet's author, the parent comment's author and anyone
+ * mentioned about a new comment
+ * @param comment The comment just created
+ */
+export async function notifyCommentCreated(comment: {
+  id: number;
+  snippetId: number;
+  authorId: number;
+  parentId: number | null;
+  content: string;
+}) {
+  try {
+    const [snippet] = await db
+      .select({ authorId: snippets.authorId })
+      .from(snippets)
+      .where(eq(snippets.id, comment.snippetId))
+      .limit(1);
+
+    let parentAuthorId: number | null = null;
+    if (comment.parentId !== null) {
+      const [parent] = await db
+        .select({ authorId: comments.authorId })
+        .from(comments)
+        .where(eq(comments.id, comment.parentId))
+        .limit(1);
+      parentAuthorId = parent?.authorId ?? null;
+    }
+
+    const mentioned = await resolveMentions(extractMentions(comment.content));
+
+    // Each recipient gets the most specific notification only
+    const recipients = new Map<number, NotificationType>();
+    mentioned.forEach(user => recipients.set(user.id, 'mention'));
+    if (snippet) recipients.set(snippet.authorId, 'comment');
+    if (parentAuthorId !== null) recipients.set(parentAuthorId, 'reply');
+    recipients.delete(comment.authorId);
+
+    const rows: NewNotificationRow[] = [];
+    recipients.forEach((type, userId) => rows.push({
+      userId,
+      type,
+      actorId: comment.authorId,
+      snippetId: comment.snippetId,
+      commentId: comment.id,
+    }));
+    await insertNotifications(rows);
+  } catch (error) {
+    console.error('Error creating comment notifications:', error);
+  }
+}
+
+/**
+ * Notify users newly mentioned by an edit to a comment
+ * @param comment The edited comment
+ * @param previousContent The content before the edit
+ */
+export async function notifyCommentEdited(
+  comment: { id: number; snippetId: number; authorId: number; content: string },
+  previousContent: string
+) {
+  try {
+    const before = new Set(extractMentions(previousContent));
+    const added = extractMentions(comment.content).filter(name => !before.has(name));
+    const mentioned = await resolveMentions(added);
+
+    const rows: NewNotificationRow[] = [];
+    mentioned.forEach(user => {
+      if (user.id !== comment.authorId) {
+        rows.push({
+          userId: user.id,
+          type: 'mention',
+          actorId: comment.authorId,
+          snippetId: comment.snippetId,
+          commentId: comment.id,
+        });
+      }
+    });
+    await insertNotifications(rows);
+  } catch (error) {
+    console.error('Error creating mention notifications:', error);
+  }
+}
+
+/**
+ * Notify a snippet's author of a like, merging it into their unread vote
+ * notification for the snippet if they have one
+ * @param snippetId The snippet liked
+ * @param actorId The voter, or null for an anonymous visitor
+ */
+export async function notifyVote(snippetId: number, actorId: number | null) {
+  try {
+    const [snippet] = await db
+      .select({ authorId: snippets.authorId })
+      .from(snippets)
+      .where(eq(snippets.id, snippetId))
+      .limit(1);
+    if (!snippet || snippet.authorId === actorId) return;
+
+    const merged = await db
+      .update(notifications)
+      .set({ count: sql`${notifications.count} + 1`, actorId, createdAt: new Date() })
+      .where(and(
+        eq(notifications.userId, snippet.authorId),
+        eq(notifications.snippetId, snippetId),
+        eq(notifications.type, 'vote'),
+        isNull(notifications.readAt)
+      ))
+      .returning({ id: notifications.id });
+
+    if (merged.length === 0) {
+      await insertNotifications([{ userId: snippet.authorId, type: 'vote', actorId, snippetId }]);
+    }
+  } catch (error) {
+    console.error('Error creating vote notification:', error);
+  }
+}
+
+/**
+ * A user's most recent notifications
+ * @param userId The recipient
+ * @param options `unreadOnly` to leave out read ones; `limit` up to MAX_NOTIFICATIONS
+ */
+export async function listNotifications(userId: number, options: { unreadOnly: boolean; limit: number }) {
+  return db
+    .select({
+      id: notifications.id,
+      type: notifications.type,
+      count: notifications.count,
+      createdAt: notifications.createdAt,
+      readAt: notifications.readAt,
+      actorUsername: users.username,
+      snippetId: notifications.snippetId,
+      snippetTitle: snippets.title,
+      commentId: notifications.commentId,
+    })
+    .from(notifications)
+    .innerJoin(snippets, eq(notifications.snippetId, snippets.id))
+    .leftJoin(users, eq(notifications.actorId, users.id))
+    .where(and(
+      eq(notifications.userId, userId),
+      options.unreadOnly ? isNull(notifications.readAt) : undefined
+    ))
+    .orderBy(desc(notifications.createdAt), desc(notifications.id))
+    .limit(options.limit);
+}
+
+/**
+ * How many unread notifications a user has
+ */
+export async function countUnreadNotifications(userId: number): Promise<number> {
+  const [row] = await db
+    .select({ count: sql<number>`COUNT(*)::integer` })
+    .from(notifications)
+    .where(and(eq(notifications.userId, userId), isNull(notifications.readAt)));
+  return row?.count ?? 0;
+}
+
+/**
+ * Mark some or all of a user's notifications as read
+ * @param userId The recipient; other users' notifications are never touched
+ * @param ids The notifications to mark, or undefined for all of them
+ * @returns How many were marked
+ */
+export async function markNotificationsRead(userId: number, ids?: number[]) {
+  if (ids && ids.length === 0) return 0;
+  const updated = await db
+    .update(notifications)
+    .set({ readAt: new Date() })
+    .where(and(
+      eq(notifications.userId, userId),
+      isNull(notifications.readAt),
+      ids ? inArray(notifications.id, ids) : undefined
+    ))
+    .returning({ id: notifications.id });
+  return updated.length;
+}
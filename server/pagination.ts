@@ -0,0 +1,169 @@
+import { sql, and, or, type SQL } from "drizzle-orm";
+import { snippets } from "@db/schema";
+import { trendingScoreSql, hotScoreSql } from "./trending";
+
+/**
+ * Cursor Pagination
+ *
+ * List endpoints return pages of `{ items, nextCursor }`. Pages are fetched
+ * with keyset pagination on (sort value, id) so that rows inserted while a
+ * user scrolls don't shift or duplicate later pages.
+ *
+ * The cursor is an opaque base64url token holding the sort value and id of
+ * the last row on the previous page, plus the reference time used for
+ * time-dependent sorts (trending and hot, see trending.ts) so scores stay stable
+ * across pages.
+ */
+
+export const SORT_MODES = ['newest', 'votes', 'comments', 'trending', 'hot', 'relevance'] as const;
+export type SortMode = typeof SORT_MODES[number];
+
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 100;
+
+interface Cursor {
+  value: number;
+  id: number;
+  at: number;
+}
+
+export interface PageParams {
+  limit: number;
+  sort: SortMode;
+  cursor: Cursor | null;
+  // Reference time for time-decayed sorts, carried over from the cursor
+  at: Date;
+}
+
+export interface Page<T> {
+  items: T[];
+  nextCursor: string | null;
+}
+
+function encodeCursor(cursor: Cursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+function decodeCursor(token: string): Cursor | null {
+  try {
+    const cursor = JSON.parse(Buffer.from(token, 'base64url').toString('utf-8'));
+    if (
+      typeof cursor?.value === 'number' &&
+      Number.isInteger(cursor?.id) &&
+      typeof cursor?.at === 'number'
+    ) {
+      return cursor;
+    }
+  } catch {
+    // Fall through to invalid cursor
+  }
+  return null;
+}
+
+/**
+ * Read `cursor`, `limit` and `sort` from a request query string
+ * @param query The Express request query
+ * @param defaultSort Sort mode used when none is requested
+ * @returns The parsed parameters, or an error message for a 400 response
+ */
+export function parsePageParams(
+  query: Record<string, unknown>,
+  defaultSort: SortMode = 'newest'
+): PageParams | { error: string } {
+  const limit = query.limit === undefined ? DEFAULT_PAGE_SIZE : Number(query.limit);
+  if (!Number.isInteger(limit) || limit < 1) {
+    return { error: "limit must be a positive integer" };
+  }
+
+  const sort = (query.sort ?? defaultSort) as SortMode;
+  if (!SORT_MODES.includes(sort)) {
+    return { error: `sort must be one of: ${SORT_MODES.join(', ')}` };
+  }
+
+  let cursor: Cursor | null = null;
+  if (typeof query.cursor === 'string' && query.cursor) {
+    cursor = decodeCursor(query.cursor);
+    if (!cursor) {
+      return { error: "Invalid cursor" };
+    }
+  }
+
+  return {
+    limit: Math.min(limit, MAX_PAGE_SIZE),
+    sort,
+    cursor,
+    at: cursor ? new Date(cursor.at) : new Date(),
+  };
+}
+
+/**
+ * Number of comments on each snippet, not counting deleted ones, usable in
+ * select, where and order by
+ */
+export const commentCountSql = sql<number>`(
+  SELECT COUNT(*) FROM comments
+  WHERE comments.snippet_id = ${snippets.id} AND comments.deleted_at IS NULL
+)::integer`;
+
+/**
+ * The numeric value snippets are ordered by (descending) for a sort mode
+ * @param params Parsed page parameters
+ * @param relevance Search rank expression, required for the relevance sort
+ */
+export function snippetSortValue(params: PageParams, relevance?: SQL<number>): SQL<number> {
+  switch (params.sort) {
+    case 'votes':
+      return sql<number>`${snippets.votes}::double precision`;
+    case 'comments':
+      return sql<number>`${commentCountSql}::double precision`;
+    case 'trending':
+      return trendingScoreSql(params.at);
+    case 'hot':
+      return hotScoreSql(params.at);
+    case 'relevance':
+      if (relevance) {
+        return sql<number>`(${relevance})::double precision`;
+      }
+      // Without a search there's nothing to rank by, so show newest first
+      return sql<number>`extract(epoch from ${snippets.createdAt})::double precision`;
+    case 'newest':
+    default:
+      return sql<number>`extract(epoch from ${snippets.createdAt})::double precision`;
+  }
+}
+
+/**
+ * Where clause selecting rows after the cursor in (sort value desc, id desc) order
+ * @param params Parsed page parameters
+ * @param sortValue The expression returned by snippetSortValue
+ */
+export function afterCursor(params: PageParams, sortValue: SQL<number>): SQL | undefined {
+  if (!params.cursor) return undefined;
+  const { value, id } = params.cursor;
+  return or(
+    sql`${sortValue} < ${value}`,
+    and(sql`${sortValue} = ${value}`, sql`${snippets.id} < ${id}`)
+  );
+}
+
+/**
+ * Trim the extra look-ahead row and build the next cursor. Queries should
+ * fetch `limit + 1` rows and select the sort expression as `sortValue`.
+ * @param rows Rows returned by the query
+ * @param params Parsed page parameters
+ */
+export function toPage<T extends { id: number; sortValue: number }>(
+  rows: T[],
+  params: PageParams
+): Page<Omit<T, 'sortValue'>> {
+  const hasMore = rows.length > params.limit;
+  const pageRows = hasMore ? rows.slice(0, params.limit) : rows;
+  const last = pageRows[pageRows.length - 1];
+
+  return {
+    items: pageRows.map(({ sortValue, ...item }) => item),
+    nextCursor: hasMore && last
+      ? encodeCursor({ value: Number(last.sortValue), id: last.id, at: params.at.getTime() })
+      : null,
+  };
+}
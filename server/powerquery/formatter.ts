@@ -0,0 +1,210 @@
+import { tokenizeM, KEYWORDS, type MToken } from "./tokenizer";
+import { parseM, type MNode, type MGroupNode, type MLetNode, type MTokenNode } from "./parser";
+
+/**
+ * Power Query M Formatter
+ *
+ * Lays M out the way the Power BI advanced editor does: `let`, each step
+ * and `in` on their own lines with the steps indented, calls written
+ * `Function(a, b)`, and calls, lists and records broken one item per line
+ * when they don't fit within MAX_WIDTH. Names and keywords keep their case,
+ * since M is case-sensitive. Runs entirely in-process.
+ */
+
+const INDENT = '    ';
+const MAX_WIDTH = 80;
+
+const pad = (indent: number) => INDENT.repeat(indent);
+
+const lastLineLength = (text: string) => text.length - text.lastIndexOf('\n') - 1;
+
+const isKeyword = (token: MToken) => token.type === 'identifier' && KEYWORDS.has(token.text);
+
+// Type names that a record or list type follows: type table [A = text]
+const TYPE_NAMES = new Set(['table', 'record', 'list', 'function']);
+
+// Operators written without spaces around them
+const TIGHT_OPERATORS = new Set(['..', '...', '!']);
+
+/**
+ * Whether a node ends a value, so a bracket after it applies to it:
+ * a call, Source{0} or Source[Column]
+ */
+function endsValue(node: MNode) {
+  if (node.kind === 'group') return true;
+  if (node.kind === 'let') return false;
+  const { token } = node;
+  return (token.type === 'identifier' && !isKeyword(token) && !TYPE_NAMES.has(token.text)) || token.type === 'quoted' ||
+    token.type === 'string' || (token.type === 'operator' && token.text === '?');
+}
+
+/**
+ * Whether an operator is a prefix sign (-1, -[Amount]) rather than binary
+ */
+function isUnary(nodes: MNode[], index: number) {
+  const node = nodes[index];
+  if (node.kind !== 'token' || node.token.type !== 'operator' || !['-', '+'].includes(node.token.text)) {
+    return false;
+  }
+  const previous = nodes[index - 1];
+  return !previous || (previous.kind === 'token' && (
+    previous.token.type === 'operator' || previous.token.type === 'comma' || isKeyword(previous.token)
+  ));
+}
+
+/**
+ * The separator to put between two adjacent nodes of a sequence
+ */
+function separator(nodes: MNode[], index: number) {
+  if (index === 0) return '';
+  const previous = nodes[index - 1];
+  const node = nodes[index];
+
+  if (node.kind === 'group' && endsValue(previous)) return '';
+  if (node.kind === 'token') {
+    // [Column]? and Source{0}? are optional access
+    if (node.token.text === '?' && endsValue(previous)) return '';
+    if (TIGHT_OPERATORS.has(node.token.text)) return '';
+  }
+  if (previous.kind === 'token') {
+    if (previous.token.text === '@' || TIGHT_OPERATORS.has(previous.token.text)) return '';
+  }
+  if (isUnary(nodes, index - 1)) return '';
+  return ' ';
+}
+
+function flatGroup(group: MGroupNode): string | null {
+  if (group.items.length === 0) return `${group.open.text}${group.close.text}`;
+  const items = group.items.map(flat);
+  if (items.some(item => item === null)) return null;
+  return `${group.open.text}${items.join(', ')}${group.close.text}`;
+}
+
+/**
+ * Render a sequence on a single line, or null if it can't be (it holds a
+ * let or a line comment)
+ */
+function flat(nodes: MNode[]): string | null {
+  let out = '';
+  for (let index = 0; index < nodes.length; index++) {
+    const node = nodes[index];
+    if (node.kind === 'let') return null;
+    if (node.kind === 'token' && node.token.lineComment) return null;
+    const text = node.kind === 'group' ? flatGroup(node) : node.token.text;
+    if (text === null) return null;
+    out += separator(nodes, index) + text;
+  }
+  return out;
+}
+
+/**
+ * Split comments off the end of a sequence so they can follow a comma
+ */
+function splitTrailingComments(nodes: MNode[]): [MNode[], string] {
+  let end = nodes.length;
+  while (end > 0) {
+    const node = nodes[end - 1];
+    if (node.kind !== 'token' || node.token.type !== 'comment') break;
+    end--;
+  }
+  const comments = nodes.slice(end).map(node => (node as MTokenNode).token.text).join(' ');
+  return [nodes.slice(0, end), comments ? ` ${comments}` : ''];
+}
+
+function renderGroup(group: MGroupNode, indent: number): string {
+  if (group.items.length === 0) return `${group.open.text}${group.close.text}`;
+  const items = group.items.map((item, index) => {
+    // A comment ending the item goes after its comma, not before it
+    const [body, comments] = splitTrailingComments(item);
+    const comma = index < group.items.length - 1 ? ',' : '';
+    return `${pad(indent + 1)}${render(body, indent + 1, (indent + 1) * INDENT.length)}${comma}${comments}`;
+  });
+  return `${group.open.text}\n${items.join('\n')}\n${pad(indent)}${group.close.text}`;
+}
+
+function renderLet(node: MLetNode, indent: number): string {
+  const lines = ['let'];
+
+  node.steps.forEach((step, index) => {
+    for (const comment of step.comments) {
+      lines.push(`${pad(indent + 1)}${comment.text}`);
+    }
+    const [value, comments] = splitTrailingComments(step.value);
+    const comma = index < node.steps.length - 1 ? ',' : '';
+    const head = `${pad(indent + 1)}${step.name.text} =`;
+
+    // A nested let, or a value that doesn't fit, starts on the next line
+    const single = flat(value);
+    if (single !== null && head.length + 1 + single.length <= MAX_WIDTH) {
+      lines.push(`${head} ${single}${comma}${comments}`);
+    } else if (value[0].kind === 'let') {
+      lines.push(head, `${pad(indent + 2)}${render(value, indent + 2, (indent + 2) * INDENT.length)}${comma}${comments}`);
+    } else {
+      lines.push(`${head} ${render(value, indent + 1, head.length + 1)}${comma}${comments}`);
+    }
+  });
+
+  const [body, comments] = splitTrailingComments(node.body);
+  lines.push(`${pad(indent)}in`);
+  lines.push(`${pad(indent + 1)}${render(body, indent + 1, (indent + 1) * INDENT.length)}${comments}`);
+  return lines.join('\n');
+}
+
+/**
+ * Render a sequence starting at the given column, breaking it over several
+ * lines where it doesn't fit
+ */
+function render(nodes: MNode[], indent: number, column: number): string {
+  const single = flat(nodes);
+  if (single !== null && column + single.length <= MAX_WIDTH) return single;
+
+  let out = '';
+  let breakNext = false;
+
+  // Long conditions put each `and`, `or` and `else` on a new line
+  const breaks = new Set(['and', 'or', 'else']);
+
+  for (let index = 0; index < nodes.length; index++) {
+    const node = nodes[index];
+    let sep = separator(nodes, index);
+    if (breakNext) {
+      sep = `\n${pad(indent)}`;
+      breakNext = false;
+    }
+
+    let text: string;
+    if (node.kind === 'let') {
+      text = renderLet(node, indent);
+    } else if (node.kind === 'group') {
+      const flatText = flatGroup(node);
+      const before = out + sep;
+      const at = before.includes('\n') ? lastLineLength(before) : column + before.length;
+      text = flatText !== null && at + flatText.length <= MAX_WIDTH
+        ? flatText
+        : renderGroup(node, indent);
+    } else {
+      text = node.token.text;
+      if (index > 0 && node.token.type === 'identifier' && breaks.has(node.token.text)) {
+        sep = `\n${pad(indent)}`;
+      }
+      if (node.token.lineComment) breakNext = true;
+    }
+
+    out += sep + text;
+  }
+
+  return out;
+}
+
+/**
+ * Format M source
+ * @param source An M expression or query
+ * @throws MSyntaxError when the source can't be tokenized or parsed
+ */
+export function formatM(source: string): string {
+  const tree = parseM(tokenizeM(source));
+  return render(tree, 0, 0)
+    .split('\n')
+    .map(line => line.replace(/\s+$/, ''))
+    .join('\n') + '\n';
+}
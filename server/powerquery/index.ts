@@ -0,0 +1,3 @@
+export { tokenizeM, MSyntaxError } from "./tokenizer";
+export { formatM } from "./formatter";
+export { validateM, type MValidationError } from "./validate";
@@ -0,0 +1,221 @@
+import { MSyntaxError, KEYWORDS, identifierName, type MToken } from "./tokenizer";
+
+/**
+ * Power Query M Parse Tree
+ *
+ * Like the DAX tree, a shallow one: an expression is a flat sequence of
+ * tokens, bracketed groups and let expressions. Groups hold their
+ * comma-separated items as nested sequences, and a let holds its steps and
+ * the expression after `in`. Operator precedence never matters to the
+ * formatter or the validator, so it isn't modelled.
+ */
+
+export interface MTokenNode {
+  kind: 'token';
+  token: MToken;
+}
+
+export interface MGroupNode {
+  kind: 'group';
+  open: MToken;
+  close: MToken;
+  items: MNode[][];
+}
+
+export interface MStep {
+  // Comments on the lines before the step
+  comments: MToken[];
+  name: MToken;
+  value: MNode[];
+}
+
+export interface MLetNode {
+  kind: 'let';
+  let: MToken;
+  steps: MStep[];
+  in: MToken;
+  body: MNode[];
+}
+
+export type MNode = MTokenNode | MGroupNode | MLetNode;
+
+const CLOSERS: Record<string, string> = { '(': ')', '[': ']', '{': '}' };
+
+// Where the sequence being parsed ends
+interface Context {
+  // The innermost enclosing group's opening bracket, and the one that closes it
+  open: MToken | null;
+  closer: string | null;
+  // Whether a comma ends it (group items and let steps)
+  comma: boolean;
+  // Whether `in` ends it (let steps)
+  in: boolean;
+  // Directly inside [ ]: field names may contain words like `in`
+  record: boolean;
+}
+
+const isKeyword = (token: MToken, keyword: string) => token.type === 'identifier' && token.text === keyword;
+
+const tokenLength = (token: MToken) => token.text.split('\n')[0].length;
+
+/**
+ * Build the parse tree for a token list
+ * @throws MSyntaxError for unbalanced brackets, `let` without `in` (and
+ * the reverse), and malformed steps
+ */
+export function parseM(tokens: MToken[]): MNode[] {
+  let index = 0;
+  // Lets waiting for their `in`
+  let openLets = 0;
+  const peek = (): MToken | undefined => tokens[index];
+
+  const fail = (message: string, token: MToken | undefined): never => {
+    const at = token ?? tokens[tokens.length - 1];
+    throw new MSyntaxError(message, at?.line ?? 1, at?.column ?? 1, at ? tokenLength(at) : 1);
+  };
+
+  const parseSequence = (context: Context): MNode[] => {
+    const nodes: MNode[] = [];
+
+    while (index < tokens.length) {
+      const token = peek()!;
+
+      if (token.type === 'close') {
+        if (token.text !== context.closer) fail(`Unexpected "${token.text}"`, token);
+        return nodes;
+      }
+      if (token.type === 'comma') {
+        if (!context.comma) fail('Unexpected ","', token);
+        return nodes;
+      }
+      if (isKeyword(token, 'in')) {
+        if (context.in) return nodes;
+        if (!context.record) {
+          // Inside a let, an `in` before a bracket closes means the bracket was never closed
+          if (openLets > 0 && context.open) {
+            fail(`Missing "${context.closer}" for the "${context.open.text}" on line ${context.open.line}`, context.open);
+          }
+          fail("'in' without a matching 'let'", token);
+        }
+      }
+
+      index++;
+      if (isKeyword(token, 'let')) {
+        nodes.push(parseLet(token, context));
+      } else if (token.type === 'open') {
+        nodes.push(parseGroup(token));
+      } else {
+        nodes.push({ kind: 'token', token });
+      }
+    }
+
+    return nodes;
+  };
+
+  const parseGroup = (open: MToken): MGroupNode => {
+    const closer = CLOSERS[open.text];
+    const items: MNode[][] = [];
+
+    while (true) {
+      const item = parseSequence({ open, closer, comma: true, in: false, record: open.text === '[' });
+      const next = peek();
+      if (!next) fail(`Missing "${closer}" for the "${open.text}" on line ${open.line}`, open);
+      index++;
+
+      // A call with no arguments has no items
+      if (next!.type === 'close' && items.length === 0 && item.length === 0) {
+        return { kind: 'group', open, close: next!, items };
+      }
+      items.push(item);
+      if (next!.type === 'close') return { kind: 'group', open, close: next!, items };
+
+      // A comment on the same line as the comma belongs to the item before it
+      while (peek()?.type === 'comment' && peek()!.line === next!.line) {
+        item.push({ kind: 'token', token: tokens[index++] });
+      }
+    }
+  };
+
+  const parseLet = (letToken: MToken, outer: Context): MLetNode => {
+    const steps: MStep[] = [];
+    openLets++;
+
+    while (true) {
+      const comments: MToken[] = [];
+      while (peek()?.type === 'comment') comments.push(tokens[index++]);
+
+      const name = peek();
+      if (!name || name.type === 'close') fail("'let' without a matching 'in'", letToken);
+      if (isKeyword(name!, 'in')) {
+        fail(steps.length === 0 ? "Expected a step after 'let'" : "Unexpected ',' before 'in'", name);
+      }
+      if (name!.type !== 'quoted' && (name!.type !== 'identifier' || KEYWORDS.has(name!.text) || name!.text.startsWith('#'))) {
+        fail('Expected a step name', name);
+      }
+      index++;
+
+      const equals = peek();
+      if (!equals || equals.type !== 'operator' || equals.text !== '=') {
+        fail(`Expected "=" after step ${name!.text}`, equals ?? name);
+      }
+      index++;
+
+      const value = parseSequence({ open: outer.open, closer: outer.closer, comma: true, in: true, record: false });
+      if (value.length === 0) fail(`Step ${name!.text} has no expression`, name);
+      checkMissingComma(value);
+      steps.push({ comments, name: name!, value });
+
+      const next = peek();
+      if (!next || next.type === 'close') fail("'let' without a matching 'in'", letToken);
+      index++;
+
+      if (next!.type === 'comma') {
+        while (peek()?.type === 'comment' && peek()!.line === next!.line) {
+          value.push({ kind: 'token', token: tokens[index++] });
+        }
+        continue;
+      }
+
+      // `in`: the let's result runs to wherever the enclosing expression ends
+      openLets--;
+      const body = parseSequence(outer);
+      if (!body.some(node => node.kind !== 'token' || node.token.type !== 'comment')) {
+        fail("Expected an expression after 'in'", next);
+      }
+      return { kind: 'let', let: letToken, steps, in: next!, body };
+    }
+  };
+
+  /**
+   * Two steps without a comma between them parse as one step whose value
+   * contains `Name =` at the start of a line
+   */
+  const checkMissingComma = (value: MNode[]) => {
+    for (let i = 1; i < value.length - 1; i++) {
+      const node = value[i];
+      const next = value[i + 1];
+      const previous = value[i - 1];
+      if (node.kind === 'token' && (node.token.type === 'identifier' || node.token.type === 'quoted') &&
+          next.kind === 'token' && next.token.text === '=' &&
+          node.token.line > lastLine(previous)) {
+        fail(`Missing "," before step ${identifierName(node.token)}`, node.token);
+      }
+    }
+  };
+
+  return parseSequence({ open: null, closer: null, comma: false, in: false, record: false });
+}
+
+/**
+ * The line a node ends on
+ */
+export function lastLine(node: MNode): number {
+  switch (node.kind) {
+    case 'token':
+      return node.token.line + node.token.text.split('\n').length - 1;
+    case 'group':
+      return node.close.line;
+    case 'let':
+      return node.body.length > 0 ? lastLine(node.body[node.body.length - 1]) : node.in.line;
+  }
+}
@@ -0,0 +1,201 @@
+/**
+ * Power Query M Tokenizer
+ *
+ * Splits M source into tokens with their positions. Dotted library names
+ * (Table.AddColumn) are single identifiers, as are intrinsics like #date;
+ * #"quoted identifiers" are kept apart from "text" literals because only
+ * the former can name a step.
+ */
+
+export type MTokenType =
+  | 'identifier'   // keywords, step names, library functions, #intrinsics
+  | 'quoted'       // #"Quoted Identifier"
+  | 'string'
+  | 'number'
+  | 'operator'
+  | 'open'         // ( [ or {
+  | 'close'        // ) ] or }
+  | 'comma'
+  | 'comment'
+  | 'other';       // anything else, e.g. the % in a [Margin %] field name
+
+export interface MToken {
+  type: MTokenType;
+  text: string;
+  // 1-based line and column of the first character
+  line: number;
+  column: number;
+  offset: number;
+  // Line comments end the line they're on
+  lineComment?: boolean;
+}
+
+export class MSyntaxError extends Error {
+  // `reason` is the message without its position
+  constructor(public reason: string, public line: number, public column: number, public length = 1) {
+    super(`${reason} (line ${line}, column ${column})`);
+    this.name = 'MSyntaxError';
+  }
+}
+
+export const KEYWORDS = new Set([
+  'let', 'in', 'if', 'then', 'else', 'each', 'try', 'otherwise', 'catch', 'error',
+  'and', 'or', 'not', 'as', 'is', 'meta', 'type', 'section', 'shared', 'optional',
+  'nullable', 'true', 'false', 'null',
+]);
+
+const OPERATORS = ['=>', '<=', '>=', '<>', '??', '...', '..', '=', '<', '>', '+', '-', '*', '/', '&', '?', '@', '!', ';'];
+
+/**
+ * The name a step or field is known by: the text of an identifier, or the
+ * unescaped contents of a #"quoted identifier"
+ */
+export function identifierName(token: MToken) {
+  return token.type === 'quoted' ? token.text.slice(2, -1).replace(/""/g, '"') : token.text;
+}
+
+/**
+ * Tokenize M source
+ * @param source An M expression or query
+ * @throws MSyntaxError for unterminated text, quoted identifiers and comments
+ */
+export function tokenizeM(source: string): MToken[] {
+  const tokens: MToken[] = [];
+  let index = 0;
+  let line = 1;
+  let lineStart = 0;
+
+  const push = (type: MTokenType, start: number, end: number, extra: Partial<MToken> = {}) => {
+    tokens.push({
+      type,
+      text: source.slice(start, end),
+      line,
+      column: start - lineStart + 1,
+      offset: start,
+      ...extra,
+    });
+  };
+
+  // Move the line counters past any line breaks in a token
+  const skipLines = (start: number, end: number) => {
+    for (let i = start; i < end; i++) {
+      if (source[i] === '\n') {
+        line++;
+        lineStart = i + 1;
+      }
+    }
+  };
+
+  // Find the end of a double-quoted run where quotes are escaped by doubling
+  const readQuoted = (start: number, what: string, singleLine: boolean) => {
+    let end = start;
+    while (end < source.length) {
+      if (source[end] === '"') {
+        if (source[end + 1] === '"') {
+          end += 2;
+          continue;
+        }
+        return end + 1;
+      }
+      if (singleLine && source[end] === '\n') break;
+      end++;
+    }
+    throw new MSyntaxError(`Unterminated ${what}`, line, index - lineStart + 1);
+  };
+
+  while (index < source.length) {
+    const char = source[index];
+
+    if (char === '\n') {
+      index++;
+      line++;
+      lineStart = index;
+      continue;
+    }
+    if (/\s/.test(char)) {
+      index++;
+      continue;
+    }
+
+    if (source.startsWith('//', index)) {
+      const end = source.indexOf('\n', index);
+      const stop = end === -1 ? source.length : end;
+      push('comment', index, stop, { lineComment: true });
+      index = stop;
+      continue;
+    }
+
+    if (source.startsWith('/*', index)) {
+      const end = source.indexOf('*/', index + 2);
+      if (end === -1) {
+        throw new MSyntaxError('Unterminated comment', line, index - lineStart + 1, 2);
+      }
+      push('comment', index, end + 2);
+      skipLines(index, end);
+      index = end + 2;
+      continue;
+    }
+
+    if (source.startsWith('#"', index)) {
+      const end = readQuoted(index + 2, 'quoted identifier', true);
+      push('quoted', index, end);
+      index = end;
+      continue;
+    }
+
+    if (char === '"') {
+      // Text literals may span lines
+      const end = readQuoted(index + 1, 'text', false);
+      push('string', index, end);
+      skipLines(index, end);
+      index = end;
+      continue;
+    }
+
+    const number = /^(?:0[xX][0-9a-fA-F]+|(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?)/.exec(source.slice(index, index + 64));
+    if (number && !(char === '.' && source[index + 1] === '.')) {
+      // 1..10 is a range, not the number 1. followed by .10
+      const text = number[0].endsWith('.') && source[index + number[0].length] === '.'
+        ? number[0].slice(0, -1)
+        : number[0];
+      push('number', index, index + text.length);
+      index += text.length;
+      continue;
+    }
+
+    const identifier = /^#?[A-Za-z_][A-Za-z0-9_]*(?:\.[A-Za-z_][A-Za-z0-9_]*)*/.exec(source.slice(index, index + 256));
+    if (identifier) {
+      push('identifier', index, index + identifier[0].length);
+      index += identifier[0].length;
+      continue;
+    }
+
+    const operator = OPERATORS.find(op => source.startsWith(op, index));
+    if (operator) {
+      push('operator', index, index + operator.length);
+      index += operator.length;
+      continue;
+    }
+
+    if (char === '(' || char === '[' || char === '{') {
+      push('open', index, index + 1);
+      index++;
+      continue;
+    }
+    if (char === ')' || char === ']' || char === '}') {
+      push('close', index, index + 1);
+      index++;
+      continue;
+    }
+    if (char === ',') {
+      push('comma', index, index + 1);
+      index++;
+      continue;
+    }
+
+    push('other', index, index + 1);
+    index++;
+  }
+
+  return tokens;
+}
@@ -0,0 +1,193 @@
+import { tokenizeM, MSyntaxError, KEYWORDS, identifierName, type MToken } from "./tokenizer";
+import { parseM, type MNode, type MLetNode } from "./parser";
+
+/**
+ * Power Query M Validation
+ *
+ * Catches the mistakes that creep in when M is copied out of the Power BI
+ * advanced editor and trimmed down: unterminated text, brackets and `let`s
+ * that don't close, and steps that refer to steps that no longer exist.
+ *
+ * Any name can refer to another query in the same file, so a plain
+ * identifier is only reported when it's a step name in the wrong case
+ * (M is case-sensitive). #"Quoted names" are how the editor names its own
+ * steps, so inside a let those must match a step, parameter or field.
+ */
+
+export interface MValidationError {
+  message: string;
+  // 1-based, the end column is exclusive
+  line: number;
+  column: number;
+  endLine: number;
+  endColumn: number;
+}
+
+type Scope = Set<string>;
+
+function errorAt(token: MToken, message: string): MValidationError {
+  const length = token.text.split('\n')[0].length;
+  return { message, line: token.line, column: token.column, endLine: token.line, endColumn: token.column + length };
+}
+
+const isName = (node: MNode | undefined): node is MNode & { kind: 'token' } =>
+  node?.kind === 'token' && (node.token.type === 'quoted' || node.token.type === 'identifier');
+
+const isToken = (node: MNode | undefined, text: string) =>
+  node?.kind === 'token' && node.token.text === text;
+
+/**
+ * The parameters of a function literal: `(x, optional y as text) => ...`
+ * @returns The parameter names, or null when the group at `index` isn't a
+ * parameter list
+ */
+function functionParameters(nodes: MNode[], index: number): string[] | null {
+  const group = nodes[index];
+  if (group.kind !== 'group' || group.open.text !== '(') return null;
+
+  // The arrow may follow a return type: (x) as number => ...
+  let next = index + 1;
+  if (isToken(nodes[next], 'as')) next += 2;
+  if (!isToken(nodes[next], '=>')) return null;
+
+  return group.items.map(item => {
+    const first = item.find(node => !isToken(node, 'optional'));
+    return isName(first) ? identifierName(first.token) : '';
+  });
+}
+
+class StepChecker {
+  errors: MValidationError[] = [];
+
+  private isDefined(name: string, scopes: Scope[]) {
+    return scopes.some(scope => scope.has(name));
+  }
+
+  private checkReference(token: MToken, scopes: Scope[], lets: number, step: string | null, scoped: boolean) {
+    if (lets === 0) return;
+    const name = identifierName(token);
+
+    if (name === step && !scoped) {
+      this.errors.push(errorAt(token, `Step ${token.text} refers to itself`));
+      return;
+    }
+    if (this.isDefined(name, scopes)) return;
+
+    if (token.type === 'quoted') {
+      this.errors.push(errorAt(token, `There's no step named ${token.text}`));
+      return;
+    }
+
+    // A plain name may be another query; only a step name in the wrong case is an error
+    const lower = name.toLowerCase();
+    for (let i = scopes.length - 1; i >= 0; i--) {
+      const match = Array.from(scopes[i]).find(candidate => candidate.toLowerCase() === lower);
+      if (match) {
+        this.errors.push(errorAt(token, `There's no step named ${name}; names are case-sensitive, did you mean ${match}?`));
+        return;
+      }
+    }
+  }
+
+  private checkLet(node: MLetNode, scopes: Scope[], lets: number) {
+    const steps: Scope = new Set();
+    for (const step of node.steps) {
+      const name = identifierName(step.name);
+      if (steps.has(name)) {
+        this.errors.push(errorAt(step.name, `Step ${step.name.text} is defined more than once`));
+      }
+      steps.add(name);
+    }
+
+    const inner = [...scopes, steps];
+    for (const step of node.steps) {
+      this.checkSequence(step.value, inner, lets + 1, identifierName(step.name));
+    }
+    this.checkSequence(node.body, inner, lets + 1, null);
+  }
+
+  /**
+   * Check the items of a [ ] group: field access like [Column] holds a name,
+   * not a reference, and record fields are in scope for each other
+   */
+  private checkRecord(items: MNode[][], scopes: Scope[], lets: number, step: string | null) {
+    const fields: Scope = new Set();
+    const values: MNode[][] = [];
+
+    for (const item of items) {
+      const equals = item.findIndex(node => isToken(node, '='));
+      if (equals === -1) continue;
+      const name = item.slice(0, equals);
+      if (name.length > 0 && name.every(node => node.kind === 'token' && node.token.type !== 'string')) {
+        const head = name[0] as { token: MToken };
+        fields.add(name.length === 1 ? identifierName(head.token) : name.map(node => (node as { token: MToken }).token.text).join(' '));
+        values.push(item.slice(equals + 1));
+      } else {
+        values.push(item);
+      }
+    }
+
+    const inner = fields.size > 0 ? [...scopes, fields] : scopes;
+    for (const value of values) {
+      this.checkSequence(value, inner, lets, step);
+    }
+  }
+
+  checkSequence(nodes: MNode[], scopes: Scope[], lets: number, step: string | null) {
+    let current = scopes;
+
+    for (let index = 0; index < nodes.length; index++) {
+      const node = nodes[index];
+
+      if (node.kind === 'let') {
+        this.checkLet(node, current, lets);
+        continue;
+      }
+
+      if (node.kind === 'group') {
+        const parameters = functionParameters(nodes, index);
+        if (node.open.text === '[') {
+          this.checkRecord(node.items, current, lets, step);
+        } else if (!parameters) {
+          node.items.forEach(item => this.checkSequence(item, current, lets, step));
+        }
+        // Parameters are in scope for the rest of the expression, i.e. the function body
+        if (parameters) current = [...current, new Set(parameters)];
+        continue;
+      }
+
+      const { token } = node;
+      if (token.type === 'quoted' ||
+          (token.type === 'identifier' && !KEYWORDS.has(token.text) && !token.text.includes('.') && !token.text.startsWith('#'))) {
+        // @Name refers to the step being defined, for recursion
+        const scoped = isToken(nodes[index - 1], '@');
+        this.checkReference(token, current, lets, step, scoped);
+      }
+    }
+  }
+}
+
+/**
+ * Validate M source
+ * @param source An M expression or query
+ * @returns Every problem found, or the first syntax error when it doesn't parse
+ */
+export function validateM(source: string): MValidationError[] {
+  let tree: MNode[];
+  try {
+    tree = parseM(tokenizeM(source));
+  } catch (error) {
+    if (!(error instanceof MSyntaxError)) throw error;
+    return [{
+      message: error.reason,
+      line: error.line,
+      column: error.column,
+      endLine: error.line,
+      endColumn: error.column + error.length,
+    }];
+  }
+
+  const checker = new StepChecker();
+  checker.checkSequence(tree, [], 0, null);
+  return checker.errors.sort((a, b) => a.line - b.line || a.column - b.column);
+}
@@ -0,0 +1,138 @@
+import { db, type DbExecutor } from "@db";
+import { snippetRevisions, snippets, users, type Snippet } from "@db/schema";
+import { eq, desc, count } from "drizzle-orm";
+import { getSnippetCategoryNames, resolveCategories, setSnippetCategories } from "./categories";
+import { parsePlaceholders, setSnippetPlaceholders } from "./templates";
+
+/**
+ * Record the current state of a snippet as a new revision
+ * @param executor Database handle or transaction to write with
+ * @param snippet The snippet state to capture
+ * @param categoryNames The snippet's category names at this point
+ * @param editorId The user who produced this state
+ * @param createdAt When the state was produced (defaults to now)
+ */
+export async function recordRevision(
+  executor: DbExecutor,
+  snippet: Pick<Snippet, 'id' | 'title' | 'code'>,
+  categoryNames: string[],
+  editorId: number | null,
+  createdAt: Date = new Date()
+) {
+  const [revision] = await executor
+    .insert(snippetRevisions)
+    .values({
+      snippetId: snippet.id,
+      title: snippet.title,
+      code: snippet.code,
+      // Revisions keep a snapshot of the names, not references, so later
+      // category renames don't rewrite history
+      categories: JSON.stringify(categoryNames),
+      editorId,
+      createdAt,
+    })
+    .returning();
+
+  return revision;
+}
+
+/**
+ * Snippets created before revision tracking have no history. Capture their
+ * current state as the first revision so the next edit doesn't lose it.
+ * @param executor Database handle or transaction to write with
+ * @param snippet The snippet as it is stored right now
+ */
+export async function ensureBaselineRevision(executor: DbExecutor, snippet: Snippet) {
+  const [{ total }] = await executor
+    .select({ total: count() })
+    .from(snippetRevisions)
+    .where(eq(snippetRevisions.snippetId, snippet.id));
+
+  if (total === 0) {
+    const categoryNames = await getSnippetCategoryNames(executor, snippet.id);
+    await recordRevision(executor, snippet, categoryNames, snippet.authorId, snippet.updatedAt);
+  }
+}
+
+/**
+ * List every revision of a snippet, newest first
+ * @param snippetId The snippet to fetch history for
+ */
+export async function listRevisions(snippetId: number) {
+  const revisions = await db
+    .select({
+      id: snippetRevisions.id,
+      snippetId: snippetRevisions.snippetId,
+      title: snippetRevisions.title,
+      code: snippetRevisions.code,
+      categories: snippetRevisions.categories,
+      editorId: snippetRevisions.editorId,
+      editorUsername: users.username,
+      createdAt: snippetRevisions.createdAt,
+    })
+    .from(snippetRevisions)
+    .leftJoin(users, eq(snippetRevisions.editorId, users.id))
+    .where(eq(snippetRevisions.snippetId, snippetId))
+    .orderBy(desc(snippetRevisions.createdAt), desc(snippetRevisions.id));
+
+  return revisions.map(revision => ({
+    ...revision,
+    categories: parseRevisionCategories(revision.categories),
+  }));
+}
+
+function parseRevisionCategories(categories: string | null): string[] {
+  if (!categories) return [];
+  try {
+    const parsed = JSON.parse(categories);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Roll a snippet back to an earlier revision. The rollback is itself
+ * recorded as a new revision so it can be undone.
+ * @param snippet The snippet being restored
+ * @param revisionId The revision to restore
+ * @param editorId The user performing the restore
+ * @returns The updated snippet, or null if the revision doesn't belong to it
+ */
+export async function restoreRevision(snippet: Snippet, revisionId: number, editorId: number) {
+  return db.transaction(async (tx) => {
+    const [revision] = await tx
+      .select()
+      .from(snippetRevisions)
+      .where(eq(snippetRevisions.id, revisionId))
+      .limit(1);
+
+    if (!revision || revision.snippetId !== snippet.id) {
+      return null;
+    }
+
+    await ensureBaselineRevision(tx, snippet);
+
+    const [updated] = await tx
+      .update(snippets)
+      .set({
+        title: revision.title,
+        code: revision.code,
+        updatedAt: new Date(),
+      })
+      .where(eq(snippets.id, snippet.id))
+      .returning();
+
+    // Categories that have since been removed can't be restored
+    const { categories: restoredCategories } = await resolveCategories(
+      parseRevisionCategories(revision.categories)
+    );
+    await setSnippetCategories(tx, snippet.id, restoredCategories.map(category => category.id));
+    // Revisions from before placeholders were checked may contradict
+    // themselves; the first occurrence of each wins
+    await setSnippetPlaceholders(tx, snippet.id, parsePlaceholders(revision.code).placeholders);
+
+    await recordRevision(tx, updated, restoredCategories.map(category => category.name), editorId);
+    return updated;
+  });
+}
@@ -1,16 +1,61 @@
 import express, { type Express, Request } from "express";
 import { createServer, type Server } from "http";
 import { db } from "@db";
-import { snippets, votes, users, comments } from "@db/schema";
-import { eq, desc, sql, and } from "drizzle-orm";
+import { snippets, votes, users, bookmarks, collections, collectionSnippets } from "@db/schema";
+import { eq, desc, sql, and, or } from "drizzle-orm";
 import path from "path";
-import { fileURLToPath } from 'url';
-import { dirname } from 'path';
 import fs from 'fs';
 import { promises as fsPromises } from 'fs';
-import { createBackup, restoreFromBackup } from '../scripts/dbBackup';
+import { restoreFromBackup, readBackup, listBackupItems, importBackup, BackupError } from '../scripts/dbBackup';
+import { runBackupJob, listBackupJobs, describeBackupSchedule, failInterruptedBackupJobs } from '../scripts/backupSchedule';
+import { backupDir, backupFilePath, isValidBackupFilename, MAX_BACKUP_SIZE } from '../scripts/backupArchive';
+import multer from 'multer';
 import { setupAuth } from './auth';
+import { requireAuth, requireRole, hasRole, listUsersWithRoles, parseRole, setUserRole } from './access';
 import { generateSitemap } from './sitemap';
+import { buildTsQuery, searchFragments } from './search';
+import {
+  snippetCategoryNamesSql,
+  parseCategoryFilter,
+  inCategories,
+  listCategories,
+  resolveCategories,
+  setSnippetCategories,
+  getLeaderboardPositions,
+  getSnippetCategoryNames,
+  getSnippetLanguageMode,
+  pickLanguageMode,
+  parseCategoryInput,
+  isCategoryNameTaken,
+  createCategory,
+  updateCategory,
+  reorderCategories
+} from './categories';
+import { parsePageParams, snippetSortValue, afterCursor, toPage, commentCountSql, MAX_PAGE_SIZE } from './pagination';
+import { recordRevision, ensureBaselineRevision, listRevisions, restoreRevision } from './revisions';
+import { formatDax, lintDax, DaxSyntaxError } from './dax';
+import { parseTmdl, buildTmdlOutline } from './tmdl';
+import { formatM, MSyntaxError } from './powerquery';
+import { validateSnippetCode, summarizeDiagnostics } from './diagnostics';
+import { parsePlaceholders, renderTemplate, fillWithDefaults, snippetPlaceholdersSql, setSnippetPlaceholders, getSnippetPlaceholders } from './templates';
+import {
+  parseCollectionInput,
+  listCollections,
+  getVisibleCollection,
+  getCollectionOwner,
+  createCollection,
+  updateCollection,
+  addSnippetToCollection,
+  removeSnippetFromCollection,
+  reorderCollectionSnippets
+} from './collections';
+import { parseCommentContent, listComments, getCommentAccess, createComment, editComment, softDeleteComment } from './comments';
+import { notifyCommentCreated, notifyCommentEdited, notifyVote, listNotifications, countUnreadNotifications, markNotificationsRead, MAX_NOTIFICATIONS } from './notifications';
+import { parseLeaderboardWindow, windowStart, windowedLeaderboard, windowVotesSql } from './trending';
+import { getVote, castVote, retractVote, reconcileVoteCounts, scheduleVoteReconciliation, type Voter } from './votes';
+import { listFollows, getAuthorFollowStatus, followAuthor, unfollowAuthor, followCategory, unfollowCategory, inFeedOf } from './follows';
+import { getEmailPreferences, parseEmailPreferences, updateEmailPreferences, unsubscribeFromDigests, sendDueDigests, scheduleDigests } from './digests';
+import { destroyUserSessions } from './sessions';
 import { initEmailService, sendPasswordResetEmail, verifyResetToken, invalidateToken } from './email';
 import { scrypt, randomBytes, timingSafeEqual } from "crypto";
 import { promisify } from "util";
@@ -35,20 +80,37 @@ const crypto = {
   },
 };
 
-// Extend Express Request type to include user property
-declare module 'express' {
-  interface Request {
-    user?: {
-      id: number;
-      username: string;
-      email?: string;
-      website?: string;
-    };
-  }
-}
-
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = dirname(__filename);
+// Columns returned for each snippet in list endpoints
+const snippetListFields = {
+  id: snippets.id,
+  title: snippets.title,
+  code: snippets.code,
+  categories: snippetCategoryNamesSql,
+  authorId: snippets.authorId,
+  authorUsername: users.username,
+  authorWebsite: users.website,
+  createdAt: snippets.createdAt,
+  votes: snippets.votes,
+  commentCount: commentCountSql,
+  placeholders: snippetPlaceholdersSql,
+};
+
+// Who is voting: the logged-in user, or the IP address of an anonymous visitor
+const voterFor = (req: { isAuthenticated(): boolean; user?: { id: number }; ip?: string }): Voter => req.isAuthenticated()
+  ? { userId: req.user!.id, ipAddress: null }
+  : { userId: null, ipAddress: req.ip ?? null };
+
+// Largest snippet the formatters accept, in characters
+const MAX_FORMAT_LENGTH = 100_000;
+
+// Uploaded backup archives are kept in memory until they've been checked
+const backupUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_BACKUP_SIZE, files: 1 },
+}).single('backup');
+
+const isMissingFile = (error: unknown) =>
+  error instanceof Error && (error as NodeJS.ErrnoException).code === 'ENOENT';
 
 export function registerRoutes(app: Express): Server {
   // Setup authentication
@@ -70,8 +132,6 @@ export function registerRoutes(app: Express): Server {
       id SERIAL PRIMARY KEY,
       title VARCHAR(200) NOT NULL,
       code TEXT NOT NULL,
-      category TEXT,
-      categories TEXT NOT NULL,
       author_id INTEGER NOT NULL REFERENCES users(id),
       image_path TEXT,
       created_at TIMESTAMP NOT NULL DEFAULT NOW(),
@@ -97,11 +157,18 @@ export function registerRoutes(app: Express): Server {
     );
   `);
 
-  // Backup Management Routes
-  app.get("/api/backups", async (_req, res) => {
+  /**
+   * Backup Management Routes
+   *
+   * Backups are zip archives in the backups directory; see
+   * scripts/dbBackup.ts for the format and scripts/backupArchive.ts for how
+   * file names and archive contents are checked.
+   *
+   * Authentication: Required
+   * Authorization: Must be an admin
+   */
+  app.get("/api/backups", requireRole('admin'), async (_req, res) => {
     try {
-      const backupDir = path.join(__dirname, '../backups');
-
       // Ensure backup directory exists
       try {
         await fsPromises.access(backupDir);
@@ -113,7 +180,7 @@ export function registerRoutes(app: Express): Server {
       const files = await fsPromises.readdir(backupDir);
       const backupFiles = await Promise.all(
         files
-          .filter(file => file.startsWith('backup-') && file.endsWith('.zip'))
+          .filter(isValidBackupFilename)
           .map(async (filename) => {
             const filePath = path.join(backupDir, filename);
             const stats = await fsPromises.stat(filePath);
@@ -135,12 +202,17 @@ export function registerRoutes(app: Express): Server {
     }
   });
 
-  app.post("/api/backups", async (_req, res) => {
+  // Make a backup now; it is recorded in the job history and stored at
+  // every configured target like a scheduled one
+  app.post("/api/backups", requireRole('admin'), async (_req, res) => {
     try {
       console.log('Starting backup creation...');
-      const backupPath = await createBackup();
-      console.log('Backup created successfully at:', backupPath);
-      res.json({ message: 'Backup created successfully', path: backupPath });
+      const job = await runBackupJob('manual');
+      if (job.status === 'failed') {
+        return res.status(500).json({ message: 'Failed to create backup', error: job.error, job });
+      }
+      console.log('Backup created successfully:', job.filename);
+      res.json({ message: 'Backup created successfully', job });
     } catch (error) {
       console.error('Error creating backup:', error);
       res.status(500).json({ 
@@ -150,18 +222,104 @@ export function registerRoutes(app: Express): Server {
     }
   });
 
-  app.post("/api/backups/restore/:filename", async (req, res) => {
+  // Recent backup runs and the configured schedule
+  app.get("/api/backups/jobs", requireRole('admin'), async (_req, res) => {
     try {
-      const { filename } = req.params;
-      const backupDir = path.join(__dirname, '../backups');
-      const backupPath = path.join(backupDir, filename);
+      res.json({ schedule: describeBackupSchedule(), jobs: await listBackupJobs() });
+    } catch (error) {
+      console.error('Error listing backup jobs:', error);
+      res.status(500).json({ message: 'Failed to list backup jobs' });
+    }
+  });
+
+  // Upload a backup archive as multipart form data (field "backup"). It is
+  // checked like a restore would check it and saved under a new name.
+  app.post("/api/backups/upload", requireRole('admin'), (req, res) => {
+    backupUpload(req, res, async (uploadError: unknown) => {
+      try {
+        if (uploadError instanceof multer.MulterError && uploadError.code === 'LIMIT_FILE_SIZE') {
+          return res.status(413).json({
+            message: `Backups can be at most ${MAX_BACKUP_SIZE / 1024 / 1024} MB`
+          });
+        }
+        if (uploadError) {
+          return res.status(400).json({
+            message: uploadError instanceof Error ? uploadError.message : 'Upload failed'
+          });
+        }
+        if (!req.file) {
+          return res.status(400).json({ message: "Validation failed", errors: { backup: "Choose a backup file" } });
+        }
+
+        const filename = await importBackup(req.file.buffer);
+        res.json({ message: 'Backup uploaded successfully', filename });
+      } catch (error) {
+        if (error instanceof BackupError) {
+          return res.status(400).json({ message: error.message });
+        }
+        console.error('Error uploading backup:', error);
+        res.status(500).json({ message: 'Failed to upload backup' });
+      }
+    });
+  });
+
+  // The snippets and users in a backup, for restoring them one by one
+  app.get("/api/backups/contents/:filename", requireRole('admin'), async (req, res) => {
+    try {
+      const backupPath = backupFilePath(req.params.filename);
+      await fsPromises.access(backupPath);
+
+      res.json(await listBackupItems(await readBackup(backupPath)));
+    } catch (error) {
+      if (error instanceof BackupError) {
+        return res.status(400).json({ message: error.message });
+      }
+      if (isMissingFile(error)) {
+        return res.status(404).json({ message: 'Backup not found' });
+      }
+      console.error('Error reading backup:', error);
+      res.status(500).json({
+        message: 'Failed to read backup',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  });
+
+  // Restore a backup. Body: { dryRun?: boolean, snippetIds?: number[], userIds?: number[] }.
+  // With snippetIds or userIds only those (and what belongs to them) are
+  // restored; with dryRun nothing is changed and the response says what would be.
+  app.post("/api/backups/restore/:filename", requireRole('admin'), async (req, res) => {
+    try {
+      const backupPath = backupFilePath(req.params.filename);
+
+      const { dryRun = false, snippetIds, userIds } = req.body ?? {};
+      const validationErrors: Record<string, string> = {};
+      if (typeof dryRun !== 'boolean') validationErrors.dryRun = "dryRun must be true or false";
+      const isIdList = (ids: unknown) => ids === undefined || (Array.isArray(ids) && ids.every(id => Number.isInteger(id)));
+      if (!isIdList(snippetIds)) validationErrors.snippetIds = "snippetIds must be an array of snippet ids";
+      if (!isIdList(userIds)) validationErrors.userIds = "userIds must be an array of user ids";
+      if (Object.keys(validationErrors).length > 0) {
+        return res.status(400).json({ message: "Validation failed", errors: validationErrors });
+      }
 
-      // Security check: ensure the file exists and is within backups directory
       await fsPromises.access(backupPath);
 
-      await restoreFromBackup(backupPath);
-      res.json({ message: 'Database restored successfully' });
+      const selection = snippetIds?.length || userIds?.length
+        ? { snippetIds: snippetIds ?? [], userIds: userIds ?? [] }
+        : undefined;
+      const result = await restoreFromBackup(backupPath, { dryRun, selection });
+      res.json({
+        message: dryRun ? 'Dry run complete; nothing was changed' : 'Database restored successfully',
+        dryRun,
+        ...result,
+      });
     } catch (error) {
+      if (error instanceof BackupError) {
+        return res.status(400).json({ message: error.message });
+      }
+      if (isMissingFile(error)) {
+        return res.status(404).json({ message: 'Backup not found' });
+      }
       console.error('Error restoring backup:', error);
       res.status(500).json({ 
         message: 'Failed to restore backup',
@@ -170,23 +328,26 @@ export function registerRoutes(app: Express): Server {
     }
   });
 
-  app.get("/api/backups/download/:filename", async (req, res) => {
+  app.get("/api/backups/download/:filename", requireRole('admin'), async (req, res) => {
     try {
       const { filename } = req.params;
-      const backupDir = path.join(__dirname, '../backups');
-      const filePath = path.join(backupDir, filename);
-
-      // Security check: ensure the file exists and is within backups directory
+      const filePath = backupFilePath(filename);
       await fsPromises.access(filePath);
 
       // Set headers for file download
       res.setHeader('Content-Type', 'application/zip');
-      res.setHeader('Content-Disposition', `attachment; filename=${filename}`);
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
 
       // Create read stream and pipe to response
       const fileStream = fs.createReadStream(filePath);
       fileStream.pipe(res);
     } catch (error) {
+      if (error instanceof BackupError) {
+        return res.status(400).json({ message: error.message });
+      }
+      if (isMissingFile(error)) {
+        return res.status(404).json({ message: 'Backup not found' });
+      }
       console.error('Error downloading backup:', error);
       res.status(500).json({ 
         message: 'Failed to download backup',
@@ -196,39 +357,60 @@ export function registerRoutes(app: Express): Server {
   });
 
 
-  app.post("/api/snippets", async (req, res) => {
+  app.post("/api/snippets", requireAuth, async (req, res) => {
     try {
-      if (!req.isAuthenticated()) {
-        return res.status(401).json({ message: "Not logged in" });
-      }
-
       const { title, code, categories } = req.body;
 
       // Basic validation
       const validationErrors: Record<string, string> = {};
       if (!title) validationErrors.title = "Title is required";
       if (!code) validationErrors.code = "Code is required";
+      const resolved = await resolveCategories(Array.isArray(categories) ? categories : []);
       if (!categories || !Array.isArray(categories) || categories.length === 0) {
         validationErrors.categories = "At least one category is required";
+      } else if (resolved.unknown.length > 0) {
+        validationErrors.categories = `Unknown categories: ${resolved.unknown.join(', ')}`;
+      } else if (resolved.archived.length > 0) {
+        validationErrors.categories = `Archived categories can't be used: ${resolved.archived.join(', ')}`;
+      }
+
+      // Code in a language with a validator must parse
+      const diagnostics = typeof code === 'string'
+        ? validateSnippetCode(code, pickLanguageMode(resolved.categories))
+        : [];
+      if (diagnostics.length > 0) {
+        validationErrors.code = summarizeDiagnostics(diagnostics);
+      }
+
+      // A placeholder repeated in the code can't contradict itself
+      const template = parsePlaceholders(typeof code === 'string' ? code : '');
+      if (!validationErrors.code && template.errors.length > 0) {
+        validationErrors.code = template.errors[0];
       }
 
       if (Object.keys(validationErrors).length > 0) {
         return res.status(400).json({ 
           message: "Validation failed",
-          errors: validationErrors
+          errors: validationErrors,
+          ...(diagnostics.length > 0 && { diagnostics })
         });
       }
 
-      // Store categories as JSON string
-      const [newSnippet] = await db.insert(snippets).values({
-        title,
-        code,
-        category: Array.isArray(categories) ? categories[0] : null, // Store first category in old field
-        categories: JSON.stringify(categories), // Store all categories as JSON
-        authorId: req.user!.id,
-        createdAt: new Date(),
-        updatedAt: new Date()
-      }).returning();
+      // Create the snippet with its categories and record the initial revision
+      const newSnippet = await db.transaction(async (tx) => {
+        const [created] = await tx.insert(snippets).values({
+          title,
+          code,
+          authorId: req.user!.id,
+          createdAt: new Date(),
+          updatedAt: new Date()
+        }).returning();
+
+        await setSnippetCategories(tx, created.id, resolved.categories.map(category => category.id));
+        await setSnippetPlaceholders(tx, created.id, template.placeholders);
+        await recordRevision(tx, created, resolved.categories.map(category => category.name), req.user!.id, created.createdAt);
+        return created;
+      });
 
       // Fetch the complete snippet with author information
       const [snippetWithAuthor] = await db
@@ -236,12 +418,13 @@ export function registerRoutes(app: Express): Server {
           id: snippets.id,
           title: snippets.title,
           code: snippets.code,
-          categories: snippets.categories,
+          categories: snippetCategoryNamesSql,
           authorId: snippets.authorId,
           authorUsername: users.username,
           authorWebsite: users.website,
           createdAt: snippets.createdAt,
           votes: snippets.votes,
+          placeholders: snippetPlaceholdersSql,
         })
         .from(snippets)
         .where(eq(snippets.id, newSnippet.id))
@@ -257,72 +440,54 @@ export function registerRoutes(app: Express): Server {
     }
   });
 
-  // Get all snippets with search
+  // Get a page of snippets, optionally ranked by full-text search
   app.get("/api/snippets", async (req, res) => {
     const { search } = req.query;
+    const categoryFilter = parseCategoryFilter(req.query.category);
     try {
-      const snippetsWithComments = await db
-        .select({
-          id: snippets.id,
-          title: snippets.title,
-          code: snippets.code,
-          categories: snippets.categories,
-          authorId: snippets.authorId,
-          authorUsername: users.username,
-          authorWebsite: users.website,
-          createdAt: snippets.createdAt,
-          votes: snippets.votes,
-          commentCount: sql<number>`COUNT(DISTINCT ${comments.id})::integer`,
-        })
-        .from(snippets)
-        .leftJoin(users, eq(snippets.authorId, users.id))
-        .leftJoin(comments, eq(snippets.id, comments.snippetId))
-        .groupBy(
-          snippets.id,
-          snippets.title,
-          snippets.code,
-          snippets.categories,
-          snippets.authorId,
-          users.username,
-          users.website,
-          snippets.createdAt,
-          snippets.votes
-        )
-        .orderBy(desc(snippets.createdAt));
-
-      const allSnippets = await snippetsWithComments;
-
-      if (search) {
-        const searchTerm = search.toString().toLowerCase();
-        const filtered = allSnippets.filter(snippet => {
-          const title = snippet.title?.toLowerCase() || '';
-          const code = snippet.code?.toLowerCase() || '';
-          const author = snippet.authorUsername?.toLowerCase() || '';
-          let categories: string[] = [];
-
-          try {
-            // Handle both string and array formats for categories
-            if (typeof snippet.categories === 'string') {
-              categories = JSON.parse(snippet.categories);
-            } else if (Array.isArray(snippet.categories)) {
-              categories = snippet.categories;
-            }
-          } catch (e) {
-            console.error('Error parsing categories:', e);
-            categories = [];
-          }
+      const searchTerm = typeof search === 'string' ? search.trim() : '';
+      const tsQuery = searchTerm ? buildTsQuery(searchTerm) : null;
 
-          const categoriesString = categories.join(' ').toLowerCase();
+      const params = parsePageParams(req.query, tsQuery ? 'relevance' : 'newest');
+      if ('error' in params) {
+        return res.status(400).json({ message: params.error });
+      }
 
-          return title.includes(searchTerm) ||
-                 code.includes(searchTerm) ||
-                 author.includes(searchTerm) ||
-                 categoriesString.includes(searchTerm);
-        });
-        return res.json(filtered);
+      if (searchTerm && !tsQuery) {
+        return res.json({ items: [], nextCursor: null });
       }
 
-      res.json(allSnippets);
+      const fragments = tsQuery ? searchFragments(tsQuery) : null;
+      const sortValue = snippetSortValue(params, fragments?.rank);
+
+      const rows = await db
+        .select({
+          ...snippetListFields,
+          ...(fragments && {
+            rank: fragments.rank,
+            titleHighlight: fragments.titleHighlight,
+            codeHighlight: fragments.codeHighlight,
+          }),
+          sortValue,
+        })
+        .from(snippets)
+        .leftJoin(users, eq(snippets.authorId, users.id))
+        .where(and(
+          fragments
+            // Searching for a contributor's or category's exact name also lists their snippets
+            ? or(
+                fragments.where,
+                sql`lower(${users.username}) = lower(${searchTerm})`,
+                inCategories([searchTerm])
+              )
+            : undefined,
+          inCategories(categoryFilter),
+          afterCursor(params, sortValue)
+        ))
+        .orderBy(desc(sortValue), desc(snippets.id))
+        .limit(params.limit + 1);
+
+      res.json(toPage(rows, params));
     } catch (error) {
       console.error('Error fetching snippets:', error);
       res.status(500).json({ message: 'Error fetching snippets' });
@@ -334,33 +499,10 @@ export function registerRoutes(app: Express): Server {
     const snippetId = parseInt(req.params.id);
     try {
       const [snippet] = await db
-        .select({
-          id: snippets.id,
-          title: snippets.title,
-          code: snippets.code,
-          categories: snippets.categories,
-          authorId: snippets.authorId,
-          authorUsername: users.username,
-          authorWebsite: users.website,
-          createdAt: snippets.createdAt,
-          votes: snippets.votes,
-          commentCount: sql<number>`COUNT(DISTINCT ${comments.id})::integer`,
-        })
+        .select(snippetListFields)
         .from(snippets)
         .where(eq(snippets.id, snippetId))
         .leftJoin(users, eq(snippets.authorId, users.id))
-        .leftJoin(comments, eq(snippets.id, comments.snippetId))
-        .groupBy(
-          snippets.id,
-          snippets.title,
-          snippets.code,
-          snippets.categories,
-          snippets.authorId,
-          users.username,
-          users.website,
-          snippets.createdAt,
-          snippets.votes
-        )
         .limit(1);
 
       if (!snippet) {
@@ -374,48 +516,49 @@ export function registerRoutes(app: Express): Server {
     }
   });
 
-  // Vote for a snippet
-  app.post("/api/snippets/:id/vote", async (req, res) => {
-    const snippetId = parseInt(req.params.id);
-    const ipAddress = req.ip;
+  /**
+   * Vote Routes
+   *
+   * A voter (the logged-in user, or the IP address for anonymous voters)
+   * has at most one vote per snippet, +1 or -1, and can change or take it
+   * back. See server/votes.ts for how the snippet counters are kept in step.
+   */
 
+  // The current voter's vote on a snippet
+  app.get("/api/snippets/:id/vote-status", async (req, res) => {
+    const snippetId = parseInt(req.params.id);
     try {
-      // Get user ID if authenticated
-      const userId = req.isAuthenticated() ? req.user!.id : null;
+      const value = await getVote(snippetId, voterFor(req));
+      res.json({ hasVoted: value !== null, value });
+    } catch (error) {
+      console.error('Error fetching vote status:', error);
+      res.status(500).json({ message: 'Error fetching vote status' });
+    }
+  });
 
-      // Check if already voted based on either user ID or IP, for this specific snippet
-      const existingVote = await db.query.votes.findFirst({
-        where: (votes) => {
-          const conditions = [eq(votes.snippetId, snippetId)];
-          if (userId) {
-            conditions.push(eq(votes.userId, userId));
-          } else {
-            conditions.push(eq(votes.ipAddress, ipAddress));
-          }
-          return and(...conditions);
-        }
-      });
+  // Vote for a snippet; body is { value: 1 | -1 }, a like when left out.
+  // Voting the other way changes the existing vote.
+  app.post("/api/snippets/:id/vote", async (req, res) => {
+    const snippetId = parseInt(req.params.id);
+    try {
+      const { value = 1 } = req.body ?? {};
+      if (value !== 1 && value !== -1) {
+        return res.status(400).json({ message: "Validation failed", errors: { value: "value must be 1 or -1" } });
+      }
 
-      if (existingVote) {
+      const voter = voterFor(req);
+      const result = await castVote(snippetId, voter, value);
+      if (result === 'not_found') {
+        return res.status(404).json({ message: "Snippet not found" });
+      }
+      if (result === 'unchanged') {
         return res.status(400).json({ message: "You have already voted for this snippet" });
       }
 
-      await db.transaction(async (tx) => {
-        // Insert the vote with either userId or ipAddress
-        await tx.insert(votes).values({
-          snippetId,
-          userId: userId || undefined,
-          ipAddress: userId ? undefined : ipAddress
-        });
-
-        // Increment the votes count
-        await tx
-          .update(snippets)
-          .set({ votes: sql`${snippets.votes} + 1` })
-          .where(eq(snippets.id, snippetId));
-      });
-
-      res.json({ success: true });
+      if (value === 1) {
+        await notifyVote(snippetId, voter.userId);
+      }
+      res.json({ success: true, value, votes: result.votes });
     } catch (error) {
       console.error('Error recording vote:', error);
       res.status(500).json({ 
@@ -426,235 +569,67 @@ export function registerRoutes(app: Express): Server {
     }
   });
 
-  // Get leaderboard
-  app.get("/api/leaderboard", async (req, res) => {
-    const { category } = req.query;
+  // Take back a vote
+  app.delete("/api/snippets/:id/vote", async (req, res) => {
+    const snippetId = parseInt(req.params.id);
     try {
-      const query = db
-        .select({
-          id: snippets.id,
-          title: snippets.title,
-          code: snippets.code,
-          categories: snippets.categories,
-          category: snippets.category, // Include both for backward compatibility
-          authorId: snippets.authorId,
-          authorUsername: users.username,
-          authorWebsite: users.website,
-          createdAt: snippets.createdAt,
-          votes: snippets.votes,
-          commentCount: sql<number>`COUNT(DISTINCT ${comments.id})::integer`,
-        })
-        .from(snippets)
-        .leftJoin(users, eq(snippets.authorId, users.id))
-        .leftJoin(comments, eq(snippets.id, comments.snippetId))
-        .groupBy(
-          snippets.id,
-          snippets.title,
-          snippets.code,
-          snippets.categories,
-          snippets.category,
-          snippets.authorId,
-          users.username,
-          users.website,
-          snippets.createdAt,
-          snippets.votes,
-        )
-        .orderBy(desc(snippets.votes));
-
-      let results = await query;
-
-      // Transform categories to ensure consistent array format
-      results = results.map(snippet => ({
-        ...snippet,
-        categories: (() => {
-          try {
-            if (snippet.categories) {
-              // If it's already a JSON string, parse it
-              if (typeof snippet.categories === 'string') {
-                return JSON.parse(snippet.categories);
-              }
-              // If it's already an array, use it
-              if (Array.isArray(snippet.categories)) {
-                return snippet.categories;
-              }
-            }
-            // Fallback to legacy category field if exists
-            return snippet.category ? [snippet.category] : [];
-          } catch (e) {
-            console.error('Error parsing categories for snippet:', snippet.id, e);
-            // Fallback to single category if parsing fails
-            return snippet.category ? [snippet.category] : [];
-          }
-        })()
-      }));
-
-      if (category && typeof category === 'string') {
-        const filteredSnippets = results.filter(snippet => 
-          snippet.categories.includes(category.toUpperCase())
-        );
-        return res.json(filteredSnippets);
+      const result = await retractVote(snippetId, voterFor(req));
+      if (result === 'not_found') {
+        return res.status(404).json({ message: "Snippet not found" });
+      }
+      if (result === 'not_voted') {
+        return res.status(404).json({ message: "You haven't voted for this snippet" });
       }
 
-      res.json(results);
+      res.json({ success: true, value: null, votes: result.votes });
     } catch (error) {
-      console.error('Error fetching leaderboard:', error);
-      res.status(500).json({ message: 'Error fetching leaderboard' });
+      console.error('Error retracting vote:', error);
+      res.status(500).json({ message: 'Error retracting vote' });
     }
   });
 
-  // Get author details and snippets
-  app.get("/api/authors/:name", async (req, res) => {
-    const authorName = req.params.name;
+  // Recompute every snippet's vote count from the votes table
+  app.post("/api/admin/votes/reconcile", requireRole('admin'), async (req, res) => {
     try {
-      // First get the author's user record
-      const [author] = await db
-        .select()
-        .from(users)
-        .where(eq(users.username, authorName))
-        .limit(1);
-
-      if (!author) {
-        return res.status(404).json({ message: "Author not found" });
-      }
-
-      // Get all snippets by the author
-      const authorSnippets = await db
-        .select({
-          id: snippets.id,
-          title: snippets.title,
-          code: snippets.code,
-          categories: snippets.categories,
-          authorId: snippets.authorId,
-          authorUsername: users.username,
-          authorWebsite: users.website,
-          createdAt: snippets.createdAt,
-          votes: snippets.votes,
-        })
-        .from(snippets)
-        .leftJoin(users, eq(snippets.authorId, users.id))
-        .where(eq(snippets.authorId, author.id))
-        .orderBy(desc(snippets.createdAt));
-
-      // Calculate leaderboard positions
-      const categories = ['TMDL', 'DAX', 'SQL', 'Python', 'PowerQuery', 'all'];
-      const leaderboards = await Promise.all(
-        categories.map(async (category) => {
-          const query = db
-            .select({
-              id: snippets.id,
-              authorId: snippets.authorId,
-              votes: snippets.votes,
-            })
-            .from(snippets)
-            .orderBy(desc(snippets.votes));
-
-          const board = category === 'all'
-            ? await query
-            : await query.where(eq(snippets.categories, category));
-
-          const position = board.findIndex(s => s.authorId === author.id) + 1;
-          return { category, position: position || null };
-        })
-      );
-
-      res.json({ snippets: authorSnippets, leaderboards });
+      const corrected = await reconcileVoteCounts();
+      res.json({ corrected });
     } catch (error) {
-      console.error('Error fetching author details:', error);
-      res.status(500).json({ message: 'Error fetching author details' });
+      console.error('Error reconciling vote counts:', error);
+      res.status(500).json({ message: 'Error reconciling vote counts' });
     }
   });
 
   /**
-   * Update Snippet Endpoint
-   * 
-   * This endpoint allows users to update their own snippets.
-   * 
-   * Key features:
-   * - Authentication & authorization checks (only authors can edit their snippets)
-   * - Updates snippet metadata (title, code, categories)
-   * - Returns the updated snippet with author information
-   * 
-   * Request parameters:
-   * - id: Snippet ID to update
-   * 
-   * Authentication: Required
-   * Authorization: Must be the snippet author
+   * Bookmark Routes
+   *
+   * Bookmarks let users save snippets to find again later without voting
+   * for them. Unlike votes they're private to the user and don't count
+   * towards the leaderboard.
    */
-  app.put("/api/snippets/:id", async (req, res) => {
+
+  // Whether the logged-in user has bookmarked a snippet
+  app.get("/api/snippets/:id/bookmark", requireAuth, async (req, res) => {
     const snippetId = parseInt(req.params.id);
     try {
-      if (!req.isAuthenticated()) {
-        return res.status(401).json({ message: "Not logged in" });
-      }
-
-      // Get the existing snippet
-      const [snippet] = await db
-        .select()
-        .from(snippets)
-        .where(eq(snippets.id, snippetId))
-        .limit(1);
-
-      if (!snippet) {
-        return res.status(404).json({ message: "Snippet not found" });
-      }
-
-      // Check if user is the author
-      if (snippet.authorId !== req.user!.id) {
-        return res.status(403).json({ message: "Not authorized to edit this snippet" });
-      }
-
-      const { title, code, categories } = req.body;
-      const updateData: Partial<typeof snippets.$inferInsert> = {
-        title,
-        code,
-        categories: JSON.stringify(categories),
-        updatedAt: new Date(),
-      };
-
-      const [updatedSnippet] = await db
-        .update(snippets)
-        .set(updateData)
-        .where(eq(snippets.id, snippetId))
-        .returning();
-
-      // Fetch complete snippet with author information
-      const [snippetWithAuthor] = await db
-        .select({
-          id: snippets.id,
-          title: snippets.title,
-          code: snippets.code,
-          categories: snippets.categories,
-          authorId: snippets.authorId,
-          authorUsername: users.username,
-          authorWebsite: users.website,
-          createdAt: snippets.createdAt,
-          votes: snippets.votes,
-        })
-        .from(snippets)
-        .where(eq(snippets.id, updatedSnippet.id))
-        .leftJoin(users, eq(snippets.authorId, users.id))
+      const [bookmark] = await db
+        .select({ createdAt: bookmarks.createdAt })
+        .from(bookmarks)
+        .where(and(eq(bookmarks.userId, req.user!.id), eq(bookmarks.snippetId, snippetId)))
         .limit(1);
 
-      res.json(snippetWithAuthor);
+      res.json({ bookmarked: Boolean(bookmark), bookmarkedAt: bookmark?.createdAt ?? null });
     } catch (error) {
-      console.error('Error updating snippet:', error);
-      res.status(500).json({ 
-        message: error instanceof Error ? error.message : "Error updating snippet" 
-      });
+      console.error('Error fetching bookmark status:', error);
+      res.status(500).json({ message: 'Error fetching bookmark status' });
     }
   });
 
-  // Delete snippet
-  app.delete("/api/snippets/:id", async (req, res) => {
+  // Bookmark a snippet; bookmarking it again keeps the original date
+  app.post("/api/snippets/:id/bookmark", requireAuth, async (req, res) => {
     const snippetId = parseInt(req.params.id);
     try {
-      if (!req.isAuthenticated()) {
-        return res.status(401).json({ message: "Not logged in" });
-      }
-
-      // Get the existing snippet
       const [snippet] = await db
-        .select()
+        .select({ id: snippets.id })
         .from(snippets)
         .where(eq(snippets.id, snippetId))
         .limit(1);
@@ -663,89 +638,1083 @@ export function registerRoutes(app: Express): Server {
         return res.status(404).json({ message: "Snippet not found" });
       }
 
-      // Check if user is the author
-      if (snippet.authorId !== req.user!.id) {
-        return res.status(403).json({ message: "Not authorized to delete this snippet" });
-      }
-
-      // Delete the snippet
-      await db.delete(snippets).where(eq(snippets.id, snippetId));
+      await db
+        .insert(bookmarks)
+        .values({ userId: req.user!.id, snippetId })
+        .onConflictDoNothing();
 
-      res.json({ message: "Snippet deleted successfully" });
+      res.json({ bookmarked: true });
     } catch (error) {
-      console.error('Error deleting snippet:', error);
-      res.status(500).json({ 
-        message: error instanceof Error ? error.message : "Error deleting snippet" 
-      });
+      console.error('Error bookmarking snippet:', error);
+      res.status(500).json({ message: 'Error bookmarking snippet' });
     }
   });
 
-  // Get comments for a snippet
-  app.get("/api/snippets/:id/comments", async (req, res) => {
+  app.delete("/api/snippets/:id/bookmark", requireAuth, async (req, res) => {
     const snippetId = parseInt(req.params.id);
     try {
-      const snippetComments = await db
-        .select({
-          id: comments.id,
-          content: comments.content,
-          createdAt: comments.createdAt,
-          authorId: comments.authorId,
-          authorUsername: users.username,
-          authorWebsite: users.website,
-        })
-        .from(comments)
-        .where(eq(comments.snippetId, snippetId))
-        .leftJoin(users, eq(comments.authorId, users.id))
-        .orderBy(desc(comments.createdAt));
+      await db
+        .delete(bookmarks)
+        .where(and(eq(bookmarks.userId, req.user!.id), eq(bookmarks.snippetId, snippetId)));
 
-      res.json(snippetComments);
+      res.json({ bookmarked: false });
     } catch (error) {
-      console.error('Error fetching comments:', error);
-      res.status(500).json({ message: 'Error fetching comments' });
+      console.error('Error removing bookmark:', error);
+      res.status(500).json({ message: 'Error removing bookmark' });
     }
   });
 
-  // Add a new comment
-  app.post("/api/snippets/:id/comments", async (req, res) => {
-    const snippetId = parseInt(req.params.id);
-    const { content } = req.body;
-
+  // Get a page of the logged-in user's bookmarked snippets, most recently bookmarked first
+  app.get("/api/bookmarks", requireAuth, async (req, res) => {
     try {
-      if (!req.isAuthenticated()) {
-        return res.status(401).json({ message: "Must be logged in to comment" });
-      }
-
-      if (!content) {
-        return res.status(400).json({ message: "Comment content is required" });
+      const params = parsePageParams(req.query, 'newest');
+      if ('error' in params) {
+        return res.status(400).json({ message: params.error });
       }
 
-      // Create the comment
-      const [newComment] = await db
-        .insert(comments)
-        .values({
-          content,
-          snippetId,
-          authorId: req.user!.id,
-          createdAt: new Date(),
+      const sortValue = sql<number>`extract(epoch from ${bookmarks.createdAt})::double precision`;
+      const rows = await db
+        .select({ ...snippetListFields, bookmarkedAt: bookmarks.createdAt, sortValue })
+        .from(bookmarks)
+        .innerJoin(snippets, eq(bookmarks.snippetId, snippets.id))
+        .leftJoin(users, eq(snippets.authorId, users.id))
+        .where(and(
+          eq(bookmarks.userId, req.user!.id),
+          afterCursor(params, sortValue)
+        ))
+        .orderBy(desc(sortValue), desc(snippets.id))
+        .limit(params.limit + 1);
+
+      res.json(toPage(rows, params));
+    } catch (error) {
+      console.error('Error fetching bookmarks:', error);
+      res.status(500).json({ message: 'Error fetching bookmarks' });
+    }
+  });
+
+  /**
+   * Follow Routes
+   *
+   * Users follow authors and categories to build a personalised feed of
+   * their snippets. See server/follows.ts.
+   */
+
+  // Everything the logged-in user follows
+  app.get("/api/follows", requireAuth, async (req, res) => {
+    try {
+      res.json(await listFollows(req.user!.id));
+    } catch (error) {
+      console.error('Error fetching follows:', error);
+      res.status(500).json({ message: 'Error fetching follows' });
+    }
+  });
+
+  // Get a page of the logged-in user's feed: snippets by the authors and in
+  // the categories they follow, hottest first by default
+  app.get("/api/feed", requireAuth, async (req, res) => {
+    const categoryFilter = parseCategoryFilter(req.query.category);
+    try {
+      const params = parsePageParams(req.query, 'hot');
+      if ('error' in params) {
+        return res.status(400).json({ message: params.error });
+      }
+
+      const sortValue = snippetSortValue(params);
+      const rows = await db
+        .select({ ...snippetListFields, sortValue })
+        .from(snippets)
+        .leftJoin(users, eq(snippets.authorId, users.id))
+        .where(and(
+          inFeedOf(req.user!.id),
+          inCategories(categoryFilter),
+          afterCursor(params, sortValue)
+        ))
+        .orderBy(desc(sortValue), desc(snippets.id))
+        .limit(params.limit + 1);
+
+      res.json(toPage(rows, params));
+    } catch (error) {
+      console.error('Error fetching feed:', error);
+      res.status(500).json({ message: 'Error fetching feed' });
+    }
+  });
+
+  // An author's follower count and whether the logged-in user follows them
+  app.get("/api/authors/:name/follow", async (req, res) => {
+    try {
+      const [author] = await db
+        .select({ id: users.id })
+        .from(users)
+        .where(eq(users.username, req.params.name))
+        .limit(1);
+
+      if (!author) {
+        return res.status(404).json({ message: "Author not found" });
+      }
+
+      res.json(await getAuthorFollowStatus(author.id, req.isAuthenticated() ? req.user!.id : null));
+    } catch (error) {
+      console.error('Error fetching follow status:', error);
+      res.status(500).json({ message: 'Error fetching follow status' });
+    }
+  });
+
+  app.post("/api/authors/:name/follow", requireAuth, async (req, res) => {
+    try {
+      const [author] = await db
+        .select({ id: users.id })
+        .from(users)
+        .where(eq(users.username, req.params.name))
+        .limit(1);
+
+      if (!author) {
+        return res.status(404).json({ message: "Author not found" });
+      }
+      if (author.id === req.user!.id) {
+        return res.status(400).json({ message: "You can't follow yourself" });
+      }
+
+      await followAuthor(req.user!.id, author.id);
+      res.json(await getAuthorFollowStatus(author.id, req.user!.id));
+    } catch (error) {
+      console.error('Error following author:', error);
+      res.status(500).json({ message: 'Error following author' });
+    }
+  });
+
+  app.delete("/api/authors/:name/follow", requireAuth, async (req, res) => {
+    try {
+      const [author] = await db
+        .select({ id: users.id })
+        .from(users)
+        .where(eq(users.username, req.params.name))
+        .limit(1);
+
+      if (!author) {
+        return res.status(404).json({ message: "Author not found" });
+      }
+
+      await unfollowAuthor(req.user!.id, author.id);
+      res.json(await getAuthorFollowStatus(author.id, req.user!.id));
+    } catch (error) {
+      console.error('Error unfollowing author:', error);
+      res.status(500).json({ message: 'Error unfollowing author' });
+    }
+  });
+
+  // Follow a category by name; archived categories can still be followed
+  // for the snippets already in them
+  app.post("/api/categories/:name/follow", requireAuth, async (req, res) => {
+    try {
+      const { categories: [category] } = await resolveCategories([req.params.name]);
+      if (!category) {
+        return res.status(404).json({ message: "Category not found" });
+      }
+
+      await followCategory(req.user!.id, category.id);
+      res.json(await listFollows(req.user!.id));
+    } catch (error) {
+      console.error('Error following category:', error);
+      res.status(500).json({ message: 'Error following category' });
+    }
+  });
+
+  app.delete("/api/categories/:name/follow", requireAuth, async (req, res) => {
+    try {
+      const { categories: [category] } = await resolveCategories([req.params.name]);
+      if (!category) {
+        return res.status(404).json({ message: "Category not found" });
+      }
+
+      await unfollowCategory(req.user!.id, category.id);
+      res.json(await listFollows(req.user!.id));
+    } catch (error) {
+      console.error('Error unfollowing category:', error);
+      res.status(500).json({ message: 'Error unfollowing category' });
+    }
+  });
+
+  // Get a page of the leaderboard, optionally limited to the last week or month
+  app.get("/api/leaderboard", async (req, res) => {
+    const categoryFilter = parseCategoryFilter(req.query.category);
+    try {
+      const params = parsePageParams(req.query, 'votes');
+      if ('error' in params) {
+        return res.status(400).json({ message: params.error });
+      }
+
+      const timeWindow = parseLeaderboardWindow(req.query.window);
+      if (typeof timeWindow === 'object') {
+        return res.status(400).json({ message: timeWindow.error });
+      }
+
+      // Limited to a window, snippets are ranked by activity in it and
+      // windowVotes counts only the votes cast in it
+      const since = windowStart(timeWindow, params.at);
+      const { sortValue, filter } = since
+        ? windowedLeaderboard(params, since)
+        : { sortValue: snippetSortValue(params), filter: undefined };
+      const rows = await db
+        .select({
+          ...snippetListFields,
+          windowVotes: since ? windowVotesSql(since) : snippets.votes,
+          sortValue,
         })
-        .returning();
+        .from(snippets)
+        .leftJoin(users, eq(snippets.authorId, users.id))
+        .where(and(inCategories(categoryFilter), filter, afterCursor(params, sortValue)))
+        .orderBy(desc(sortValue), desc(snippets.id))
+        .limit(params.limit + 1);
+
+      res.json(toPage(rows, params));
+    } catch (error) {
+      console.error('Error fetching leaderboard:', error);
+      res.status(500).json({ message: 'Error fetching leaderboard' });
+    }
+  });
+
+  // Get the contributors with the most snippets
+  app.get("/api/leaderboard/contributors", async (req, res) => {
+    const limit = Math.min(parseInt(String(req.query.limit ?? '')) || 10, MAX_PAGE_SIZE);
+    try {
+      const contributors = await db
+        .select({
+          username: users.username,
+          snippetCount: sql<number>`COUNT(${snippets.id})::integer`,
+        })
+        .from(snippets)
+        .innerJoin(users, eq(snippets.authorId, users.id))
+        .groupBy(users.id, users.username)
+        .orderBy(desc(sql`COUNT(${snippets.id})`), users.username)
+        .limit(limit);
+
+      res.json(contributors);
+    } catch (error) {
+      console.error('Error fetching contributors:', error);
+      res.status(500).json({ message: 'Error fetching contributors' });
+    }
+  });
+
+  // Get author details and a page of their snippets
+  app.get("/api/authors/:name", async (req, res) => {
+    const authorName = req.params.name;
+    const categoryFilter = parseCategoryFilter(req.query.category);
+    try {
+      const params = parsePageParams(req.query, 'newest');
+      if ('error' in params) {
+        return res.status(400).json({ message: params.error });
+      }
+
+      // First get the author's user record
+      const [author] = await db
+        .select({
+          id: users.id,
+          username: users.username,
+          website: users.website,
+          createdAt: users.createdAt,
+        })
+        .from(users)
+        .where(eq(users.username, authorName))
+        .limit(1);
+
+      if (!author) {
+        return res.status(404).json({ message: "Author not found" });
+      }
+
+      // Get a page of snippets by the author
+      const sortValue = snippetSortValue(params);
+      const rows = await db
+        .select({ ...snippetListFields, sortValue })
+        .from(snippets)
+        .leftJoin(users, eq(snippets.authorId, users.id))
+        .where(and(
+          eq(snippets.authorId, author.id),
+          inCategories(categoryFilter),
+          afterCursor(params, sortValue)
+        ))
+        .orderBy(desc(sortValue), desc(snippets.id))
+        .limit(params.limit + 1);
+
+      const page = toPage(rows, params);
+
+      // Leaderboard positions only need computing for the first page
+      if (params.cursor) {
+        return res.json({ user: author, snippets: page.items, nextCursor: page.nextCursor });
+      }
+
+      const leaderboards = await getLeaderboardPositions(author.id);
+
+      res.json({ user: author, snippets: page.items, nextCursor: page.nextCursor, leaderboards });
+    } catch (error) {
+      console.error('Error fetching author details:', error);
+      res.status(500).json({ message: 'Error fetching author details' });
+    }
+  });
+
+  /**
+   * Update Snippet Endpoint
+   * 
+   * This endpoint allows users to update their own snippets.
+   * 
+   * Key features:
+   * - Authentication & authorization checks (only authors can edit their snippets)
+   * - Updates snippet metadata (title, code, categories)
+   * - Records the new state in snippet_revisions so earlier versions can be restored
+   * - Returns the updated snippet with author information
+   * 
+   * Request parameters:
+   * - id: Snippet ID to update
+   * 
+   * Authentication: Required
+   * Authorization: Must be the snippet author
+   */
+  app.put("/api/snippets/:id", requireAuth, async (req, res) => {
+    const snippetId = parseInt(req.params.id);
+    try {
+      // Get the existing snippet
+      const [snippet] = await db
+        .select()
+        .from(snippets)
+        .where(eq(snippets.id, snippetId))
+        .limit(1);
+
+      if (!snippet) {
+        return res.status(404).json({ message: "Snippet not found" });
+      }
+
+      // Check if user is the author
+      if (snippet.authorId !== req.user!.id) {
+        return res.status(403).json({ message: "Not authorized to edit this snippet" });
+      }
+
+      const { title, code, categories } = req.body;
+
+      const resolved = await resolveCategories(Array.isArray(categories) ? categories : []);
+      // Archived categories the snippet already has can stay on it
+      const currentNames = await getSnippetCategoryNames(db, snippetId);
+      const newlyArchived = resolved.archived.filter(name => !currentNames.includes(name));
+      if (!Array.isArray(categories) || categories.length === 0 || resolved.unknown.length > 0 || newlyArchived.length > 0) {
+        return res.status(400).json({
+          message: "Validation failed",
+          errors: {
+            categories: resolved.unknown.length > 0
+              ? `Unknown categories: ${resolved.unknown.join(', ')}`
+              : newlyArchived.length > 0
+                ? `Archived categories can't be used: ${newlyArchived.join(', ')}`
+                : "At least one category is required"
+          }
+        });
+      }
+
+      // Code in a language with a validator must parse
+      const diagnostics = typeof code === 'string'
+        ? validateSnippetCode(code, pickLanguageMode(resolved.categories))
+        : [];
+      if (diagnostics.length > 0) {
+        return res.status(400).json({
+          message: "Validation failed",
+          errors: { code: summarizeDiagnostics(diagnostics) },
+          diagnostics
+        });
+      }
+
+      // A placeholder repeated in the code can't contradict itself
+      const template = parsePlaceholders(typeof code === 'string' ? code : '');
+      if (template.errors.length > 0) {
+        return res.status(400).json({
+          message: "Validation failed",
+          errors: { code: template.errors[0] }
+        });
+      }
+
+      const updateData: Partial<typeof snippets.$inferInsert> = {
+        title,
+        code,
+        updatedAt: new Date(),
+      };
+
+      // Keep the previous version in the revision history before overwriting it
+      const updatedSnippet = await db.transaction(async (tx) => {
+        await ensureBaselineRevision(tx, snippet);
+
+        const [updated] = await tx
+          .update(snippets)
+          .set(updateData)
+          .where(eq(snippets.id, snippetId))
+          .returning();
+
+        await setSnippetCategories(tx, snippetId, resolved.categories.map(category => category.id));
+        await setSnippetPlaceholders(tx, snippetId, template.placeholders);
+        await recordRevision(tx, updated, resolved.categories.map(category => category.name), req.user!.id);
+        return updated;
+      });
+
+      // Fetch complete snippet with author information
+      const [snippetWithAuthor] = await db
+        .select({
+          id: snippets.id,
+          title: snippets.title,
+          code: snippets.code,
+          categories: snippetCategoryNamesSql,
+          authorId: snippets.authorId,
+          authorUsername: users.username,
+          authorWebsite: users.website,
+          createdAt: snippets.createdAt,
+          votes: snippets.votes,
+          placeholders: snippetPlaceholdersSql,
+        })
+        .from(snippets)
+        .where(eq(snippets.id, updatedSnippet.id))
+        .leftJoin(users, eq(snippets.authorId, users.id))
+        .limit(1);
+
+      res.json(snippetWithAuthor);
+    } catch (error) {
+      console.error('Error updating snippet:', error);
+      res.status(500).json({ 
+        message: error instanceof Error ? error.message : "Error updating snippet" 
+      });
+    }
+  });
+
+  // List the categories snippets can be tagged with, including archived ones
+  app.get("/api/categories", async (_req, res) => {
+    try {
+      res.json(await listCategories());
+    } catch (error) {
+      console.error('Error fetching categories:', error);
+      res.status(500).json({ message: 'Error fetching categories' });
+    }
+  });
+
+  /**
+   * Category Management Routes
+   *
+   * Admins create, rename, restyle, archive and reorder categories here, so
+   * new languages can be added without a deploy.
+   *
+   * Authentication: Required
+   * Authorization: Must be an admin
+   */
+  app.post("/api/categories", requireRole('admin'), async (req, res) => {
+    try {
+      const parsed = parseCategoryInput(req.body ?? {}, false);
+      if ('errors' in parsed) {
+        return res.status(400).json({ message: "Validation failed", errors: parsed.errors });
+      }
+      const { name, displayName } = parsed.values;
+      if (!name || !displayName) {
+        return res.status(400).json({ message: "Validation failed", errors: { name: "Name is required" } });
+      }
+      if (await isCategoryNameTaken(name)) {
+        return res.status(400).json({
+          message: "Validation failed",
+          errors: { name: "A category with this name already exists" }
+        });
+      }
+
+      res.json(await createCategory({ ...parsed.values, name, displayName }));
+    } catch (error) {
+      console.error('Error creating category:', error);
+      res.status(500).json({ message: 'Error creating category' });
+    }
+  });
+
+  // Set the display order of categories; body is { ids: number[] } covering every category
+  app.put("/api/categories/order", requireRole('admin'), async (req, res) => {
+    try {
+      const { ids } = req.body ?? {};
+      if (!Array.isArray(ids) || !ids.every(id => Number.isInteger(id))) {
+        return res.status(400).json({ message: "ids must be an array of category ids" });
+      }
+      if (!(await reorderCategories(ids))) {
+        return res.status(400).json({ message: "ids must list every category exactly once" });
+      }
+
+      res.json(await listCategories());
+    } catch (error) {
+      console.error('Error reordering categories:', error);
+      res.status(500).json({ message: 'Error reordering categories' });
+    }
+  });
+
+  // Update, rename or (un)archive a category; only the fields sent are changed
+  app.patch("/api/categories/:id", requireRole('admin'), async (req, res) => {
+    const categoryId = parseInt(req.params.id);
+    try {
+      const parsed = parseCategoryInput(req.body ?? {}, true);
+      if ('errors' in parsed) {
+        return res.status(400).json({ message: "Validation failed", errors: parsed.errors });
+      }
+      if (parsed.values.name && await isCategoryNameTaken(parsed.values.name, categoryId)) {
+        return res.status(400).json({
+          message: "Validation failed",
+          errors: { name: "A category with this name already exists" }
+        });
+      }
+
+      const updated = await updateCategory(categoryId, parsed.values);
+      if (!updated) {
+        return res.status(404).json({ message: "Category not found" });
+      }
+      res.json(updated);
+    } catch (error) {
+      console.error('Error updating category:', error);
+      res.status(500).json({ message: 'Error updating category' });
+    }
+  });
+
+  /**
+   * User Management Routes
+   *
+   * Admins promote members to moderators or admins and demote them again.
+   * See server/access.ts for what each role can do.
+   *
+   * Authentication: Required
+   * Authorization: Must be an admin
+   */
+  app.get("/api/admin/users", requireRole('admin'), async (_req, res) => {
+    try {
+      res.json(await listUsersWithRoles());
+    } catch (error) {
+      console.error('Error fetching users:', error);
+      res.status(500).json({ message: 'Error fetching users' });
+    }
+  });
+
+  // Change a user's role; body is { role }
+  app.patch("/api/admin/users/:id/role", requireRole('admin'), async (req, res) => {
+    const userId = parseInt(req.params.id);
+    try {
+      const parsed = parseRole(req.body?.role);
+      if ('error' in parsed) {
+        return res.status(400).json({ message: "Validation failed", errors: { role: parsed.error } });
+      }
+      // Another admin has to do it, so no one demotes themselves by accident
+      if (userId === req.user!.id) {
+        return res.status(400).json({ message: "You can't change your own role" });
+      }
+
+      const result = await setUserRole(userId, parsed.role);
+      if ('error' in result) {
+        return result.error === 'not_found'
+          ? res.status(404).json({ message: "User not found" })
+          : res.status(400).json({ message: "There must be at least one admin" });
+      }
+      res.json(result.user);
+    } catch (error) {
+      console.error('Error changing user role:', error);
+      res.status(500).json({ message: 'Error changing user role' });
+    }
+  });
+
+  /**
+   * Code Formatting Routes
+   *
+   * Formatting and linting run in-process; nothing is sent to an external
+   * formatter.
+   */
+  app.post("/api/format/dax", async (req, res) => {
+    const { code } = req.body ?? {};
+    if (typeof code !== 'string' || !code.trim()) {
+      return res.status(400).json({ message: "Validation failed", errors: { code: "Code is required" } });
+    }
+    if (code.length > MAX_FORMAT_LENGTH) {
+      return res.status(400).json({
+        message: "Validation failed",
+        errors: { code: `Code must be at most ${MAX_FORMAT_LENGTH} characters` }
+      });
+    }
+
+    try {
+      const formatted = formatDax(code);
+      res.json({ code: formatted, warnings: lintDax(formatted) });
+    } catch (error) {
+      if (error instanceof DaxSyntaxError) {
+        return res.status(400).json({
+          message: "Could not format DAX",
+          errors: { code: error.message }
+        });
+      }
+      console.error('Error formatting DAX:', error);
+      res.status(500).json({ message: 'Error formatting DAX' });
+    }
+  });
+
+  app.post("/api/format/powerquery", async (req, res) => {
+    const { code } = req.body ?? {};
+    if (typeof code !== 'string' || !code.trim()) {
+      return res.status(400).json({ message: "Validation failed", errors: { code: "Code is required" } });
+    }
+    if (code.length > MAX_FORMAT_LENGTH) {
+      return res.status(400).json({
+        message: "Validation failed",
+        errors: { code: `Code must be at most ${MAX_FORMAT_LENGTH} characters` }
+      });
+    }
+
+    try {
+      res.json({ code: formatM(code) });
+    } catch (error) {
+      if (error instanceof MSyntaxError) {
+        return res.status(400).json({
+          message: "Could not format M",
+          errors: { code: error.message }
+        });
+      }
+      console.error('Error formatting M:', error);
+      res.status(500).json({ message: 'Error formatting M' });
+    }
+  });
+
+  // Lint warnings for a snippet, for languages that have a linter, plus
+  // syntax errors for languages with a validator (snippets saved before
+  // validation was added may not parse)
+  app.get("/api/snippets/:id/lint", async (req, res) => {
+    const snippetId = parseInt(req.params.id);
+    try {
+      const [snippet] = await db
+        .select({ code: snippets.code })
+        .from(snippets)
+        .where(eq(snippets.id, snippetId))
+        .limit(1);
+
+      if (!snippet) {
+        return res.status(404).json({ message: "Snippet not found" });
+      }
+
+      const language = await getSnippetLanguageMode(snippetId);
+      if (language !== 'dax') {
+        const syntaxErrors = validateSnippetCode(snippet.code, language)
+          .map(diagnostic => ({ rule: 'syntax', ...diagnostic }));
+        return res.json({ language, warnings: syntaxErrors });
+      }
+
+      try {
+        res.json({ language, warnings: lintDax(snippet.code) });
+      } catch (error) {
+        // Snippets that don't parse as DAX just get no warnings
+        if (!(error instanceof DaxSyntaxError)) throw error;
+        res.json({ language, warnings: [] });
+      }
+    } catch (error) {
+      console.error('Error linting snippet:', error);
+      res.status(500).json({ message: 'Error linting snippet' });
+    }
+  });
+
+  // Outline of the objects a TMDL snippet defines; null for other languages
+  app.get("/api/snippets/:id/outline", async (req, res) => {
+    const snippetId = parseInt(req.params.id);
+    try {
+      const [snippet] = await db
+        .select({ code: snippets.code })
+        .from(snippets)
+        .where(eq(snippets.id, snippetId))
+        .limit(1);
+
+      if (!snippet) {
+        return res.status(404).json({ message: "Snippet not found" });
+      }
+
+      const language = await getSnippetLanguageMode(snippetId);
+      const outline = language === 'tmdl' ? buildTmdlOutline(parseTmdl(fillWithDefaults(snippet.code)).objects) : null;
+      res.json({ language, outline });
+    } catch (error) {
+      console.error('Error building snippet outline:', error);
+      res.status(500).json({ message: 'Error building snippet outline' });
+    }
+  });
+
+  // Fill in a snippet's template placeholders; values left out use their defaults
+  app.post("/api/snippets/:id/render", async (req, res) => {
+    const snippetId = parseInt(req.params.id);
+    try {
+      const [snippet] = await db
+        .select({ code: snippets.code })
+        .from(snippets)
+        .where(eq(snippets.id, snippetId))
+        .limit(1);
+
+      if (!snippet) {
+        return res.status(404).json({ message: "Snippet not found" });
+      }
+
+      const { values = {} } = req.body ?? {};
+      if (typeof values !== 'object' || values === null || Array.isArray(values)) {
+        return res.status(400).json({
+          message: "Validation failed",
+          errors: { values: "Values must be an object keyed by placeholder name" }
+        });
+      }
+
+      const rendered = renderTemplate(snippet.code, await getSnippetPlaceholders(snippetId), values);
+      if ('errors' in rendered) {
+        return res.status(400).json({ message: "Validation failed", errors: rendered.errors });
+      }
+
+      res.json({ code: rendered.code });
+    } catch (error) {
+      console.error('Error rendering snippet:', error);
+      res.status(500).json({ message: 'Error rendering snippet' });
+    }
+  });
+
+  // Get the revision history of a snippet, newest first
+  app.get("/api/snippets/:id/revisions", async (req, res) => {
+    const snippetId = parseInt(req.params.id);
+    try {
+      const [snippet] = await db
+        .select({ id: snippets.id })
+        .from(snippets)
+        .where(eq(snippets.id, snippetId))
+        .limit(1);
+
+      if (!snippet) {
+        return res.status(404).json({ message: "Snippet not found" });
+      }
 
-      // Fetch the complete comment with author information
-      const [commentWithAuthor] = await db
-        .select({
-          id: comments.id,
-          content: comments.content,
-          createdAt: comments.createdAt,
-          authorId: comments.authorId,
-          authorUsername: users.username,
-          authorWebsite: users.website,
-        })
-        .from(comments)
-        .where(eq(comments.id, newComment.id))
-        .leftJoin(users, eq(comments.authorId, users.id))
+      res.json(await listRevisions(snippetId));
+    } catch (error) {
+      console.error('Error fetching revisions:', error);
+      res.status(500).json({ message: 'Error fetching revisions' });
+    }
+  });
+
+  // Restore a snippet to an earlier revision
+  app.post("/api/snippets/:id/revisions/:revisionId/restore", requireAuth, async (req, res) => {
+    const snippetId = parseInt(req.params.id);
+    const revisionId = parseInt(req.params.revisionId);
+    try {
+      const [snippet] = await db
+        .select()
+        .from(snippets)
+        .where(eq(snippets.id, snippetId))
+        .limit(1);
+
+      if (!snippet) {
+        return res.status(404).json({ message: "Snippet not found" });
+      }
+
+      // Check if user is the author
+      if (snippet.authorId !== req.user!.id) {
+        return res.status(403).json({ message: "Not authorized to edit this snippet" });
+      }
+
+      const restored = await restoreRevision(snippet, revisionId, req.user!.id);
+      if (!restored) {
+        return res.status(404).json({ message: "Revision not found" });
+      }
+
+      res.json({ message: "Snippet restored successfully", snippet: restored });
+    } catch (error) {
+      console.error('Error restoring revision:', error);
+      res.status(500).json({ 
+        message: error instanceof Error ? error.message : "Error restoring revision" 
+      });
+    }
+  });
+
+  // Delete a snippet; its author or a moderator can
+  app.delete("/api/snippets/:id", requireAuth, async (req, res) => {
+    const snippetId = parseInt(req.params.id);
+    try {
+      // Get the existing snippet
+      const [snippet] = await db
+        .select()
+        .from(snippets)
+        .where(eq(snippets.id, snippetId))
+        .limit(1);
+
+      if (!snippet) {
+        return res.status(404).json({ message: "Snippet not found" });
+      }
+
+      // Authors can delete their own snippets, moderators anyone's
+      if (snippet.authorId !== req.user!.id && !hasRole(req.user, 'moderator')) {
+        return res.status(403).json({ message: "Not authorized to delete this snippet" });
+      }
+
+      // Delete the snippet
+      await db.delete(snippets).where(eq(snippets.id, snippetId));
+
+      res.json({ message: "Snippet deleted successfully" });
+    } catch (error) {
+      console.error('Error deleting snippet:', error);
+      res.status(500).json({ 
+        message: error instanceof Error ? error.message : "Error deleting snippet" 
+      });
+    }
+  });
+
+  /**
+   * Collection Routes
+   *
+   * Users gather snippets into named, ordered collections. Public
+   * collections can be shared by link; private ones are only visible to
+   * their owner and are reported as not found to everyone else.
+   */
+
+  // List the logged-in user's collections; ?snippetId=N adds whether each contains that snippet
+  app.get("/api/collections", requireAuth, async (req, res) => {
+    try {
+      const snippetId = req.query.snippetId === undefined ? undefined : parseInt(String(req.query.snippetId));
+      if (snippetId !== undefined && isNaN(snippetId)) {
+        return res.status(400).json({ message: "snippetId must be a number" });
+      }
+
+      res.json(await listCollections(req.user!.id, true, snippetId));
+    } catch (error) {
+      console.error('Error fetching collections:', error);
+      res.status(500).json({ message: 'Error fetching collections' });
+    }
+  });
+
+  // List an author's public collections, or all of them for the author themselves
+  app.get("/api/authors/:name/collections", async (req, res) => {
+    try {
+      const [author] = await db
+        .select({ id: users.id })
+        .from(users)
+        .where(eq(users.username, req.params.name))
+        .limit(1);
+
+      if (!author) {
+        return res.status(404).json({ message: "Author not found" });
+      }
+
+      const isOwner = req.isAuthenticated() && req.user!.id === author.id;
+      res.json(await listCollections(author.id, isOwner));
+    } catch (error) {
+      console.error('Error fetching author collections:', error);
+      res.status(500).json({ message: 'Error fetching author collections' });
+    }
+  });
+
+  app.post("/api/collections", requireAuth, async (req, res) => {
+    try {
+      const parsed = parseCollectionInput(req.body ?? {}, false);
+      if ('errors' in parsed) {
+        return res.status(400).json({ message: "Validation failed", errors: parsed.errors });
+      }
+
+      const { name } = parsed.values;
+      const created = await createCollection(req.user!.id, { ...parsed.values, name: name! });
+      res.json(await getVisibleCollection(created.id, req.user!.id));
+    } catch (error) {
+      console.error('Error creating collection:', error);
+      res.status(500).json({ message: 'Error creating collection' });
+    }
+  });
+
+  // Get a collection and its snippets in order
+  app.get("/api/collections/:id", async (req, res) => {
+    const collectionId = parseInt(req.params.id);
+    try {
+      const viewerId = req.isAuthenticated() ? req.user!.id : undefined;
+      const collection = await getVisibleCollection(collectionId, viewerId);
+      if (!collection) {
+        return res.status(404).json({ message: "Collection not found" });
+      }
+
+      const collectionItems = await db
+        .select(snippetListFields)
+        .from(collectionSnippets)
+        .innerJoin(snippets, eq(collectionSnippets.snippetId, snippets.id))
+        .leftJoin(users, eq(snippets.authorId, users.id))
+        .where(eq(collectionSnippets.collectionId, collectionId))
+        .orderBy(collectionSnippets.position, collectionSnippets.addedAt);
+
+      res.json({ ...collection, snippets: collectionItems });
+    } catch (error) {
+      console.error('Error fetching collection:', error);
+      res.status(500).json({ message: 'Error fetching collection' });
+    }
+  });
+
+  // Rename a collection, change its description or visibility; only the fields sent are changed
+  app.patch("/api/collections/:id", requireAuth, async (req, res) => {
+    const collectionId = parseInt(req.params.id);
+    try {
+      const owner = await getCollectionOwner(collectionId);
+      // Someone else's private collection looks the same as a missing one
+      if (!owner || (!owner.isPublic && owner.ownerId !== req.user!.id)) {
+        return res.status(404).json({ message: "Collection not found" });
+      }
+      if (owner.ownerId !== req.user!.id) {
+        return res.status(403).json({ message: "Not authorized to edit this collection" });
+      }
+
+      const parsed = parseCollectionInput(req.body ?? {}, true);
+      if ('errors' in parsed) {
+        return res.status(400).json({ message: "Validation failed", errors: parsed.errors });
+      }
+
+      await updateCollection(collectionId, parsed.values);
+      res.json(await getVisibleCollection(collectionId, req.user!.id));
+    } catch (error) {
+      console.error('Error updating collection:', error);
+      res.status(500).json({ message: 'Error updating collection' });
+    }
+  });
+
+  app.delete("/api/collections/:id", requireAuth, async (req, res) => {
+    const collectionId = parseInt(req.params.id);
+    try {
+      const owner = await getCollectionOwner(collectionId);
+      if (!owner || (!owner.isPublic && owner.ownerId !== req.user!.id)) {
+        return res.status(404).json({ message: "Collection not found" });
+      }
+      if (owner.ownerId !== req.user!.id) {
+        return res.status(403).json({ message: "Not authorized to delete this collection" });
+      }
+
+      await db.delete(collections).where(eq(collections.id, collectionId));
+      res.json({ message: "Collection deleted successfully" });
+    } catch (error) {
+      console.error('Error deleting collection:', error);
+      res.status(500).json({ message: 'Error deleting collection' });
+    }
+  });
+
+  // Add a snippet to the end of a collection; body is { snippetId: number }
+  app.post("/api/collections/:id/snippets", requireAuth, async (req, res) => {
+    const collectionId = parseInt(req.params.id);
+    try {
+      const owner = await getCollectionOwner(collectionId);
+      if (!owner || (!owner.isPublic && owner.ownerId !== req.user!.id)) {
+        return res.status(404).json({ message: "Collection not found" });
+      }
+      if (owner.ownerId !== req.user!.id) {
+        return res.status(403).json({ message: "Not authorized to edit this collection" });
+      }
+
+      const { snippetId } = req.body ?? {};
+      if (!Number.isInteger(snippetId)) {
+        return res.status(400).json({ message: "Validation failed", errors: { snippetId: "snippetId must be a snippet id" } });
+      }
+
+      const [snippet] = await db
+        .select({ id: snippets.id })
+        .from(snippets)
+        .where(eq(snippets.id, snippetId))
+        .limit(1);
+      if (!snippet) {
+        return res.status(404).json({ message: "Snippet not found" });
+      }
+
+      await addSnippetToCollection(collectionId, snippetId);
+      res.json(await getVisibleCollection(collectionId, req.user!.id));
+    } catch (error) {
+      console.error('Error adding snippet to collection:', error);
+      res.status(500).json({ message: 'Error adding snippet to collection' });
+    }
+  });
+
+  app.delete("/api/collections/:id/snippets/:snippetId", requireAuth, async (req, res) => {
+    const collectionId = parseInt(req.params.id);
+    const snippetId = parseInt(req.params.snippetId);
+    try {
+      const owner = await getCollectionOwner(collectionId);
+      if (!owner || (!owner.isPublic && owner.ownerId !== req.user!.id)) {
+        return res.status(404).json({ message: "Collection not found" });
+      }
+      if (owner.ownerId !== req.user!.id) {
+        return res.status(403).json({ message: "Not authorized to edit this collection" });
+      }
+
+      if (!(await removeSnippetFromCollection(collectionId, snippetId))) {
+        return res.status(404).json({ message: "Snippet is not in this collection" });
+      }
+      res.json(await getVisibleCollection(collectionId, req.user!.id));
+    } catch (error) {
+      console.error('Error removing snippet from collection:', error);
+      res.status(500).json({ message: 'Error removing snippet from collection' });
+    }
+  });
+
+  // Set the order of a collection's snippets; body is { snippetIds: number[] } covering every snippet in it
+  app.put("/api/collections/:id/order", requireAuth, async (req, res) => {
+    const collectionId = parseInt(req.params.id);
+    try {
+      const owner = await getCollectionOwner(collectionId);
+      if (!owner || (!owner.isPublic && owner.ownerId !== req.user!.id)) {
+        return res.status(404).json({ message: "Collection not found" });
+      }
+      if (owner.ownerId !== req.user!.id) {
+        return res.status(403).json({ message: "Not authorized to edit this collection" });
+      }
+
+      const { snippetIds } = req.body ?? {};
+      if (!Array.isArray(snippetIds) || !snippetIds.every(id => Number.isInteger(id))) {
+        return res.status(400).json({ message: "snippetIds must be an array of snippet ids" });
+      }
+      if (!(await reorderCollectionSnippets(collectionId, snippetIds))) {
+        return res.status(400).json({ message: "snippetIds must list every snippet in the collection exactly once" });
+      }
+
+      res.json(await getVisibleCollection(collectionId, req.user!.id));
+    } catch (error) {
+      console.error('Error reordering collection:', error);
+      res.status(500).json({ message: 'Error reordering collection' });
+    }
+  });
+
+  /**
+   * Comment Routes
+   *
+   * Comments are threaded through `parentId`. The list endpoint returns
+   * every comment on a snippet flat, oldest first, and the client nests
+   * them. Deleted comments stay in the list, blanked, so their replies
+   * keep their place.
+   */
+
+  // Get comments for a snippet
+  app.get("/api/snippets/:id/comments", async (req, res) => {
+    const snippetId = parseInt(req.params.id);
+    try {
+      res.json(await listComments(snippetId));
+    } catch (error) {
+      console.error('Error fetching comments:', error);
+      res.status(500).json({ message: 'Error fetching comments' });
+    }
+  });
+
+  // Add a new comment, or a reply when parentId is given
+  app.post("/api/snippets/:id/comments", requireAuth, async (req, res) => {
+    const snippetId = parseInt(req.params.id);
+    const { parentId = null } = req.body ?? {};
+
+    try {
+      const parsed = parseCommentContent(req.body?.content);
+      if ('error' in parsed) {
+        return res.status(400).json({ message: parsed.error });
+      }
+
+      const [snippet] = await db
+        .select({ id: snippets.id })
+        .from(snippets)
+        .where(eq(snippets.id, snippetId))
         .limit(1);
+      if (!snippet) {
+        return res.status(404).json({ message: "Snippet not found" });
+      }
+
+      if (parentId !== null) {
+        const parent = Number.isInteger(parentId) ? await getCommentAccess(parentId) : null;
+        if (!parent || parent.snippetId !== snippetId) {
+          return res.status(400).json({ message: "Validation failed", errors: { parentId: "Comment to reply to not found" } });
+        }
+        if (parent.deletedAt) {
+          return res.status(400).json({ message: "Validation failed", errors: { parentId: "Can't reply to a deleted comment" } });
+        }
+      }
 
-      res.status(201).json(commentWithAuthor);
+      const created = await createComment(snippetId, req.user!.id, parsed.content, parentId);
+      if (created) {
+        await notifyCommentCreated({ ...created, snippetId, content: parsed.content });
+      }
+      res.status(201).json(created);
     } catch (error) {
       console.error('Error creating comment:', error);
       res.status(500).json({ 
@@ -754,6 +1723,174 @@ export function registerRoutes(app: Express): Server {
     }
   });
 
+  // Edit a comment; only its author can
+  app.put("/api/comments/:id", requireAuth, async (req, res) => {
+    const commentId = parseInt(req.params.id);
+    try {
+      const comment = await getCommentAccess(commentId);
+      if (!comment || comment.deletedAt) {
+        return res.status(404).json({ message: "Comment not found" });
+      }
+      if (comment.authorId !== req.user!.id) {
+        return res.status(403).json({ message: "Not authorized to edit this comment" });
+      }
+
+      const parsed = parseCommentContent(req.body?.content);
+      if ('error' in parsed) {
+        return res.status(400).json({ message: parsed.error });
+      }
+
+      const edited = await editComment(commentId, parsed.content);
+      await notifyCommentEdited({ ...comment, content: parsed.content }, comment.content);
+      res.json(edited);
+    } catch (error) {
+      console.error('Error editing comment:', error);
+      res.status(500).json({ message: 'Error editing comment' });
+    }
+  });
+
+  // Delete a comment; its author or a moderator can
+  app.delete("/api/comments/:id", requireAuth, async (req, res) => {
+    const commentId = parseInt(req.params.id);
+    try {
+      const comment = await getCommentAccess(commentId);
+      if (!comment || comment.deletedAt) {
+        return res.status(404).json({ message: "Comment not found" });
+      }
+      if (comment.authorId !== req.user!.id && !hasRole(req.user, 'moderator')) {
+        return res.status(403).json({ message: "Not authorized to delete this comment" });
+      }
+
+      await softDeleteComment(commentId, req.user!.id);
+      res.json({ message: "Comment deleted successfully" });
+    } catch (error) {
+      console.error('Error deleting comment:', error);
+      res.status(500).json({ message: 'Error deleting comment' });
+    }
+  });
+
+  /**
+   * Notification Routes
+   *
+   * Mentions, comments, replies and likes addressed to the logged-in user.
+   * See server/notifications.ts for what creates them.
+   */
+
+  // Get the user's most recent notifications and their unread count
+  app.get("/api/notifications", requireAuth, async (req, res) => {
+    try {
+      const limit = req.query.limit === undefined ? 20 : Number(req.query.limit);
+      if (!Number.isInteger(limit) || limit < 1) {
+        return res.status(400).json({ message: "limit must be a positive integer" });
+      }
+
+      const [items, unreadCount] = await Promise.all([
+        listNotifications(req.user!.id, {
+          unreadOnly: req.query.unread === 'true',
+          limit: Math.min(limit, MAX_NOTIFICATIONS),
+        }),
+        countUnreadNotifications(req.user!.id),
+      ]);
+      res.json({ items, unreadCount });
+    } catch (error) {
+      console.error('Error fetching notifications:', error);
+      res.status(500).json({ message: 'Error fetching notifications' });
+    }
+  });
+
+  // Mark notifications as read; body is { ids: number[] }, or {} for all of them
+  app.post("/api/notifications/read", requireAuth, async (req, res) => {
+    try {
+      const { ids } = req.body ?? {};
+      if (ids !== undefined && (!Array.isArray(ids) || !ids.every(id => Number.isInteger(id)))) {
+        return res.status(400).json({ message: "Validation failed", errors: { ids: "ids must be an array of notification ids" } });
+      }
+
+      const marked = await markNotificationsRead(req.user!.id, ids);
+      res.json({ marked, unreadCount: await countUnreadNotifications(req.user!.id) });
+    } catch (error) {
+      console.error('Error marking notifications read:', error);
+      res.status(500).json({ message: 'Error marking notifications read' });
+    }
+  });
+
+  /**
+   * Email Digest Routes
+   *
+   * Opt-in daily or weekly digest emails; see server/digests.ts. The
+   * unsubscribe route needs no login, only the token from the email.
+   */
+
+  // Get the user's digest preferences and followed categories
+  app.get("/api/email/preferences", requireAuth, async (req, res) => {
+    try {
+      const preferences = await getEmailPreferences(req.user!.id);
+      res.json({ ...preferences, hasEmail: Boolean(req.user!.email) });
+    } catch (error) {
+      console.error('Error fetching email preferences:', error);
+      res.status(500).json({ message: 'Error fetching email preferences' });
+    }
+  });
+
+  // Update the user's digest preferences; omitted fields are left as they are
+  app.put("/api/email/preferences", requireAuth, async (req, res) => {
+    try {
+      const parsed = parseEmailPreferences(req.body ?? {});
+      if ('errors' in parsed) {
+        return res.status(400).json({ message: "Validation failed", errors: parsed.errors });
+      }
+
+      const { followedCategories, ...fields } = parsed.values;
+      let followedCategoryIds: number[] | undefined;
+      if (followedCategories) {
+        const resolved = await resolveCategories(followedCategories);
+        if (resolved.unknown.length > 0) {
+          return res.status(400).json({
+            message: "Validation failed",
+            errors: { followedCategories: `Unknown categories: ${resolved.unknown.join(', ')}` }
+          });
+        }
+        followedCategoryIds = resolved.categories.map(category => category.id);
+      }
+
+      const preferences = await updateEmailPreferences(req.user!.id, { ...fields, followedCategoryIds });
+      res.json({ ...preferences, hasEmail: Boolean(req.user!.email) });
+    } catch (error) {
+      console.error('Error updating email preferences:', error);
+      res.status(500).json({ message: 'Error updating email preferences' });
+    }
+  });
+
+  // Turn off digests with the token from a digest's unsubscribe link. The
+  // token may be in the query string, which is where one-click unsubscribe
+  // (RFC 8058) from mail clients puts it, or in a JSON body.
+  app.post("/api/email/unsubscribe", async (req, res) => {
+    try {
+      const token = req.query.token ?? req.body?.token;
+      if (typeof token !== 'string' || !token) {
+        return res.status(400).json({ message: "Unsubscribe token is required" });
+      }
+
+      if (!await unsubscribeFromDigests(token)) {
+        return res.status(404).json({ message: "This unsubscribe link is invalid" });
+      }
+      res.json({ message: "You won't receive any more digest emails" });
+    } catch (error) {
+      console.error('Error unsubscribing from digests:', error);
+      res.status(500).json({ message: 'Error unsubscribing from digests' });
+    }
+  });
+
+  // Send any digests that are due now rather than waiting for the next check (admin only)
+  app.post("/api/admin/digests/send", requireRole('admin'), async (req, res) => {
+    try {
+      res.json(await sendDueDigests());
+    } catch (error) {
+      console.error('Error sending digests:', error);
+      res.status(500).json({ message: 'Error sending digests' });
+    }
+  });
+
   // Sitemap route - generates and serves XML sitemap for SEO
   app.get("/sitemap.xml", async (req, res) => {
     try {
@@ -777,6 +1914,17 @@ export function registerRoutes(app: Express): Server {
   // Initialize email service
   initEmailService();
 
+  // Correct any drift in the snippet vote counters
+  scheduleVoteReconciliation();
+
+  // Send digest emails as they fall due
+  scheduleDigests();
+
+  // Manual backups run in the server, so any still running were cut short
+  failInterruptedBackupJobs().catch((error) => {
+    console.error('Error marking interrupted backup jobs:', error);
+  });
+
   // Password reset request endpoint
   app.post('/api/password-reset/request', async (req, res) => {
     try {
@@ -864,6 +2012,9 @@ export function registerRoutes(app: Express): Server {
       // Invalidate the token so it can't be used again
       invalidateToken(token);
       
+      // Sign out sessions that may have been opened with the old password
+      await destroyUserSessions(userId);
+
       res.json({
         success: true,
         message: "Password has been reset successfully"
@@ -0,0 +1,92 @@
+import { sql, type SQL } from "drizzle-orm";
+import { snippets } from "@db/schema";
+
+/**
+ * Snippet Search
+ *
+ * Full-text search over snippets is done in Postgres against the generated
+ * `snippets.search_vector` column (title weighted A, code B).
+ * The 'simple' text search configuration is used everywhere because snippets
+ * are mostly code, where English stemming and stop words do more harm than good.
+ *
+ * Supported query syntax:
+ * - `sum calculate`    both words must match
+ * - `"total sales"`    exact phrase
+ * - `calc*`            prefix match
+ * - `-iferror`         exclude snippets containing the word
+ */
+
+// Control characters used to mark highlights in ts_headline output. They
+// can't appear in a normal snippet, so the client can split on them safely
+// without the server ever emitting HTML.
+export const HIGHLIGHT_START = '\u0002';
+export const HIGHLIGHT_STOP = '\u0003';
+
+const HEADLINE_OPTIONS = `StartSel="${HIGHLIGHT_START}", StopSel="${HIGHLIGHT_STOP}"`;
+
+/**
+ * Reduce a raw word to characters that are safe inside a tsquery
+ */
+function sanitizeLexeme(word: string): string {
+  return word.toLowerCase().replace(/[^a-z0-9_\u00c0-\uffff]+/g, ' ').trim();
+}
+
+/**
+ * Convert a user search string into a tsquery expression
+ * @param input The raw search box value
+ * @returns A to_tsquery compatible string, or null if nothing searchable remains
+ */
+export function buildTsQuery(input: string): string | null {
+  const clauses: string[] = [];
+  const tokenPattern = /(-?)"([^"]*)"|(-?)(\S+)/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = tokenPattern.exec(input)) !== null) {
+    const negated = Boolean(match[1] || match[3]);
+    let clause: string | null = null;
+
+    if (match[2] !== undefined) {
+      // Quoted phrase: words must appear next to each other
+      const words = sanitizeLexeme(match[2]).split(/\s+/).filter(Boolean);
+      if (words.length > 0) {
+        clause = words.length === 1 ? words[0] : `(${words.join(' <-> ')})`;
+      }
+    } else {
+      const raw = match[4];
+      const isPrefix = raw.endsWith('*');
+      const words = sanitizeLexeme(raw).split(/\s+/).filter(Boolean);
+      if (words.length > 0) {
+        // Punctuation inside a word (e.g. Sales[Amount]) splits it into adjacent lexemes
+        const last = words.length - 1;
+        const parts = words.map((word, index) => (isPrefix && index === last ? `${word}:*` : word));
+        clause = parts.length === 1 ? parts[0] : `(${parts.join(' <-> ')})`;
+      }
+    }
+
+    if (clause) {
+      clauses.push(negated ? `!${clause}` : clause);
+    }
+  }
+
+  // A query made only of exclusions would match nothing useful
+  if (!clauses.some(clause => !clause.startsWith('!'))) {
+    return null;
+  }
+
+  return clauses.join(' & ');
+}
+
+/**
+ * Build the SQL fragments needed to filter, rank and highlight snippets
+ * @param tsQuery A query produced by buildTsQuery
+ */
+export function searchFragments(tsQuery: string) {
+  const query = sql`to_tsquery('simple', ${tsQuery})`;
+
+  return {
+    where: sql`${snippets.searchVector} @@ ${query}` as SQL,
+    rank: sql<number>`ts_rank_cd(${snippets.searchVector}, ${query}, 32)`,
+    titleHighlight: sql<string>`ts_headline('simple', ${snippets.title}, ${query}, ${`${HEADLINE_OPTIONS}, HighlightAll=true`})`,
+    codeHighlight: sql<string>`ts_headline('simple', ${snippets.code}, ${query}, ${`${HEADLINE_OPTIONS}, MaxFragments=3, MinWords=5, MaxWords=20, FragmentDelimiter=" … "`})`,
+  };
+}
@@ -0,0 +1,158 @@
+import session from "express-session";
+import { db } from "@db";
+import { sessions } from "@db/schema";
+import { eq, and, lt, gt, desc } from "drizzle-orm";
+
+/**
+ * Sessions
+ *
+ * Login sessions are stored in the `sessions` table, so they survive
+ * restarts and deploys and every instance of the app sees the same ones.
+ * Each row holds the express-session data as JSON, plus the logged-in user
+ * and their browser's user agent copied out of it so a user's sessions can
+ * be listed and signed out together.
+ *
+ * Expired sessions are ignored as soon as they expire and deleted by
+ * scheduleSessionPruning. How recently a session was used is only written
+ * once every LAST_SEEN_RESOLUTION, not on every request.
+ */
+
+// How long a session lasts without being used
+export const SESSION_MAX_AGE = 30 * 24 * 60 * 60 * 1000;
+
+export const SESSION_PRUNE_INTERVAL = 60 * 60 * 1000;
+
+const LAST_SEEN_RESOLUTION = 60 * 1000;
+
+declare module "express-session" {
+  interface SessionData {
+    passport?: { user?: number };
+    // Recorded when the user logs in, to tell their sessions apart
+    userAgent?: string;
+  }
+}
+
+function expiryOf(data: session.SessionData): Date {
+  return data.cookie?.expires
+    ? new Date(data.cookie.expires)
+    : new Date(Date.now() + SESSION_MAX_AGE);
+}
+
+/**
+ * express-session store backed by the sessions table
+ */
+export class PgSessionStore extends session.Store {
+  get(sid: string, callback: (err: any, session?: session.SessionData | null) => void) {
+    db
+      .select({ sess: sessions.sess })
+      .from(sessions)
+      .where(and(eq(sessions.sid, sid), gt(sessions.expire, new Date())))
+      .limit(1)
+      .then(([row]) => callback(null, (row?.sess as session.SessionData | undefined) ?? null))
+      .catch(callback);
+  }
+
+  set(sid: string, data: session.SessionData, callback?: (err?: any) => void) {
+    const values = {
+      sess: data,
+      expire: expiryOf(data),
+      userId: data.passport?.user ?? null,
+      userAgent: data.userAgent ?? null,
+      lastSeenAt: new Date(),
+    };
+    db
+      .insert(sessions)
+      .values({ sid, ...values })
+      .onConflictDoUpdate({ target: sessions.sid, set: values })
+      .then(() => callback?.())
+      .catch(error => callback?.(error));
+  }
+
+  destroy(sid: string, callback?: (err?: any) => void) {
+    db
+      .delete(sessions)
+      .where(eq(sessions.sid, sid))
+      .then(() => callback?.())
+      .catch(error => callback?.(error));
+  }
+
+  // Called on requests that don't change the session; only writes when the
+  // last-seen time is out of date
+  touch(sid: string, data: session.SessionData, callback?: (err?: any) => void) {
+    const now = new Date();
+    db
+      .update(sessions)
+      .set({ expire: expiryOf(data), lastSeenAt: now })
+      .where(and(
+        eq(sessions.sid, sid),
+        lt(sessions.lastSeenAt, new Date(now.getTime() - LAST_SEEN_RESOLUTION))
+      ))
+      .then(() => callback?.())
+      .catch(error => callback?.(error));
+  }
+}
+
+/**
+ * A user's active sessions, most recently used first
+ * @param userId The user
+ * @param currentSid The session making the request, flagged as `current`
+ */
+export async function listUserSessions(userId: number, currentSid: string) {
+  const rows = await db
+    .select({
+      sid: sessions.sid,
+      userAgent: sessions.userAgent,
+      createdAt: sessions.createdAt,
+      lastSeenAt: sessions.lastSeenAt,
+      expiresAt: sessions.expire,
+    })
+    .from(sessions)
+    .where(and(eq(sessions.userId, userId), gt(sessions.expire, new Date())))
+    .orderBy(desc(sessions.lastSeenAt));
+
+  // The session id is what the cookie carries, so it never leaves the server
+  return rows.map(({ sid, ...row }) => ({ ...row, current: sid === currentSid }));
+}
+
+/**
+ * Sign a user out everywhere by deleting all their sessions
+ * @returns How many sessions were deleted
+ */
+export async function destroyUserSessions(userId: number): Promise<number> {
+  const deleted = await db
+    .delete(sessions)
+    .where(eq(sessions.userId, userId))
+    .returning({ sid: sessions.sid });
+  return deleted.length;
+}
+
+/**
+ * Delete sessions that have expired
+ * @returns How many were deleted
+ */
+export async function pruneExpiredSessions(): Promise<number> {
+  const deleted = await db
+    .delete(sessions)
+    .where(lt(sessions.expire, new Date()))
+    .returning({ sid: sessions.sid });
+  return deleted.length;
+}
+
+/**
+ * Run pruneExpiredSessions now and then every SESSION_PRUNE_INTERVAL
+ */
+export function scheduleSessionPruning() {
+  const run = async () => {
+    try {
+      const pruned = await pruneExpiredSessions();
+      if (pruned > 0) {
+        console.log(`Pruned ${pruned} expired session(s)`);
+      }
+    } catch (error) {
+      console.error('Error pruning sessions:', error);
+    }
+  };
+
+  run();
+  return setInterval(run, SESSION_PRUNE_INTERVAL);
+}
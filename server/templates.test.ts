@@ -0,0 +1,31 @@
+import { describe, it, expect, vi } from "vitest";
+
+// Rendering doesn't touch the database
+vi.mock("@db", () => ({ db: {} }));
+
+import { parsePlaceholders, renderTemplate } from "./templates";
+
+const render = (code: string, values: Record<string, unknown>) =>
+  renderTemplate(code, parsePlaceholders(code).placeholders, values);
+
+describe("renderTemplate", () => {
+  it("fills in values and defaults", () => {
+    expect(render("EVALUATE TOPN({{Count:10}}, {{Table}})", { Table: "Sales" }))
+      .toEqual({ code: "EVALUATE TOPN(10, Sales)" });
+  });
+
+  it.each([["constructor"], ["toString"], ["hasOwnProperty"]])(
+    "uses the default of a placeholder named %s left empty",
+    (name) => {
+      expect(render(`{{${name}:fallback}}`, {})).toEqual({ code: "fallback" });
+      expect(render(`{{${name}}}`, {})).toEqual({ errors: { [name]: "A value is required" } });
+      expect(render(`{{${name}}}`, JSON.parse(`{"${name}": "given"}`))).toEqual({ code: "given" });
+    }
+  );
+
+  it("rejects values that aren't text and unknown names", () => {
+    expect(render("{{Count}}", { Count: 3, Other: "x" })).toEqual({
+      errors: { Count: "Value must be text", Other: "There's no placeholder named Other" },
+    });
+  });
+});
@@ -0,0 +1,174 @@
+import { db, type DbExecutor } from "@db";
+import { snippetPlaceholders, snippets } from "@db/schema";
+import { eq, asc, sql } from "drizzle-orm";
+
+/**
+ * Snippet Templates
+ *
+ * Snippet code can mark values to fill in before use as `{{Name}}`,
+ * `{{Name:default}}` or `{{Name:default|description}}`. The placeholders are
+ * stored alongside the snippet so clients can build a form for them without
+ * parsing the code, and rendering happens server-side so every client fills
+ * them in the same way. A name has to start with a letter or underscore,
+ * which keeps DAX table constructors like {{1, 2}} from matching.
+ */
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([A-Za-z_][A-Za-z0-9_]{0,63})\s*(?::([^|}\n]*))?(?:\|([^}\n]*))?\}\}/g;
+
+// Longest value accepted for a single placeholder when rendering
+export const MAX_PLACEHOLDER_VALUE_LENGTH = 1000;
+
+export interface Placeholder {
+  name: string;
+  defaultValue: string | null;
+  description: string | null;
+}
+
+const optionalText = (value: string | undefined) => value?.trim() || null;
+
+/**
+ * Find the placeholders in snippet code, in order of first appearance.
+ * A name may be repeated; the repeats can leave out the default and
+ * description but can't contradict them.
+ * @param code The snippet code
+ * @returns The placeholders, and a message for each contradiction
+ */
+export function parsePlaceholders(code: string): { placeholders: Placeholder[]; errors: string[] } {
+  const byName = new Map<string, Placeholder>();
+  const errors: string[] = [];
+
+  code.replace(PLACEHOLDER_PATTERN, (_match, name: string, defaultValue?: string, description?: string) => {
+    const found: Placeholder = {
+      name,
+      defaultValue: optionalText(defaultValue),
+      description: optionalText(description),
+    };
+    const existing = byName.get(name);
+    if (!existing) {
+      byName.set(name, found);
+      return '';
+    }
+
+    if (found.defaultValue !== null) {
+      if (existing.defaultValue === null) {
+        existing.defaultValue = found.defaultValue;
+      } else if (existing.defaultValue !== found.defaultValue) {
+        errors.push(`Placeholder ${name} has two different defaults`);
+      }
+    }
+    if (found.description !== null) {
+      if (existing.description === null) {
+        existing.description = found.description;
+      } else if (existing.description !== found.description) {
+        errors.push(`Placeholder ${name} has two different descriptions`);
+      }
+    }
+    return '';
+  });
+
+  return { placeholders: Array.from(byName.values()), errors };
+}
+
+/**
+ * Fill in the placeholders of snippet code
+ * @param code The snippet code
+ * @param placeholders The snippet's stored placeholders
+ * @param values Values keyed by placeholder name; missing ones use the default
+ * @returns The rendered code, or errors keyed by placeholder name
+ */
+export function renderTemplate(
+  code: string,
+  placeholders: Placeholder[],
+  values: Record<string, unknown>
+): { code: string } | { errors: Record<string, string> } {
+  const errors: Record<string, string> = {};
+  const known = new Map(placeholders.map(placeholder => [placeholder.name, placeholder]));
+  const resolved = new Map<string, string>();
+
+  for (const name of Object.keys(values)) {
+    if (!known.has(name)) errors[name] = `There's no placeholder named ${name}`;
+  }
+
+  for (const placeholder of placeholders) {
+    // Only the values sent; `constructor` or `toString` must not find Object's
+    const value = Object.hasOwn(values, placeholder.name) ? values[placeholder.name] : undefined;
+    if (value === undefined || value === null || value === '') {
+      if (placeholder.defaultValue === null) {
+        errors[placeholder.name] = "A value is required";
+      } else {
+        resolved.set(placeholder.name, placeholder.defaultValue);
+      }
+    } else if (typeof value !== 'string') {
+      errors[placeholder.name] = "Value must be text";
+    } else if (value.length > MAX_PLACEHOLDER_VALUE_LENGTH) {
+      errors[placeholder.name] = `Value can be at most ${MAX_PLACEHOLDER_VALUE_LENGTH} characters`;
+    } else {
+      resolved.set(placeholder.name, value);
+    }
+  }
+
+  if (Object.keys(errors).length > 0) return { errors };
+
+  // Placeholders added to the code after it was stored are left as they are
+  return {
+    code: code.replace(PLACEHOLDER_PATTERN, (match, name: string) => resolved.get(name) ?? match),
+  };
+}
+
+/**
+ * The code as it would read with every placeholder at its default, or its
+ * name where it has none. This is what the syntax validators check, so a
+ * template only has to be valid once it's filled in.
+ * @param code The snippet code
+ */
+export function fillWithDefaults(code: string): string {
+  const { placeholders } = parsePlaceholders(code);
+  const defaults = new Map(placeholders.map(placeholder => [placeholder.name, placeholder.defaultValue ?? placeholder.name]));
+  return code.replace(PLACEHOLDER_PATTERN, (match, name: string) => defaults.get(name) ?? match);
+}
+
+/**
+ * The placeholders of each snippet as a JSON array, usable in any select
+ * that reads from the snippets table
+ */
+export const snippetPlaceholdersSql = sql<Placeholder[]>`COALESCE((
+  SELECT json_agg(json_build_object(
+    'name', ${snippetPlaceholders.name},
+    'defaultValue', ${snippetPlaceholders.defaultValue},
+    'description', ${snippetPlaceholders.description}
+  ) ORDER BY ${snippetPlaceholders.position})
+  FROM ${snippetPlaceholders}
+  WHERE ${snippetPlaceholders.snippetId} = ${snippets.id}
+), '[]'::json)`;
+
+/**
+ * Replace the stored placeholders of a snippet
+ * @param executor Database handle or transaction to write with
+ * @param snippetId The snippet to update
+ * @param placeholders The placeholders found in its code
+ */
+export async function setSnippetPlaceholders(executor: DbExecutor, snippetId: number, placeholders: Placeholder[]) {
+  await executor.delete(snippetPlaceholders).where(eq(snippetPlaceholders.snippetId, snippetId));
+
+  if (placeholders.length > 0) {
+    await executor
+      .insert(snippetPlaceholders)
+      .values(placeholders.map((placeholder, position) => ({ snippetId, ...placeholder, position })));
+  }
+}
+
+/**
+ * The stored placeholders of a snippet, in order of appearance
+ * @param snippetId The snippet to look up
+ */
+export async function getSnippetPlaceholders(snippetId: number): Promise<Placeholder[]> {
+  return db
+    .select({
+      name: snippetPlaceholders.name,
+      defaultValue: snippetPlaceholders.defaultValue,
+      description: snippetPlaceholders.description,
+    })
+    .from(snippetPlaceholders)
+    .where(eq(snippetPlaceholders.snippetId, snippetId))
+    .orderBy(asc(snippetPlaceholders.position));
+}
@@ -0,0 +1,2 @@
+export { parseTmdl, type TmdlDocument, type TmdlObject, type TmdlError } from "./parser";
+export { buildTmdlOutline, type TmdlOutlineNode, type TmdlOutlineType } from "./outline";
@@ -0,0 +1,74 @@
+import type { TmdlObject } from "./parser";
+
+/**
+ * TMDL Outline
+ *
+ * Reduces a parsed TMDL document to the objects readers look for in a
+ * snippet: tables with their columns and measures, and relationships.
+ * Objects in between (a `model`, a `database`) are skipped and their
+ * children lifted up a level.
+ */
+
+export type TmdlOutlineType = 'table' | 'column' | 'measure' | 'relationship';
+
+export interface TmdlOutlineNode {
+  type: TmdlOutlineType;
+  name: string;
+  line: number;
+  // Data type of a column, or `from → to` for a relationship
+  detail: string | null;
+  // Calculated columns and tables
+  calculated: boolean;
+  children: TmdlOutlineNode[];
+}
+
+const OUTLINE_TYPES = new Set<string>(['table', 'column', 'measure', 'relationship']);
+
+// Objects whose children may hold outline objects
+const CONTAINERS = new Set(['database', 'model', 'table']);
+
+function detailOf(object: TmdlObject) {
+  if (object.type === 'column') {
+    return object.properties.dataType ?? null;
+  }
+  if (object.type === 'relationship') {
+    const { fromColumn, toColumn } = object.properties;
+    return fromColumn && toColumn ? `${fromColumn} → ${toColumn}` : null;
+  }
+  return null;
+}
+
+function isCalculated(object: TmdlObject) {
+  if (object.type === 'column') {
+    return object.expression !== null || object.properties.type === 'calculated';
+  }
+  if (object.type === 'table') {
+    return object.children.some(child => child.type === 'partition' && child.expression === 'calculated');
+  }
+  return false;
+}
+
+/**
+ * Build the outline of parsed TMDL objects
+ * @param objects The top-level objects from parseTmdl
+ */
+export function buildTmdlOutline(objects: TmdlObject[]): TmdlOutlineNode[] {
+  const outline: TmdlOutlineNode[] = [];
+
+  for (const object of objects) {
+    if (OUTLINE_TYPES.has(object.type) && object.name !== null) {
+      outline.push({
+        type: object.type as TmdlOutlineType,
+        name: object.name,
+        line: object.line,
+        detail: detailOf(object),
+        calculated: isCalculated(object),
+        children: object.type === 'table' ? buildTmdlOutline(object.children) : [],
+      });
+    } else if (CONTAINERS.has(object.type)) {
+      outline.push(...buildTmdlOutline(object.children));
+    }
+  }
+
+  return outline;
+}
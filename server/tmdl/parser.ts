@@ -0,0 +1,440 @@
+/**
+ * TMDL Parser
+ *
+ * Parses Tabular Model Definition Language into an object tree and collects
+ * every structural problem it finds instead of stopping at the first one.
+ *
+ * TMDL is indentation based. Each line either declares an object
+ * (`table Sales`, `measure 'Total Sales' = SUM ( Sales[Amount] )`), sets a
+ * property of the object above it (`dataType: int64`, `isHidden`, or
+ * `source =` followed by an expression), or continues a multi-line
+ * expression. Children are indented exactly one level deeper than their
+ * parent; expressions are indented deeper than that and continue for as long
+ * as lines stay at least as indented as their first line, or are enclosed in
+ * ``` fences.
+ *
+ * Snippets are often fragments, so any object may appear at the top level;
+ * nesting is only checked when an object has a parent.
+ */
+
+export interface TmdlError {
+  message: string;
+  // 1-based, the end column is exclusive
+  line: number;
+  column: number;
+  endLine: number;
+  endColumn: number;
+}
+
+export interface TmdlObject {
+  type: string;
+  name: string | null;
+  modifier: string | null;
+  description: string | null;
+  line: number;
+  // Property values, and expressions assigned with `name =`
+  properties: Record<string, string>;
+  // The expression or value after `=` in the declaration
+  expression: string | null;
+  children: TmdlObject[];
+}
+
+export interface TmdlDocument {
+  objects: TmdlObject[];
+  errors: TmdlError[];
+}
+
+const OBJECT_KEYWORDS = new Set([
+  'model', 'database', 'table', 'column', 'measure', 'partition', 'relationship',
+  'hierarchy', 'level', 'role', 'member', 'tablePermission', 'columnPermission',
+  'perspective', 'perspectiveTable', 'perspectiveColumn', 'perspectiveMeasure',
+  'perspectiveHierarchy', 'culture', 'linguisticMetadata', 'expression', 'annotation',
+  'extendedProperty', 'changedProperty', 'calculationGroup', 'calculationItem',
+  'dataSource', 'queryGroup', 'formatStringDefinition', 'detailRowsDefinition',
+  'variation', 'function', 'dataAccessOptions', 'refreshPolicy', 'alternateOf',
+]);
+
+const MODIFIERS = new Set(['ref', 'createOrReplace', 'createOrAlter', 'delete']);
+
+// Objects that are declared without a name, e.g. `formatStringDefinition = ...`
+const UNNAMED_OBJECTS = new Set([
+  'calculationGroup', 'formatStringDefinition', 'detailRowsDefinition',
+  'dataAccessOptions', 'refreshPolicy', 'alternateOf',
+]);
+
+// Objects that may appear anywhere
+const ANYWHERE = new Set(['annotation', 'extendedProperty', 'changedProperty']);
+
+// The objects each kind of object may be declared in, when it has a parent
+const ALLOWED_PARENTS: Record<string, string[]> = {
+  model: ['database'],
+  table: ['model'],
+  relationship: ['model'],
+  expression: ['model'],
+  dataSource: ['model'],
+  role: ['model'],
+  perspective: ['model'],
+  culture: ['model'],
+  queryGroup: ['model'],
+  function: ['model'],
+  dataAccessOptions: ['model'],
+  column: ['table'],
+  measure: ['table'],
+  partition: ['table'],
+  hierarchy: ['table'],
+  calculationGroup: ['table'],
+  refreshPolicy: ['table'],
+  level: ['hierarchy'],
+  calculationItem: ['calculationGroup'],
+  formatStringDefinition: ['measure', 'calculationItem'],
+  detailRowsDefinition: ['measure', 'table'],
+  variation: ['column'],
+  alternateOf: ['column'],
+  member: ['role'],
+  tablePermission: ['role'],
+  columnPermission: ['tablePermission'],
+  perspectiveTable: ['perspective'],
+  perspectiveColumn: ['perspectiveTable'],
+  perspectiveMeasure: ['perspectiveTable'],
+  perspectiveHierarchy: ['perspectiveTable'],
+  linguisticMetadata: ['culture'],
+};
+
+// `Table.Column`, either part optionally quoted
+const COLUMN_REFERENCE = /^('([^']|'')+'|[^\s.']+)\.('([^']|'')+'|[^\s.']+)$/;
+
+interface OpenObject {
+  object: TmdlObject;
+  depth: number;
+}
+
+interface OpenExpression {
+  assign: (text: string) => void;
+  line: number;
+  // Indentation width of the line with the `=`, and of the expression's
+  // first line once it's been seen
+  declarationWidth: number;
+  width: number | null;
+  fenced: boolean;
+  lines: string[];
+}
+
+function unquote(name: string) {
+  return name.startsWith("'") ? name.slice(1, -1).replace(/''/g, "'") : name;
+}
+
+/**
+ * Read an object name at the start of `text`
+ * @returns The name as written, or an error for unterminated quotes
+ */
+function readName(text: string): { raw: string } | { error: string } {
+  if (text.startsWith("'")) {
+    let index = 1;
+    while (index < text.length) {
+      if (text[index] === "'") {
+        if (text[index + 1] === "'") {
+          index += 2;
+          continue;
+        }
+        return { raw: text.slice(0, index + 1) };
+      }
+      index++;
+    }
+    return { error: 'Unterminated quoted name' };
+  }
+  const match = text.match(/^[^\s=:]+/);
+  return { raw: match ? match[0] : '' };
+}
+
+/**
+ * Parse TMDL source
+ * @param source TMDL for a whole model or any fragment of one
+ * @returns The top-level objects and every error found
+ */
+export function parseTmdl(source: string): TmdlDocument {
+  const lines = source.replace(/\r\n?/g, '\n').split('\n');
+  const objects: TmdlObject[] = [];
+  const errors: TmdlError[] = [];
+  const stack: OpenObject[] = [];
+  let indentUnit: string | null = null;
+  // Assigned in startExpression, so keep TypeScript from narrowing it to null
+  let expression = null as OpenExpression | null;
+  let description: { lines: string[]; line: number } | null = null;
+
+  const error = (message: string, line: number, column = 1, endColumn?: number) => {
+    errors.push({
+      message,
+      line,
+      column,
+      endLine: line,
+      endColumn: endColumn ?? Math.max(lines[line - 1].length + 1, column + 1),
+    });
+  };
+
+  const finishExpression = () => {
+    if (!expression) return;
+    if (expression.fenced) {
+      error('Unterminated ``` expression', expression.line);
+    } else if (expression.width === null) {
+      error("Expected an expression after '='", expression.line);
+    }
+    expression.assign(expression.lines.join('\n').trim());
+    expression = null;
+  };
+
+  // Handle the text after `=`: an inline expression, or the start of a
+  // multi-line or fenced one
+  const startExpression = (value: string, line: number, indentWidth: number, assign: (text: string) => void) => {
+    if (value === '```') {
+      expression = { assign, line, declarationWidth: indentWidth, width: 0, fenced: true, lines: [] };
+    } else if (value) {
+      assign(value);
+    } else {
+      expression = { assign, line, declarationWidth: indentWidth, width: null, fenced: false, lines: [] };
+    }
+  };
+
+  for (let index = 0; index < lines.length; index++) {
+    const lineNumber = index + 1;
+    const line = lines[index].replace(/\s+$/, '');
+    const indent = line.match(/^[ \t]*/)![0];
+
+    if (expression) {
+      if (expression.fenced) {
+        if (line.trim() === '```') {
+          expression.assign(expression.lines.join('\n').trim());
+          expression = null;
+        } else {
+          expression.lines.push(lines[index]);
+        }
+        continue;
+      }
+      if (!line) {
+        expression.lines.push('');
+        continue;
+      }
+      if (expression.width === null && indent.length > expression.declarationWidth) {
+        expression.width = indent.length;
+      }
+      if (expression.width !== null && indent.length >= expression.width) {
+        expression.lines.push(line.slice(expression.width));
+        continue;
+      }
+      finishExpression();
+    }
+
+    if (!line) continue;
+
+    // Work out the nesting depth from the indentation
+    let depth = 0;
+    if (indent) {
+      if (/ /.test(indent) && /\t/.test(indent)) {
+        error('Indentation mixes tabs and spaces', lineNumber, 1, indent.length + 1);
+        continue;
+      }
+      if (indentUnit === null) {
+        indentUnit = indent[0] === '\t' ? '\t' : indent;
+      }
+      if (indent[0] !== indentUnit[0]) {
+        error(
+          indentUnit === '\t' ? 'Indent with tabs, like the lines above' : 'Indent with spaces, like the lines above',
+          lineNumber, 1, indent.length + 1
+        );
+        continue;
+      }
+      if (indent.length % indentUnit.length !== 0) {
+        error(`Indentation must be a multiple of ${indentUnit.length} spaces`, lineNumber, 1, indent.length + 1);
+        continue;
+      }
+      depth = indent.length / indentUnit.length;
+    }
+
+    const content = line.slice(indent.length);
+    const column = indent.length + 1;
+
+    if (content.startsWith('///')) {
+      if (!description) description = { lines: [], line: lineNumber };
+      description.lines.push(content.slice(3).trim());
+      continue;
+    }
+
+    while (stack.length > 0 && stack[stack.length - 1].depth >= depth) {
+      stack.pop();
+    }
+    const parent = stack.length > 0 ? stack[stack.length - 1] : null;
+    const parentDepth = parent ? parent.depth : -1;
+    if (depth > parentDepth + 1) {
+      error(
+        parent
+          ? `Unexpected indentation; children of ${parent.object.type} are indented one level`
+          : 'Unexpected indentation',
+        lineNumber, 1, indent.length + 1
+      );
+      // Carry on as if it were indented correctly, so its children don't
+      // report the same problem
+      depth = parentDepth + 1;
+    }
+
+    const word = content.match(/^[A-Za-z_][A-Za-z0-9_]*/);
+    let keyword = word ? word[0] : '';
+    let rest = content.slice(keyword.length);
+    let modifier: string | null = null;
+
+    if (MODIFIERS.has(keyword)) {
+      const next = rest.match(/^\s+([A-Za-z]+)/);
+      if (next && OBJECT_KEYWORDS.has(next[1])) {
+        modifier = keyword;
+        keyword = next[1];
+        rest = rest.slice(next[0].length);
+      }
+    }
+
+    const keywordColumn = column + content.length - rest.length - keyword.length;
+    const isObject = OBJECT_KEYWORDS.has(keyword) &&
+      (modifier !== null || /^\s+\S/.test(rest) || !rest.trim() || (UNNAMED_OBJECTS.has(keyword) && /^\s*=/.test(rest)));
+
+    if (isObject) {
+      const object: TmdlObject = {
+        type: keyword,
+        name: null,
+        modifier,
+        description: description ? description.lines.join('\n') : null,
+        line: lineNumber,
+        properties: {},
+        expression: null,
+        children: [],
+      };
+      description = null;
+
+      // Name, then an optional `= expression`
+      let afterName = rest.replace(/^\s+/, '');
+      const nameColumn = column + content.length - afterName.length;
+      if (afterName && !afterName.startsWith('=')) {
+        const name = readName(afterName);
+        if ('error' in name) {
+          error(name.error, lineNumber, nameColumn);
+          object.name = afterName.slice(1);
+          afterName = '';
+        } else {
+          object.name = unquote(name.raw);
+          afterName = afterName.slice(name.raw.length).replace(/^\s+/, '');
+          if (afterName && !afterName.startsWith('=')) {
+            error(
+              'Names with spaces or special characters must be enclosed in single quotes',
+              lineNumber, nameColumn, line.length + 1
+            );
+            object.name = content.slice(nameColumn - column).split('=')[0].trim();
+            afterName = afterName.slice(afterName.indexOf('=') >= 0 ? afterName.indexOf('=') : afterName.length);
+          }
+        }
+      }
+
+      if (!object.name && !UNNAMED_OBJECTS.has(keyword)) {
+        error(`Expected a name after '${keyword}'`, lineNumber, keywordColumn, keywordColumn + keyword.length);
+      }
+
+      if (parent && !ANYWHERE.has(keyword)) {
+        const allowed = ALLOWED_PARENTS[keyword];
+        if (allowed && !allowed.includes(parent.object.type)) {
+          error(
+            `A ${keyword} can't be declared in a ${parent.object.type}`,
+            lineNumber, keywordColumn, keywordColumn + keyword.length
+          );
+        }
+      }
+
+      const siblings = parent ? parent.object.children : objects;
+      if (object.name !== null) {
+        const duplicate = siblings.find(sibling =>
+          sibling.type === keyword && sibling.name?.toLowerCase() === object.name!.toLowerCase()
+        );
+        if (duplicate) {
+          error(
+            `Duplicate ${keyword} '${object.name}' (first declared on line ${duplicate.line})`,
+            lineNumber, keywordColumn
+          );
+        }
+      }
+
+      siblings.push(object);
+      stack.push({ object, depth });
+
+      if (afterName.startsWith('=')) {
+        startExpression(afterName.slice(1).trim(), lineNumber, indent.length, text => { object.expression = text; });
+      }
+      continue;
+    }
+
+    if (description) {
+      error('A /// description must come right before an object', description.line);
+      description = null;
+    }
+
+    // Properties: `name: value`, `name = expression` or a bare flag like `isHidden`
+    const property = rest.match(/^\s*([:=])/);
+    if (keyword && (property || !rest.trim())) {
+      if (!parent) {
+        error(`Property '${keyword}' must belong to an object`, lineNumber, keywordColumn, keywordColumn + keyword.length);
+        continue;
+      }
+      const properties = parent.object.properties;
+      if (!property) {
+        properties[keyword] = 'true';
+        continue;
+      }
+      const value = rest.slice(property[0].length).trim();
+      if (property[1] === ':') {
+        if (!value) {
+          error(`Expected a value after '${keyword}:'`, lineNumber, keywordColumn);
+        }
+        properties[keyword] = value;
+        continue;
+      }
+
+      startExpression(value, lineNumber, indent.length, text => { properties[keyword] = text; });
+      continue;
+    }
+
+    error(
+      keyword ? `Unknown object type '${keyword}'` : 'Expected an object declaration or a property',
+      lineNumber, column, keyword ? column + keyword.length : undefined
+    );
+  }
+
+  finishExpression();
+  if (description) {
+    error('A /// description must come right before an object', description.line);
+  }
+
+  validateRelationships(objects, errors, lines);
+  errors.sort((a, b) => a.line - b.line || a.column - b.column);
+  return { objects, errors };
+}
+
+/**
+ * Relationships need both ends, written as Table.Column
+ */
+function validateRelationships(objects: TmdlObject[], errors: TmdlError[], lines: string[]) {
+  for (const object of objects) {
+    if (object.type === 'relationship' && object.modifier !== 'ref') {
+      for (const end of ['fromColumn', 'toColumn']) {
+        const value = object.properties[end];
+        const message = value === undefined
+          ? `Relationship '${object.name ?? ''}' is missing ${end}`
+          : !COLUMN_REFERENCE.test(value)
+            ? `${end} must be written as Table.Column`
+            : null;
+        if (message) {
+          errors.push({
+            message,
+            line: object.line,
+            column: 1,
+            endLine: object.line,
+            endColumn: lines[object.line - 1].length + 1,
+          });
+        }
+      }
+    }
+    validateRelationships(object.children, errors, lines);
+  }
+}
@@ -0,0 +1,142 @@
+import { sql, and, type SQL } from "drizzle-orm";
+import { snippets, votes, comments } from "@db/schema";
+import type { PageParams } from "./pagination";
+
+/**
+ * Trending and Time Windows
+ *
+ * A snippet's trending score is the sum of its votes, each weighed down by
+ * how long ago it was cast: a vote counts half as much after
+ * TRENDING_HALF_LIFE_HOURS, a quarter after twice that, and so on. Scores
+ * are computed in SQL from `votes.created_at` at the page's reference time,
+ * so they stay stable while a user pages through a list.
+ *
+ * The hot score, used by the personalised feed, ranks by recency and votes
+ * together: a snippet's net likes plus one, halved for every
+ * TRENDING_HALF_LIFE_HOURS since it was posted. New snippets start near the
+ * top and need likes to stay there.
+ *
+ * The leaderboard can also be limited to a window (the last week or month),
+ * ranking snippets by the votes or comments they got in that window.
+ */
+
+// Hours after which a vote counts half as much towards the trending score
+export const TRENDING_HALF_LIFE_HOURS =
+  Number(process.env.TRENDING_HALF_LIFE_HOURS) > 0 ? Number(process.env.TRENDING_HALF_LIFE_HOURS) : 48;
+
+export const LEADERBOARD_WINDOWS = ['week', 'month', 'all'] as const;
+export type LeaderboardWindow = typeof LEADERBOARD_WINDOWS[number];
+
+const WINDOW_DAYS: Record<Exclude<LeaderboardWindow, 'all'>, number> = {
+  week: 7,
+  month: 30,
+};
+
+/**
+ * Read the `window` query parameter
+ * @returns The window (`all` when left out), or an error message for a 400 response
+ */
+export function parseLeaderboardWindow(value: unknown): LeaderboardWindow | { error: string } {
+  const timeWindow = (value ?? 'all') as LeaderboardWindow;
+  if (!LEADERBOARD_WINDOWS.includes(timeWindow)) {
+    return { error: `window must be one of: ${LEADERBOARD_WINDOWS.join(', ')}` };
+  }
+  return timeWindow;
+}
+
+/**
+ * When a window starts, counting back from the page's reference time
+ * @returns The start time, or null for `all`
+ */
+export function windowStart(timeWindow: LeaderboardWindow, at: Date): Date | null {
+  if (timeWindow === 'all') return null;
+  return new Date(at.getTime() - WINDOW_DAYS[timeWindow] * 24 * 60 * 60 * 1000);
+}
+
+/**
+ * A snippet's time-decayed vote score at a reference time
+ * @param at The reference time votes are aged against
+ * @param since Only count votes cast after this time
+ */
+export function trendingScoreSql(at: Date, since: Date | null = null): SQL<number> {
+  const ageHours = sql`greatest(extract(epoch from (${at.toISOString()}::timestamp - ${votes.createdAt})) / 3600, 0)`;
+  return sql<number>`(
+    SELECT COALESCE(SUM(${votes.value} * power(0.5, ${ageHours} / ${TRENDING_HALF_LIFE_HOURS})), 0)
+    FROM ${votes}
+    WHERE ${and(
+      sql`${votes.snippetId} = ${snippets.id}`,
+      since ? sql`${votes.createdAt} >= ${since.toISOString()}::timestamp` : undefined
+    )}
+  )::double precision`;
+}
+
+/**
+ * A snippet's score from its votes and age at a reference time
+ * @param at The reference time snippets are aged against
+ */
+export function hotScoreSql(at: Date): SQL<number> {
+  const ageHours = sql`greatest(extract(epoch from (${at.toISOString()}::timestamp - ${snippets.createdAt})) / 3600, 0)`;
+  // Capped so very old snippets score almost nothing instead of underflowing
+  return sql<number>`(
+    (greatest(${snippets.votes}, 0) + 1) * power(0.5, least(${ageHours} / ${TRENDING_HALF_LIFE_HOURS}, 1000))
+  )::double precision`;
+}
+
+/**
+ * A snippet's net votes, counting only votes cast after a time
+ */
+export function windowVotesSql(since: Date): SQL<number> {
+  return sql<number>`(
+    SELECT COALESCE(SUM(${votes.value}), 0) FROM ${votes}
+    WHERE ${votes.snippetId} = ${snippets.id} AND ${votes.createdAt} >= ${since.toISOString()}::timestamp
+  )::integer`;
+}
+
+function windowCommentsSql(since: Date): SQL<number> {
+  return sql<number>`(
+    SELECT COUNT(*) FROM ${comments}
+    WHERE ${comments.snippetId} = ${snippets.id} AND ${comments.createdAt} >= ${since.toISOString()}::timestamp
+      AND ${comments.deletedAt} IS NULL
+  )::integer`;
+}
+
+/**
+ * The sort value and filter for a leaderboard limited to a window. Only
+ * snippets with activity in the window are listed: votes for the votes and
+ * trending sorts, comments for the comments sort, and for the newest and
+ * hot sorts snippets posted in the window.
+ * @param params Parsed page parameters
+ * @param since When the window starts
+ */
+export function windowedLeaderboard(params: PageParams, since: Date): { sortValue: SQL<number>; filter: SQL } {
+  const sinceSql = sql`${since.toISOString()}::timestamp`;
+  const votedInWindow = sql`EXISTS (
+    SELECT 1 FROM ${votes}
+    WHERE ${votes.snippetId} = ${snippets.id} AND ${votes.createdAt} >= ${sinceSql}
+  )`;
+
+  switch (params.sort) {
+    case 'comments':
+      return {
+        sortValue: sql<number>`${windowCommentsSql(since)}::double precision`,
+        filter: sql`EXISTS (
+          SELECT 1 FROM ${comments}
+          WHERE ${comments.snippetId} = ${snippets.id} AND ${comments.createdAt} >= ${sinceSql}
+            AND ${comments.deletedAt} IS NULL
+        )`,
+      };
+    case 'trending':
+      return { sortValue: trendingScoreSql(params.at, since), filter: votedInWindow };
+    case 'hot':
+      return { sortValue: hotScoreSql(params.at), filter: sql`${snippets.createdAt} >= ${sinceSql}` };
+    case 'newest':
+    case 'relevance':
+      return {
+        sortValue: sql<number>`extract(epoch from ${snippets.createdAt})::double precision`,
+        filter: sql`${snippets.createdAt} >= ${sinceSql}`,
+      };
+    case 'votes':
+    default:
+      return { sortValue: sql<number>`${windowVotesSql(since)}::double precision`, filter: votedInWindow };
+  }
+}
@@ -0,0 +1,168 @@
+import { db, type DbExecutor } from "@db";
+import { snippets, votes } from "@db/schema";
+import { eq, and, isNull, sql } from "drizzle-orm";
+
+/**
+ * Votes
+ *
+ * Each voter has at most one vote per snippet: +1 for a like or -1 for a
+ * downvote. Logged-in voters are identified by user id, anonymous ones by
+ * IP address. `snippets.votes` is a denormalised sum of the vote values
+ * that the leaderboard sorts on; every change locks the snippet row so
+ * concurrent votes adjust it one at a time, and reconcileVoteCounts
+ * recomputes it from the votes table in case it drifts anyway.
+ */
+
+export type VoteValue = 1 | -1;
+
+export interface Voter {
+  userId: number | null;
+  ipAddress: string | null;
+}
+
+// How often the server recomputes the vote counters
+export const VOTE_RECONCILE_INTERVAL = 60 * 60 * 1000;
+
+const voterCondition = (snippetId: number, voter: Voter) => and(
+  eq(votes.snippetId, snippetId),
+  voter.userId !== null
+    ? eq(votes.userId, voter.userId)
+    : and(isNull(votes.userId), eq(votes.ipAddress, voter.ipAddress ?? ''))
+);
+
+/**
+ * Lock a snippet's row for the rest of the transaction
+ * @returns False if the snippet doesn't exist
+ */
+async function lockSnippet(executor: DbExecutor, snippetId: number) {
+  const [snippet] = await executor
+    .select({ id: snippets.id })
+    .from(snippets)
+    .where(eq(snippets.id, snippetId))
+    .for('update');
+  return Boolean(snippet);
+}
+
+async function adjustCount(executor: DbExecutor, snippetId: number, delta: number) {
+  const [updated] = await executor
+    .update(snippets)
+    .set({ votes: sql`${snippets.votes} + ${delta}` })
+    .where(eq(snippets.id, snippetId))
+    .returning({ votes: snippets.votes });
+  return updated.votes;
+}
+
+/**
+ * Get a voter's vote on a snippet
+ * @returns The vote's value, or null if they haven't voted
+ */
+export async function getVote(snippetId: number, voter: Voter): Promise<VoteValue | null> {
+  const [vote] = await db
+    .select({ value: votes.value })
+    .from(votes)
+    .where(voterCondition(snippetId, voter))
+    .limit(1);
+  return vote ? vote.value as VoteValue : null;
+}
+
+/**
+ * Record a vote, or change the value of the voter's existing vote
+ * @param snippetId The snippet voted on
+ * @param voter Who is voting
+ * @param value +1 or -1
+ * @returns 'not_found' if the snippet doesn't exist, 'unchanged' if the voter
+ * already cast this vote, or the snippet's new vote count
+ */
+export async function castVote(snippetId: number, voter: Voter, value: VoteValue) {
+  return db.transaction(async (tx): Promise<'not_found' | 'unchanged' | { votes: number }> => {
+    if (!(await lockSnippet(tx, snippetId))) return 'not_found';
+
+    const [existing] = await tx
+      .select({ id: votes.id, value: votes.value })
+      .from(votes)
+      .where(voterCondition(snippetId, voter))
+      .limit(1);
+
+    if (existing?.value === value) return 'unchanged';
+
+    if (existing) {
+      // Changing a vote counts as casting it again for trending scores
+      await tx.update(votes).set({ value, createdAt: new Date() }).where(eq(votes.id, existing.id));
+    } else {
+      await tx.insert(votes).values({
+        snippetId,
+        userId: voter.userId,
+        ipAddress: voter.userId !== null ? null : voter.ipAddress,
+        value,
+      });
+    }
+
+    return { votes: await adjustCount(tx, snippetId, value - (existing?.value ?? 0)) };
+  });
+}
+
+/**
+ * Take back a voter's vote on a snippet
+ * @returns 'not_found' if the snippet doesn't exist, 'not_voted' if the voter
+ * has no vote on it, or the snippet's new vote count
+ */
+export async function retractVote(snippetId: number, voter: Voter) {
+  return db.transaction(async (tx): Promise<'not_found' | 'not_voted' | { votes: number }> => {
+    if (!(await lockSnippet(tx, snippetId))) return 'not_found';
+
+    const [removed] = await tx
+      .delete(votes)
+      .where(voterCondition(snippetId, voter))
+      .returning({ value: votes.value });
+
+    if (!removed) return 'not_voted';
+    return { votes: await adjustCount(tx, snippetId, -removed.value) };
+  });
+}
+
+/**
+ * Recompute every snippet's vote count from the votes table. The snippet
+ * rows are locked first, as castVote and retractVote lock them, so a vote
+ * in progress either commits before the count is taken or waits until the
+ * corrected count is written.
+ * @returns The ids of the snippets whose count had drifted
+ */
+export async function reconcileVoteCounts(): Promise<number[]> {
+  return db.transaction(async (tx) => {
+    await tx.select({ id: snippets.id }).from(snippets).orderBy(snippets.id).for('update');
+
+    const result = await tx.execute(sql`
+      UPDATE ${snippets} s
+      SET votes = counted.total
+      FROM (
+        SELECT s2.id, COALESCE(SUM(v.value), 0)::integer AS total
+        FROM ${snippets} s2
+        LEFT JOIN ${votes} v ON v.snippet_id = s2.id
+        GROUP BY s2.id
+      ) counted
+      WHERE s.id = counted.id AND s.votes <> counted.total
+      RETURNING s.id
+    `);
+    return (result.rows as { id: number }[]).map(row => row.id);
+  });
+}
+
+/**
+ * Run reconcileVoteCounts now and then every VOTE_RECONCILE_INTERVAL,
+ * logging any counters it had to correct
+ */
+export function scheduleVoteReconciliation() {
+  const run = async () => {
+    try {
+      const corrected = await reconcileVoteCounts();
+      if (corrected.length > 0) {
+        console.log(`Corrected vote counts of ${corrected.length} snippet(s): ${corrected.join(', ')}`);
+      }
+    } catch (error) {
+      console.error('Error reconciling vote counts:', error);
+    }
+  };
+
+  run();
+  return setInterval(run, VOTE_RECONCILE_INTERVAL);
+}
@@ -0,0 +1,20 @@
+import { defineConfig } from "vitest/config";
+import path, { dirname } from "path";
+import { fileURLToPath } from "url";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+// Server and script tests; they run in Node without the client build
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@db": path.resolve(__dirname, "db"),
+      "@": path.resolve(__dirname, "client", "src"),
+    },
+  },
+  test: {
+    include: ["server/**/*.test.ts", "scripts/**/*.test.ts"],
+    environment: "node",
+  },
+});